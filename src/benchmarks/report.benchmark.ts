@@ -0,0 +1,220 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generateAttendanceReport } from '../generate_attendance_report';
+import { Principal, RsvpStatus } from '../interfaces';
+import { RsvpService } from '../services/RsvpService';
+import { ILogger } from '../utils/logger.interface';
+
+// Usage: npm run bench -- [rows ...]
+// Generates RSVP files of growing size and reports the peak live heap of each
+// report run, for two workloads:
+// - updates: a fixed league whose player/event pairs are answered over and
+//   over, so the peak should not grow with the rows;
+// - pairs: every row answers a new pair, with as many players as that takes.
+//   The report keeps the latest RSVP of every pair and lists every player's
+//   name at every event, so the peak grows with the pairs; it should stay
+//   within a fixed cost per pair.
+
+const PLAYERS = 500;
+const EVENTS = 40;
+const DEFAULT_ROWS = [100_000, 300_000, 1_000_000];
+// Each sample collects garbage first, so it measures what the run holds on to
+const SAMPLE_INTERVAL_MS = 250;
+// How much more the largest updates run may hold on to than the smallest
+const MAX_EXTRA_MB = 16;
+// How much the largest pairs run may hold on to per distinct pair
+const MAX_BYTES_PER_PAIR = 512;
+const STATUSES: RsvpStatus[] = ['Yes', 'No', 'Maybe'];
+const admin: Principal = { role: 'admin', id: 'bench' };
+
+const silentLogger: ILogger = {
+  log: () => {},
+  warn: () => {},
+  error: () => {},
+  debug: () => {},
+};
+
+// How the rows of a run are spread over player/event pairs
+type Workload = 'updates' | 'pairs';
+
+interface RunResult {
+  workload: Workload;
+  rows: number;
+  pairs: number; // Distinct player/event pairs
+  fileMb: number;
+  baseHeapMb: number; // Live heap before the run, mostly ts-node itself
+  peakHeapMb: number;
+  growthMb: number; // Peak minus base
+  bytesPerPair: number; // Growth per distinct pair
+}
+
+async function main(): Promise<void> {
+  const sizes = process.argv.slice(2).map(Number);
+  const rowCounts = sizes.length > 0 ? sizes : DEFAULT_ROWS;
+  if (rowCounts.some((rows) => !Number.isInteger(rows) || rows <= 0)) {
+    throw new Error('Row counts must be positive integers.');
+  }
+  if (!global.gc) {
+    throw new Error('Run with --expose-gc, e.g. via `npm run bench`.');
+  }
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rsvp-bench-'));
+  try {
+    const updates: RunResult[] = [];
+    const pairs: RunResult[] = [];
+    for (const rows of rowCounts) {
+      updates.push(await runReport(tempDir, rows, 'updates'));
+    }
+    for (const rows of rowCounts) {
+      pairs.push(await runReport(tempDir, rows, 'pairs'));
+    }
+    console.table([...updates, ...pairs]);
+
+    const [first, last] = [updates[0], updates[updates.length - 1]];
+    const extra = round(last.growthMb - first.growthMb);
+    console.log(
+      `updates: ${(last.rows / first.rows).toFixed(1)}x the rows held ${extra} MB more (limit ${MAX_EXTRA_MB} MB).`
+    );
+    const largest = pairs[pairs.length - 1];
+    console.log(
+      `pairs: ${largest.pairs} pairs held ${largest.bytesPerPair} bytes each (limit ${MAX_BYTES_PER_PAIR}).`
+    );
+    benchmarkCounts();
+    if (extra > MAX_EXTRA_MB) {
+      console.error('Memory use grows with the number of rows.');
+      process.exitCode = 1;
+    }
+    if (largest.bytesPerPair > MAX_BYTES_PER_PAIR) {
+      console.error('Memory use per player/event pair is too high.');
+      process.exitCode = 1;
+    }
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+function writeLeague(dir: string, playerCount: number): void {
+  const players = ['player_id,player_name,player_email,gender,age'];
+  for (let id = 1; id <= playerCount; id++) {
+    players.push(
+      `${id},Player ${id},p${id}@example.com,Female,${20 + (id % 30)}`
+    );
+  }
+  const events = ['event_id,event_name,event_location,event_date'];
+  for (let id = 1; id <= EVENTS; id++) {
+    events.push(
+      `${id},Event ${id},Park,2025-01-${String((id % 28) + 1).padStart(2, '0')}`
+    );
+  }
+  fs.writeFileSync(path.join(dir, 'players.csv'), `${players.join('\n')}\n`);
+  fs.writeFileSync(path.join(dir, 'events.csv'), `${events.join('\n')}\n`);
+}
+
+// Writes the RSVP file in chunks, cycling through the pairs of `playerCount`
+// players and every event.
+function writeRsvps(filePath: string, rows: number, playerCount: number): void {
+  const fd = fs.openSync(filePath, 'w');
+  try {
+    fs.writeSync(fd, 'rsvp_id,event_id,player_id,status,guests\n');
+    let chunk = '';
+    for (let id = 1; id <= rows; id++) {
+      const pair = id % (playerCount * EVENTS);
+      const event = (pair % EVENTS) + 1;
+      const player = Math.floor(pair / EVENTS) + 1;
+      chunk += `${id},${event},${player},${STATUSES[id % STATUSES.length]},${id % 3}\n`;
+      if (chunk.length > 1 << 20) {
+        fs.writeSync(fd, chunk);
+        chunk = '';
+      }
+    }
+    fs.writeSync(fd, chunk);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+async function runReport(
+  dir: string,
+  rows: number,
+  workload: Workload
+): Promise<RunResult> {
+  const playerCount =
+    workload === 'updates' ? PLAYERS : Math.ceil(rows / EVENTS);
+  const rsvpFilePath = path.join(dir, 'rsvp.csv');
+  writeLeague(dir, playerCount);
+  writeRsvps(rsvpFilePath, rows, playerCount);
+  global.gc?.();
+
+  const base = process.memoryUsage().heapUsed;
+  let peak = base;
+  const sampler = setInterval(() => {
+    global.gc?.();
+    peak = Math.max(peak, process.memoryUsage().heapUsed);
+  }, SAMPLE_INTERVAL_MS);
+  try {
+    await generateAttendanceReport(
+      {
+        playersFilePath: path.join(dir, 'players.csv'),
+        eventsFilePath: path.join(dir, 'events.csv'),
+        rsvpFilePath,
+        outputFilePath: path.join(dir, 'report.html'),
+      },
+      { logger: silentLogger }
+    );
+  } finally {
+    clearInterval(sampler);
+  }
+  global.gc?.();
+  peak = Math.max(peak, process.memoryUsage().heapUsed);
+  const pairs = Math.min(rows, playerCount * EVENTS);
+  return {
+    workload,
+    rows,
+    pairs,
+    fileMb: toMb(fs.statSync(rsvpFilePath).size),
+    baseHeapMb: toMb(base),
+    peakHeapMb: toMb(peak),
+    growthMb: toMb(peak - base),
+    bytesPerPair: Math.round((peak - base) / pairs),
+  };
+}
+
+// Reads the counts of one event after a growing number of writes; the time per
+// read should not grow with them.
+function benchmarkCounts(): void {
+  const service = new RsvpService(silentLogger);
+  const reads = 10_000;
+  let writes = 0;
+  for (const target of [1_000, 10_000, 100_000]) {
+    for (; writes < target; writes++) {
+      service.addOrUpdateRsvp(
+        admin,
+        '1',
+        `p${writes % 5_000}`,
+        STATUSES[writes % STATUSES.length]
+      );
+    }
+    const start = process.hrtime.bigint();
+    for (let i = 0; i < reads; i++) {
+      service.getCounts('1');
+    }
+    const micros = Number(process.hrtime.bigint() - start) / 1e3 / reads;
+    console.log(
+      `getCounts after ${writes} writes: ${micros.toFixed(2)} µs per read`
+    );
+  }
+}
+
+function toMb(bytes: number): number {
+  return round(bytes / 1024 / 1024);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
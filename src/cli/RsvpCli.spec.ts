@@ -0,0 +1,591 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RsvpCli, CliIo, EXIT_OK, EXIT_FAILURE, EXIT_USAGE } from './RsvpCli';
+
+describe('RsvpCli', () => {
+  let tempDir: string;
+  let stdout: string[];
+  let stderr: string[];
+  let cli: RsvpCli;
+
+  beforeEach(() => {
+    // Every test works in its own directory, so relative paths and the store are isolated
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rsvp-cli-'));
+    stdout = [];
+    stderr = [];
+    const io: CliIo = {
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text),
+    };
+    cli = new RsvpCli(io, tempDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const run = (...argv: string[]) =>
+    cli.run([...argv, '--store', 'store.jsonl']);
+
+  describe('set', () => {
+    it('should store an RSVP and persist it for later commands', async () => {
+      expect(await run('set', 'e1', 'p1', 'Yes')).toBe(EXIT_OK);
+      expect(stdout).toEqual(['Player p1 is now Yes for event e1.']);
+      expect(fs.existsSync(path.join(tempDir, 'store.jsonl'))).toBe(true);
+
+      stdout = [];
+      expect(await run('list', '--event', 'e1', '--json')).toBe(EXIT_OK);
+      expect(JSON.parse(stdout[0])).toEqual({
+        eventId: 'e1',
+        rsvps: [
+          { playerId: 'p1', status: 'Yes', guests: 0, waitlisted: false },
+        ],
+      });
+    });
+
+    it('should reject an invalid status with a usage exit code', async () => {
+      expect(await run('set', 'e1', 'p1', 'Nope')).toBe(EXIT_USAGE);
+      expect(stderr[0]).toBe(
+        'Error: Invalid status "Nope"; expected one of Yes, No, Maybe.'
+      );
+      expect(stdout).toEqual([]);
+    });
+
+    it('should reject missing arguments', async () => {
+      expect(await run('set', 'e1')).toBe(EXIT_USAGE);
+    });
+
+    it('should store guests with --guests and show them in list and counts', async () => {
+      expect(await run('set', 'e1', 'p1', 'Yes', '--guests', '2')).toBe(
+        EXIT_OK
+      );
+      expect(stdout).toEqual([
+        'Player p1 is now Yes for event e1 (+2 guests).',
+      ]);
+      expect(await run('set', 'e1', 'p1', 'Yes', '--guests', 'two')).toBe(
+        EXIT_USAGE
+      );
+
+      stdout = [];
+      await run('list', '--event', 'e1');
+      await run('counts', '--event', 'e1');
+      expect(stdout).toEqual([
+        'p1\tYes (+2 guests)',
+        'event\ttotal\tyes\tno\tmaybe\twaitlisted\tguests\theadcount\ne1\t1\t1\t0\t0\t0\t2\t3',
+      ]);
+    });
+  });
+
+  describe('remove', () => {
+    it('should remove an RSVP and fail when there is none', async () => {
+      await run('set', 'e1', 'p1', 'Yes');
+      stdout = [];
+      expect(await run('remove', 'e1', 'p1')).toBe(EXIT_OK);
+      expect(stdout).toEqual(['Removed the RSVP of player p1 for event e1.']);
+      expect(await run('remove', 'e1', 'p1')).toBe(EXIT_FAILURE);
+      expect(await run('remove', 'e1')).toBe(EXIT_USAGE);
+    });
+  });
+
+  describe('schedule', () => {
+    it('should lock an event and allow an organizer override', async () => {
+      expect(
+        await run(
+          'schedule',
+          'e1',
+          '--date',
+          '2000-01-02',
+          '--cutoff-hours',
+          '24'
+        )
+      ).toBe(EXIT_OK);
+      expect(stdout).toEqual([
+        'Event e1: RSVPs lock at 2000-01-01T00:00:00.000Z.',
+      ]);
+
+      expect(await run('set', 'e1', 'p1', 'Yes', '--json')).toBe(EXIT_FAILURE);
+      expect(JSON.parse(stderr[0]).error.code).toBe('LOCKED');
+      expect(await run('set', 'e1', 'p1', 'Yes', '--override')).toBe(EXIT_OK);
+    });
+
+    it('should import every event_date from an events CSV', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'events.csv'),
+        'event_id,event_name,event_location,event_date\n1,Game,Park,2099-05-01\n2,Cup,Gym,2099-06-01\n'
+      );
+      expect(
+        await run(
+          'schedule',
+          '--events',
+          'events.csv',
+          '--cutoff-hours',
+          '0',
+          '--json'
+        )
+      ).toBe(EXIT_OK);
+      expect(JSON.parse(stdout[0])).toEqual([
+        {
+          eventId: '1',
+          eventDate: '2099-05-01T00:00:00.000Z',
+          locksAt: '2099-05-01T00:00:00.000Z',
+        },
+        {
+          eventId: '2',
+          eventDate: '2099-06-01T00:00:00.000Z',
+          locksAt: '2099-06-01T00:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('should define recurring series and take series-level RSVPs', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'events.csv'),
+        'event_id,event_name,event_location,event_date,recurrence\n1,Training,Gym,2099-05-05T18:00:00Z,FREQ=WEEKLY;COUNT=2\n'
+      );
+      expect(await run('schedule', '--events', 'events.csv')).toBe(EXIT_OK);
+      expect(stdout).toEqual([
+        'Event 1@2099-05-05: RSVPs lock at 2099-05-05T18:00:00.000Z.\n' +
+          'Event 1@2099-05-12: RSVPs lock at 2099-05-12T18:00:00.000Z.',
+      ]);
+
+      stdout = [];
+      expect(await run('set', '1', 'p1', 'Yes', '--series')).toBe(EXIT_OK);
+      expect(await run('set', '1@2099-05-12', 'p1', 'No')).toBe(EXIT_OK);
+      expect(await run('list', '--event', '1@2099-05-05', '--json')).toBe(
+        EXIT_OK
+      );
+      expect(JSON.parse(stdout[2]).rsvps).toEqual([
+        expect.objectContaining({ playerId: 'p1', status: 'Yes' }),
+      ]);
+      expect(await run('remove', '1', 'p1', '--series')).toBe(EXIT_OK);
+      expect(await run('set', '2', 'p1', 'Yes', '--series')).toBe(EXIT_FAILURE);
+      expect(stderr).toEqual([
+        'Error: Unknown series "2"; define it with schedule --events first.',
+      ]);
+    });
+
+    it('should reject invalid dates', async () => {
+      expect(await run('schedule', 'e1', '--date', 'someday')).toBe(EXIT_USAGE);
+      expect(stderr[0]).toBe('Error: Invalid date "someday" for --date.');
+    });
+  });
+
+  describe('remind', () => {
+    it('should write reminders to the outbox once per event and window', async () => {
+      const soon = new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString();
+      fs.writeFileSync(
+        path.join(tempDir, 'players.csv'),
+        'player_id,player_name,player_email,gender,age\n1,Ann,ann@x.com,Female,30\n2,Ben,ben@x.com,Male,25\n3,Cy,not-an-email,Male,41\n'
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'events.csv'),
+        `event_id,event_name,event_location,event_date\n1,Game,Park,${soon}\n`
+      );
+      await run('set', '1', '2', 'Yes');
+      stdout = [];
+
+      expect(await run('remind', '--json')).toBe(EXIT_OK);
+      expect(JSON.parse(stdout[0])).toMatchObject({
+        sent: ['1:1d:1'],
+        alreadySent: 0,
+      });
+      expect(fs.readdirSync(path.join(tempDir, 'outbox'))).toEqual([
+        '1_1d_1.eml',
+      ]);
+      expect(stderr).toContain(
+        'Warning: skipping players.csv:4: email "not-an-email" is not a valid email address.'
+      );
+
+      stdout = [];
+      expect(await run('remind')).toBe(EXIT_OK);
+      expect(stdout).toEqual(['Sent 0 reminder(s); 1 already sent, 0 failed.']);
+      expect(await run('remind', '--smtp', 'nonsense')).toBe(EXIT_USAGE);
+    });
+  });
+
+  describe('list', () => {
+    it('should require --event', async () => {
+      expect(await run('list')).toBe(EXIT_USAGE);
+      expect(stderr[0]).toBe('Error: list requires --event <id>.');
+    });
+
+    it('should filter by --status', async () => {
+      await run('set', 'e1', 'p1', 'Yes');
+      await run('set', 'e1', 'p2', 'No');
+      stdout = [];
+      await run('list', '--event', 'e1', '--status', 'No');
+      expect(stdout).toEqual(['p2\tNo']);
+    });
+  });
+
+  describe('counts', () => {
+    it('should print counts for every event as JSON', async () => {
+      await run('set', 'e1', 'p1', 'Yes');
+      await run('set', 'e2', 'p1', 'Maybe');
+      stdout = [];
+      expect(await run('counts', '--json')).toBe(EXIT_OK);
+      expect(JSON.parse(stdout[0])).toEqual({
+        e1: {
+          total: 1,
+          confirmed: 1,
+          declined: 0,
+          maybe: 0,
+          waitlisted: 0,
+          guests: 0,
+          headcount: 1,
+        },
+        e2: {
+          total: 1,
+          confirmed: 0,
+          declined: 0,
+          maybe: 1,
+          waitlisted: 0,
+          guests: 0,
+          headcount: 0,
+        },
+      });
+    });
+
+    it('should print a table for a single event', async () => {
+      await run('set', 'e1', 'p1', 'No');
+      stdout = [];
+      await run('counts', '--event', 'e1');
+      expect(stdout[0].split('\n')).toEqual([
+        'event\ttotal\tyes\tno\tmaybe\twaitlisted\tguests\theadcount',
+        'e1\t1\t0\t1\t0\t0\t0\t0',
+      ]);
+    });
+  });
+
+  describe('report', () => {
+    it('should generate the report from configurable paths', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'p.csv'),
+        'player_id,player_name,player_email,gender,age\n1,Ann,ann@x.com,Female,30\n'
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'e.csv'),
+        'event_id,event_name,event_location,event_date\n1,Game,Park,2025-01-01\n'
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'r.csv'),
+        'rsvp_id,event_id,player_id,status\n1,1,1,Yes\n'
+      );
+
+      const exitCode = await cli.run([
+        'report',
+        '--players',
+        'p.csv',
+        '--events',
+        'e.csv',
+        '--rsvps',
+        'r.csv',
+        '--out',
+        'out/report.html',
+        '--json',
+      ]);
+      // The output directory doesn't exist, so writing fails with a non-zero exit code
+      expect(exitCode).toBe(EXIT_FAILURE);
+      expect(JSON.parse(stderr[0]).error.code).toBe('FAILURE');
+
+      fs.mkdirSync(path.join(tempDir, 'out'));
+      stderr = [];
+      expect(
+        await cli.run([
+          'report',
+          '--players',
+          'p.csv',
+          '--events',
+          'e.csv',
+          '--rsvps',
+          'r.csv',
+          '--out',
+          'out/report.html',
+          '--json',
+        ])
+      ).toBe(EXIT_OK);
+      expect(JSON.parse(stdout[0])).toEqual({
+        output: path.join(tempDir, 'out/report.html'),
+        format: 'html',
+        events: 1,
+      });
+      expect(
+        fs.readFileSync(path.join(tempDir, 'out/report.html'), 'utf8')
+      ).toContain('Ann');
+      expect(stderr).toEqual([]); // Logs stay off stdout and stderr without --verbose
+    });
+
+    it('should fail with exit code 1 when an input file is missing', async () => {
+      expect(await cli.run(['report', '--players', 'missing.csv'])).toBe(
+        EXIT_FAILURE
+      );
+      expect(stderr[0]).toContain('Input file not found');
+    });
+  });
+
+  describe('validate', () => {
+    beforeEach(() => {
+      fs.writeFileSync(
+        path.join(tempDir, 'players.csv'),
+        'player_id,player_name,player_email,gender,age\n1,Ann,ann@x.com,Female,30\n'
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'events.csv'),
+        'event_id,event_name,event_location,event_date\n1,Game,Park,2025-01-01\n'
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'rsvp.csv'),
+        'rsvp_id,event_id,player_id,status\n1,1,1,Yes\n2,1,7,Yes\n'
+      );
+    });
+
+    it('should list findings and exit with 1 when there are errors', async () => {
+      expect(await cli.run(['validate'])).toBe(EXIT_FAILURE);
+      expect(stdout[0].split('\n')).toEqual([
+        '1 error(s), 0 warning(s).',
+        'error\trsvp.csv:3\tunknown-player\tRSVP 2 references unknown player_id 7.',
+      ]);
+
+      stdout = [];
+      await cli.run(['validate', '--json']);
+      expect(JSON.parse(stdout[0])).toMatchObject({
+        errorCount: 1,
+        warningCount: 0,
+        findings: [{ file: 'rsvp.csv', row: 3, rule: 'unknown-player' }],
+      });
+    });
+
+    it('should make a strict report fail without writing the output', async () => {
+      expect(await cli.run(['report', '--strict', '--json'])).toBe(
+        EXIT_FAILURE
+      );
+      expect(JSON.parse(stderr[0]).error).toMatchObject({
+        code: 'VALIDATION',
+        findings: [{ rule: 'unknown-player' }],
+      });
+      expect(fs.existsSync(path.join(tempDir, 'attendance_report.html'))).toBe(
+        false
+      );
+
+      // Without --strict the report is still written
+      expect(await cli.run(['report'])).toBe(EXIT_OK);
+      expect(fs.existsSync(path.join(tempDir, 'attendance_report.html'))).toBe(
+        true
+      );
+    });
+  });
+
+  it('should print usage for help and reject unknown commands and options', async () => {
+    expect(await cli.run(['help'])).toBe(EXIT_OK);
+    expect(stdout[0]).toContain('Usage: rsvp <command>');
+    expect(await cli.run(['frobnicate'])).toBe(EXIT_USAGE);
+    expect(await cli.run(['counts', '--bogus'])).toBe(EXIT_USAGE);
+  });
+
+  it('should render other report formats with a matching default file name', async () => {
+    fs.writeFileSync(
+      path.join(tempDir, 'players.csv'),
+      'player_id,player_name,player_email,gender,age\n1,Ann,ann@x.com,Female,30\n'
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'events.csv'),
+      'event_id,event_name,event_location,event_date\n1,Game,Park,2025-01-01\n'
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'rsvp.csv'),
+      'rsvp_id,event_id,player_id,status\n1,1,1,Yes\n'
+    );
+
+    expect(await cli.run(['report', '--format', 'md'])).toBe(EXIT_OK);
+    expect(
+      fs.readFileSync(path.join(tempDir, 'attendance_report.md'), 'utf8')
+    ).toContain('| 1 | Game | Ann | 1 |');
+    expect(await cli.run(['report', '--format', 'pdf'])).toBe(EXIT_USAGE);
+  });
+
+  it('should record check-ins and report reliability from the store and CSVs', async () => {
+    await run('set', '1', '1', 'Yes');
+    await run('set', '1', '2', 'Yes');
+    expect(await run('checkin', '1', '1')).toBe(EXIT_OK);
+    expect(await run('checkin', '1', '2')).toBe(EXIT_OK);
+    expect(await run('checkin', '1', '2', '--undo')).toBe(EXIT_OK);
+    expect(await run('checkin', '1', '2', '--undo')).toBe(EXIT_FAILURE);
+
+    stdout = [];
+    await run('reliability');
+    expect(stdout[0].split('\n')).toEqual([
+      'player\tevents\tresponded\tyes\tno-shows\tmaybe\tmaybe-attended\tattended\tscore',
+      '1\t1\t1\t1\t0\t0\t0\t1\t100',
+      '2\t1\t1\t1\t1\t0\t0\t0\t33',
+    ]);
+
+    fs.writeFileSync(
+      path.join(tempDir, 'players.csv'),
+      'player_id,player_name,player_email,gender,age\n1,Ann,ann@x.com,Female,30\n'
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'events.csv'),
+      'event_id,event_name,event_location,event_date\n1,Game,Park,2025-01-01\n'
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'rsvp.csv'),
+      'rsvp_id,event_id,player_id,status\n1,1,1,Yes\n'
+    );
+    expect(await cli.run(['report', '--format', 'md', '--reliability'])).toBe(
+      EXIT_FAILURE // No checkins.csv yet
+    );
+    expect(stderr.pop()).toContain('Input file not found');
+    fs.writeFileSync(
+      path.join(tempDir, 'checkins.csv'),
+      'event_id,player_id\n1,1\n'
+    );
+    expect(await cli.run(['report', '--format', 'md', '--reliability'])).toBe(
+      EXIT_OK
+    );
+    expect(
+      fs.readFileSync(path.join(tempDir, 'attendance_report.md'), 'utf8')
+    ).toContain('| Ann | 1 | 1 (100%) | 1 | 0 of 1 (0%) | 0 of 0 (-) | 100 |');
+  });
+
+  it('should split confirmed players into teams and export them', async () => {
+    fs.writeFileSync(
+      path.join(tempDir, 'players.csv'),
+      'player_id,player_name,player_email,gender,age\n1,Ann,,Female,30\n2,Ben,,Male,25\n3,Cy,,Male,41\n4,Dee,,Female,35\n'
+    );
+    for (const playerId of ['1', '2', '3', '4']) {
+      await run('set', 'e1', playerId, 'Yes');
+    }
+
+    stdout = [];
+    const teams = (...argv: string[]) =>
+      run('teams', '--event', 'e1', '--seed', 'cup', ...argv);
+    expect(await teams('--together', '1,3', '--json')).toBe(EXIT_OK);
+    const result = JSON.parse(stdout[0]);
+    expect(result.seed).toBe('cup');
+    expect(result.teams.map((team: any) => team.player_names)).toEqual(
+      expect.arrayContaining([
+        ['Ann', 'Cy'],
+        ['Ben', 'Dee'],
+      ])
+    );
+
+    expect(await teams('--together', '1,3', '--out', 'teams.csv')).toBe(
+      EXIT_OK
+    );
+    expect(
+      fs.readFileSync(path.join(tempDir, 'teams.csv'), 'utf8').split('\n')
+    ).toHaveLength(6); // Header, four players and the final newline
+
+    expect(await teams('--teams', '5', '--json')).toBe(EXIT_FAILURE);
+    expect(JSON.parse(stderr[0]).error.code).toBe('TEAM_CONSTRAINT');
+    expect(await teams('--teams', 'two')).toBe(EXIT_USAGE);
+  });
+
+  it('should export the league and per-player calendars', async () => {
+    fs.writeFileSync(
+      path.join(tempDir, 'players.csv'),
+      'player_id,player_name,player_email,gender,age\n1,Ann,ann@x.com,Female,30\n2,Ben,,Male,25\n'
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'events.csv'),
+      'event_id,event_name,event_location,event_date\n1,Game,Park,2025-01-01\n2,Cup,Gym,2025-01-08\n'
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'rsvp.csv'),
+      'rsvp_id,event_id,player_id,status\n1,1,1,Yes\n2,2,1,Maybe\n3,1,2,No\n'
+    );
+    const read = (file: string) =>
+      fs.readFileSync(path.join(tempDir, file), 'utf8');
+
+    expect(await cli.run(['calendar'])).toBe(EXIT_OK);
+    expect(read('calendar.ics').match(/BEGIN:VEVENT/g)).toHaveLength(2);
+
+    expect(await cli.run(['calendar', '--player', '1'])).toBe(EXIT_OK);
+    expect(read('calendar-1.ics')).toContain('STATUS:TENTATIVE');
+
+    stdout = [];
+    expect(await cli.run(['calendar', '--out-dir', 'feeds', '--json'])).toBe(
+      EXIT_OK
+    );
+    expect(JSON.parse(stdout[0]).outputs).toEqual(
+      ['league.ics', 'player-1.ics', 'player-2.ics'].map((file) =>
+        path.join(tempDir, 'feeds', file)
+      )
+    );
+    expect(read('feeds/player-2.ics')).not.toContain('BEGIN:VEVENT');
+
+    expect(await cli.run(['calendar', '--player', '9'])).toBe(EXIT_FAILURE);
+    expect(
+      await cli.run(['calendar', '--out-dir', 'feeds', '--player', '1'])
+    ).toBe(EXIT_USAGE);
+  });
+
+  it('should show what changed between two RSVP snapshots', async () => {
+    fs.writeFileSync(
+      path.join(tempDir, 'old.csv'),
+      'rsvp_id,event_id,player_id,status,guests\n1,1,1,Yes,\n2,1,2,Maybe,\n3,2,1,Yes,1\n'
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'new.csv'),
+      'rsvp_id,event_id,player_id,status,guests\n1,1,1,No,\n3,2,1,Yes,2\n4,2,3,Yes,\n'
+    );
+
+    expect(await cli.run(['diff', 'old.csv', 'new.csv'])).toBe(EXIT_OK);
+    expect(stdout[0].split('\n')).toEqual([
+      'Event 1: 0 new, 1 withdrawn, 1 changed, 0 guest change(s)',
+      '  - 2 (was Maybe)',
+      '  ~ 1 Yes -> No',
+      '  yes 1 -> 0, no 0 -> 1, maybe 1 -> 0, guests 0 -> 0, headcount 1 -> 0',
+      'Event 2: 1 new, 0 withdrawn, 0 changed, 1 guest change(s)',
+      '  + 3 Yes',
+      '  ~ 1 Yes, guests 1 -> 2',
+      '  yes 1 -> 2, no 0 -> 0, maybe 0 -> 0, guests 1 -> 2, headcount 2 -> 4',
+      '1 new, 1 withdrawn, 1 changed, 1 guest change(s) across 2 event(s).',
+    ]);
+
+    expect(
+      await cli.run(['diff', 'old.csv', 'new.csv', '--event', '2', '--json'])
+    ).toBe(EXIT_OK);
+    const diff = JSON.parse(stdout[1]);
+    expect(diff.events.map((event: any) => event.event_id)).toEqual(['2']);
+    expect(diff.events[0].after.confirmed).toBe(2);
+
+    expect(await cli.run(['diff', 'old.csv', 'old.csv'])).toBe(EXIT_OK);
+    expect(stdout[2]).toBe('No changes.');
+    expect(await cli.run(['diff', 'old.csv'])).toBe(EXIT_USAGE);
+    expect(await cli.run(['diff', 'old.csv', 'missing.csv'])).toBe(
+      EXIT_FAILURE
+    );
+  });
+
+  it('should add demographics to the report with custom age bands', async () => {
+    fs.writeFileSync(
+      path.join(tempDir, 'players.csv'),
+      'player_id,player_name,player_email,gender,age\n1,Ann,ann@x.com,Female,30\n'
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'events.csv'),
+      'event_id,event_name,event_location,event_date\n1,Game,Park,2025-01-01\n'
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'rsvp.csv'),
+      'rsvp_id,event_id,player_id,status\n1,1,1,Yes\n'
+    );
+
+    expect(
+      await cli.run(['report', '--format', 'json', '--age-bands', '21,40'])
+    ).toBe(EXIT_OK);
+    const report = JSON.parse(
+      fs.readFileSync(path.join(tempDir, 'attendance_report.json'), 'utf8')
+    );
+    expect(report.demographics.ageBands).toEqual([
+      'Under 21',
+      '21-39',
+      '40+',
+      'Unknown',
+    ]);
+    expect(report.demographics.totals.Yes.byAgeBand['21-39']).toBe(1);
+    expect(await cli.run(['report', '--age-bands', '40,21'])).toBe(EXIT_USAGE);
+  });
+});
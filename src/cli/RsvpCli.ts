@@ -0,0 +1,965 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import {
+  EventSchedule,
+  EventSeries,
+  isRsvpStatus,
+  MAX_GUESTS,
+  parseEvent,
+  parseGuestCount,
+  parsePlayer,
+  parseRows,
+  Principal,
+  RowParser,
+  RSVP_STATUSES,
+  RsvpCounts,
+  TeamOptions,
+} from '../interfaces';
+import { JsonlRsvpRepository } from '../repositories';
+import {
+  EmlFileTransport,
+  IReminderTransport,
+  JsonlReminderLedger,
+  ReminderService,
+  SmtpTransport,
+} from '../reminders';
+import {
+  GuestLimitExceededError,
+  ReliabilityService,
+  RsvpLockedError,
+  RsvpService,
+  TeamConstraintError,
+  TeamService,
+} from '../services';
+import { ILogger, JsonLogger } from '../utils';
+import {
+  generateAttendanceReport,
+  readCsvFile,
+  readReportData,
+  streamCsvFile,
+  validateReportInputs,
+} from '../generate_attendance_report';
+import {
+  AgeBand,
+  buildLeagueCalendar,
+  buildPlayerCalendar,
+  createAgeBands,
+  DataValidationError,
+  diffRsvpSnapshots,
+  expandSeries,
+  isReportFormat,
+  LatestRsvps,
+  reportRenderers,
+  RsvpRow,
+  TEAM_COLUMNS,
+  toEventTeams,
+  toTeamCells,
+  toTeamsCsv,
+  ValidationFinding,
+} from '../report';
+
+/**
+ * Exit codes returned by the CLI.
+ */
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1; // The command ran but failed (e.g. a missing input file)
+export const EXIT_USAGE = 2; // The command line itself was invalid
+
+// Whoever runs the CLI can edit the store directly, so it acts as an admin.
+const CLI_PRINCIPAL: Principal = { role: 'admin', id: 'cli' };
+
+export const USAGE = `Usage: rsvp <command> [options]
+
+Commands:
+  set <event> <player> <status>   Set or update an RSVP (status: ${RSVP_STATUSES.join(', ')})
+  remove <event> <player>         Remove an RSVP
+  checkin <event> <player>        Record that a player showed up (--undo to take it back)
+  schedule <event> [--date d]     Set an event's start and RSVP cutoff (--cutoff d or --cutoff-hours n)
+  schedule --events <path>        Import every event_date and recurring series from an events CSV
+  remind                          Remind "Maybe" players and non-responders of upcoming events
+  list --event <id> [--status s]  List the RSVPs of an event
+  counts [--event <id>]           Show RSVP counts for one or every event
+  reliability [--player <id>]     Show how players' RSVPs compare with their check-ins
+  teams --event <id> [--teams n]  Split an event's confirmed players into balanced teams
+  report [--format f] [--strict]  Generate the attendance report (format: html, csv, json, md)
+  calendar [--player <id>]        Export events as an iCalendar feed (.ics) for the league or one player
+  diff <before> <after>           Show what changed between two RSVP CSV snapshots (--event <id> for one event)
+  validate                        Check the CSV inputs for data-quality problems
+  help                            Show this message
+
+Options:
+  --store <path>     RSVP store file (default: $RSVP_STORE or data/rsvps.jsonl)
+  --players <path>   report/validate/calendar: players CSV (default: players.csv)
+  --events <path>    report/validate/calendar: events CSV (default: events.csv); teams: event names
+  --rsvps <path>     report/validate/calendar: RSVP CSV (default: rsvp.csv)
+  --out <path>       report: output file (default: attendance_report.<format>); teams: write a CSV;
+                     calendar: output file (default: calendar.ics, or calendar-<player>.ics)
+  --out-dir <dir>    calendar: write league.ics and one player-<id>.ics per player here
+  --strict           report: fail without writing when validation finds errors
+  --demographics     report: add gender and age-band breakdowns per event
+  --age-bands <list> report: age band boundaries (default: 18,25,35,45)
+  --reliability      report: add player reliability from a check-ins CSV
+  --checkins <path>  report: check-ins CSV (default: checkins.csv)
+  --teams <n>        teams: number of teams (default: 2); report: add the teams of every event
+  --seed <seed>      teams/report: repeat an earlier split (default: random, printed)
+  --together <ids>   teams/report: comma-separated players who share a team (repeatable)
+  --apart <ids>      teams/report: comma-separated players who play on different teams (repeatable)
+  --guests <n>       set: how many guests the player brings (default: unchanged)
+  --series           set/remove: respond to every occurrence of a series instead of one event
+  --override         set/remove: change an RSVP after the cutoff (organizers only)
+  --outbox <dir>     remind: write .eml files here (default: outbox)
+  --smtp <host:port> remind: send through an SMTP server instead of the outbox
+  --from <address>   remind: sender address
+  --ledger <path>    remind: sent-reminder log (default: data/reminders.jsonl)
+  --json             Print machine-readable JSON instead of text
+  --verbose          Print service logs to stderr`;
+
+/**
+ * Where the CLI writes its output; swapped out in tests.
+ */
+export interface CliIo {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+const processIo: CliIo = {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+};
+
+/**
+ * An error caused by an invalid command line rather than a failed operation.
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+type ParsedOptions = ReturnType<typeof parseCommandLine>['values'];
+
+function parseCommandLine(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      store: { type: 'string' },
+      event: { type: 'string' },
+      status: { type: 'string' },
+      players: { type: 'string' },
+      events: { type: 'string' },
+      rsvps: { type: 'string' },
+      out: { type: 'string' },
+      'out-dir': { type: 'string' },
+      format: { type: 'string', default: 'html' },
+      strict: { type: 'boolean', default: false },
+      demographics: { type: 'boolean', default: false },
+      'age-bands': { type: 'string' },
+      reliability: { type: 'boolean', default: false },
+      checkins: { type: 'string' },
+      teams: { type: 'string' },
+      seed: { type: 'string' },
+      together: { type: 'string', multiple: true },
+      apart: { type: 'string', multiple: true },
+      player: { type: 'string' },
+      undo: { type: 'boolean', default: false },
+      date: { type: 'string' },
+      cutoff: { type: 'string' },
+      'cutoff-hours': { type: 'string' },
+      guests: { type: 'string' },
+      series: { type: 'boolean', default: false },
+      override: { type: 'boolean', default: false },
+      outbox: { type: 'string' },
+      smtp: { type: 'string' },
+      from: { type: 'string' },
+      ledger: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+}
+
+/**
+ * Command-line front end for RsvpService and the attendance report.
+ * Every path is configurable and every command supports `--json`.
+ */
+export class RsvpCli {
+  private readonly io: CliIo;
+  private readonly cwd: string;
+
+  /**
+   * Creates an instance of RsvpCli.
+   * @param io - Where output is written (defaults to the process streams).
+   * @param cwd - Directory that relative paths are resolved against.
+   */
+  constructor(io: CliIo = processIo, cwd: string = process.cwd()) {
+    this.io = io;
+    this.cwd = cwd;
+  }
+
+  /**
+   * Runs one command line.
+   * @param argv - The arguments after the executable, e.g. `['set', '1', '2', 'Yes']`.
+   * @returns The process exit code.
+   */
+  async run(argv: string[]): Promise<number> {
+    let options: ParsedOptions | undefined;
+    try {
+      const parsed = parseCommandLine(argv);
+      options = parsed.values;
+      const [command, ...args] = parsed.positionals;
+
+      if (!command || command === 'help' || options.help) {
+        this.io.stdout(USAGE);
+        return EXIT_OK;
+      }
+      switch (command) {
+        case 'set':
+          this.set(args, options);
+          break;
+        case 'remove':
+          return this.remove(args, options);
+        case 'checkin':
+          return this.checkIn(args, options);
+        case 'schedule':
+          await this.schedule(args, options);
+          break;
+        case 'remind':
+          return await this.remind(options);
+        case 'list':
+          this.list(options);
+          break;
+        case 'counts':
+          this.counts(options);
+          break;
+        case 'reliability':
+          this.reliability(options);
+          break;
+        case 'teams':
+          await this.teams(options);
+          break;
+        case 'report':
+          await this.report(options);
+          break;
+        case 'calendar':
+          await this.calendar(options);
+          break;
+        case 'diff':
+          await this.diff(args, options);
+          break;
+        case 'validate':
+          return await this.validate(options);
+        default:
+          throw new CliUsageError(`Unknown command "${command}".`);
+      }
+      return EXIT_OK;
+    } catch (error) {
+      // parseArgs reports unknown or malformed options as ERR_PARSE_ARGS_* errors
+      const isUsageError =
+        error instanceof CliUsageError ||
+        String((error as NodeJS.ErrnoException).code).startsWith(
+          'ERR_PARSE_ARGS'
+        );
+      const message = (error as Error).message;
+      const findings =
+        error instanceof DataValidationError
+          ? error.report.findings
+          : undefined;
+      if (options?.json) {
+        this.io.stderr(
+          JSON.stringify({
+            error: {
+              code: isUsageError
+                ? 'USAGE'
+                : findings
+                  ? 'VALIDATION'
+                  : error instanceof RsvpLockedError
+                    ? 'LOCKED'
+                    : error instanceof GuestLimitExceededError
+                      ? 'GUEST_LIMIT'
+                      : error instanceof TeamConstraintError
+                        ? 'TEAM_CONSTRAINT'
+                        : 'FAILURE',
+              message,
+              findings,
+            },
+          })
+        );
+      } else {
+        this.io.stderr(`Error: ${message}`);
+        if (findings) {
+          this.io.stderr(this.formatFindings(findings));
+        }
+        if (isUsageError) {
+          this.io.stderr(USAGE);
+        }
+      }
+      return isUsageError ? EXIT_USAGE : EXIT_FAILURE;
+    }
+  }
+
+  private set(args: string[], options: ParsedOptions): void {
+    const [eventId, playerId, status] = args;
+    if (args.length !== 3 || !eventId || !playerId) {
+      throw new CliUsageError('set expects <event> <player> <status>.');
+    }
+    if (!isRsvpStatus(status)) {
+      throw new CliUsageError(
+        `Invalid status "${status}"; expected one of ${RSVP_STATUSES.join(', ')}.`
+      );
+    }
+    const guests =
+      options.guests === undefined
+        ? undefined
+        : parseGuestCount(options.guests);
+    if (options.guests !== undefined && guests === undefined) {
+      throw new CliUsageError(
+        `--guests must be a whole number from 0 to ${MAX_GUESTS}.`
+      );
+    }
+
+    const service = this.createService(options);
+    if (options.series) {
+      this.requireSeries(service, eventId);
+      if (guests !== undefined) {
+        throw new CliUsageError('--guests cannot be used with --series.');
+      }
+      service.setSeriesRsvp(CLI_PRINCIPAL, eventId, playerId, status, {
+        source: 'cli',
+      });
+      this.print(
+        options,
+        { seriesId: eventId, playerId, status },
+        () =>
+          `Player ${playerId} is now ${status} for every occurrence of series ${eventId}.`
+      );
+      return;
+    }
+    service.addOrUpdateRsvp(CLI_PRINCIPAL, eventId, playerId, status, {
+      source: 'cli',
+      override: options.override,
+      guests,
+    });
+    const waitlisted = service.isWaitlisted(eventId, playerId);
+    const result = {
+      eventId,
+      playerId,
+      status,
+      guests: service.getGuests(eventId, playerId),
+      waitlisted,
+    };
+    this.print(options, result, () =>
+      waitlisted
+        ? `Player ${playerId} is on the waitlist for event ${eventId}.`
+        : `Player ${playerId} is now ${status} for event ${eventId}${formatGuests(result.guests)}.`
+    );
+  }
+
+  // Exits with 1 when the player had no RSVP to remove.
+  private remove(args: string[], options: ParsedOptions): number {
+    const [eventId, playerId] = args;
+    if (args.length !== 2 || !eventId || !playerId) {
+      throw new CliUsageError('remove expects <event> <player>.');
+    }
+
+    const service = this.createService(options);
+    if (options.series) {
+      this.requireSeries(service, eventId);
+      const removed = service.removeSeriesRsvp(
+        CLI_PRINCIPAL,
+        eventId,
+        playerId,
+        {
+          source: 'cli',
+        }
+      );
+      this.print(options, { seriesId: eventId, playerId, removed }, () =>
+        removed
+          ? `Removed the RSVP of player ${playerId} for series ${eventId}.`
+          : `Player ${playerId} has no RSVP for series ${eventId}.`
+      );
+      return removed ? EXIT_OK : EXIT_FAILURE;
+    }
+    const removed = service.removeRsvp(CLI_PRINCIPAL, eventId, playerId, {
+      source: 'cli',
+      override: options.override,
+    });
+    this.print(options, { eventId, playerId, removed }, () =>
+      removed
+        ? `Removed the RSVP of player ${playerId} for event ${eventId}.`
+        : `Player ${playerId} has no RSVP for event ${eventId}.`
+    );
+    return removed ? EXIT_OK : EXIT_FAILURE;
+  }
+
+  private requireSeries(service: RsvpService, seriesId: string): void {
+    if (!service.getSeries(seriesId)) {
+      throw new Error(
+        `Unknown series "${seriesId}"; define it with schedule --events first.`
+      );
+    }
+  }
+
+  // Exits with 1 when --undo finds no check-in to take back.
+  private checkIn(args: string[], options: ParsedOptions): number {
+    const [eventId, playerId] = args;
+    if (args.length !== 2 || !eventId || !playerId) {
+      throw new CliUsageError('checkin expects <event> <player>.');
+    }
+
+    const service = this.createService(options);
+    if (options.undo) {
+      const undone = service.undoCheckIn(CLI_PRINCIPAL, eventId, playerId, {
+        source: 'cli',
+      });
+      this.print(
+        options,
+        { eventId, playerId, checkedIn: false, undone },
+        () =>
+          undone
+            ? `Undid the check-in of player ${playerId} at event ${eventId}.`
+            : `Player ${playerId} has not checked in at event ${eventId}.`
+      );
+      return undone ? EXIT_OK : EXIT_FAILURE;
+    }
+    service.checkIn(CLI_PRINCIPAL, eventId, playerId, { source: 'cli' });
+    this.print(
+      options,
+      { eventId, playerId, checkedIn: true },
+      () => `Checked in player ${playerId} at event ${eventId}.`
+    );
+    return EXIT_OK;
+  }
+
+  private async schedule(
+    args: string[],
+    options: ParsedOptions
+  ): Promise<void> {
+    const cutoffHours =
+      options['cutoff-hours'] === undefined
+        ? undefined
+        : Number(options['cutoff-hours']);
+    if (cutoffHours !== undefined && !(cutoffHours >= 0)) {
+      throw new CliUsageError('--cutoff-hours must be a non-negative number.');
+    }
+    if (options.cutoff !== undefined && cutoffHours !== undefined) {
+      throw new CliUsageError('Use either --cutoff or --cutoff-hours.');
+    }
+    const cutoff: EventSchedule['cutoff'] =
+      cutoffHours !== undefined
+        ? { kind: 'relative', hoursBefore: cutoffHours }
+        : options.cutoff !== undefined
+          ? { kind: 'fixed', at: parseDate(options.cutoff, '--cutoff') }
+          : undefined;
+
+    // Either one event from the options, or every event of an events CSV.
+    let schedules: Array<{ eventId: string; schedule: EventSchedule }>;
+    let series: EventSeries[] = [];
+    if (args.length === 1 && args[0]) {
+      const eventDate =
+        options.date === undefined
+          ? undefined
+          : parseDate(options.date, '--date');
+      schedules = [{ eventId: args[0], schedule: { eventDate, cutoff } }];
+    } else if (args.length === 0 && options.events) {
+      const events = await this.readRows(
+        this.resolve(options.events),
+        parseEvent
+      );
+      schedules = events
+        .filter((event) => event.date && !event.recurrence)
+        .map((event) => ({
+          eventId: event.id,
+          schedule: { eventDate: event.date, cutoff },
+        }));
+      series = events.flatMap(({ id, date, recurrence }) =>
+        date && recurrence ? [{ id, start: date, rule: recurrence }] : []
+      );
+    } else {
+      throw new CliUsageError('schedule expects <event> or --events <path>.');
+    }
+
+    const service = this.createService(options);
+    // Every occurrence of a series is scheduled like an event of its own.
+    for (const item of series) {
+      service.defineSeries(CLI_PRINCIPAL, item);
+      for (const { eventId, date } of service.getSeriesOccurrences(item.id)) {
+        schedules.push({ eventId, schedule: { eventDate: date, cutoff } });
+      }
+    }
+    const results = schedules.map(({ eventId, schedule }) => {
+      service.setEventSchedule(CLI_PRINCIPAL, eventId, schedule);
+      return {
+        eventId,
+        eventDate: schedule.eventDate?.toISOString(),
+        locksAt: service.getRsvpCutoff(eventId)?.toISOString(),
+      };
+    });
+    this.print(options, results, () =>
+      results
+        .map(({ eventId, locksAt }) =>
+          locksAt
+            ? `Event ${eventId}: RSVPs lock at ${locksAt}.`
+            : `Event ${eventId}: RSVPs never lock.`
+        )
+        .join('\n')
+    );
+  }
+
+  // Exits with 1 when any reminder failed; those are retried on the next run.
+  private async remind(options: ParsedOptions): Promise<number> {
+    const transport = this.createReminderTransport(options);
+    const { playersFilePath, eventsFilePath } = this.inputPaths(options);
+    const [players, events] = await Promise.all([
+      this.readRows(playersFilePath, parsePlayer),
+      this.readRows(eventsFilePath, parseEvent),
+    ]);
+
+    const logger = this.createLogger(options);
+    const reminders = new ReminderService(
+      this.createService(options),
+      transport,
+      new JsonlReminderLedger(
+        this.resolve(options.ledger ?? 'data/reminders.jsonl')
+      ),
+      logger,
+      { from: options.from }
+    );
+    const result = await reminders.sendReminders(players, events);
+    const summary = {
+      sent: result.sent.map((message) => message.idempotencyKey),
+      alreadySent: result.alreadySent,
+      failed: result.failed.map(({ message, error }) => ({
+        idempotencyKey: message.idempotencyKey,
+        error,
+      })),
+      skippedPlayers: result.skippedPlayers,
+    };
+    this.print(options, summary, () =>
+      [
+        `Sent ${summary.sent.length} reminder(s); ${summary.alreadySent} already sent, ${summary.failed.length} failed.`,
+        ...summary.failed.map(
+          ({ idempotencyKey, error }) => `failed\t${idempotencyKey}\t${error}`
+        ),
+      ].join('\n')
+    );
+    return summary.failed.length > 0 ? EXIT_FAILURE : EXIT_OK;
+  }
+
+  private createReminderTransport(options: ParsedOptions): IReminderTransport {
+    if (options.smtp === undefined) {
+      return new EmlFileTransport(this.resolve(options.outbox ?? 'outbox'));
+    }
+    const match = options.smtp.match(/^(.+):(\d+)$/);
+    if (!match || options.outbox !== undefined) {
+      throw new CliUsageError(
+        '--smtp expects <host:port> and cannot be combined with --outbox.'
+      );
+    }
+    return new SmtpTransport({ host: match[1], port: Number(match[2]) });
+  }
+
+  private list(options: ParsedOptions): void {
+    const eventId = options.event;
+    if (!eventId) {
+      throw new CliUsageError('list requires --event <id>.');
+    }
+    if (options.status !== undefined && !isRsvpStatus(options.status)) {
+      throw new CliUsageError(
+        `Invalid status "${options.status}"; expected one of ${RSVP_STATUSES.join(', ')}.`
+      );
+    }
+
+    const service = this.createService(options);
+    const rsvps = service
+      .getEventRsvps(eventId)
+      .filter((entry) => !options.status || entry.status === options.status)
+      .map((entry) => ({
+        playerId: entry.playerId,
+        status: entry.status,
+        guests: entry.guests ?? 0,
+        waitlisted: service.isWaitlisted(eventId, entry.playerId),
+      }));
+    this.print(options, { eventId, rsvps }, () =>
+      rsvps.length === 0
+        ? `No RSVPs for event ${eventId}.`
+        : rsvps
+            .map(
+              (rsvp) =>
+                `${rsvp.playerId}\t${rsvp.status}${formatGuests(rsvp.guests)}${rsvp.waitlisted ? ' (waitlisted)' : ''}`
+            )
+            .join('\n')
+    );
+  }
+
+  private reliability(options: ParsedOptions): void {
+    const reliability = new ReliabilityService(this.createService(options));
+    const stats = options.player
+      ? [reliability.getPlayerStats(options.player)]
+      : reliability.getAllPlayerStats();
+
+    this.print(options, stats, () => {
+      const lines = [
+        'player\tevents\tresponded\tyes\tno-shows\tmaybe\tmaybe-attended\tattended\tscore',
+      ];
+      for (const playerStats of stats) {
+        lines.push(
+          [
+            playerStats.playerId,
+            playerStats.events,
+            playerStats.responded,
+            playerStats.yes,
+            playerStats.noShows,
+            playerStats.maybe,
+            playerStats.maybeAttended,
+            playerStats.attended,
+            playerStats.score ?? '-',
+          ].join('\t')
+        );
+      }
+      return lines.join('\n');
+    });
+  }
+
+  private async teams(options: ParsedOptions): Promise<void> {
+    const eventId = options.event;
+    if (!eventId) {
+      throw new CliUsageError('teams expects --event <id>.');
+    }
+    const teamOptions = parseTeamOptions(options.teams ?? '2', options);
+    const roster = await this.readRows(
+      this.resolve(options.players ?? 'players.csv'),
+      parsePlayer
+    );
+    // Event names are only looked up when an events CSV is given
+    const event = options.events
+      ? (await this.readRows(this.resolve(options.events), parseEvent)).find(
+          ({ id }) => id === eventId
+        )
+      : undefined;
+
+    const assignment = new TeamService(
+      this.createService(options)
+    ).buildTeamsForEvent(eventId, roster, teamOptions);
+    const eventTeams = toEventTeams(
+      eventId,
+      event?.name ?? eventId,
+      assignment,
+      new Map(roster.map((player) => [player.id, player]))
+    );
+    if (options.out) {
+      const outputPath = this.resolve(options.out);
+      fs.writeFileSync(outputPath, toTeamsCsv([eventTeams]), 'utf8');
+      this.print(
+        options,
+        { output: outputPath, seed: assignment.seed, eventId },
+        () =>
+          `Wrote ${eventTeams.teams.length} teams for event ${eventId} to ${outputPath} (seed ${assignment.seed}).`
+      );
+      return;
+    }
+    this.print(options, { seed: assignment.seed, ...eventTeams }, () =>
+      [
+        `Seed: ${assignment.seed}`,
+        TEAM_COLUMNS.map((column) => column.toLowerCase()).join('\t'),
+        ...eventTeams.teams.map((team) => toTeamCells(team).join('\t')),
+      ].join('\n')
+    );
+  }
+
+  private counts(options: ParsedOptions): void {
+    const service = this.createService(options);
+    const countsByEvent: Record<string, RsvpCounts> = options.event
+      ? { [options.event]: service.getCounts(options.event) }
+      : service.getCountsByEvent();
+
+    this.print(options, countsByEvent, () => {
+      const lines = [
+        'event\ttotal\tyes\tno\tmaybe\twaitlisted\tguests\theadcount',
+      ];
+      for (const [eventId, counts] of Object.entries(countsByEvent)) {
+        lines.push(
+          [
+            eventId,
+            counts.total,
+            counts.confirmed,
+            counts.declined,
+            counts.maybe,
+            counts.waitlisted,
+            counts.guests,
+            counts.headcount,
+          ].join('\t')
+        );
+      }
+      return lines.join('\n');
+    });
+  }
+
+  private async report(options: ParsedOptions): Promise<void> {
+    const format = options.format;
+    if (!isReportFormat(format)) {
+      throw new CliUsageError(
+        `Invalid format "${format}"; expected one of ${Object.keys(reportRenderers).join(', ')}.`
+      );
+    }
+    const extension = reportRenderers[format].fileExtension;
+    const paths = {
+      ...this.inputPaths(options),
+      checkInsFilePath: this.resolve(options.checkins ?? 'checkins.csv'),
+      outputFilePath: this.resolve(
+        options.out ?? `attendance_report.${extension}`
+      ),
+    };
+    const reportData = await generateAttendanceReport(paths, {
+      format,
+      strict: options.strict,
+      logger: this.createLogger(options),
+      demographics: options.demographics || options['age-bands'] !== undefined,
+      ageBands:
+        options['age-bands'] === undefined
+          ? undefined
+          : parseAgeBands(options['age-bands']),
+      reliability: options.reliability || options.checkins !== undefined,
+      teams:
+        options.teams === undefined
+          ? undefined
+          : parseTeamOptions(options.teams, options),
+    });
+    this.print(
+      options,
+      { output: paths.outputFilePath, format, events: reportData.length },
+      () =>
+        `Wrote ${format} attendance report for ${reportData.length} events to ${paths.outputFilePath}.`
+    );
+  }
+
+  // Writes the league feed, one player's feed, or every feed into a directory.
+  private async calendar(options: ParsedOptions): Promise<void> {
+    if (options['out-dir'] && (options.out || options.player)) {
+      throw new CliUsageError(
+        '--out-dir cannot be combined with --out or --player.'
+      );
+    }
+    const data = expandSeries(
+      await readReportData(this.inputPaths(options), this.createLogger(options))
+    );
+    const playerId = options.player;
+    if (playerId && !data.players.some(({ id }) => id === playerId)) {
+      throw new Error(`Unknown player "${playerId}".`);
+    }
+
+    const files: Array<{ output: string; content: string }> = [];
+    if (options['out-dir']) {
+      const directory = this.resolve(options['out-dir']);
+      fs.mkdirSync(directory, { recursive: true });
+      files.push({
+        output: path.join(directory, 'league.ics'),
+        content: buildLeagueCalendar(data),
+      });
+      for (const { id } of data.players) {
+        files.push({
+          output: path.join(directory, `player-${encodeURIComponent(id)}.ics`),
+          content: buildPlayerCalendar(data, id),
+        });
+      }
+    } else {
+      files.push({
+        output: this.resolve(
+          options.out ??
+            (playerId
+              ? `calendar-${encodeURIComponent(playerId)}.ics`
+              : 'calendar.ics')
+        ),
+        content: playerId
+          ? buildPlayerCalendar(data, playerId)
+          : buildLeagueCalendar(data),
+      });
+    }
+    for (const { output, content } of files) {
+      fs.writeFileSync(output, content, 'utf8');
+    }
+
+    const outputs = files.map(({ output }) => output);
+    this.print(options, { outputs }, () =>
+      outputs.length === 1
+        ? `Wrote calendar to ${outputs[0]}.`
+        : `Wrote ${outputs.length} calendars to ${this.resolve(options['out-dir']!)}.`
+    );
+  }
+
+  private async diff(args: string[], options: ParsedOptions): Promise<void> {
+    if (args.length !== 2) {
+      throw new CliUsageError('diff expects <before> <after>.');
+    }
+    const [beforePath, afterPath] = args.map((arg) => this.resolve(arg));
+    const [before, after] = await Promise.all(
+      [beforePath, afterPath].map((filePath) =>
+        this.readLatestRsvps(filePath, options.event)
+      )
+    );
+    const diff = diffRsvpSnapshots(before, after);
+
+    this.print(options, diff, () => {
+      const lines: string[] = [];
+      for (const event of diff.events) {
+        lines.push(
+          `Event ${event.event_id}: ${event.added.length} new, ${event.withdrawn.length} withdrawn, ${event.changed.length} changed, ${event.guests_changed.length} guest change(s)`,
+          ...event.added.map(
+            (change) => `  + ${change.player_id} ${change.after}`
+          ),
+          ...event.withdrawn.map(
+            (change) => `  - ${change.player_id} (was ${change.before})`
+          ),
+          ...event.changed.map(
+            (change) =>
+              `  ~ ${change.player_id} ${change.before} -> ${change.after}`
+          ),
+          ...event.guests_changed.map(
+            (change) =>
+              `  ~ ${change.player_id} ${change.status}, guests ${change.before} -> ${change.after}`
+          ),
+          `  yes ${event.before.confirmed} -> ${event.after.confirmed}, no ${event.before.declined} -> ${event.after.declined}, maybe ${event.before.maybe} -> ${event.after.maybe}, guests ${event.before.guests} -> ${event.after.guests}, headcount ${event.before.headcount} -> ${event.after.headcount}`
+        );
+      }
+      lines.push(
+        diff.events.length === 0
+          ? 'No changes.'
+          : `${diff.added} new, ${diff.withdrawn} withdrawn, ${diff.changed} changed, ${diff.guests_changed} guest change(s) across ${diff.events.length} event(s).`
+      );
+      return lines.join('\n');
+    });
+  }
+
+  // Streams an RSVP snapshot, keeping the latest row of every pair (of one event, if given).
+  private async readLatestRsvps(
+    filePath: string,
+    eventId?: string
+  ): Promise<RsvpRow[]> {
+    const latest = new LatestRsvps();
+    for await (const row of streamCsvFile<RsvpRow>(filePath)) {
+      if (!eventId || row.event_id === eventId) {
+        latest.add(row);
+      }
+    }
+    return latest.rows();
+  }
+
+  // Prints every finding; exits non-zero only when there are errors.
+  private async validate(options: ParsedOptions): Promise<number> {
+    const report = await validateReportInputs(
+      this.inputPaths(options),
+      this.createLogger(options)
+    );
+    this.print(options, report, () =>
+      [
+        `${report.errorCount} error(s), ${report.warningCount} warning(s).`,
+        ...(report.findings.length > 0
+          ? [this.formatFindings(report.findings)]
+          : []),
+      ].join('\n')
+    );
+    return report.errorCount > 0 ? EXIT_FAILURE : EXIT_OK;
+  }
+
+  // Reads a CSV into domain values, warning about every row that doesn't parse.
+  private async readRows<T>(filePath: string, parse: RowParser<T>) {
+    const rows = await readCsvFile<unknown>(filePath);
+    const { values, errors } = parseRows(rows, parse);
+    for (const { index, issues } of errors) {
+      this.io.stderr(
+        `Warning: skipping ${path.basename(filePath)}:${index + 2}: ${issues
+          .map((issue) => issue.message)
+          .join(' ')}`
+      );
+    }
+    return values;
+  }
+
+  private inputPaths(options: ParsedOptions) {
+    return {
+      playersFilePath: this.resolve(options.players ?? 'players.csv'),
+      eventsFilePath: this.resolve(options.events ?? 'events.csv'),
+      rsvpFilePath: this.resolve(options.rsvps ?? 'rsvp.csv'),
+    };
+  }
+
+  private formatFindings(findings: ValidationFinding[]): string {
+    return findings
+      .map(
+        (finding) =>
+          `${finding.severity}\t${finding.file}:${finding.row}\t${finding.rule}\t${finding.message}`
+      )
+      .join('\n');
+  }
+
+  private createService(options: ParsedOptions): RsvpService {
+    const storePath = this.resolve(
+      options.store ?? process.env.RSVP_STORE ?? 'data/rsvps.jsonl'
+    );
+    return new RsvpService(
+      this.createLogger(options),
+      new JsonlRsvpRepository(storePath)
+    );
+  }
+
+  // Keeps stdout clean for piping: JSON log lines go to stderr, and only errors without --verbose.
+  private createLogger(options: ParsedOptions): ILogger {
+    return new JsonLogger(
+      { write: (line) => this.io.stderr(line) },
+      { level: options.verbose ? 'info' : 'error' }
+    );
+  }
+
+  private print(
+    options: ParsedOptions,
+    data: unknown,
+    formatText: () => string
+  ): void {
+    this.io.stdout(options.json ? JSON.stringify(data, null, 2) : formatText());
+  }
+
+  private resolve(filePath: string): string {
+    return path.resolve(this.cwd, filePath);
+  }
+}
+
+function parseDate(value: string, label: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new CliUsageError(`Invalid date "${value}" for ${label}.`);
+  }
+  return date;
+}
+
+function parseAgeBands(value: string): AgeBand[] {
+  try {
+    return createAgeBands(value.split(',').map((boundary) => Number(boundary)));
+  } catch (error) {
+    throw new CliUsageError((error as Error).message);
+  }
+}
+
+function parseTeamOptions(
+  teamCount: string,
+  options: ParsedOptions
+): TeamOptions {
+  if (!/^\d+$/.test(teamCount) || Number(teamCount) < 2) {
+    throw new CliUsageError('--teams must be a whole number of 2 or more.');
+  }
+  const groups = (values: string[] = []) =>
+    values.map((value) => value.split(',').map((id) => id.trim()));
+  return {
+    teamCount: Number(teamCount),
+    seed: options.seed,
+    keepTogether: groups(options.together),
+    keepApart: groups(options.apart),
+  };
+}
+
+// " (+2 guests)", or nothing for a player who comes alone.
+function formatGuests(guests: number): string {
+  return guests > 0 ? ` (+${guests} guest${guests === 1 ? '' : 's'})` : '';
+}
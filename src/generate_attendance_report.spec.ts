@@ -0,0 +1,101 @@
+import { buildEventAttendance, ReportData } from './generate_attendance_report';
+import { parseReportData } from './report/validation';
+import { ILogger } from './utils/logger.interface';
+
+const createMockLogger = (): jest.Mocked<ILogger> => ({
+  log: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+});
+
+describe('buildEventAttendance', () => {
+  const rows: ReportData = {
+    players: [
+      {
+        player_id: '1',
+        player_name: 'Ann',
+        player_email: 'ann@x.com',
+        gender: 'Female',
+        age: '30',
+      },
+      {
+        player_id: '2',
+        player_name: 'Bo',
+        player_email: 'bo@x.com',
+        gender: 'Male',
+        age: '41',
+      },
+    ],
+    events: [
+      {
+        event_id: '10',
+        event_name: 'Final',
+        event_location: 'Park',
+        event_date: '2025-02-01',
+      },
+      {
+        event_id: '2',
+        event_name: 'Opener',
+        event_location: 'Gym',
+        event_date: '2025-01-01',
+      },
+      {
+        event_id: 'abc',
+        event_name: 'Bad',
+        event_location: '',
+        event_date: '',
+      },
+    ],
+    rsvps: [
+      {
+        rsvp_id: '1',
+        event_id: '2',
+        player_id: '1',
+        status: 'Yes',
+        guests: '2',
+      },
+      {
+        rsvp_id: '2',
+        event_id: '2',
+        player_id: '2',
+        status: 'No',
+        guests: '1', // Only confirmed players' guests count
+      },
+      { rsvp_id: '3', event_id: '10', player_id: '99', status: 'Yes' },
+      { rsvp_id: '4', event_id: '77', player_id: '1', status: 'Yes' },
+    ],
+  };
+  const data = parseReportData(rows).data;
+
+  it('should aggregate confirmed names per event, sorted by numeric event_id', () => {
+    const logger = createMockLogger();
+    expect(buildEventAttendance(data, logger)).toEqual([
+      {
+        event_id: '2',
+        event_name: 'Opener',
+        event_location: 'Gym',
+        event_date: '2025-01-01',
+        attendee_names: ['Ann'],
+        guest_count: 2,
+        maybe_names: [],
+        declined_names: ['Bo'],
+        no_response_names: [],
+      },
+      {
+        event_id: '10',
+        event_name: 'Final',
+        event_location: 'Park',
+        event_date: '2025-02-01',
+        attendee_names: ['Unknown Player (ID: 99)'],
+        guest_count: 0,
+        maybe_names: [],
+        declined_names: [],
+        no_response_names: ['Ann', 'Bo'],
+      },
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Warning: Found RSVP for event_id not present in events file: 77'
+    );
+  });
+});
@@ -1,197 +1,252 @@
 import * as fs from 'fs'; 
 import * as path from 'path'; 
+import { pipeline, Readable } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
 import csvParser from 'csv-parser'; 
+import { formatIsoDate, TeamOptions } from './interfaces';
+import { compareIds, ILogger } from './utils';
+import {
+    AgeBand,
+    buildDemographics,
+    buildReliability,
+    buildTeamsReport,
+    CheckInRow,
+    DataValidationError,
+    EventAttendance,
+    expandSeries,
+    EventRow,
+    LeagueData,
+    PlayerRow,
+    ReportFormat,
+    reportRenderers,
+    ReportSections,
+    ReportValidator,
+    RsvpRow,
+    ValidationReport,
+} from './report';
+
+export { EventAttendance, EventRow, LeagueData, PlayerRow, ReportData, RsvpRow } from './report';
 
-// Interfaces
-interface Player {
-    player_id: string;
-    player_name: string;
-    player_email: string;
-    gender: string;
-    age: string;
-}
-
-interface Event {
-    event_id: string;
-    event_name: string;
-    event_location: string;
-    event_date: string;
+// Helper function to read CSV
+// Holds the whole file, so it's only for inputs that grow with the league (players,
+// events, check-ins); RSVP files are streamed with streamCsvFile
+export async function readCsvFile<T>(filePath: string): Promise<T[]> {
+    const results: T[] = [];
+    for await (const row of streamCsvFile<T>(filePath)) {
+        results.push(row);
+    }
+    return results;
 }
 
-interface Rsvp {
-    rsvp_id: string;
-    event_id: string;
-    player_id: string;
-    status: 'Yes' | 'No' | 'Maybe' | string;
+// Yields the rows of a CSV one at a time, so a file of any size is read in constant memory
+export async function* streamCsvFile<T>(filePath: string): AsyncGenerator<T> {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Input file not found: ${filePath}`);
+    }
+    // pipeline passes read errors on to the parser, which ends the loop with them
+    yield* pipeline(fs.createReadStream(filePath), csvParser(), () => {});
 }
 
+// The most findings a report run keeps; the rest are only counted (`validate` lists them all)
+const MAX_REPORT_FINDINGS = 1000;
 
-interface EventAttendance {
-    event_id: string;
-    event_name: string;
-    attendee_names: string[]; 
+// Input and output locations for a report run
+export interface ReportPaths {
+    playersFilePath: string;
+    eventsFilePath: string;
+    rsvpFilePath: string;
+    outputFilePath: string;
+    checkInsFilePath?: string; // Only read for the reliability section
 }
 
-// Helper function to read CSV
-function readCsvFile<T>(filePath: string): Promise<T[]> {
-    return new Promise((resolve, reject) => {
-        const results: T[] = [];
-        if (!fs.existsSync(filePath)) {
-            return reject(new Error(`Input file not found: ${filePath}`));
-        }
-        fs.createReadStream(filePath)
-            .pipe(csvParser())
-            .on('data', (data) => results.push(data))
-            .on('end', () => {
-                resolve(results);
-            })
-            .on('error', (error) => {
-                reject(error);
-            });
-    });
+// The files next to the project root, used when the script is run directly
+export const defaultReportPaths: ReportPaths = {
+    playersFilePath: path.join(__dirname, '../players.csv'),
+    eventsFilePath: path.join(__dirname, '../events.csv'),
+    rsvpFilePath: path.join(__dirname, '../rsvp.csv'),
+    outputFilePath: path.join(__dirname, '../attendance_report.html'),
+};
+
+// --- Data Gathering ---
+// Reads the inputs into the domain model, streaming the RSVPs (see readValidatedReportData)
+export async function readReportData(
+    paths: Omit<ReportPaths, 'outputFilePath'>,
+    logger: ILogger = console
+): Promise<LeagueData> {
+    return (await readValidatedReportData(paths, logger, MAX_REPORT_FINDINGS)).data;
 }
 
-// Helper function to escape basic HTML characters
-function escapeHtml(unsafe: string): string {
-    if (!unsafe) return ''; // Handling null/undefined input
-    return unsafe
-         .replace(/&/g, "&amp;")
-         .replace(/</g, "&lt;")
-         .replace(/>/g, "&gt;")
-         .replace(/"/g, "&quot;")
-         .replace(/'/g, "&#039;");
- }
-
-// --- Main Report Generation Logic ---
-async function generateHtmlReport() { 
-    try {
-        
-        const playersFilePath = path.join(__dirname, '../players.csv'); 
-        const eventsFilePath = path.join(__dirname, '../events.csv');
-        const rsvpFilePath = path.join(__dirname, '../rsvp.csv');
-        const outputFilePath = path.join(__dirname, '../attendance_report.html');
-
-        console.log('Reading CSV files...');
-        // Reading all necessary files concurrently
-        const [playersData, eventsData, rsvpData] = await Promise.all([
-            readCsvFile<Player>(playersFilePath), 
-            readCsvFile<Event>(eventsFilePath),
-            readCsvFile<Rsvp>(rsvpFilePath)
-        ]);
-        console.log(`Read ${playersData.length} players, ${eventsData.length} events, and ${rsvpData.length} RSVPs.`);
-
-        // 1. Creating a quick lookup map for player names
-        const playerMap = new Map<string, string>(); // Map player_id -> player_name
-        for (const player of playersData) {
-            if (player && player.player_id) {
-                playerMap.set(player.player_id, player.player_name || 'Unknown Player');
-            }
-        }
+// Aggregates the parsed inputs into per-event attendance, the input of every renderer
+export function buildEventAttendance(
+    { players, events, rsvps }: LeagueData,
+    logger: ILogger = console
+): EventAttendance[] {
 
-        // 2. Initializing event attendance map
-        const eventAttendanceMap = new Map<string, EventAttendance>();
-        for (const event of eventsData) {
-             if (!event || typeof event.event_id === 'undefined') {
-                console.warn('Warning: Skipping event with missing or invalid event_id:', event);
-                continue;
-            }
-            eventAttendanceMap.set(event.event_id, {
-                event_id: event.event_id,
-                event_name: event.event_name || 'Unnamed Event',
-                attendee_names: [] // Initializing with empty array for names
-            });
-        }
+    // 1. Creating a quick lookup map for player names
+    const playerMap = new Map<string, string>(); // Map player id -> name
+    for (const player of players) {
+        playerMap.set(player.id, player.name || 'Unknown Player');
+    }
 
-        // 3. Populating attendee names from RSVPs
-        for (const rsvp of rsvpData) {
-             if (!rsvp || typeof rsvp.event_id === 'undefined' || typeof rsvp.player_id === 'undefined') {
-                 console.warn('Warning: Skipping RSVP entry with missing IDs:', rsvp);
-                continue;
-            }
+    // 2. Initializing event attendance map
+    const eventAttendanceMap = new Map<string, EventAttendance>();
+    for (const event of events) {
+        eventAttendanceMap.set(event.id, {
+            event_id: event.id,
+            event_name: event.name || 'Unnamed Event',
+            event_location: event.location ?? '',
+            event_date: event.date ? formatIsoDate(event.date) : '',
+            attendee_names: [], // Initializing with empty array for names
+            guest_count: 0,
+            maybe_names: [],
+            declined_names: [],
+            no_response_names: []
+        });
+    }
 
-            if (rsvp.status === 'Yes') {
-                const eventAttendance = eventAttendanceMap.get(rsvp.event_id);
-                if (eventAttendance) {
-                    const playerName = playerMap.get(rsvp.player_id);
-                    if (playerName) {
-                        eventAttendance.attendee_names.push(playerName); 
-                    } else {
-                        console.warn(`Warning: Found RSVP 'Yes' for unknown player_id: ${rsvp.player_id} at event ${rsvp.event_id}`);
-                        eventAttendance.attendee_names.push(`Unknown Player (ID: ${rsvp.player_id})`); 
-                    }
-                } else {
-                    console.warn(`Warning: Found RSVP for event_id not present in events file: ${rsvp.event_id}`);
+    // 3. Populating names from the latest RSVP of every player and event
+    const responded = new Set<string>(); // "eventId:playerId" of every response
+    for (const rsvp of rsvps) {
+        const eventAttendance = eventAttendanceMap.get(rsvp.eventId);
+        if (!eventAttendance) {
+            logger.warn(`Warning: Found RSVP for event_id not present in events file: ${rsvp.eventId}`);
+            continue;
+        }
+        const playerName = playerMap.get(rsvp.playerId) ?? `Unknown Player (ID: ${rsvp.playerId})`;
+        switch (rsvp.status) {
+            case 'Yes':
+                if (!playerMap.has(rsvp.playerId)) {
+                    logger.warn(`Warning: Found RSVP 'Yes' for unknown player_id: ${rsvp.playerId} at event ${rsvp.eventId}`);
                 }
+                eventAttendance.attendee_names.push(playerName);
+                eventAttendance.guest_count += rsvp.guests ?? 0; // Invalid counts are reported by validation
+                break;
+            case 'Maybe':
+                eventAttendance.maybe_names.push(playerName);
+                break;
+            case 'No':
+                eventAttendance.declined_names.push(playerName);
+                break;
+        }
+        responded.add(`${rsvp.eventId}:${rsvp.playerId}`);
+    }
+
+    // 4. Listing the rostered players who haven't answered (invalid statuses count as no answer)
+    for (const eventAttendance of eventAttendanceMap.values()) {
+        for (const [playerId, playerName] of playerMap) {
+            if (!responded.has(`${eventAttendance.event_id}:${playerId}`)) {
+                eventAttendance.no_response_names.push(playerName);
             }
         }
+    }
 
-        
-        const reportData = Array.from(eventAttendanceMap.values())
-            .filter(event => !isNaN(parseInt(event.event_id)))
-            .sort((a, b) => parseInt(a.event_id) - parseInt(b.event_id));
-
-       
-        console.log('Generating HTML report content...');
-        let htmlString = `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Event Attendance Report</title>
-    <style>
-        body { font-family: sans-serif; line-height: 1.6; padding: 20px; }
-        table { border-collapse: collapse; width: 100%; margin-top: 20px; }
-        th, td { border: 1px solid #ddd; padding: 8px; text-align: left; vertical-align: top; }
-        th { background-color: #f2f2f2; }
-        tr:nth-child(even) { background-color: #f9f9f9; }
-        td ul { margin: 0; padding-left: 20px; } /* Style for unordered list if used */
-    </style>
-</head>
-<body>
-    <h1>Event Attendance Report</h1>
-    <table>
-        <thead>
-            <tr style = "text-align:center">
-                <th style = "text-align:center" >Serial Number</th>
-                <th style = "text-align:center" >Event Name</th>
-                <th style = "text-align:center" >Confirmed Attendees</th>
-                <th style = "text-align:center" >Number of Attendees <br>(${reportData.reduce((sum, event) => sum + event.attendee_names.length, 0)} Total)</th>
-            </tr>
-        </thead>
-        <tbody>`; 
-
-        reportData.forEach((event, index) => {
-            const attendeeListHtml = event.attendee_names.length > 0
-                ? event.attendee_names.map(name => escapeHtml(name)).join(', ')
-                : '<em>None</em>';
-
-            htmlString += `
-            <tr>
-                <td>${index + 1}</td>
-                <td>${escapeHtml(event.event_name)}</td>
-                <td>${attendeeListHtml}</td>
-                <td>${event.attendee_names.length}</td>
-            </tr>`; 
-        });
+    // Events in ID order, each series' occurrences in date order
+    return Array.from(eventAttendanceMap.values())
+        .sort((a, b) => compareIds(a.event_id, b.event_id));
+}
 
-        
-        htmlString += `
-        </tbody>
-    </table>
-</body>
-</html>`;
+// Options for a report run
+export interface ReportOptions {
+    format?: ReportFormat; // Defaults to 'html'
+    strict?: boolean; // Fail the run when validation finds errors
+    logger?: ILogger; // Defaults to console
+    demographics?: boolean; // Add gender and age-band breakdowns
+    ageBands?: AgeBand[]; // Defaults to defaultAgeBands
+    reliability?: boolean; // Compare RSVPs with the check-ins CSV
+    teams?: TeamOptions; // Split every event's confirmed players into teams
+}
+
+// Attributes findings to the actual input file names
+function inputFileNames(paths: Omit<ReportPaths, 'outputFilePath'>) {
+    return {
+        players: path.basename(paths.playersFilePath),
+        events: path.basename(paths.eventsFilePath),
+        rsvps: path.basename(paths.rsvpFilePath),
+    };
+}
 
+// Reads the players and events, then streams the RSVPs through validation,
+// which parses them and keeps only the latest RSVP of every player and event.
+// Memory grows with the players, events and distinct player/event pairs, never
+// with the RSVP rows; the report built from it lists up to events x players names.
+async function readValidatedReportData(
+    paths: Omit<ReportPaths, 'outputFilePath'>,
+    logger: ILogger,
+    maxFindings?: number
+): Promise<{ data: LeagueData; validation: ValidationReport }> {
+    logger.log('Reading CSV files...');
+    const [players, events] = await Promise.all([
+        readCsvFile<PlayerRow>(paths.playersFilePath),
+        readCsvFile<EventRow>(paths.eventsFilePath),
+    ]);
+    const validator = new ReportValidator(players, events, { fileNames: inputFileNames(paths), maxFindings });
+    let rsvpCount = 0;
+    for await (const rsvp of streamCsvFile<RsvpRow>(paths.rsvpFilePath)) {
+        validator.addRsvp(rsvp);
+        rsvpCount++;
+    }
+    logger.log(`Read ${players.length} players, ${events.length} events, and ${rsvpCount} RSVPs.`);
+    const { report, data } = validator.finish();
+    return { data, validation: report };
+}
 
-        // --- Writing HTML to File ---
-        console.log(`Writing HTML report to ${outputFilePath}...`);
-        fs.writeFileSync(outputFilePath, htmlString, 'utf8'); // Writing the string to file
+// --- Data Quality Check ---
+export async function validateReportInputs(
+    paths: Omit<ReportPaths, 'outputFilePath'>,
+    logger: ILogger = console
+): Promise<ValidationReport> {
+    return (await readValidatedReportData(paths, logger)).validation;
+}
 
-        console.log('HTML Attendance report with names generated successfully!');
+// --- Main Report Generation Logic ---
+// Throws on failure so callers (like the CLI) can report a non-zero exit code
+export async function generateAttendanceReport(
+    paths: ReportPaths = defaultReportPaths,
+    { format = 'html', strict = false, logger = console, demographics = false, ageBands, reliability = false, teams }: ReportOptions = {}
+): Promise<EventAttendance[]> {
+    // Validating while reading, so strict runs fail without writing anything
+    const { data: inputs, validation } = await readValidatedReportData(paths, logger, MAX_REPORT_FINDINGS);
+    if (validation.findings.length > 0) {
+        logger.warn(`Validation found ${validation.errorCount} error(s) and ${validation.warningCount} warning(s).`);
+    }
+    if (strict && validation.errorCount > 0) {
+        throw new DataValidationError(validation);
+    }
 
-    } catch (error) {
-        console.error('Error generating HTML report with names:', error);
+    // Every recurring event is reported as one event per occurrence
+    const data = expandSeries(inputs);
+    const reportData = buildEventAttendance(data, logger);
+    const sections: ReportSections = {};
+    if (demographics) {
+        sections.demographics = buildDemographics(data, ageBands);
+    }
+    if (reliability) {
+        if (!paths.checkInsFilePath) {
+            throw new Error('The reliability section needs a check-ins CSV (checkInsFilePath).');
+        }
+        const checkIns = await readCsvFile<CheckInRow>(paths.checkInsFilePath);
+        logger.log(`Read ${checkIns.length} check-ins.`);
+        sections.reliability = buildReliability(data, checkIns);
+    }
+    if (teams) {
+        sections.teams = buildTeamsReport(data, teams);
     }
+
+    // --- Writing Report to File ---
+    logger.log(`Writing ${format.toUpperCase()} report to ${paths.outputFilePath}...`);
+    await pipelineAsync(
+        Readable.from(reportRenderers[format].renderChunks(reportData, sections)), // One piece at a time, never the whole string
+        fs.createWriteStream(paths.outputFilePath, 'utf8')
+    );
+
+    logger.log('Attendance report with names generated successfully!');
+    return reportData;
 }
 
-// Report generation function
-generateHtmlReport();
\ No newline at end of file
+// Report generation function, only when run as a script
+if (require.main === module) {
+    generateAttendanceReport().catch((error) => {
+        console.error('Error generating attendance report with names:', error);
+        process.exitCode = 1;
+    });
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+/**
+ * What a caller may change: a player only their own RSVPs, an organizer
+ * everything about the events they organize, and an admin everything.
+ */
+export type Role = 'player' | 'organizer' | 'admin';
+
+/**
+ * Every valid role, for runtime validation.
+ */
+export const ROLES: readonly Role[] = ['player', 'organizer', 'admin'];
+
+/**
+ * Checks at runtime whether a value is a valid Role.
+ */
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/**
+ * The caller behind a change. A player's `id` is their player ID.
+ */
+export type Principal =
+  | { role: 'player'; id: string }
+  | {
+      role: 'organizer';
+      id: string;
+      eventIds: readonly string[]; // A series ID covers every occurrence
+    }
+  | { role: 'admin'; id: string };
+
+/**
+ * What a principal tries to do: change an RSVP, change one at a locked event
+ * (`override`), or configure an event and record who showed up.
+ */
+export type RsvpAction = 'change-rsvp' | 'override' | 'manage-event';
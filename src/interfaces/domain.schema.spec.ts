@@ -0,0 +1,242 @@
+import {
+  MAX_GUESTS,
+  parseAge,
+  parseEvent,
+  parseGuestCount,
+  parsePlayer,
+  parseRows,
+  parseRsvp,
+} from './domain.schema';
+
+describe('parsePlayer', () => {
+  it('should parse a CSV row into a typed Player', () => {
+    expect(
+      parsePlayer({
+        player_id: ' 7 ',
+        player_name: 'Ann Lee',
+        player_email: 'ann@example.com',
+        gender: 'Female',
+        age: '30',
+      })
+    ).toEqual({
+      ok: true,
+      value: {
+        id: '7',
+        name: 'Ann Lee',
+        email: 'ann@example.com',
+        gender: 'Female',
+        age: 30,
+      },
+    });
+  });
+
+  it('should parse a JSON Player, leaving blank optional fields out', () => {
+    const result = parsePlayer({ id: 7, name: 'Ann', email: '', age: 30 });
+    expect(result.ok && result.value).toMatchObject({
+      id: '7',
+      name: 'Ann',
+      email: undefined,
+      age: 30,
+    });
+  });
+
+  it('should report every invalid field of a row', () => {
+    expect(
+      parsePlayer({ player_id: '', player_email: 'ann@', age: '4.5' })
+    ).toEqual({
+      ok: false,
+      issues: [
+        { field: 'id', code: 'missing', message: 'id is required.' },
+        { field: 'name', code: 'missing', message: 'name is required.' },
+        {
+          field: 'email',
+          code: 'invalid',
+          message: 'email "ann@" is not a valid email address.',
+        },
+        {
+          field: 'age',
+          code: 'invalid',
+          message: 'age must be a whole number from 0 to 120, got "4.5".',
+        },
+      ],
+    });
+  });
+});
+
+describe('lenient parsing', () => {
+  it('should keep rows with tolerable issues and return those issues', () => {
+    const player = parsePlayer(
+      { player_id: '7', player_email: 'ann@', age: '4.5' },
+      { lenient: true }
+    );
+    expect(player).toMatchObject({
+      ok: true,
+      value: { id: '7', name: '', email: undefined, age: undefined },
+    });
+    expect(player.issues?.map((issue) => issue.field)).toEqual([
+      'name',
+      'email',
+      'age',
+    ]);
+    expect(
+      parseRsvp(
+        { event_id: '1', player_id: '2', status: 'Yes', guests: 'two' },
+        { lenient: true }
+      )
+    ).toMatchObject({ ok: true, value: { status: 'Yes', guests: undefined } });
+  });
+
+  it('should keep a repeating event without a valid date as a one-off event', () => {
+    const result = parseEvent(
+      { id: 'tue', name: 'Training', recurrence: 'FREQ=WEEKLY;COUNT=4' },
+      { lenient: true }
+    );
+    expect(result.ok && result.value.recurrence).toBeUndefined();
+    expect(result.issues).toMatchObject([{ field: 'date', code: 'missing' }]);
+  });
+
+  it('should still reject rows without IDs or a valid status', () => {
+    expect(parsePlayer({ player_name: 'Ann' }, { lenient: true }).ok).toBe(
+      false
+    );
+    expect(
+      parseRsvp(
+        { event_id: '1', player_id: '2', status: 'Later' },
+        { lenient: true }
+      ).ok
+    ).toBe(false);
+  });
+});
+
+describe('parseEvent', () => {
+  it('should parse the event date into a Date', () => {
+    const result = parseEvent({
+      event_id: '1',
+      event_name: 'Final',
+      event_location: 'Park',
+      event_date: '2025-03-10T18:00:00Z',
+    });
+    expect(result.ok && result.value.date).toEqual(
+      new Date('2025-03-10T18:00:00Z')
+    );
+    expect(parseEvent({ id: '1', name: 'Final', date: 'soon' })).toMatchObject({
+      ok: false,
+      issues: [{ field: 'date', code: 'invalid' }],
+    });
+  });
+
+  it('should parse an optional recurrence, which needs a date', () => {
+    const row = {
+      id: 'tue',
+      name: 'Training',
+      recurrence: 'FREQ=WEEKLY;COUNT=4',
+    };
+    expect(parseEvent({ ...row, date: '2025-03-04T18:00:00Z' })).toMatchObject({
+      ok: true,
+      value: { recurrence: { frequency: 'weekly', count: 4 } },
+    });
+    expect(parseEvent(row)).toMatchObject({
+      ok: false,
+      issues: [{ field: 'date', code: 'missing' }],
+    });
+    expect(parseEvent({ ...row, recurrence: 'FREQ=WEEKLY' })).toMatchObject({
+      ok: false,
+      issues: [{ field: 'recurrence', code: 'invalid' }],
+    });
+  });
+});
+
+describe('parseRsvp', () => {
+  it('should accept only the exact RSVP statuses', () => {
+    expect(
+      parseRsvp({ rsvp_id: '3', event_id: '1', player_id: '2', status: 'Yes' })
+    ).toEqual({
+      ok: true,
+      value: { id: '3', eventId: '1', playerId: '2', status: 'Yes' },
+    });
+    expect(
+      parseRsvp({ eventId: '1', playerId: '2', status: 'yes' })
+    ).toMatchObject({
+      ok: false,
+      issues: [
+        {
+          field: 'status',
+          message: 'status must be one of Yes, No, Maybe, got "yes".',
+        },
+      ],
+    });
+  });
+
+  it('should parse an optional guest count', () => {
+    const row = { eventId: '1', playerId: '2', status: 'Yes' };
+    expect(parseRsvp({ ...row, guests: '2' })).toMatchObject({
+      ok: true,
+      value: { guests: 2 },
+    });
+    expect(parseRsvp({ ...row, guests: -1 })).toMatchObject({
+      ok: false,
+      issues: [
+        {
+          field: 'guests',
+          message: 'guests must be a whole number from 0 to 100, got -1.',
+        },
+      ],
+    });
+  });
+});
+
+describe('parseGuestCount', () => {
+  it('should accept whole numbers between 0 and MAX_GUESTS only', () => {
+    expect(parseGuestCount(' 3 ')).toBe(3);
+    expect(parseGuestCount(MAX_GUESTS)).toBe(MAX_GUESTS);
+    expect(parseGuestCount(MAX_GUESTS + 1)).toBeUndefined();
+    expect(parseGuestCount('99999999999999999999999')).toBeUndefined();
+    expect(parseGuestCount(1e23)).toBeUndefined();
+    expect(parseGuestCount('1.5')).toBeUndefined();
+  });
+
+  it('should reject rows that are not objects', () => {
+    expect(parseRsvp('1,2,Yes')).toMatchObject({
+      ok: false,
+      issues: [{ field: '', message: 'Row must be an object.' }],
+    });
+  });
+});
+
+describe('parseRows', () => {
+  it('should keep the valid rows and report the others by index', () => {
+    const { values, errors } = parseRows(
+      [
+        { eventId: '1', playerId: '1', status: 'No' },
+        { eventId: '1', status: 'No' },
+      ],
+      parseRsvp
+    );
+    expect(values.map((rsvp) => rsvp.playerId)).toEqual(['1']);
+    expect(errors).toEqual([
+      {
+        index: 1,
+        issues: [
+          {
+            field: 'playerId',
+            code: 'missing',
+            message: 'playerId is required.',
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('parseAge', () => {
+  it('should accept whole numbers between 0 and 120 only', () => {
+    expect(parseAge(' 42 ')).toBe(42);
+    expect(parseAge('0')).toBe(0);
+    expect(parseAge(35)).toBe(35);
+    expect(parseAge('121')).toBeUndefined();
+    expect(parseAge('-3')).toBeUndefined();
+    expect(parseAge('4.5')).toBeUndefined();
+    expect(parseAge('')).toBeUndefined();
+    expect(parseAge(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,406 @@
+import { Event, Player, Rsvp } from './domain.types';
+import { parseRecurrenceRule } from './recurrence';
+import { isRsvpStatus, RSVP_STATUSES } from './rsvp.types';
+
+/**
+ * Why one field of a raw row couldn't be parsed.
+ */
+export interface FieldIssue {
+  field: string; // The domain field, e.g. "email"; empty when the row itself is unusable
+  code: 'missing' | 'invalid';
+  message: string;
+}
+
+/**
+ * The outcome of parsing one raw row: the typed value, or every issue found.
+ * A lenient parse can return a value together with the issues it tolerated.
+ */
+export type ParseResult<T> =
+  | { ok: true; value: T; issues?: FieldIssue[] }
+  | { ok: false; issues: FieldIssue[] };
+
+/**
+ * Options of the row parsers.
+ */
+export interface ParseOptions {
+  // Keeps a row whose only issues are a missing name or invalid optional
+  // fields, with the name left blank and those fields unset. IDs and the
+  // RSVP status are still required.
+  lenient?: boolean;
+}
+
+/**
+ * Turns one raw row into a domain value.
+ */
+export type RowParser<T> = (
+  raw: unknown,
+  options?: ParseOptions
+) => ParseResult<T>;
+
+/**
+ * The issues of one row that couldn't be parsed.
+ */
+export interface RowError {
+  index: number; // 0-based position of the row in the input
+  issues: FieldIssue[];
+}
+
+/**
+ * The outcome of parsing many rows: the parsed values, in input order, and
+ * the rows that were rejected.
+ */
+export interface ParsedRows<T> {
+  values: T[];
+  errors: RowError[];
+}
+
+// Deliberately loose: catches typos such as missing "@" or domain, not every RFC edge case.
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_AGE = 120;
+// Keeps a typo or a huge number such as 1e23 out of the headcount.
+export const MAX_GUESTS = 100;
+
+/**
+ * Checks whether a value looks like an email address.
+ */
+export function isValidEmail(value: unknown): value is string {
+  return typeof value === 'string' && EMAIL_PATTERN.test(value);
+}
+
+/**
+ * Parses an age. Only whole numbers from 0 to 120 are accepted,
+ * so values such as "abc", "25.5" or "-3" count as invalid.
+ * @param value - A raw CSV string or JSON number.
+ * @returns The age, or undefined if the value is missing or invalid.
+ */
+export function parseAge(value: unknown): number | undefined {
+  const text = typeof value === 'number' ? String(value) : value;
+  const trimmed = typeof text === 'string' ? text.trim() : '';
+  if (!/^\d+$/.test(trimmed)) {
+    return undefined;
+  }
+  const age = Number(trimmed);
+  return age <= MAX_AGE ? age : undefined;
+}
+
+/**
+ * Parses the number of guests a player brings: a whole number from 0 to
+ * MAX_GUESTS.
+ * @param value - A raw CSV string or JSON number.
+ * @returns The guest count, or undefined if the value is missing or invalid.
+ */
+export function parseGuestCount(value: unknown): number | undefined {
+  const text = typeof value === 'number' ? String(value) : value;
+  const trimmed = typeof text === 'string' ? text.trim() : '';
+  if (!/^\d+$/.test(trimmed)) {
+    return undefined;
+  }
+  const guests = Number(trimmed);
+  return isValidGuestCount(guests) ? guests : undefined;
+}
+
+/**
+ * Checks whether a number is a valid guest count: a whole number from 0 to
+ * MAX_GUESTS.
+ */
+export function isValidGuestCount(guests: number): boolean {
+  return Number.isSafeInteger(guests) && guests >= 0 && guests <= MAX_GUESTS;
+}
+
+/**
+ * Parses a date given as a Date, an ISO 8601 string or anything else `Date.parse` accepts.
+ * @param value - The raw value.
+ * @returns The date, or undefined if the value is missing or invalid.
+ */
+export function parseDate(value: unknown): Date | undefined {
+  const date =
+    value instanceof Date
+      ? value
+      : typeof value === 'string' && value.trim()
+        ? new Date(value.trim())
+        : undefined;
+  return date && !isNaN(date.getTime()) ? date : undefined;
+}
+
+/**
+ * Checks whether a date has no time of day, i.e. falls on midnight UTC, as
+ * dates parsed from "YYYY-MM-DD" do.
+ */
+export function isDateOnly(date: Date): boolean {
+  return date.getTime() % (24 * 60 * 60 * 1000) === 0;
+}
+
+/**
+ * Formats a date as "YYYY-MM-DD" when it has no time of day, and as a full
+ * ISO 8601 timestamp otherwise.
+ */
+export function formatIsoDate(date: Date): string {
+  const iso = date.toISOString();
+  return isDateOnly(date) ? iso.slice(0, 10) : iso;
+}
+
+/**
+ * Parses a players CSV row (`player_id`, `player_name`, `player_email`,
+ * `gender`, `age`) or a JSON Player into a Player.
+ * @param raw - The row to parse.
+ * @param options - Whether to keep rows with tolerable issues.
+ * @returns The Player, or the issues of the row.
+ */
+export function parsePlayer(
+  raw: unknown,
+  options: ParseOptions = {}
+): ParseResult<Player> {
+  return parseRow(raw, options, (fields) => ({
+    id: fields.id('id', 'player_id', 'playerId'),
+    name: fields.text('name', 'player_name'),
+    email: fields.optional('email', parseEmail, 'player_email'),
+    gender: fields.optional('gender', parseText),
+    age: fields.optional('age', parseAge),
+  }));
+}
+
+/**
+ * Parses an events CSV row (`event_id`, `event_name`, `event_location`,
+ * `event_date` and an optional `recurrence`) or a JSON Event into an Event.
+ * A recurring event needs a date, which is its first occurrence; a lenient
+ * parse keeps one without a valid date as a one-off event.
+ * @param raw - The row to parse.
+ * @param options - Whether to keep rows with tolerable issues.
+ * @returns The Event, or the issues of the row.
+ */
+export function parseEvent(
+  raw: unknown,
+  options: ParseOptions = {}
+): ParseResult<Event> {
+  return parseRow(raw, options, (fields) => {
+    const event: Event = {
+      id: fields.id('id', 'event_id', 'eventId'),
+      name: fields.text('name', 'event_name'),
+      location: fields.optional('location', parseText, 'event_location'),
+      date: fields.optional('date', parseDate, 'event_date'),
+      recurrence: fields.optional('recurrence', parseRecurrenceRule),
+    };
+    if (event.recurrence && !fields.has('date', 'event_date')) {
+      fields.flag(
+        {
+          field: 'date',
+          code: 'missing',
+          message: 'date is required for a recurring event.',
+        },
+        true
+      );
+    }
+    if (!event.date) {
+      event.recurrence = undefined;
+    }
+    return event;
+  });
+}
+
+/**
+ * Parses an RSVP CSV row (`rsvp_id`, `event_id`, `player_id`, `status` and an
+ * optional `guests`) or a JSON RsvpEntry into an Rsvp. The status must be
+ * exactly "Yes", "No" or "Maybe".
+ * @param raw - The row to parse.
+ * @param options - Whether to keep rows with tolerable issues.
+ * @returns The Rsvp, or the issues of the row.
+ */
+export function parseRsvp(
+  raw: unknown,
+  options: ParseOptions = {}
+): ParseResult<Rsvp> {
+  return parseRow(raw, options, (fields) => ({
+    id: fields.optional('id', parseId, 'rsvp_id'),
+    eventId: fields.id('eventId', 'event_id'),
+    playerId: fields.id('playerId', 'player_id'),
+    status: fields.required('status', (value) =>
+      isRsvpStatus(value) ? value : undefined
+    ),
+    guests: fields.optional('guests', parseGuestCount),
+  }));
+}
+
+/**
+ * Parses every row of a CSV file or JSON array, keeping the valid ones.
+ * @param rows - The raw rows.
+ * @param parse - The parser of one row, e.g. `parsePlayer`.
+ * @returns The parsed values and the issues of every rejected row.
+ */
+export function parseRows<T>(
+  rows: unknown[],
+  parse: RowParser<T>
+): ParsedRows<T> {
+  const parsed: ParsedRows<T> = { values: [], errors: [] };
+  rows.forEach((row, index) => {
+    const result = parse(row);
+    if (result.ok) {
+      parsed.values.push(result.value);
+    } else {
+      parsed.errors.push({ index, issues: result.issues });
+    }
+  });
+  return parsed;
+}
+
+// Turns a raw value into a field value, or undefined when it's invalid.
+type FieldParser<T> = (value: unknown) => T | undefined;
+
+// Reads the fields of one row, by domain name or CSV column, collecting issues.
+class FieldReader {
+  readonly issues: FieldIssue[] = [];
+  private rejected = false;
+
+  constructor(
+    private readonly row: Record<string, unknown>,
+    private readonly lenient: boolean
+  ) {}
+
+  // Whether the row is kept: no issues, or only tolerable ones when lenient.
+  get ok(): boolean {
+    return !this.rejected;
+  }
+
+  id(field: string, ...aliases: string[]): string {
+    return this.required(field, parseId, ...aliases);
+  }
+
+  // A missing or invalid text is tolerable; a lenient parse leaves it blank.
+  text(field: string, ...aliases: string[]): string {
+    return this.readRequired(field, parseText, aliases, true) ?? '';
+  }
+
+  required<T>(field: string, parse: FieldParser<T>, ...aliases: string[]): T {
+    // Never returned to callers when undefined: the row is rejected
+    return this.readRequired(field, parse, aliases, false) as T;
+  }
+
+  has(field: string, ...aliases: string[]): boolean {
+    return this.read(field, aliases) !== undefined;
+  }
+
+  optional<T>(
+    field: string,
+    parse: FieldParser<T>,
+    ...aliases: string[]
+  ): T | undefined {
+    const value = this.read(field, aliases);
+    return value === undefined
+      ? undefined
+      : this.parse(field, value, parse, true);
+  }
+
+  flag(issue: FieldIssue, tolerable: boolean): void {
+    this.issues.push(issue);
+    if (!(tolerable && this.lenient)) {
+      this.rejected = true;
+    }
+  }
+
+  private readRequired<T>(
+    field: string,
+    parse: FieldParser<T>,
+    aliases: string[],
+    tolerable: boolean
+  ): T | undefined {
+    const value = this.read(field, aliases);
+    if (value === undefined) {
+      this.flag(
+        { field, code: 'missing', message: `${field} is required.` },
+        tolerable
+      );
+      return undefined;
+    }
+    return this.parse(field, value, parse, tolerable);
+  }
+
+  // The first of the names that holds a value; blank strings count as missing.
+  private read(field: string, aliases: string[]): unknown {
+    for (const name of [field, ...aliases]) {
+      const value = this.row[name];
+      if (
+        value !== undefined &&
+        value !== null &&
+        !(typeof value === 'string' && value.trim() === '')
+      ) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  private parse<T>(
+    field: string,
+    value: unknown,
+    parse: FieldParser<T>,
+    tolerable: boolean
+  ): T | undefined {
+    const parsed = parse(value);
+    if (parsed === undefined) {
+      this.flag(
+        { field, code: 'invalid', message: describeInvalid(field, value) },
+        tolerable
+      );
+    }
+    return parsed;
+  }
+}
+
+function parseRow<T>(
+  raw: unknown,
+  { lenient = false }: ParseOptions,
+  build: (fields: FieldReader) => T
+): ParseResult<T> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return {
+      ok: false,
+      issues: [
+        { field: '', code: 'invalid', message: 'Row must be an object.' },
+      ],
+    };
+  }
+  const fields = new FieldReader(raw as Record<string, unknown>, lenient);
+  const value = build(fields);
+  if (!fields.ok) {
+    return { ok: false, issues: fields.issues };
+  }
+  return fields.issues.length > 0
+    ? { ok: true, value, issues: fields.issues }
+    : { ok: true, value };
+}
+
+// IDs may be JSON numbers; CSV IDs are strings either way.
+function parseId(value: unknown): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  return parseText(value);
+}
+
+function parseText(value: unknown): string | undefined {
+  return typeof value === 'string' ? value.trim() : undefined;
+}
+
+function parseEmail(value: unknown): string | undefined {
+  const email = parseText(value);
+  return isValidEmail(email) ? email : undefined;
+}
+
+function describeInvalid(field: string, value: unknown): string {
+  const shown = typeof value === 'string' ? `"${value}"` : String(value);
+  switch (field) {
+    case 'status':
+      return `status must be one of ${RSVP_STATUSES.join(', ')}, got ${shown}.`;
+    case 'age':
+      return `age must be a whole number from 0 to ${MAX_AGE}, got ${shown}.`;
+    case 'guests':
+      return `guests must be a whole number from 0 to ${MAX_GUESTS}, got ${shown}.`;
+    case 'email':
+      return `email ${shown} is not a valid email address.`;
+    case 'date':
+      return `date ${shown} is not a valid date.`;
+    case 'recurrence':
+      return `recurrence ${shown} is not a valid rule; use e.g. "FREQ=WEEKLY;COUNT=10".`;
+    default:
+      return `${field} has an invalid value ${shown}.`;
+  }
+}
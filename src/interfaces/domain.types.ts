@@ -0,0 +1,32 @@
+import { RsvpEntry } from './rsvp.types';
+import { RecurrenceRule } from './series.types';
+
+/**
+ * A player of the league, as used across the services and the report.
+ * Raw CSV or JSON rows become Players through `parsePlayer`.
+ */
+export interface Player {
+  id: string;
+  name: string;
+  email?: string; // Only set when it looks like a valid address
+  gender?: string;
+  age?: number; // A whole number from 0 to 120
+}
+
+/**
+ * An event of the league. Raw rows become Events through `parseEvent`.
+ */
+export interface Event {
+  id: string;
+  name: string;
+  location?: string;
+  date?: Date;
+  recurrence?: RecurrenceRule; // Set for a series; `date` is then its first occurrence
+}
+
+/**
+ * One player's response to one event. Raw rows become Rsvps through `parseRsvp`.
+ */
+export interface Rsvp extends RsvpEntry {
+  id?: string; // The rsvp_id of an imported row, if it had one
+}
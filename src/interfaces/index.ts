@@ -1,2 +1,8 @@
-export * from './player.interface';
+export * from './auth.types';
+export * from './domain.types';
+export * from './domain.schema';
 export * from './rsvp.types';
+export * from './series.types';
+export * from './recurrence';
+export * from './reliability.types';
+export * from './team.types';
@@ -0,0 +1,96 @@
+import {
+  formatRecurrenceRule,
+  listOccurrences,
+  MAX_OCCURRENCES,
+  parseRecurrenceRule,
+} from './recurrence';
+
+describe('parseRecurrenceRule', () => {
+  it('should parse the supported subset of RRULE', () => {
+    expect(parseRecurrenceRule('FREQ=WEEKLY;COUNT=10')).toEqual({
+      frequency: 'weekly',
+      count: 10,
+    });
+    expect(
+      parseRecurrenceRule('RRULE:freq=monthly;interval=2;until=20251231')
+    ).toEqual({
+      frequency: 'monthly',
+      interval: 2,
+      until: new Date('2025-12-31T23:59:59.999Z'),
+    });
+  });
+
+  it('should reject unknown parts, bad values and rules that never end', () => {
+    for (const text of [
+      'FREQ=YEARLY;COUNT=2',
+      'FREQ=WEEKLY;BYDAY=TU;COUNT=2',
+      'FREQ=WEEKLY;INTERVAL=0;COUNT=2',
+      'FREQ=DAILY;COUNT=1.5',
+      'FREQ=DAILY;UNTIL=someday',
+      `FREQ=DAILY;COUNT=${MAX_OCCURRENCES + 1}`,
+      'FREQ=WEEKLY',
+      'weekly',
+    ]) {
+      expect(parseRecurrenceRule(text)).toBeUndefined();
+    }
+  });
+
+  it('should read back what formatRecurrenceRule writes', () => {
+    const rule = {
+      frequency: 'daily' as const,
+      interval: 3,
+      until: new Date('2025-06-01T12:00:00Z'),
+    };
+    expect(formatRecurrenceRule(rule)).toBe(
+      'FREQ=DAILY;INTERVAL=3;UNTIL=2025-06-01T12:00:00.000Z'
+    );
+    expect(parseRecurrenceRule(formatRecurrenceRule(rule))).toEqual(rule);
+  });
+});
+
+describe('listOccurrences', () => {
+  const dates = (
+    rule: Parameters<typeof parseRecurrenceRule>[0],
+    start: string
+  ) =>
+    listOccurrences({
+      id: 's',
+      start: new Date(start),
+      rule: parseRecurrenceRule(rule)!,
+    }).map(({ date }) => date.toISOString());
+
+  it('should step by the interval until the count or until date', () => {
+    expect(
+      dates('FREQ=WEEKLY;INTERVAL=2;COUNT=3', '2025-03-04T18:00:00Z')
+    ).toEqual([
+      '2025-03-04T18:00:00.000Z',
+      '2025-03-18T18:00:00.000Z',
+      '2025-04-01T18:00:00.000Z',
+    ]);
+    expect(
+      dates('FREQ=DAILY;UNTIL=2025-03-06', '2025-03-04T18:00:00Z')
+    ).toHaveLength(3);
+  });
+
+  it('should skip months that lack the start day', () => {
+    expect(dates('FREQ=MONTHLY;COUNT=3', '2025-01-31T18:00:00Z')).toEqual([
+      '2025-01-31T18:00:00.000Z',
+      '2025-03-31T18:00:00.000Z',
+      '2025-05-31T18:00:00.000Z',
+    ]);
+  });
+
+  it('should give each occurrence an ID from its series and date', () => {
+    const [first] = listOccurrences({
+      id: 'tue',
+      start: new Date('2025-03-04T18:00:00Z'),
+      rule: { frequency: 'weekly', count: 1 },
+    });
+    expect(first).toEqual({
+      seriesId: 'tue',
+      eventId: 'tue@2025-03-04',
+      index: 0,
+      date: new Date('2025-03-04T18:00:00Z'),
+    });
+  });
+});
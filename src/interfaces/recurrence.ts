@@ -0,0 +1,173 @@
+import { Event } from './domain.types';
+import {
+  EventSeries,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  SeriesOccurrence,
+} from './series.types';
+
+const FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+};
+
+// Keeps a typo such as UNTIL=2205-01-01 from creating thousands of events.
+export const MAX_OCCURRENCES = 1000;
+
+/**
+ * Checks whether a recurrence rule is usable: a known frequency, a positive
+ * whole interval, and a count or until date so the series ends.
+ */
+export function isValidRecurrenceRule(rule: unknown): rule is RecurrenceRule {
+  if (typeof rule !== 'object' || rule === null) {
+    return false;
+  }
+  const { frequency, interval, count, until } = rule as RecurrenceRule;
+  return (
+    Object.values(FREQUENCIES).includes(frequency) &&
+    (interval === undefined || (Number.isInteger(interval) && interval >= 1)) &&
+    (count === undefined ||
+      (Number.isInteger(count) && count >= 1 && count <= MAX_OCCURRENCES)) &&
+    (until === undefined ||
+      (until instanceof Date && !isNaN(until.getTime()))) &&
+    (count !== undefined || until !== undefined)
+  );
+}
+
+/**
+ * Parses a recurrence rule written as a subset of the iCalendar RRULE syntax,
+ * e.g. `FREQ=WEEKLY;COUNT=10` or `FREQ=MONTHLY;INTERVAL=2;UNTIL=2025-12-31`.
+ * A RecurrenceRule object is accepted as is.
+ * @param value - The raw CSV string or JSON value.
+ * @returns The rule, or undefined if the value is missing or invalid.
+ */
+export function parseRecurrenceRule(
+  value: unknown
+): RecurrenceRule | undefined {
+  if (typeof value !== 'string') {
+    return isValidRecurrenceRule(value) ? value : undefined;
+  }
+  const parts = new Map<string, string>();
+  const text = value.trim().replace(/^RRULE:/i, '');
+  for (const part of text.split(';')) {
+    const [key, partValue, ...rest] = part.split('=');
+    if (!key || partValue === undefined || rest.length > 0) {
+      return undefined;
+    }
+    parts.set(key.trim().toUpperCase(), partValue.trim());
+  }
+  const number = (text: string | undefined) =>
+    text === undefined ? undefined : /^\d+$/.test(text) ? Number(text) : NaN;
+  const until = parts.get('UNTIL');
+  const rule: RecurrenceRule = {
+    frequency: FREQUENCIES[(parts.get('FREQ') ?? '').toUpperCase()],
+    interval: number(parts.get('INTERVAL')),
+    count: number(parts.get('COUNT')),
+    until: until === undefined ? undefined : parseUntil(until),
+  };
+  const knownKeys = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL'];
+  return [...parts.keys()].every((key) => knownKeys.includes(key)) &&
+    isValidRecurrenceRule(rule)
+    ? rule
+    : undefined;
+}
+
+/**
+ * Writes a recurrence rule in the syntax read by `parseRecurrenceRule`.
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval !== undefined && rule.interval !== 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until !== undefined) {
+    parts.push(`UNTIL=${rule.until.toISOString()}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * The ID of the occurrence of a series on a given day (UTC).
+ */
+export function occurrenceId(seriesId: string, date: Date): string {
+  return `${seriesId}@${date.toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Lists every occurrence of a series, in order. Monthly series skip the
+ * months that lack the start's day, as in iCalendar: a series starting on
+ * the 31st only occurs in months with 31 days.
+ * @param series - A series with a valid rule.
+ * @returns The occurrences; at most MAX_OCCURRENCES.
+ */
+export function listOccurrences(series: EventSeries): SeriesOccurrence[] {
+  const { id: seriesId, start, rule } = series;
+  const interval = rule.interval ?? 1;
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const occurrences: SeriesOccurrence[] = [];
+  // A monthly series may skip months, so the step count can outrun the occurrences.
+  for (let step = 0; occurrences.length < limit; step++) {
+    const date = new Date(start.getTime());
+    if (rule.frequency === 'monthly') {
+      date.setUTCMonth(date.getUTCMonth() + step * interval);
+      if (date.getUTCDate() !== start.getUTCDate()) {
+        if (step > limit * 12) {
+          break; // Guards against a rule that never lands on a valid day
+        }
+        continue;
+      }
+    } else {
+      const days = rule.frequency === 'weekly' ? 7 * interval : interval;
+      date.setUTCDate(date.getUTCDate() + step * days);
+    }
+    if (rule.until && date.getTime() > rule.until.getTime()) {
+      break;
+    }
+    occurrences.push({
+      seriesId,
+      eventId: occurrenceId(seriesId, date),
+      index: occurrences.length,
+      date,
+    });
+  }
+  return occurrences;
+}
+
+/**
+ * Turns a recurring event into one event per occurrence, named
+ * "<event name> (<YYYY-MM-DD>)". A one-off event is returned as it is.
+ * @param event - A parsed event; its `date` is the series' first start.
+ * @returns The occurrences as events, in order.
+ */
+export function expandEventSeries(event: Event): Event[] {
+  const { id, name, location, date, recurrence } = event;
+  if (!recurrence || !date) {
+    return [event];
+  }
+  return listOccurrences({ id, start: date, rule: recurrence }).map(
+    (occurrence) => ({
+      id: occurrence.eventId,
+      name: `${name} (${occurrence.date.toISOString().slice(0, 10)})`,
+      location,
+      date: occurrence.date,
+    })
+  );
+}
+
+// A date-only UNTIL includes the whole day; iCalendar's basic format is accepted too.
+function parseUntil(text: string): Date | undefined {
+  const basic = text.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/
+  );
+  const iso = basic
+    ? `${basic[1]}-${basic[2]}-${basic[3]}${basic[4] ? `T${basic[4]}:${basic[5]}:${basic[6]}Z` : ''}`
+    : text;
+  const date = new Date(
+    /^\d{4}-\d{2}-\d{2}$/.test(iso) ? `${iso}T23:59:59.999Z` : iso
+  );
+  return isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,31 @@
+import { RsvpStatus } from './rsvp.types';
+
+/**
+ * What happened at one event whose attendance was taken: every player's
+ * final response and who actually checked in.
+ */
+export interface EventOutcome {
+  eventId: string;
+  responses: Record<string, RsvpStatus>; // Player ID -> final status
+  waitlisted?: string[]; // Said "Yes" but never got a spot
+  checkedIn: string[];
+}
+
+/**
+ * How a player's responses compare with their actual attendance.
+ * Rates are between 0 and 1, and null when there is nothing to divide by.
+ */
+export interface PlayerReliability {
+  playerId: string;
+  events: number; // Events with attendance taken
+  responded: number;
+  attended: number; // Check-ins, whatever the response
+  yes: number; // Confirmed "Yes" responses
+  noShows: number; // "Yes" without a check-in
+  maybe: number;
+  maybeAttended: number;
+  responseRate: number | null;
+  noShowRate: number | null;
+  maybeAttendanceRate: number | null;
+  score: number | null; // 0-100; higher is more reliable
+}
@@ -1,16 +1,33 @@
+import { RecurrenceRule } from './series.types';
+
 /**
  * Defines the possible RSVP statuses.
  */
 export type RsvpStatus = 'Yes' | 'No' | 'Maybe';
 
+/**
+ * Every valid RSVP status, for runtime validation.
+ */
+export const RSVP_STATUSES: readonly RsvpStatus[] = ['Yes', 'No', 'Maybe'];
+
+/**
+ * Checks at runtime whether a value is a valid RsvpStatus.
+ */
+export function isRsvpStatus(value: unknown): value is RsvpStatus {
+  return RSVP_STATUSES.includes(value as RsvpStatus);
+}
+
 /**
  * Represents the structure for returning RSVP counts.
  */
 export interface RsvpCounts {
   total: number;
-  confirmed: number; // Status "Yes"
+  confirmed: number; // Status "Yes" with a confirmed spot
   declined: number; // Status "No"
   maybe: number; // Status "Maybe"
+  waitlisted: number; // Status "Yes" while the event is full
+  guests: number; // Guests brought by confirmed players
+  headcount: number; // Confirmed players plus their guests
 }
 
 /**
@@ -18,6 +35,272 @@ export interface RsvpCounts {
  * or potentially for update operations if Player object is preferred.
  */
 export interface RsvpEntry {
+  eventId: string; // The event this RSVP belongs to
   playerId: string; // Using string ID for flexibility
   status: RsvpStatus;
+  guests?: number; // Extra people the player brings; 0 when omitted
+}
+
+/**
+ * A player's RSVP to an event together with its version, for
+ * compare-and-set updates.
+ */
+export interface VersionedRsvp {
+  eventId: string;
+  playerId: string;
+  status?: RsvpStatus; // Undefined if the player hasn't responded
+  guests: number;
+  version: number; // Stored changes to the RSVP so far; 0 if it never had one
+}
+
+/**
+ * A confirmed player and the guests they bring.
+ */
+export interface ConfirmedAttendee {
+  playerId: string;
+  guests: number;
+}
+
+/**
+ * Optional settings for a single add/update operation.
+ */
+export interface RsvpUpdateOptions {
+  source?: string; // Where the change came from, e.g. "api" or "import"
+  override?: boolean; // Organizer override: allows changes after the RSVP cutoff
+  guests?: number; // The player's guests; kept as they were when omitted
+  expectedVersion?: number; // The version the caller last read; the change fails if it's stale
+}
+
+/**
+ * How a batch handles invalid entries: "atomic" applies every entry or none,
+ * "partial" applies the valid ones and reports the rest.
+ */
+export type BatchMode = 'atomic' | 'partial';
+
+/**
+ * Optional settings for a batch of RSVP changes.
+ */
+export interface BatchOptions
+  extends Omit<RsvpUpdateOptions, 'guests' | 'expectedVersion'> {
+  mode?: BatchMode; // Defaults to "atomic"
+}
+
+/**
+ * Why a batch entry was rejected.
+ */
+export type BatchErrorCode =
+  | 'INVALID_ENTRY'
+  | 'INVALID_EVENT_ID'
+  | 'INVALID_PLAYER_ID'
+  | 'INVALID_STATUS'
+  | 'INVALID_GUESTS'
+  | 'DUPLICATE_IN_BATCH'
+  | 'RSVP_LOCKED'
+  | 'GUEST_LIMIT_EXCEEDED'
+  | 'FORBIDDEN';
+
+/**
+ * What happened to one batch entry: "skipped" entries were valid but not
+ * applied because an atomic batch was rejected as a whole.
+ */
+export type BatchItemOutcome = 'applied' | 'unchanged' | 'rejected' | 'skipped';
+
+/**
+ * The result of one batch entry, in the order the entries were given.
+ */
+export interface BatchItemResult {
+  index: number;
+  eventId?: string;
+  playerId?: string;
+  outcome: BatchItemOutcome;
+  error?: { code: BatchErrorCode; message: string }; // Set when rejected
+}
+
+/**
+ * The result of a whole batch.
+ */
+export interface BatchResult {
+  mode: BatchMode;
+  committed: boolean; // False when an atomic batch was rejected
+  appliedCount: number;
+  rejectedCount: number;
+  results: BatchItemResult[];
+}
+
+/**
+ * When an event stops accepting RSVP changes: at a fixed moment,
+ * or a number of hours before the event starts.
+ */
+export type RsvpCutoff =
+  | { kind: 'fixed'; at: Date }
+  | { kind: 'relative'; hoursBefore: number };
+
+/**
+ * The timing of an event. RSVPs are frozen once the event has started,
+ * and earlier if a cutoff is set.
+ */
+export interface EventSchedule {
+  eventDate?: Date; // When the event starts
+  cutoff?: RsvpCutoff;
+}
+
+/**
+ * Why an event no longer accepts RSVP changes.
+ */
+export type RsvpLockReason = 'cutoff' | 'event-past';
+
+/**
+ * Describes an event whose RSVPs are locked.
+ */
+export interface RsvpLock {
+  reason: RsvpLockReason;
+  since: Date; // The moment the RSVPs locked
 }
+
+/**
+ * An append-only record of one RSVP status change.
+ */
+export interface RsvpChange {
+  eventId: string;
+  playerId: string;
+  previousStatus?: RsvpStatus; // Undefined for a player's first response
+  newStatus?: RsvpStatus; // Undefined when the RSVP was removed
+  guests?: number; // The player's guests after the change; 0 when omitted
+  timestamp: Date;
+  source: string;
+}
+
+interface RsvpNotificationBase {
+  eventId: string;
+  playerId: string;
+  guests?: number; // Set when the player brings guests
+  timestamp: Date;
+  source: string;
+}
+
+/**
+ * Sent to subscribers when a player responds to an event for the first time.
+ */
+export interface RsvpAddedNotification extends RsvpNotificationBase {
+  type: 'added';
+  newStatus: RsvpStatus;
+}
+
+/**
+ * Sent to subscribers when a player changes their response.
+ */
+export interface RsvpUpdatedNotification extends RsvpNotificationBase {
+  type: 'updated';
+  previousStatus: RsvpStatus;
+  newStatus: RsvpStatus;
+}
+
+/**
+ * Sent to subscribers when a player's response is removed.
+ */
+export interface RsvpRemovedNotification extends RsvpNotificationBase {
+  type: 'removed';
+  previousStatus: RsvpStatus;
+}
+
+/**
+ * Every notification RsvpService sends to its subscribers.
+ */
+export type RsvpNotification =
+  | RsvpAddedNotification
+  | RsvpUpdatedNotification
+  | RsvpRemovedNotification;
+
+export type RsvpNotificationType = RsvpNotification['type'];
+
+/**
+ * A subscriber for one or more notification types.
+ */
+export type RsvpListener<
+  T extends RsvpNotificationType = RsvpNotificationType,
+> = (notification: Extract<RsvpNotification, { type: T }>) => void;
+
+/**
+ * A stored RSVP status change.
+ */
+export interface RsvpChangeRecord extends RsvpChange {
+  kind: 'rsvp';
+}
+
+/**
+ * A stored change to an event's capacity (undefined removes the limit).
+ */
+export interface CapacityChangeRecord {
+  kind: 'capacity';
+  eventId: string;
+  capacity?: number;
+  timestamp: Date;
+}
+
+/**
+ * A stored change to how many guests each player may bring to an event
+ * (undefined removes the limit).
+ */
+export interface GuestLimitChangeRecord {
+  kind: 'guest-limit';
+  eventId: string;
+  maxGuests?: number;
+  timestamp: Date;
+}
+
+/**
+ * A stored change to an event's schedule (an empty schedule clears it).
+ */
+export interface ScheduleChangeRecord extends EventSchedule {
+  kind: 'schedule';
+  eventId: string;
+  timestamp: Date;
+}
+
+/**
+ * A stored check-in at an event, or its undoing.
+ */
+export interface CheckInRecord {
+  kind: 'checkin';
+  eventId: string;
+  playerId: string;
+  checkedIn: boolean; // False undoes an earlier check-in
+  timestamp: Date;
+  source: string;
+}
+
+/**
+ * A stored definition of an event series; a later one replaces it.
+ */
+export interface SeriesDefinitionRecord {
+  kind: 'series';
+  eventId: string; // The series ID
+  start: Date;
+  rule: RecurrenceRule;
+  timestamp: Date;
+}
+
+/**
+ * A stored response of a player to a whole series (undefined removes it).
+ */
+export interface SeriesRsvpRecord {
+  kind: 'series-rsvp';
+  eventId: string; // The series ID
+  playerId: string;
+  newStatus?: RsvpStatus;
+  timestamp: Date;
+  source: string;
+}
+
+/**
+ * Everything an RSVP store persists; replaying the records in order
+ * rebuilds the service state exactly.
+ */
+export type RsvpRecord =
+  | RsvpChangeRecord
+  | CapacityChangeRecord
+  | GuestLimitChangeRecord
+  | ScheduleChangeRecord
+  | CheckInRecord
+  | SeriesDefinitionRecord
+  | SeriesRsvpRecord;
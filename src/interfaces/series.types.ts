@@ -0,0 +1,36 @@
+/**
+ * How often a series repeats.
+ */
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * When a series repeats: every `interval` days, weeks or months from its
+ * start, until `count` occurrences or the `until` date, whichever comes first.
+ * At least one of `count` and `until` is required, so every series ends.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number; // Defaults to 1
+  count?: number; // The number of occurrences
+  until?: Date; // The last moment an occurrence may start
+}
+
+/**
+ * An event that repeats. Each occurrence is an event of its own, with the ID
+ * `<seriesId>@<YYYY-MM-DD>`, and players can respond to the whole series.
+ */
+export interface EventSeries {
+  id: string;
+  start: Date; // When the first occurrence starts; later ones keep its time of day
+  rule: RecurrenceRule;
+}
+
+/**
+ * One occurrence of an event series.
+ */
+export interface SeriesOccurrence {
+  seriesId: string;
+  eventId: string; // `<seriesId>@<YYYY-MM-DD>`
+  index: number; // 0 for the first occurrence
+  date: Date;
+}
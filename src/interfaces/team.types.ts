@@ -0,0 +1,29 @@
+/**
+ * How to split players into teams.
+ */
+export interface TeamOptions {
+  teamCount: number; // At least 2
+  seed?: string | number; // The same seed and players always give the same teams
+  keepTogether?: string[][]; // Groups of player IDs that must share a team
+  keepApart?: string[][]; // Groups of player IDs that must all be on different teams
+}
+
+/**
+ * One team and the mix of its players.
+ */
+export interface Team {
+  name: string; // "Team 1", "Team 2", ...
+  playerIds: string[];
+  genders: Record<string, number>; // Players without a gender count as "Unspecified"
+  averageAge: number | null; // Over the players with a known age; null without any
+  minAge: number | null;
+  maxAge: number | null;
+}
+
+/**
+ * The outcome of a team split, with the seed that reproduces it.
+ */
+export interface TeamAssignment {
+  seed: string;
+  teams: Team[];
+}
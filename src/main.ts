@@ -1,6 +1,7 @@
 import { ConsoleLogger, ILogger } from './utils';
 import { RsvpService } from './services';
-import { RsvpEntry, Player } from './interfaces'; // Player is not used here but good to import if needed
+import { InMemoryRsvpRepository, createSeedRecords } from './repositories';
+import { RsvpEntry, Player, Principal } from './interfaces'; // Player is not used here but good to import if needed
 
 // --- Setup ---
 
@@ -10,28 +11,35 @@ logger.log('Application starting...');
 
 // 2. Defining some initial data (optional)
 const initialRsvps: RsvpEntry[] = [
-  { playerId: 'player1', status: 'Maybe' },
-  { playerId: 'player2', status: 'No' },
-  { playerId: 'player3', status: 'Maybe' },
-  { playerId: 'player4', status: 'Yes' },
+  { eventId: 'event1', playerId: 'player1', status: 'Maybe' },
+  { eventId: 'event1', playerId: 'player2', status: 'No' },
+  { eventId: 'event1', playerId: 'player3', status: 'Maybe' },
+  { eventId: 'event1', playerId: 'player4', status: 'Yes' },
+  { eventId: 'event2', playerId: 'player4', status: 'Yes' },
 ];
 
-// 3. Instantiating the service, injecting the logger and initial data
-const rsvpService = new RsvpService(logger, initialRsvps);
+// 3. Instantiating the service, injecting the logger and a store seeded with the initial data
+const rsvpService = new RsvpService(
+  logger,
+  new InMemoryRsvpRepository(createSeedRecords(initialRsvps))
+);
+
+// 4. Acting as an admin; a player could only change their own RSVPs
+const admin: Principal = { role: 'admin', id: 'demo' };
 
 // --- Usage ---
 
 logger.log('\n--- Using the RSVP Service ---');
 
 // Adding a new player
-rsvpService.addOrUpdateRsvp('player5', 'Yes');
+rsvpService.addOrUpdateRsvp(admin, 'event1', 'player5', 'Yes');
 
 // Updating an existing player
-rsvpService.addOrUpdateRsvp('player2', 'No');
+rsvpService.addOrUpdateRsvp(admin, 'event1', 'player2', 'No');
 
 // Trying to add an invalid status (should log an error)
 try {
-  rsvpService.addOrUpdateRsvp('player6', 'Invalid' as any); // using 'as any', helps to bypass TS check for demo
+  rsvpService.addOrUpdateRsvp(admin, 'event1', 'player6', 'Invalid' as any); // using 'as any', helps to bypass TS check for demo
 } catch (e) {
   logger.error(
     'Caught error trying to add invalid status (though service handles internally):',
@@ -40,18 +48,32 @@ try {
 }
 
 // Getting confirmed attendees
-const confirmed = rsvpService.getConfirmedAttendees();
+const confirmed = rsvpService.getConfirmedAttendees('event1');
 logger.log('\nConfirmed Attendees:', confirmed); 
 
 // Getting counts
-const counts = rsvpService.getCounts();
+const counts = rsvpService.getCounts('event1');
 logger.log('\nRSVP Counts:', counts);
 
 // Getting status for a specific player
-const player3Status = rsvpService.getPlayerStatus('player3');
+const player3Status = rsvpService.getPlayerStatus('event1', 'player3');
 logger.log(`\nStatus for player3: ${player3Status}`); 
 
-const playerUnknownStatus = rsvpService.getPlayerStatus('player_unknown');
+const playerUnknownStatus = rsvpService.getPlayerStatus('event1', 'player_unknown');
 logger.log(`\nStatus for player_unknown: ${playerUnknownStatus}`); 
 
+// Limiting event2 to two spots; the third "Yes" goes on the waitlist
+rsvpService.setEventCapacity(admin, 'event2', 2);
+rsvpService.addOrUpdateRsvp(admin, 'event2', 'player1', 'Yes');
+rsvpService.addOrUpdateRsvp(admin, 'event2', 'player3', 'Yes');
+rsvpService.addOrUpdateRsvp(admin, 'event2', 'player4', 'No'); // player3 gets promoted
+logger.log('\nEvent2 waitlist:', rsvpService.getWaitlist('event2'));
+
+// Cross-event queries
+const player4Events = rsvpService.getEventsForPlayer('player4');
+logger.log('\nEvents player4 said Yes to:', player4Events);
+
+const countsByEvent = rsvpService.getCountsByEvent();
+logger.log('\nRSVP Counts by event:', countsByEvent);
+
 logger.log('\n--- Application Finished ---');
@@ -0,0 +1,264 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ReminderService } from './ReminderService';
+import { InMemoryReminderLedger, JsonlReminderLedger } from './ledgers';
+import { IReminderTransport, ReminderMessage } from './reminder.types';
+import { renderTemplate } from './templates';
+import { Event, Player, Principal } from '../interfaces';
+import { InMemoryRsvpRepository } from '../repositories';
+import { RsvpService } from '../services';
+import { IClock } from '../utils';
+import { ILogger } from '../utils/logger.interface';
+
+const createMockLogger = (): jest.Mocked<ILogger> => ({
+  log: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+});
+
+const admin: Principal = { role: 'admin', id: 'admin' };
+
+// Collects messages instead of delivering them
+class RecordingTransport implements IReminderTransport {
+  readonly messages: ReminderMessage[] = [];
+  async send(message: ReminderMessage): Promise<void> {
+    this.messages.push(message);
+  }
+}
+
+const players: Player[] = [
+  {
+    id: '1',
+    name: 'Ann',
+    email: 'ann@x.com',
+    gender: 'Female',
+    age: 30,
+  },
+  {
+    id: '2',
+    name: 'Ben',
+    email: 'ben@x.com',
+    gender: 'Male',
+    age: 25,
+  },
+  {
+    id: '3',
+    name: 'Cy',
+    email: 'cy@x.com',
+    gender: 'Male',
+    age: 41,
+  },
+  {
+    id: '4',
+    name: 'Dee',
+    gender: 'Female',
+    age: 35,
+  },
+];
+
+const events: Event[] = [
+  {
+    id: '1',
+    name: 'Cup Final',
+    location: 'Park',
+    date: new Date('2025-03-10T18:00:00Z'),
+  },
+  {
+    id: '2',
+    name: 'Far Away',
+    location: 'Gym',
+    date: new Date('2025-06-01T18:00:00Z'),
+  },
+  {
+    id: '3',
+    name: 'Last Week',
+    location: 'Gym',
+    date: new Date('2025-03-01T18:00:00Z'),
+  },
+];
+
+describe('ReminderService', () => {
+  let mockLogger: jest.Mocked<ILogger>;
+  let now: Date;
+  const clock: IClock = { now: () => now };
+  let rsvpService: RsvpService;
+  let transport: RecordingTransport;
+  let ledger: InMemoryReminderLedger;
+  let reminders: ReminderService;
+
+  beforeEach(() => {
+    mockLogger = createMockLogger();
+    now = new Date('2025-03-05T12:00:00Z'); // Inside the 7-day window of event 1 only
+    rsvpService = new RsvpService(
+      mockLogger,
+      new InMemoryRsvpRepository(),
+      clock
+    );
+    rsvpService.addOrUpdateRsvp(admin, '1', '1', 'Maybe');
+    rsvpService.addOrUpdateRsvp(admin, '1', '2', 'Yes');
+    transport = new RecordingTransport();
+    ledger = new InMemoryReminderLedger();
+    reminders = new ReminderService(
+      rsvpService,
+      transport,
+      ledger,
+      mockLogger,
+      {},
+      clock
+    );
+  });
+
+  it('should remind "Maybe" players and non-responders of events in an open window', async () => {
+    const result = await reminders.sendReminders(players, events);
+
+    expect(
+      result.sent.map(({ idempotencyKey, kind }) => ({ idempotencyKey, kind }))
+    ).toEqual([
+      { idempotencyKey: '1:7d:1', kind: 'maybe' },
+      { idempotencyKey: '1:7d:3', kind: 'no-response' },
+    ]);
+    expect(result.skippedPlayers).toEqual(['4']);
+    expect(transport.messages[0]).toMatchObject({
+      to: { name: 'Ann', email: 'ann@x.com' },
+      subject: 'Are you in for Cup Final?',
+    });
+    expect(transport.messages[1].text).toContain(
+      "We haven't heard from you about Cup Final on 2025-03-10T18:00:00.000Z at Park."
+    );
+  });
+
+  it('should never send the same reminder twice for an event and window', async () => {
+    await reminders.sendReminders(players, events);
+    const again = await reminders.sendReminders(players, events);
+    expect(again.sent).toEqual([]);
+    expect(again.alreadySent).toBe(2);
+
+    // The next window opens a day before the event
+    now = new Date('2025-03-09T20:00:00Z');
+    const nextWindow = await reminders.sendReminders(players, events);
+    expect(nextWindow.sent.map((message) => message.idempotencyKey)).toEqual([
+      '1:1d:1',
+      '1:1d:3',
+    ]);
+    expect(transport.messages).toHaveLength(4);
+  });
+
+  it('should retry failed deliveries on the next run', async () => {
+    jest
+      .spyOn(transport, 'send')
+      .mockRejectedValueOnce(new Error('connection refused'));
+    const first = await reminders.sendReminders(players, events);
+    expect(first.failed).toHaveLength(1);
+    expect(first.failed[0].error).toBe('connection refused');
+    expect(first.sent).toHaveLength(1);
+
+    const second = await reminders.sendReminders(players, events);
+    expect(second.sent.map((message) => message.idempotencyKey)).toEqual([
+      '1:7d:1',
+    ]);
+  });
+
+  it('should skip events whose RSVPs are locked', async () => {
+    rsvpService.setEventSchedule(admin, '1', {
+      cutoff: { kind: 'fixed', at: new Date('2025-03-05T00:00:00Z') },
+    });
+    const result = await reminders.sendReminders(players, events);
+    expect(result.sent).toEqual([]);
+  });
+
+  it('should remind of every occurrence of a series, counting series responses', async () => {
+    const training: Event = {
+      id: '10',
+      name: 'Training',
+      location: 'Gym',
+      date: new Date('2025-03-06T18:00:00Z'),
+      recurrence: { frequency: 'weekly', count: 3 },
+    };
+    rsvpService.defineSeries(admin, {
+      id: '10',
+      start: training.date!,
+      rule: training.recurrence!,
+    });
+    rsvpService.setSeriesRsvp(admin, '10', '1', 'Yes');
+    rsvpService.addOrUpdateRsvp(admin, '10@2025-03-06', '2', 'Maybe');
+
+    const first = await reminders.sendReminders(players, [training]);
+    expect(
+      first.sent.map(({ idempotencyKey, kind }) => ({ idempotencyKey, kind }))
+    ).toEqual([
+      { idempotencyKey: '10@2025-03-06:7d:2', kind: 'maybe' },
+      { idempotencyKey: '10@2025-03-06:7d:3', kind: 'no-response' },
+    ]);
+    expect(first.sent[0].subject).toBe('Are you in for Training (2025-03-06)?');
+
+    // A week later the next occurrence is due; Ann's series "Yes" still holds
+    now = new Date('2025-03-12T12:00:00Z');
+    const next = await reminders.sendReminders(players, [training]);
+    expect(next.sent.map((message) => message.idempotencyKey)).toEqual([
+      '10@2025-03-13:7d:2',
+      '10@2025-03-13:7d:3',
+    ]);
+  });
+
+  it('should remember sent reminders across restarts with a JSONL ledger', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rsvp-reminders-'));
+    try {
+      const ledgerPath = path.join(tempDir, 'reminders.jsonl');
+      const create = () =>
+        new ReminderService(
+          rsvpService,
+          transport,
+          new JsonlReminderLedger(ledgerPath),
+          mockLogger,
+          {},
+          clock
+        );
+      await create().sendReminders(players, events);
+      const afterRestart = await create().sendReminders(players, events);
+      expect(afterRestart.sent).toEqual([]);
+      expect(afterRestart.alreadySent).toBe(2);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should finish a ledger line that the file system only partly wrote', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rsvp-reminders-'));
+    const writeSync = fs.writeSync;
+    // Stores at most 8 bytes per call, like an interrupted write
+    const shortWrite = (fd: number, buffer: Buffer, offset: number) =>
+      writeSync(fd, buffer, offset, Math.min(8, buffer.length - offset));
+    const spy = jest
+      .spyOn(jest.requireActual<typeof fs>('fs'), 'writeSync')
+      .mockImplementation(shortWrite as typeof fs.writeSync);
+    try {
+      const ledgerPath = path.join(tempDir, 'reminders.jsonl');
+      new JsonlReminderLedger(ledgerPath).record({
+        idempotencyKey: 'e1:24h:1',
+        eventId: 'e1',
+        playerId: '1',
+        window: '24h',
+        sentAt: new Date('2025-03-01T12:00:00Z'),
+      });
+      expect(spy.mock.calls.length).toBeGreaterThan(1);
+      spy.mockRestore();
+      expect(new JsonlReminderLedger(ledgerPath).has('e1:24h:1')).toBe(true);
+    } finally {
+      spy.mockRestore();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('renderTemplate', () => {
+  it('should fill known placeholders and blank unknown ones', () => {
+    expect(
+      renderTemplate('Hi {{ playerName }}, see {{eventName}}{{missing}}!', {
+        playerName: 'Ann',
+        eventName: 'the final',
+      })
+    ).toBe('Hi Ann, see the final!');
+  });
+});
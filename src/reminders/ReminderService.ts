@@ -0,0 +1,214 @@
+import { Event, expandEventSeries, Player } from '../interfaces';
+import { RsvpService } from '../services';
+import { IClock, ILogger, systemClock } from '../utils';
+import { isDeliverableEmail } from './email';
+import {
+  IReminderLedger,
+  IReminderTransport,
+  ReminderKind,
+  ReminderMessage,
+  ReminderRunResult,
+  ReminderTemplates,
+  ReminderWindow,
+} from './reminder.types';
+import { defaultReminderTemplates, renderTemplate } from './templates';
+
+/**
+ * Optional settings for ReminderService.
+ */
+export interface ReminderServiceOptions {
+  windows?: ReminderWindow[]; // Defaults to a week and a day before the event
+  templates?: ReminderTemplates;
+  from?: string; // The From header of every reminder
+}
+
+export const defaultReminderWindows: ReminderWindow[] = [
+  { name: '7d', hoursBefore: 7 * 24 },
+  { name: '1d', hoursBefore: 24 },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Nudges players about upcoming events: those who answered "Maybe" and those
+ * on the roster who never responded.
+ *
+ * Each run sends at most one reminder per player and event for the window the
+ * event is currently in. The ledger records every delivered reminder under
+ * `${eventId}:${window}:${playerId}`, so running again (even after a restart)
+ * never repeats one; a failed delivery isn't recorded and is retried next run.
+ * A recurring event is reminded of occurrence by occurrence, under each
+ * occurrence's own event ID, and a player's response to the whole series
+ * counts for every occurrence they haven't answered themselves.
+ */
+export class ReminderService {
+  private readonly rsvpService: RsvpService; // Dependency Injection
+  private readonly transport: IReminderTransport; // Dependency Injection
+  private readonly ledger: IReminderLedger; // Dependency Injection
+  private readonly logger: ILogger; // Dependency Injection
+  private readonly clock: IClock; // Dependency Injection
+  private readonly windows: ReminderWindow[];
+  private readonly templates: ReminderTemplates;
+  private readonly from: string;
+
+  /**
+   * Creates an instance of ReminderService.
+   * @param rsvpService - Where the players' current statuses come from.
+   * @param transport - How reminders are delivered.
+   * @param ledger - Where delivered reminders are remembered.
+   * @param logger - An implementation of ILogger for logging.
+   * @param options - Optional windows, templates and sender.
+   * @param clock - The source of the current time.
+   */
+  constructor(
+    rsvpService: RsvpService,
+    transport: IReminderTransport,
+    ledger: IReminderLedger,
+    logger: ILogger,
+    options: ReminderServiceOptions = {},
+    clock: IClock = systemClock
+  ) {
+    this.rsvpService = rsvpService;
+    this.transport = transport;
+    this.ledger = ledger;
+    this.logger = logger;
+    this.clock = clock;
+    this.windows = options.windows ?? defaultReminderWindows;
+    this.templates = options.templates ?? defaultReminderTemplates;
+    this.from = options.from ?? 'RSVP Reminders <reminders@rsvp.local>';
+  }
+
+  /**
+   * Sends the reminders that are due right now.
+   * @param players - The roster; every player is expected to respond to every event.
+   * @param events - The events; those without a date are never reminded of,
+   *                 and a series stands for each of its occurrences.
+   * @returns What was sent, skipped and failed.
+   */
+  async sendReminders(
+    players: Player[],
+    events: Event[]
+  ): Promise<ReminderRunResult> {
+    const result: ReminderRunResult = {
+      sent: [],
+      alreadySent: 0,
+      failed: [],
+      skippedPlayers: [],
+    };
+    const now = this.clock.now();
+
+    const recipients = players.filter((player) => {
+      if (!isDeliverableEmail(player.email)) {
+        result.skippedPlayers.push(player.id);
+        return false;
+      }
+      return true;
+    });
+    if (result.skippedPlayers.length > 0) {
+      this.logger.warn(
+        `Skipping ${result.skippedPlayers.length} player(s) without a usable email address.`
+      );
+    }
+
+    for (const event of events.flatMap(expandEventSeries)) {
+      const window = this.getOpenWindow(event, now);
+      if (!window) {
+        continue;
+      }
+      if (this.rsvpService.getRsvpLock(event.id)) {
+        this.logger.log(
+          `Skipping reminders for event ${event.id}; its RSVPs are locked.`
+        );
+        continue;
+      }
+
+      for (const player of recipients) {
+        const kind = this.getReminderKind(event.id, player.id);
+        if (!kind) {
+          continue;
+        }
+        const message = this.createMessage(event, player, window, kind, now);
+        if (this.ledger.has(message.idempotencyKey)) {
+          result.alreadySent++;
+          continue;
+        }
+
+        try {
+          await this.transport.send(message);
+        } catch (error) {
+          const reason = (error as Error).message;
+          this.logger.error(
+            `Failed to send reminder ${message.idempotencyKey}: ${reason}`
+          );
+          result.failed.push({ message, error: reason });
+          continue;
+        }
+        this.ledger.record({
+          idempotencyKey: message.idempotencyKey,
+          eventId: message.eventId,
+          playerId: message.playerId,
+          window: message.window,
+          sentAt: now,
+        });
+        result.sent.push(message);
+      }
+    }
+
+    this.logger.log(
+      `Sent ${result.sent.length} reminder(s); ${result.alreadySent} already sent, ${result.failed.length} failed.`
+    );
+    return result;
+  }
+
+  // The most recently opened window of an upcoming event, if any.
+  private getOpenWindow(event: Event, now: Date): ReminderWindow | undefined {
+    const eventTime = event.date?.getTime();
+    if (eventTime === undefined || eventTime <= now.getTime()) {
+      return undefined;
+    }
+    const hoursLeft = (eventTime - now.getTime()) / HOUR_MS;
+    return this.windows
+      .filter((window) => window.hoursBefore >= hoursLeft)
+      .sort((a, b) => a.hoursBefore - b.hoursBefore)[0];
+  }
+
+  private getReminderKind(
+    eventId: string,
+    playerId: string
+  ): ReminderKind | undefined {
+    const status = this.rsvpService.getPlayerStatus(eventId, playerId);
+    if (status === undefined) {
+      return 'no-response';
+    }
+    return status === 'Maybe' ? 'maybe' : undefined;
+  }
+
+  private createMessage(
+    event: Event,
+    player: Player,
+    window: ReminderWindow,
+    kind: ReminderKind,
+    now: Date
+  ): ReminderMessage {
+    const values = {
+      playerName: player.name,
+      eventName: event.name,
+      eventDate: event.date?.toISOString() ?? '',
+      eventLocation: event.location ?? '',
+      window: window.name,
+    };
+    const template = this.templates[kind];
+    return {
+      idempotencyKey: `${event.id}:${window.name}:${player.id}`,
+      eventId: event.id,
+      playerId: player.id,
+      window: window.name,
+      kind,
+      from: this.from,
+      to: { name: player.name, email: player.email ?? '' },
+      subject: renderTemplate(template.subject, values),
+      text: renderTemplate(template.text, values),
+      date: now,
+    };
+  }
+}
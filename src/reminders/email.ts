@@ -0,0 +1,55 @@
+import { ReminderMessage } from './reminder.types';
+
+// Loose on purpose; it only has to keep obviously broken addresses out of the headers.
+const EMAIL_PATTERN = /^[^\s@<>,;]+@[^\s@<>,;]+\.[^\s@<>,;]+$/;
+
+/**
+ * Checks whether an address can safely be used in a To or From header.
+ */
+export function isDeliverableEmail(email: string | undefined): boolean {
+  return !!email && EMAIL_PATTERN.test(email);
+}
+
+/**
+ * Formats a reminder as an RFC 5322 message with CRLF line endings,
+ * as written to `.eml` files and sent over SMTP.
+ * @param message - The rendered reminder.
+ * @returns The complete message, headers and body.
+ */
+export function formatEmail(message: ReminderMessage): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${formatDisplayName(message.to.name)} <${message.to.email}>`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${message.date.toUTCString()}`,
+    // Derived from the idempotency key, so receivers can drop duplicates too.
+    `Message-ID: <${message.idempotencyKey.replace(/[^\w.-]/g, '.')}@rsvp.local>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = message.text.replace(/\r?\n/g, '\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+// Header values come from CSV data: line breaks are dropped so they can't add
+// headers, and non-ASCII text is encoded as an RFC 2047 encoded-word.
+function encodeHeader(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, ' ');
+  if (isPrintableAscii(singleLine)) {
+    return singleLine;
+  }
+  return `=?UTF-8?B?${Buffer.from(singleLine, 'utf8').toString('base64')}?=`;
+}
+
+// Quoting ASCII names, so commas or quotes in them can't split the address.
+function formatDisplayName(name: string): string {
+  const singleLine = name.replace(/[\r\n]+/g, ' ');
+  return isPrintableAscii(singleLine)
+    ? `"${singleLine.replace(/["\\]/g, '\\$&')}"`
+    : encodeHeader(singleLine);
+}
+
+function isPrintableAscii(value: string): boolean {
+  return /^[\x20-\x7e]*$/.test(value);
+}
@@ -0,0 +1,6 @@
+export * from './reminder.types';
+export * from './templates';
+export * from './email';
+export * from './ReminderService';
+export * from './transports';
+export * from './ledgers';
@@ -0,0 +1,16 @@
+import { IReminderLedger, SentReminder } from '../reminder.types';
+
+/**
+ * Keeps the sent reminders in memory only; useful for tests and dry runs.
+ */
+export class InMemoryReminderLedger implements IReminderLedger {
+  private readonly sent = new Map<string, SentReminder>();
+
+  has(idempotencyKey: string): boolean {
+    return this.sent.has(idempotencyKey);
+  }
+
+  record(reminder: SentReminder): void {
+    this.sent.set(reminder.idempotencyKey, reminder);
+  }
+}
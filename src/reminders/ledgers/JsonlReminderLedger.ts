@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { appendLineSync } from '../../utils';
+import { IReminderLedger, SentReminder } from '../reminder.types';
+
+/**
+ * Stores one JSON line per sent reminder, appended in full and fsynced like
+ * JsonlRsvpRepository's records, so a restart never forgets what was sent.
+ */
+export class JsonlReminderLedger implements IReminderLedger {
+  private readonly filePath: string;
+  private readonly keys = new Set<string>();
+
+  /**
+   * @param filePath - Path of the JSONL file; it is created on the first record.
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+    const buffer = fs.readFileSync(filePath);
+    // Everything after the last newline is an interrupted write; that reminder
+    // wasn't recorded, so it may be sent once more.
+    const completeLength = buffer.lastIndexOf('\n') + 1;
+    if (completeLength < buffer.length) {
+      fs.truncateSync(filePath, completeLength);
+    }
+    const lines = buffer
+      .subarray(0, completeLength)
+      .toString('utf8')
+      .split('\n');
+    lines.forEach((line, index) => {
+      if (line.trim() === '') {
+        return;
+      }
+      try {
+        this.keys.add(JSON.parse(line).idempotencyKey);
+      } catch (error) {
+        throw new Error(
+          `Corrupt reminder ledger ${filePath} at line ${index + 1}: ${(error as Error).message}`
+        );
+      }
+    });
+  }
+
+  has(idempotencyKey: string): boolean {
+    return this.keys.has(idempotencyKey);
+  }
+
+  record(reminder: SentReminder): void {
+    appendLineSync(this.filePath, JSON.stringify(reminder));
+    this.keys.add(reminder.idempotencyKey);
+  }
+}
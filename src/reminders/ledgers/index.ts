@@ -0,0 +1,2 @@
+export * from './InMemoryReminderLedger';
+export * from './JsonlReminderLedger';
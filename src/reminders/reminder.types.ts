@@ -0,0 +1,76 @@
+/**
+ * Why a player is being reminded.
+ */
+export type ReminderKind = 'maybe' | 'no-response';
+
+/**
+ * A period before an event in which one round of reminders is sent,
+ * e.g. `{ name: '1d', hoursBefore: 24 }` opens a day before the event starts.
+ */
+export interface ReminderWindow {
+  name: string; // Part of the idempotency key, so keep it stable
+  hoursBefore: number;
+}
+
+/**
+ * The subject and body templates of one reminder kind.
+ * Placeholders such as `{{playerName}}` are filled in by renderTemplate.
+ */
+export interface ReminderTemplate {
+  subject: string;
+  text: string;
+}
+
+export type ReminderTemplates = Record<ReminderKind, ReminderTemplate>;
+
+/**
+ * A rendered reminder, ready for a transport.
+ */
+export interface ReminderMessage {
+  idempotencyKey: string; // `${eventId}:${window}:${playerId}`
+  eventId: string;
+  playerId: string;
+  window: string;
+  kind: ReminderKind;
+  from: string;
+  to: { name: string; email: string };
+  subject: string;
+  text: string;
+  date: Date;
+}
+
+/**
+ * Delivers reminders, e.g. as files or over SMTP.
+ */
+export interface IReminderTransport {
+  send(message: ReminderMessage): Promise<void>;
+}
+
+/**
+ * One reminder that has been delivered.
+ */
+export interface SentReminder {
+  idempotencyKey: string;
+  eventId: string;
+  playerId: string;
+  window: string;
+  sentAt: Date;
+}
+
+/**
+ * Remembers which reminders were delivered, so none is sent twice.
+ */
+export interface IReminderLedger {
+  has(idempotencyKey: string): boolean;
+  record(reminder: SentReminder): void;
+}
+
+/**
+ * The outcome of one reminder run.
+ */
+export interface ReminderRunResult {
+  sent: ReminderMessage[];
+  alreadySent: number; // Skipped because the ledger had them
+  failed: Array<{ message: ReminderMessage; error: string }>;
+  skippedPlayers: string[]; // Player IDs without a usable email address
+}
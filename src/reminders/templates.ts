@@ -0,0 +1,38 @@
+import { ReminderTemplates } from './reminder.types';
+
+/**
+ * The reminders sent when no custom templates are configured.
+ */
+export const defaultReminderTemplates: ReminderTemplates = {
+  maybe: {
+    subject: 'Are you in for {{eventName}}?',
+    text: `Hi {{playerName}},
+
+You answered "Maybe" for {{eventName}} on {{eventDate}} at {{eventLocation}}.
+Please let us know whether you can make it.
+`,
+  },
+  'no-response': {
+    subject: 'RSVP needed: {{eventName}}',
+    text: `Hi {{playerName}},
+
+We haven't heard from you about {{eventName}} on {{eventDate}} at {{eventLocation}}.
+Please RSVP so we can plan the teams.
+`,
+  },
+};
+
+/**
+ * Fills `{{name}}` placeholders with values; unknown placeholders become empty.
+ * @param template - The template text.
+ * @param values - The placeholder values.
+ * @returns The rendered text.
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, string>
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : ''
+  );
+}
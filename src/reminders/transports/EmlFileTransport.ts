@@ -0,0 +1,32 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatEmail } from '../email';
+import { IReminderTransport, ReminderMessage } from '../reminder.types';
+
+/**
+ * Writes each reminder as an `.eml` file to an outbox directory, where any
+ * mail client can open it or another process can pick it up.
+ *
+ * Files are named after the idempotency key, so writing the same reminder
+ * again replaces the file instead of adding a second one.
+ */
+export class EmlFileTransport implements IReminderTransport {
+  private readonly outboxDir: string;
+
+  /**
+   * @param outboxDir - The directory to write to; it is created if missing.
+   */
+  constructor(outboxDir: string) {
+    this.outboxDir = outboxDir;
+  }
+
+  async send(message: ReminderMessage): Promise<void> {
+    await fs.promises.mkdir(this.outboxDir, { recursive: true });
+    const fileName = `${message.idempotencyKey.replace(/[^\w.-]/g, '_')}.eml`;
+    const filePath = path.join(this.outboxDir, fileName);
+    // Writing to a temporary name first, so readers never see half a message.
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, formatEmail(message), 'utf8');
+    await fs.promises.rename(tempPath, filePath);
+  }
+}
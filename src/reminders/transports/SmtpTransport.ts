@@ -0,0 +1,153 @@
+import * as net from 'net';
+import * as os from 'os';
+import { formatEmail } from '../email';
+import { IReminderTransport, ReminderMessage } from '../reminder.types';
+
+/**
+ * Where the SMTP server listens.
+ */
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  timeoutMs?: number; // Per connection (default 10000)
+}
+
+/**
+ * Sends reminders to an SMTP server, one connection per message.
+ *
+ * Deliberately minimal: plain SMTP without TLS or authentication, meant
+ * for a local relay or a development mail catcher.
+ */
+export class SmtpTransport implements IReminderTransport {
+  private readonly options: Required<SmtpTransportOptions>;
+
+  /**
+   * @param options - The server to connect to.
+   */
+  constructor(options: SmtpTransportOptions) {
+    this.options = { timeoutMs: 10000, ...options };
+  }
+
+  async send(message: ReminderMessage): Promise<void> {
+    const session = await SmtpSession.connect(this.options);
+    try {
+      await session.expect(220);
+      await session.command(`EHLO ${os.hostname()}`, 250);
+      await session.command(`MAIL FROM:<${extractAddress(message.from)}>`, 250);
+      await session.command(`RCPT TO:<${message.to.email}>`, 250, 251);
+      await session.command('DATA', 354);
+      // Dot-stuffing: a line starting with "." gets a second one (RFC 5321).
+      const data = formatEmail(message).replace(/^\./gm, '..');
+      await session.command(`${data}\r\n.`, 250);
+      await session.command('QUIT', 221);
+    } finally {
+      session.close();
+    }
+  }
+}
+
+// "Name <a@b.c>" -> "a@b.c"
+function extractAddress(from: string): string {
+  return from.match(/<([^>]+)>/)?.[1] ?? from.trim();
+}
+
+/**
+ * A line-based SMTP conversation over one socket.
+ */
+class SmtpSession {
+  private buffer = '';
+  private waiting?: {
+    resolve: (reply: { code: number; text: string }) => void;
+    reject: (error: Error) => void;
+  };
+  private failure?: Error;
+
+  private constructor(private readonly socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.flush();
+    });
+    socket.on('error', (error) => this.fail(error));
+    socket.on('timeout', () =>
+      this.fail(new Error('SMTP connection timed out.'))
+    );
+    socket.on('close', () =>
+      this.fail(new Error('SMTP connection closed unexpectedly.'))
+    );
+  }
+
+  static connect(
+    options: Required<SmtpTransportOptions>
+  ): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(
+        { host: options.host, port: options.port, timeout: options.timeoutMs },
+        () => {
+          socket.off('error', reject);
+          resolve(new SmtpSession(socket));
+        }
+      );
+      socket.once('error', reject);
+    });
+  }
+
+  async command(line: string, ...expectedCodes: number[]): Promise<void> {
+    this.socket.write(`${line}\r\n`);
+    await this.expect(...expectedCodes);
+  }
+
+  // Waits for the next reply and checks its status code.
+  async expect(...expectedCodes: number[]): Promise<void> {
+    const reply = await new Promise<{ code: number; text: string }>(
+      (resolve, reject) => {
+        if (this.failure) {
+          reject(this.failure);
+          return;
+        }
+        this.waiting = { resolve, reject };
+        this.flush();
+      }
+    );
+    if (!expectedCodes.includes(reply.code)) {
+      throw new Error(`SMTP server replied ${reply.code}: ${reply.text}`);
+    }
+  }
+
+  close(): void {
+    this.socket.removeAllListeners('close');
+    this.socket.destroy();
+  }
+
+  // Hands a complete reply to the waiting caller. Multi-line replies use
+  // "250-" on every line except the last, which uses "250 ".
+  private flush(): void {
+    if (!this.waiting) {
+      return;
+    }
+    const lines = this.buffer.split('\r\n');
+    const lastIndex = lines.findIndex((line) => /^\d{3}(?: |$)/.test(line));
+    if (lastIndex === -1 || lastIndex === lines.length - 1) {
+      return; // The reply isn't complete yet
+    }
+    this.buffer = lines.slice(lastIndex + 1).join('\r\n');
+    const { resolve } = this.waiting;
+    this.waiting = undefined;
+    resolve({
+      code: Number(lines[lastIndex].slice(0, 3)),
+      text: lines
+        .slice(0, lastIndex + 1)
+        .map((line) => line.slice(4))
+        .join(' '),
+    });
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = undefined;
+      reject(this.failure);
+    }
+  }
+}
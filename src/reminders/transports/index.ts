@@ -0,0 +1,2 @@
+export * from './EmlFileTransport';
+export * from './SmtpTransport';
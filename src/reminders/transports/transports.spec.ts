@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { EmlFileTransport } from './EmlFileTransport';
+import { SmtpTransport } from './SmtpTransport';
+import { ReminderMessage } from '../reminder.types';
+
+const message: ReminderMessage = {
+  idempotencyKey: '1:1d:42',
+  eventId: '1',
+  playerId: '42',
+  window: '1d',
+  kind: 'maybe',
+  from: 'League <league@example.com>',
+  to: { name: 'Chris "CJ" Anderson', email: 'cj@example.com' },
+  subject: 'Are you in for Café Night?',
+  text: 'Hi CJ,\n.\nSee you there.\n',
+  date: new Date('2025-03-09T20:00:00Z'),
+};
+
+describe('EmlFileTransport', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rsvp-outbox-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should write one .eml file per reminder, named after its key', async () => {
+    const outbox = path.join(tempDir, 'outbox');
+    const transport = new EmlFileTransport(outbox);
+    await transport.send(message);
+    await transport.send(message); // Same key, same file
+
+    expect(fs.readdirSync(outbox)).toEqual(['1_1d_42.eml']);
+    const eml = fs.readFileSync(path.join(outbox, '1_1d_42.eml'), 'utf8');
+    expect(eml.split('\r\n')).toEqual([
+      'From: League <league@example.com>',
+      'To: "Chris \\"CJ\\" Anderson" <cj@example.com>',
+      `Subject: =?UTF-8?B?${Buffer.from('Are you in for Café Night?').toString('base64')}?=`,
+      'Date: Sun, 09 Mar 2025 20:00:00 GMT',
+      'Message-ID: <1.1d.42@rsvp.local>',
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+      '',
+      'Hi CJ,',
+      '.',
+      'See you there.',
+      '',
+    ]);
+  });
+});
+
+describe('SmtpTransport', () => {
+  let server: net.Server;
+  let port: number;
+  let commands: string[];
+  let data: string;
+  let rejectRecipient: boolean;
+
+  // A local SMTP stand-in that accepts one message per connection
+  beforeEach(async () => {
+    commands = [];
+    data = '';
+    rejectRecipient = false;
+    server = net.createServer((socket) => {
+      let inData = false;
+      let buffer = '';
+      socket.write('220 stand-in ready\r\n');
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString('utf8');
+        let index: number;
+        while ((index = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 queued\r\n');
+            } else {
+              data += `${line}\r\n`;
+            }
+            continue;
+          }
+          commands.push(line);
+          if (line.startsWith('EHLO')) {
+            socket.write('250-stand-in\r\n250 8BITMIME\r\n');
+          } else if (line.startsWith('RCPT') && rejectRecipient) {
+            socket.write('550 no such user\r\n');
+          } else if (line === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (line === 'QUIT') {
+            socket.end('221 bye\r\n');
+          } else {
+            socket.write('250 ok\r\n');
+          }
+        }
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should deliver the message through the SMTP conversation', async () => {
+    await new SmtpTransport({ host: '127.0.0.1', port }).send(message);
+
+    expect(commands.map((command) => command.split(' ')[0])).toEqual([
+      'EHLO',
+      'MAIL',
+      'RCPT',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(commands[1]).toBe('MAIL FROM:<league@example.com>');
+    expect(commands[2]).toBe('RCPT TO:<cj@example.com>');
+    expect(data).toContain('Subject: =?UTF-8?B?');
+    // The lone "." in the body is dot-stuffed so it doesn't end the message
+    expect(data).toContain('\r\nHi CJ,\r\n..\r\nSee you there.\r\n');
+  });
+
+  it('should reject when the server refuses the recipient', async () => {
+    rejectRecipient = true;
+    await expect(
+      new SmtpTransport({ host: '127.0.0.1', port }).send(message)
+    ).rejects.toThrow('SMTP server replied 550: no such user');
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  buildLeagueCalendar,
+  buildPlayerCalendar,
+  calendarUid,
+} from './calendar';
+import { ReportData } from './report.types';
+import { parseReportData } from './validation';
+
+const now = new Date('2025-01-15T12:00:00Z');
+
+const rows: ReportData = {
+  players: [
+    {
+      player_id: '1',
+      player_name: 'Ann',
+      player_email: 'ann@x.com',
+      gender: 'Female',
+      age: '30',
+    },
+    {
+      player_id: '2',
+      player_name: 'Ben',
+      player_email: '',
+      gender: 'Male',
+      age: '25',
+    },
+  ],
+  events: [
+    {
+      event_id: '2',
+      event_name: 'Cup Final, Round 2',
+      event_location: 'Park; Field 3',
+      event_date: '2025-02-01T18:30:00Z',
+    },
+    {
+      event_id: '1',
+      event_name: 'Opening Day',
+      event_location: 'Gym',
+      event_date: '2025-01-20',
+    },
+    { event_id: '3', event_name: 'TBD', event_location: '', event_date: '' },
+    {
+      event_id: 'x',
+      event_name: 'Invalid',
+      event_location: '',
+      event_date: '2025-03-01',
+    },
+  ],
+  rsvps: [
+    { rsvp_id: '1', event_id: '1', player_id: '1', status: 'Yes' },
+    { rsvp_id: '2', event_id: '2', player_id: '1', status: 'Yes' },
+    { rsvp_id: '3', event_id: '2', player_id: '1', status: 'Maybe' }, // Latest wins
+    { rsvp_id: '4', event_id: '1', player_id: '2', status: 'No' },
+  ],
+};
+const data = parseReportData(rows).data;
+
+// The VEVENT blocks of a feed, unfolded, one array of lines per event.
+const events = (feed: string) =>
+  feed
+    .replace(/\r\n /g, '')
+    .split('BEGIN:VEVENT\r\n')
+    .slice(1)
+    .map((block) => block.split('\r\nEND:VEVENT')[0].split('\r\n'));
+
+describe('buildLeagueCalendar', () => {
+  it('should list every dated event in date order with stable UIDs', () => {
+    const feed = buildLeagueCalendar(data, { now });
+    expect(feed.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(feed.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(feed).toContain('X-WR-CALNAME:League Events\r\n');
+    expect(events(feed)).toEqual([
+      [
+        'UID:event-1@rsvp.local',
+        'DTSTAMP:20250115T120000Z',
+        'DTSTART;VALUE=DATE:20250120',
+        'DTEND;VALUE=DATE:20250121',
+        'SUMMARY:Opening Day',
+        'LOCATION:Gym',
+        'STATUS:CONFIRMED',
+      ],
+      [
+        'UID:event-2@rsvp.local',
+        'DTSTAMP:20250115T120000Z',
+        'DTSTART:20250201T183000Z',
+        'DTEND:20250201T203000Z',
+        'SUMMARY:Cup Final\\, Round 2',
+        'LOCATION:Park\\; Field 3',
+        'STATUS:CONFIRMED',
+      ],
+    ]);
+  });
+
+  it('should fold long lines at 75 octets without splitting characters', () => {
+    const feed = buildLeagueCalendar(
+      {
+        ...data,
+        events: [{ ...data.events[1], name: 'é'.repeat(60) }],
+      },
+      { now }
+    );
+    const lines = feed.split('\r\n');
+    expect(lines.every((line) => Buffer.byteLength(line, 'utf8') <= 75)).toBe(
+      true
+    );
+    expect(feed.replace(/\r\n /g, '')).toContain(`SUMMARY:${'é'.repeat(60)}`);
+  });
+
+  it('should keep UIDs unique for IDs that differ only in special characters', () => {
+    expect(calendarUid('7@2025-03-11')).toBe('event-7%402025-03-11@rsvp.local');
+    expect(calendarUid('7@2025-03-11')).not.toBe(calendarUid('7-2025-03-11'));
+  });
+});
+
+describe('buildPlayerCalendar', () => {
+  it('should list only Yes and Maybe events and mark Maybe as tentative', () => {
+    const feed = buildPlayerCalendar(data, '1', { now });
+    expect(feed).toContain('X-WR-CALNAME:League Events: Ann\r\n');
+    const [opening, final] = events(feed);
+    expect(opening).toEqual(
+      expect.arrayContaining([
+        'UID:event-1@rsvp.local',
+        'STATUS:CONFIRMED',
+        'ATTENDEE;CN="Ann";PARTSTAT=ACCEPTED:mailto:ann@x.com',
+      ])
+    );
+    expect(final).toEqual(
+      expect.arrayContaining([
+        'UID:event-2@rsvp.local',
+        'STATUS:TENTATIVE',
+        'ATTENDEE;CN="Ann";PARTSTAT=TENTATIVE:mailto:ann@x.com',
+      ])
+    );
+  });
+
+  it('should return an empty feed for a player without Yes or Maybe responses', () => {
+    const feed = buildPlayerCalendar(data, '2', { now });
+    expect(events(feed)).toEqual([]);
+    expect(feed).toContain('X-WR-CALNAME:League Events: Ben\r\n');
+  });
+});
@@ -0,0 +1,186 @@
+import { Event, isDateOnly } from '../interfaces';
+import { LeagueData } from './report.types';
+
+/**
+ * Options for an iCalendar feed.
+ */
+export interface CalendarOptions {
+  name?: string; // Shown by calendar apps; defaults to "League Events"
+  now?: Date; // The DTSTAMP of every event; defaults to the current time
+  durationMinutes?: number; // Length of events with a start time; defaults to 120
+}
+
+// Part of every UID; keeping it fixed keeps the UIDs stable across exports.
+const UID_DOMAIN = 'rsvp.local';
+const PRODUCT_ID = '-//Gametime Hero//RSVP Service//EN';
+const DEFAULT_NAME = 'League Events';
+const DEFAULT_DURATION_MINUTES = 120;
+const MAX_LINE_OCTETS = 75;
+
+// One VEVENT: the event, and the player's part in it for a personal feed.
+interface CalendarEntry {
+  event: Event;
+  start: Date;
+  tentative?: boolean;
+  attendee?: { name: string; email?: string };
+}
+
+/**
+ * Builds the full-league feed: every event of the report with a valid date.
+ * @param data - The parsed players, events and latest RSVPs.
+ * @param options - The feed name, the timestamp and the default duration.
+ * @returns The feed as an RFC 5545 `.ics` file with CRLF line endings.
+ */
+export function buildLeagueCalendar(
+  { events }: LeagueData,
+  options: CalendarOptions = {}
+): string {
+  return formatCalendar(
+    datedEvents(events).map(([event, start]) => ({ event, start })),
+    options
+  );
+}
+
+/**
+ * Builds one player's feed: the events they said "Yes" or "Maybe" to (their
+ * latest RSVP), with "Maybe" events marked as tentative. Each event keeps
+ * the UID it has in the league feed.
+ * @param data - The parsed players, events and latest RSVPs.
+ * @param playerId - The player whose feed to build.
+ * @param options - Defaults to a name with the player's name in it.
+ * @returns The feed as an RFC 5545 `.ics` file with CRLF line endings.
+ */
+export function buildPlayerCalendar(
+  data: LeagueData,
+  playerId: string,
+  options: CalendarOptions = {}
+): string {
+  const player = data.players.find(({ id }) => id === playerId);
+  const name = player?.name || `Player ${playerId}`;
+  const statuses = new Map(
+    data.rsvps
+      .filter((rsvp) => rsvp.playerId === playerId)
+      .map((rsvp) => [rsvp.eventId, rsvp.status])
+  );
+  const entries = datedEvents(data.events).flatMap(
+    ([event, start]): CalendarEntry[] => {
+      const status = statuses.get(event.id);
+      return status === 'Yes' || status === 'Maybe'
+        ? [
+            {
+              event,
+              start,
+              tentative: status === 'Maybe',
+              attendee: { name, email: player?.email },
+            },
+          ]
+        : [];
+    }
+  );
+  return formatCalendar(entries, {
+    ...options,
+    name: options.name ?? `${DEFAULT_NAME}: ${name}`,
+  });
+}
+
+/**
+ * The UID of an event in every feed, derived from its ID only, so
+ * re-importing a feed updates the event instead of duplicating it.
+ */
+export function calendarUid(eventId: string): string {
+  return `event-${encodeURIComponent(eventId)}@${UID_DOMAIN}`;
+}
+
+function formatCalendar(
+  entries: CalendarEntry[],
+  {
+    name = DEFAULT_NAME,
+    now = new Date(),
+    durationMinutes = DEFAULT_DURATION_MINUTES,
+  }: CalendarOptions
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  for (const { event, start, tentative, attendee } of entries) {
+    // A date without a time is an all-day event
+    const allDay = isDateOnly(start);
+    const end = allDay
+      ? new Date(start.getTime() + 24 * 60 * 60 * 1000)
+      : new Date(start.getTime() + durationMinutes * 60 * 1000);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${calendarUid(event.id)}`,
+      `DTSTAMP:${formatDateTime(now)}`,
+      allDay
+        ? `DTSTART;VALUE=DATE:${formatDate(start)}`
+        : `DTSTART:${formatDateTime(start)}`,
+      allDay
+        ? `DTEND;VALUE=DATE:${formatDate(end)}`
+        : `DTEND:${formatDateTime(end)}`,
+      `SUMMARY:${escapeText(event.name || 'Unnamed Event')}`,
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      `STATUS:${tentative ? 'TENTATIVE' : 'CONFIRMED'}`,
+      ...(attendee?.email
+        ? [
+            `ATTENDEE;CN="${attendee.name.replace(/["\r\n]/g, '')}";PARTSTAT=${tentative ? 'TENTATIVE' : 'ACCEPTED'}:mailto:${attendee.email}`,
+          ]
+        : []),
+      'END:VEVENT'
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+// Events with a valid date, in date order.
+function datedEvents(events: Event[]): Array<[Event, Date]> {
+  return events
+    .flatMap(
+      (event): Array<[Event, Date]> => (event.date ? [[event, event.date]] : [])
+    )
+    .sort(([, a], [, b]) => a.getTime() - b.getTime());
+}
+
+// TEXT values escape backslashes, semicolons, commas and line breaks.
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space,
+// without splitting a UTF-8 character.
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const character of line) {
+    const size = Buffer.byteLength(character, 'utf8');
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += character;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+}
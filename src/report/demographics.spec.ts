@@ -0,0 +1,121 @@
+import {
+  ALL_EVENTS_LABEL,
+  buildDemographics,
+  createAgeBands,
+  toDemographicsRows,
+} from './demographics';
+import { ReportData } from './report.types';
+import { parseReportData } from './validation';
+
+const rows: ReportData = {
+  players: [
+    {
+      player_id: '1',
+      player_name: 'Ann',
+      player_email: 'ann@x.com',
+      gender: 'Female',
+      age: '17',
+    },
+    {
+      player_id: '2',
+      player_name: 'Ben',
+      player_email: 'ben@x.com',
+      gender: 'Male',
+      age: '25',
+    },
+    {
+      player_id: '3',
+      player_name: 'Cy',
+      player_email: 'cy@x.com',
+      gender: '',
+      age: 'forty',
+    },
+  ],
+  events: [
+    {
+      event_id: '2',
+      event_name: 'Final',
+      event_location: 'Park',
+      event_date: '2025-02-01',
+    },
+    {
+      event_id: '1',
+      event_name: 'Opener',
+      event_location: 'Gym',
+      event_date: '2025-01-01',
+    },
+  ],
+  rsvps: [
+    { rsvp_id: '1', event_id: '1', player_id: '1', status: 'Maybe' },
+    { rsvp_id: '2', event_id: '1', player_id: '1', status: 'Yes' }, // Latest wins
+    { rsvp_id: '3', event_id: '1', player_id: '2', status: 'Yes' },
+    { rsvp_id: '4', event_id: '1', player_id: '3', status: 'No' },
+    { rsvp_id: '5', event_id: '2', player_id: '2', status: 'Maybe' },
+    { rsvp_id: '6', event_id: '2', player_id: '3', status: 'Perhaps' }, // Invalid, skipped
+    { rsvp_id: '7', event_id: '9', player_id: '1', status: 'Yes' }, // Unknown event, skipped
+  ],
+};
+const data = parseReportData(rows).data;
+
+describe('createAgeBands', () => {
+  it('should build bands from ascending boundaries', () => {
+    expect(createAgeBands([18, 19, 30])).toEqual([
+      { label: 'Under 18', min: 0, max: 17 },
+      { label: '18', min: 18, max: 18 },
+      { label: '19-29', min: 19, max: 29 },
+      { label: '30+', min: 30 },
+    ]);
+  });
+
+  it('should reject empty, unordered or fractional boundaries', () => {
+    expect(() => createAgeBands([])).toThrow('ascending positive whole');
+    expect(() => createAgeBands([30, 18])).toThrow('"30,18"');
+    expect(() => createAgeBands([18.5])).toThrow();
+    expect(() => createAgeBands([NaN])).toThrow();
+  });
+});
+
+describe('buildDemographics', () => {
+  const report = buildDemographics(data, createAgeBands([18, 30]));
+
+  it('should count each event by status, gender and age band', () => {
+    expect(report.genders).toEqual(['Female', 'Male', 'Unspecified']);
+    expect(report.ageBands).toEqual(['Under 18', '18-29', '30+', 'Unknown']);
+    expect(report.events.map((event) => event.event_name)).toEqual([
+      'Opener',
+      'Final',
+    ]);
+
+    const [opener, final] = report.events;
+    expect(opener.byStatus.Yes).toEqual({
+      total: 2,
+      byGender: { Female: 1, Male: 1 },
+      byAgeBand: { 'Under 18': 1, '18-29': 1, '30+': 0, Unknown: 0 },
+    });
+    expect(opener.byStatus.No).toEqual({
+      total: 1,
+      byGender: { Unspecified: 1 },
+      byAgeBand: { 'Under 18': 0, '18-29': 0, '30+': 0, Unknown: 1 },
+    });
+    expect(opener.byStatus.Maybe.total).toBe(0);
+    expect(final.byStatus.Maybe.total).toBe(1);
+    expect(final.byStatus.No.total).toBe(0);
+  });
+
+  it('should total every status across events', () => {
+    expect(report.totals.Yes.total).toBe(2);
+    expect(report.totals.Maybe.byGender).toEqual({ Male: 1 });
+    expect(report.totals.No.byAgeBand.Unknown).toBe(1);
+  });
+
+  it('should flatten into one row per event and status, then the totals', () => {
+    const rows = toDemographicsRows(report);
+    expect(rows).toHaveLength(9);
+    expect(rows[0]).toEqual({
+      event_name: 'Opener',
+      status: 'Yes',
+      counts: [2, 1, 1, 0, 1, 1, 0, 0],
+    });
+    expect(rows[6]).toMatchObject({ event_name: ALL_EVENTS_LABEL });
+  });
+});
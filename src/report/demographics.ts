@@ -0,0 +1,190 @@
+import { RSVP_STATUSES, RsvpStatus } from '../interfaces';
+import { compareIds } from '../utils';
+import { LeagueData } from './report.types';
+
+/**
+ * An inclusive age range; `max` is omitted for the open-ended last band.
+ */
+export interface AgeBand {
+  label: string;
+  min: number;
+  max?: number;
+}
+
+/**
+ * Headcounts of one group of RSVPs by gender and by age band.
+ * Players without a usable age are counted in the "Unknown" band.
+ */
+export interface DemographicBreakdown {
+  total: number;
+  byGender: Record<string, number>;
+  byAgeBand: Record<string, number>;
+}
+
+/**
+ * The breakdowns of one event, one per RSVP status.
+ */
+export interface EventDemographics {
+  event_id: string;
+  event_name: string;
+  byStatus: Record<RsvpStatus, DemographicBreakdown>;
+}
+
+/**
+ * The demographics section of the attendance report.
+ */
+export interface DemographicsReport {
+  genders: string[]; // Every gender seen, sorted, for stable columns
+  ageBands: string[]; // Band labels in order, then "Unknown"
+  events: EventDemographics[];
+  totals: Record<RsvpStatus, DemographicBreakdown>; // Across all events
+}
+
+export const UNKNOWN_AGE_BAND = 'Unknown';
+export const UNSPECIFIED_GENDER = 'Unspecified';
+
+/**
+ * Builds age bands from ascending boundaries: `[25, 35]` gives
+ * "Under 25", "25-34" and "35+".
+ * @param boundaries - Ascending, positive whole numbers.
+ * @returns The bands, youngest first.
+ */
+export function createAgeBands(boundaries: number[]): AgeBand[] {
+  const isAscending = boundaries.every(
+    (boundary, index) =>
+      Number.isInteger(boundary) &&
+      boundary > 0 &&
+      (index === 0 || boundary > boundaries[index - 1])
+  );
+  if (boundaries.length === 0 || !isAscending) {
+    throw new Error(
+      `Age band boundaries must be ascending positive whole numbers, got "${boundaries.join(',')}".`
+    );
+  }
+  const bands: AgeBand[] = [
+    { label: `Under ${boundaries[0]}`, min: 0, max: boundaries[0] - 1 },
+  ];
+  for (let index = 1; index < boundaries.length; index++) {
+    const min = boundaries[index - 1];
+    const max = boundaries[index] - 1;
+    bands.push({ label: min === max ? `${min}` : `${min}-${max}`, min, max });
+  }
+  const last = boundaries[boundaries.length - 1];
+  bands.push({ label: `${last}+`, min: last });
+  return bands;
+}
+
+export const defaultAgeBands: AgeBand[] = createAgeBands([18, 25, 35, 45]);
+
+/**
+ * Breaks every event's RSVPs down by gender and age band, per status,
+ * using the same latest RSVPs and events as the attendance report.
+ * @param data - The parsed players, events and latest RSVPs.
+ * @param ageBands - The age bands to count in.
+ * @returns A DemographicsReport.
+ */
+export function buildDemographics(
+  { players, events, rsvps }: LeagueData,
+  ageBands: AgeBand[] = defaultAgeBands
+): DemographicsReport {
+  const bandLabels = [...ageBands.map((band) => band.label), UNKNOWN_AGE_BAND];
+  const newBreakdown = (): DemographicBreakdown => ({
+    total: 0,
+    byGender: {},
+    byAgeBand: Object.fromEntries(bandLabels.map((label) => [label, 0])),
+  });
+  const newByStatus = () =>
+    Object.fromEntries(
+      RSVP_STATUSES.map((status) => [status, newBreakdown()])
+    ) as Record<RsvpStatus, DemographicBreakdown>;
+
+  const playerMap = new Map(players.map((player) => [player.id, player]));
+  const eventMap = new Map<string, EventDemographics>();
+  for (const event of events) {
+    eventMap.set(event.id, {
+      event_id: event.id,
+      event_name: event.name || 'Unnamed Event',
+      byStatus: newByStatus(),
+    });
+  }
+
+  const genders = new Set<string>();
+  const totals = newByStatus();
+  for (const { eventId, playerId, status } of rsvps) {
+    const event = eventMap.get(eventId);
+    if (!event) {
+      continue; // Reported by validation
+    }
+    const player = playerMap.get(playerId);
+    const gender = player?.gender || UNSPECIFIED_GENDER;
+    const age = player?.age;
+    const band =
+      age === undefined
+        ? UNKNOWN_AGE_BAND
+        : (ageBands.find(
+            (candidate) =>
+              age >= candidate.min &&
+              (candidate.max === undefined || age <= candidate.max)
+          )?.label ?? UNKNOWN_AGE_BAND);
+
+    genders.add(gender);
+    for (const breakdown of [event.byStatus[status], totals[status]]) {
+      breakdown.total++;
+      breakdown.byGender[gender] = (breakdown.byGender[gender] ?? 0) + 1;
+      breakdown.byAgeBand[band]++;
+    }
+  }
+
+  return {
+    genders: Array.from(genders).sort(),
+    ageBands: bandLabels,
+    events: Array.from(eventMap.values()).sort((a, b) =>
+      compareIds(a.event_id, b.event_id)
+    ),
+    totals,
+  };
+}
+
+/**
+ * One table row of the demographics section, as rendered by the HTML and Markdown reports.
+ */
+export interface DemographicsRow {
+  event_name: string; // "All Events" for the totals
+  status: RsvpStatus;
+  counts: number[]; // Total, then one per gender, then one per age band
+}
+
+export const ALL_EVENTS_LABEL = 'All Events';
+
+/**
+ * Flattens a DemographicsReport into table rows: every status of every event,
+ * followed by the totals across all events.
+ * @param report - The demographics to flatten.
+ * @returns The rows, in display order.
+ */
+export function toDemographicsRows(
+  report: DemographicsReport
+): DemographicsRow[] {
+  const toRows = (
+    eventName: string,
+    byStatus: Record<RsvpStatus, DemographicBreakdown>
+  ) =>
+    RSVP_STATUSES.map((status) => {
+      const breakdown = byStatus[status];
+      return {
+        event_name: eventName,
+        status,
+        counts: [
+          breakdown.total,
+          ...report.genders.map((gender) => breakdown.byGender[gender] ?? 0),
+          ...report.ageBands.map((band) => breakdown.byAgeBand[band] ?? 0),
+        ],
+      };
+    });
+  return [
+    ...report.events.flatMap((event) =>
+      toRows(event.event_name, event.byStatus)
+    ),
+    ...toRows(ALL_EVENTS_LABEL, report.totals),
+  ];
+}
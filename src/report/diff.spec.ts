@@ -0,0 +1,111 @@
+import { diffRsvpSnapshots } from './diff';
+import { RsvpRow } from './report.types';
+
+const rsvp = (
+  rsvp_id: string,
+  event_id: string,
+  player_id: string,
+  status: string,
+  guests?: string
+): RsvpRow => ({ rsvp_id, event_id, player_id, status, guests });
+
+describe('diffRsvpSnapshots', () => {
+  it('should list new, withdrawn and changed responses per event with counts', () => {
+    const before = [
+      rsvp('1', '1', '1', 'Yes', '2'),
+      rsvp('2', '1', '2', 'Maybe'),
+      rsvp('3', '1', '3', 'No'),
+      rsvp('4', '2', '1', 'Yes'),
+    ];
+    const after = [
+      rsvp('1', '1', '1', 'Yes', '2'),
+      rsvp('3', '1', '3', 'No'),
+      rsvp('5', '1', '3', 'Yes'), // Latest wins: No -> Yes
+      rsvp('6', '1', '4', 'Maybe'),
+      rsvp('4', '2', '1', 'Yes'),
+    ];
+
+    expect(diffRsvpSnapshots(before, after)).toEqual({
+      events: [
+        {
+          event_id: '1',
+          added: [{ player_id: '4', before: null, after: 'Maybe' }],
+          withdrawn: [{ player_id: '2', before: 'Maybe', after: null }],
+          changed: [{ player_id: '3', before: 'No', after: 'Yes' }],
+          guests_changed: [],
+          before: {
+            total: 3,
+            confirmed: 1,
+            declined: 1,
+            maybe: 1,
+            waitlisted: 0,
+            guests: 2,
+            headcount: 3,
+          },
+          after: {
+            total: 3,
+            confirmed: 2,
+            declined: 0,
+            maybe: 1,
+            waitlisted: 0,
+            guests: 2,
+            headcount: 4,
+          },
+        },
+      ],
+      added: 1,
+      withdrawn: 1,
+      changed: 1,
+      guests_changed: 0,
+    });
+  });
+
+  it('should cover events that only exist in one snapshot, in ID order', () => {
+    const diff = diffRsvpSnapshots(
+      [rsvp('1', '10', '1', 'Yes')],
+      [rsvp('2', '2', '1', 'No')]
+    );
+    expect(diff.events.map((event) => event.event_id)).toEqual(['2', '10']);
+    expect(diff.events[1].after.total).toBe(0);
+    expect({ added: diff.added, withdrawn: diff.withdrawn }).toEqual({
+      added: 1,
+      withdrawn: 1,
+    });
+  });
+
+  it('should treat invalid statuses as no response', () => {
+    const diff = diffRsvpSnapshots(
+      [rsvp('1', '1', '1', 'Yes', '1'), rsvp('2', '1', '2', 'Maybe')],
+      [rsvp('1', '1', '1', 'Yes', '1'), rsvp('2', '1', '2', 'Later')]
+    );
+    expect(diff.events).toHaveLength(1);
+    expect(diff.events[0].withdrawn).toEqual([
+      { player_id: '2', before: 'Maybe', after: null },
+    ]);
+    expect(diff.events[0].changed).toEqual([]);
+    expect(diff.events[0].after.headcount).toBe(2);
+  });
+
+  it('should list events whose only change is a guest count', () => {
+    const diff = diffRsvpSnapshots(
+      [rsvp('1', '1', '1', 'Yes', '1'), rsvp('2', '1', '2', 'Maybe', '2')],
+      [rsvp('1', '1', '1', 'Yes', '3'), rsvp('2', '1', '2', 'Maybe', 'x')]
+    );
+    expect(diff.events).toEqual([
+      expect.objectContaining({
+        event_id: '1',
+        added: [],
+        withdrawn: [],
+        changed: [],
+        guests_changed: [
+          { player_id: '1', status: 'Yes', before: 1, after: 3 },
+          // An invalid guest count counts as 0
+          { player_id: '2', status: 'Maybe', before: 2, after: 0 },
+        ],
+      }),
+    ]);
+    expect(diff.events[0].before).toMatchObject({ guests: 1, headcount: 2 });
+    expect(diff.events[0].after).toMatchObject({ guests: 3, headcount: 4 });
+    expect(diff.guests_changed).toBe(2);
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  isRsvpStatus,
+  parseGuestCount,
+  RsvpCounts,
+  RsvpStatus,
+} from '../interfaces';
+import { compareIds } from '../utils';
+import { RsvpRow } from './report.types';
+import { resolveLatestRsvps } from './validation';
+
+/**
+ * One player's response to an event in two snapshots; `null` where the
+ * snapshot has no valid response.
+ */
+export interface RsvpStatusChange {
+  player_id: string;
+  before: RsvpStatus | null;
+  after: RsvpStatus | null;
+}
+
+/**
+ * A player who kept their response to an event but brings a different
+ * number of guests in the newer snapshot.
+ */
+export interface RsvpGuestChange {
+  player_id: string;
+  status: RsvpStatus;
+  before: number;
+  after: number;
+}
+
+/**
+ * What changed for one event between two snapshots.
+ */
+export interface EventRsvpDiff {
+  event_id: string;
+  added: RsvpStatusChange[]; // New responses
+  withdrawn: RsvpStatusChange[]; // Responses that are gone
+  changed: RsvpStatusChange[]; // Different status, e.g. Yes -> No
+  guests_changed: RsvpGuestChange[]; // Same status, different guest count
+  before: RsvpCounts;
+  after: RsvpCounts;
+}
+
+/**
+ * The differences between two RSVP snapshots, e.g. two `rsvp.csv` exports.
+ */
+export interface RsvpSnapshotDiff {
+  events: EventRsvpDiff[]; // Only events with a change, in event ID order
+  added: number;
+  withdrawn: number;
+  changed: number;
+  guests_changed: number;
+}
+
+// The lists of an EventRsvpDiff; an event with none of them is left out.
+const CHANGE_KINDS = [
+  'added',
+  'withdrawn',
+  'changed',
+  'guests_changed',
+] as const;
+
+/**
+ * Compares two RSVP snapshots. Each snapshot is first reduced to the latest
+ * RSVP per player and event, as in the attendance report; rows with an
+ * invalid status count as no response, and invalid guest counts as 0. A
+ * player who only changes their guest count is listed in `guests_changed`.
+ * @param before - The rows of the older snapshot.
+ * @param after - The rows of the newer snapshot.
+ * @returns The new, withdrawn and changed responses and guest counts per
+ *          event, with the counts of both snapshots. A snapshot has no capacities, so
+ *          `waitlisted` is always 0.
+ */
+export function diffRsvpSnapshots(
+  before: RsvpRow[],
+  after: RsvpRow[]
+): RsvpSnapshotDiff {
+  const [oldRows, newRows] = [latestByEvent(before), latestByEvent(after)];
+  const eventIds = [...new Set([...oldRows.keys(), ...newRows.keys()])].sort(
+    compareIds
+  );
+
+  const events: EventRsvpDiff[] = [];
+  for (const eventId of eventIds) {
+    const oldByPlayer = oldRows.get(eventId) ?? new Map<string, RsvpRow>();
+    const newByPlayer = newRows.get(eventId) ?? new Map<string, RsvpRow>();
+    const playerIds = [
+      ...new Set([...oldByPlayer.keys(), ...newByPlayer.keys()]),
+    ].sort(compareIds);
+    const diff: EventRsvpDiff = {
+      event_id: eventId,
+      added: [],
+      withdrawn: [],
+      changed: [],
+      guests_changed: [],
+      before: countRows([...oldByPlayer.values()]),
+      after: countRows([...newByPlayer.values()]),
+    };
+    for (const playerId of playerIds) {
+      const [oldRow, newRow] = [
+        oldByPlayer.get(playerId),
+        newByPlayer.get(playerId),
+      ];
+      const change: RsvpStatusChange = {
+        player_id: playerId,
+        before: (oldRow?.status as RsvpStatus) ?? null,
+        after: (newRow?.status as RsvpStatus) ?? null,
+      };
+      if (!change.before) {
+        diff.added.push(change);
+      } else if (!change.after) {
+        diff.withdrawn.push(change);
+      } else if (change.before !== change.after) {
+        diff.changed.push(change);
+      } else if (guestsOf(oldRow!) !== guestsOf(newRow!)) {
+        diff.guests_changed.push({
+          player_id: playerId,
+          status: change.after,
+          before: guestsOf(oldRow!),
+          after: guestsOf(newRow!),
+        });
+      }
+    }
+    if (CHANGE_KINDS.some((kind) => diff[kind].length > 0)) {
+      events.push(diff);
+    }
+  }
+
+  const total = (kind: (typeof CHANGE_KINDS)[number]) =>
+    events.reduce((sum, event) => sum + event[kind].length, 0);
+  return {
+    events,
+    added: total('added'),
+    withdrawn: total('withdrawn'),
+    changed: total('changed'),
+    guests_changed: total('guests_changed'),
+  };
+}
+
+// Invalid guest counts are reported by validate and counted as 0
+function guestsOf(row: RsvpRow): number {
+  return parseGuestCount(row.guests) ?? 0;
+}
+
+// The latest valid RSVP of every player, by event and then player.
+function latestByEvent(rows: RsvpRow[]): Map<string, Map<string, RsvpRow>> {
+  const byEvent = new Map<string, Map<string, RsvpRow>>();
+  for (const row of resolveLatestRsvps(rows)) {
+    if (!row.event_id || !row.player_id || !isRsvpStatus(row.status)) {
+      continue;
+    }
+    const byPlayer = byEvent.get(row.event_id) ?? new Map<string, RsvpRow>();
+    byPlayer.set(row.player_id, row);
+    byEvent.set(row.event_id, byPlayer);
+  }
+  return byEvent;
+}
+
+function countRows(rows: RsvpRow[]): RsvpCounts {
+  const confirmed = rows.filter((row) => row.status === 'Yes');
+  const guests = confirmed.reduce((sum, row) => sum + guestsOf(row), 0);
+  return {
+    total: rows.length,
+    confirmed: confirmed.length,
+    declined: rows.filter((row) => row.status === 'No').length,
+    maybe: rows.filter((row) => row.status === 'Maybe').length,
+    waitlisted: 0,
+    guests,
+    headcount: confirmed.length + guests,
+  };
+}
@@ -0,0 +1,37 @@
+import { IReportRenderer, ReportFormat } from './report.types';
+import {
+  CsvReportRenderer,
+  HtmlReportRenderer,
+  JsonReportRenderer,
+  MarkdownReportRenderer,
+} from './renderers';
+
+export * from './report.types';
+export * from './renderers';
+export * from './validation';
+export * from './demographics';
+export * from './reliability';
+export * from './series';
+export * from './teams';
+export * from './calendar';
+export * from './diff';
+
+/**
+ * The built-in renderer for every report format.
+ */
+export const reportRenderers: Record<ReportFormat, IReportRenderer> = {
+  html: new HtmlReportRenderer(),
+  csv: new CsvReportRenderer(),
+  json: new JsonReportRenderer(),
+  md: new MarkdownReportRenderer(),
+};
+
+/**
+ * Checks at runtime whether a value names a supported report format.
+ */
+export function isReportFormat(value: unknown): value is ReportFormat {
+  return (
+    typeof value === 'string' &&
+    Object.prototype.hasOwnProperty.call(reportRenderers, value)
+  );
+}
@@ -0,0 +1,76 @@
+import {
+  buildReliability,
+  formatRate,
+  toReliabilityCells,
+} from './reliability';
+import { ReportData } from './report.types';
+import { parseReportData } from './validation';
+
+const player = (player_id: string, player_name: string) => ({
+  player_id,
+  player_name,
+  player_email: `${player_name.toLowerCase()}@x.com`,
+  gender: 'Female',
+  age: '30',
+});
+
+const rows: ReportData = {
+  players: [player('1', 'Ann'), player('2', 'Ben'), player('3', 'Cy')],
+  events: [
+    {
+      event_id: '1',
+      event_name: 'Opener',
+      event_location: 'Gym',
+      event_date: '2025-01-01',
+    },
+    {
+      event_id: '2',
+      event_name: 'Final',
+      event_location: 'Park',
+      event_date: '2025-02-01',
+    },
+  ],
+  rsvps: [
+    { rsvp_id: '1', event_id: '1', player_id: '1', status: 'Yes' },
+    { rsvp_id: '2', event_id: '1', player_id: '2', status: 'Maybe' },
+    { rsvp_id: '3', event_id: '1', player_id: '2', status: 'Yes' }, // Latest wins
+    { rsvp_id: '4', event_id: '2', player_id: '1', status: 'Yes' }, // No check-ins at event 2
+  ],
+};
+const data = parseReportData(rows).data;
+
+describe('buildReliability', () => {
+  const report = buildReliability(data, [
+    { event_id: '1', player_id: '1' },
+    { event_id: '1', player_id: '3' }, // A walk-in
+    { event_id: '9', player_id: '1' }, // Unknown event, left out
+  ]);
+
+  it('should only count events with check-ins', () => {
+    expect(report.event_ids).toEqual(['1']);
+  });
+
+  it('should list every rostered player, most reliable first', () => {
+    expect(
+      report.players.map(({ player_name, score }) => ({ player_name, score }))
+    ).toEqual([
+      { player_name: 'Ann', score: 100 },
+      { player_name: 'Ben', score: 33 }, // Said "Yes" and didn't come
+      { player_name: 'Cy', score: 0 }, // Came without responding
+    ]);
+    expect(report.players[2]).toMatchObject({ attended: 1, responded: 0 });
+  });
+
+  it('should format each row for display', () => {
+    expect(toReliabilityCells(report.players[1])).toEqual([
+      'Ben',
+      '1',
+      '1 (100%)',
+      '0',
+      '1 of 1 (100%)',
+      '0 of 0 (-)',
+      '33',
+    ]);
+    expect(formatRate(2 / 3)).toBe('67%');
+  });
+});
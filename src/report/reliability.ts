@@ -0,0 +1,113 @@
+import { PlayerReliability, RsvpStatus } from '../interfaces';
+import { computeReliability } from '../services';
+import { compareIds } from '../utils';
+import { CheckInRow, LeagueData } from './report.types';
+
+/**
+ * One player's row in the reliability section.
+ */
+export interface PlayerReliabilityRow extends PlayerReliability {
+  player_name: string;
+}
+
+/**
+ * The reliability section of the attendance report.
+ */
+export interface ReliabilityReport {
+  event_ids: string[]; // The events where attendance was taken
+  players: PlayerReliabilityRow[]; // Most reliable first; players without a score last
+}
+
+/**
+ * Compares every rostered player's latest RSVPs with the check-ins.
+ * Only events with at least one check-in count, and check-ins or RSVPs for
+ * unknown players or events are left out (validation reports the RSVPs).
+ * @param data - The parsed players, events and latest RSVPs.
+ * @param checkIns - The raw rows of the check-ins CSV.
+ * @returns A ReliabilityReport.
+ */
+export function buildReliability(
+  { players, events, rsvps }: LeagueData,
+  checkIns: CheckInRow[]
+): ReliabilityReport {
+  const playerNames = new Map(
+    players.map((player) => [player.id, player.name])
+  );
+  const knownEvents = new Set(events.map((event) => event.id));
+
+  const checkedIn = new Map<string, string[]>();
+  for (const checkIn of checkIns) {
+    if (
+      knownEvents.has(checkIn.event_id) &&
+      playerNames.has(checkIn.player_id)
+    ) {
+      const eventCheckIns = checkedIn.get(checkIn.event_id) ?? [];
+      eventCheckIns.push(checkIn.player_id);
+      checkedIn.set(checkIn.event_id, eventCheckIns);
+    }
+  }
+
+  const responses = new Map<string, Record<string, RsvpStatus>>();
+  for (const { eventId, playerId, status } of rsvps) {
+    if (checkedIn.has(eventId) && playerNames.has(playerId)) {
+      const eventResponses = responses.get(eventId) ?? {};
+      eventResponses[playerId] = status;
+      responses.set(eventId, eventResponses);
+    }
+  }
+
+  const eventIds = Array.from(checkedIn.keys()).sort(compareIds);
+  const stats = computeReliability(
+    eventIds.map((eventId) => ({
+      eventId,
+      responses: responses.get(eventId) ?? {},
+      checkedIn: checkedIn.get(eventId)!,
+    })),
+    Array.from(playerNames.keys())
+  );
+  return {
+    event_ids: eventIds,
+    players: stats
+      .map((playerStats) => ({
+        ...playerStats,
+        player_name: playerNames.get(playerStats.playerId) || 'Unnamed Player',
+      }))
+      .sort((a, b) => (b.score ?? -1) - (a.score ?? -1)),
+  };
+}
+
+/**
+ * Formats a rate as a whole percentage, or "-" when it doesn't apply.
+ */
+export function formatRate(rate: number | null): string {
+  return rate === null ? '-' : `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * The columns of the reliability table, shared by the HTML and Markdown reports.
+ */
+export const RELIABILITY_COLUMNS = [
+  'Player',
+  'Events',
+  'Responded',
+  'Attended',
+  'Yes No-Shows',
+  'Maybe Attended',
+  'Score',
+];
+
+/**
+ * Turns one row of the reliability section into display cells, in
+ * RELIABILITY_COLUMNS order.
+ */
+export function toReliabilityCells(row: PlayerReliabilityRow): string[] {
+  return [
+    row.player_name,
+    `${row.events}`,
+    `${row.responded} (${formatRate(row.responseRate)})`,
+    `${row.attended}`,
+    `${row.noShows} of ${row.yes} (${formatRate(row.noShowRate)})`,
+    `${row.maybeAttended} of ${row.maybe} (${formatRate(row.maybeAttendanceRate)})`,
+    row.score === null ? '-' : `${row.score}`,
+  ];
+}
@@ -0,0 +1,41 @@
+import { createObjectCsvStringifier } from 'csv-writer';
+import { EventAttendance, IReportRenderer } from '../report.types';
+
+/**
+ * Renders the attendance report as CSV, one row per event, for spreadsheets.
+ * Attendee names are joined with "; " inside a single column.
+ * Optional report sections don't fit a single table and are left out.
+ */
+export class CsvReportRenderer implements IReportRenderer {
+  readonly format = 'csv';
+  readonly fileExtension = 'csv';
+
+  render(reportData: EventAttendance[]): string {
+    return [...this.renderChunks(reportData)].join('');
+  }
+
+  // The header, then one chunk per event.
+  *renderChunks(reportData: EventAttendance[]): Iterable<string> {
+    const stringifier = createObjectCsvStringifier({
+      header: [
+        { id: 'serial_number', title: 'serial_number' },
+        { id: 'event_id', title: 'event_id' },
+        { id: 'event_name', title: 'event_name' },
+        { id: 'attendee_count', title: 'attendee_count' },
+        { id: 'attendee_names', title: 'attendee_names' },
+      ],
+    });
+    yield stringifier.getHeaderString() ?? '';
+    for (const [index, event] of reportData.entries()) {
+      yield stringifier.stringifyRecords([
+        {
+          serial_number: index + 1,
+          event_id: event.event_id,
+          event_name: event.event_name,
+          attendee_count: event.attendee_names.length,
+          attendee_names: event.attendee_names.join('; '),
+        },
+      ]);
+    }
+  }
+}
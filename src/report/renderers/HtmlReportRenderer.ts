@@ -0,0 +1,314 @@
+import { parseDate } from '../../interfaces';
+import { escapeHtml } from '../../utils';
+import {
+  RESPONSE_COLORS,
+  renderAttendanceTrendChart,
+  renderResponseMixChart,
+} from './charts';
+import { DemographicsReport, toDemographicsRows } from '../demographics';
+import {
+  ReliabilityReport,
+  RELIABILITY_COLUMNS,
+  toReliabilityCells,
+} from '../reliability';
+import { TEAM_COLUMNS, TeamsReport, toTeamCells } from '../teams';
+import {
+  EventAttendance,
+  IReportRenderer,
+  ReportSections,
+} from '../report.types';
+
+/**
+ * Renders the attendance report as a single self-contained HTML page: a
+ * sortable, filterable table with a collapsible drill-down per event, and
+ * inline SVG charts. It needs no external assets, and every CSV value is
+ * escaped.
+ */
+export class HtmlReportRenderer implements IReportRenderer {
+  readonly format = 'html';
+  readonly fileExtension = 'html';
+
+  render(reportData: EventAttendance[], sections: ReportSections = {}): string {
+    return [...this.renderChunks(reportData, sections)].join('');
+  }
+
+  // The page head, one chunk per table row, then the sections and the script.
+  *renderChunks(
+    reportData: EventAttendance[],
+    sections: ReportSections = {}
+  ): Iterable<string> {
+    const totalAttendees = reportData.reduce(
+      (sum, event) => sum + event.attendee_names.length + event.guest_count,
+      0
+    );
+    yield `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Event Attendance Report</title>
+    <style>
+        body { font-family: sans-serif; line-height: 1.6; padding: 20px; }
+        table { border-collapse: collapse; width: 100%; margin-top: 20px; }
+        th, td { border: 1px solid #ddd; padding: 8px; text-align: left; vertical-align: top; }
+        th { background-color: #f2f2f2; }
+        tr:nth-child(even) { background-color: #f9f9f9; }
+        td ul { margin: 0; padding-left: 20px; } /* Style for unordered list if used */
+        .charts { display: flex; flex-wrap: wrap; gap: 20px; }
+        .charts figure { margin: 0; }
+        .chart { max-width: 100%; height: auto; font-size: 12px; }
+        #attendance th[data-type] { cursor: pointer; }
+        #attendance th[aria-sort="ascending"]::after { content: " \\25B2"; }
+        #attendance th[aria-sort="descending"]::after { content: " \\25BC"; }
+        #attendance .filters th { background-color: #fff; }
+        #attendance .filters input { width: 100%; box-sizing: border-box; }
+        summary { cursor: pointer; }
+        dl { margin: 8px 0 0; }
+        dt { font-weight: bold; }
+        dd { margin: 0 0 6px 0; }
+${Object.entries(RESPONSE_COLORS)
+  .map(
+    ([label, color]) =>
+      `        .response-${toClassName(label)} { border-left: 4px solid ${color}; padding-left: 6px; }`
+  )
+  .join('\n')}
+    </style>
+</head>
+<body>
+    <h1>Event Attendance Report</h1>
+    <section class="charts">
+        <figure>
+            <figcaption>Response Mix</figcaption>
+            ${renderResponseMixChart(reportData)}
+        </figure>
+        <figure>
+            <figcaption>Attendance Over Time</figcaption>
+            ${renderAttendanceTrendChart(reportData)}
+        </figure>
+    </section>
+    <table id="attendance">
+        <thead>
+            <tr>
+                <th data-type="number">Serial Number</th>
+                <th data-type="text">Event Name</th>
+                <th data-type="text">Date</th>
+                <th data-type="text">Location</th>
+                <th data-type="text">Confirmed Attendees</th>
+                <th data-type="number">Number of Attendees <br>(${totalAttendees} Total)</th>
+                <th data-type="number">Maybe</th>
+                <th data-type="number">No</th>
+                <th data-type="number">No Response</th>
+            </tr>
+            <tr class="filters">
+                <th></th>
+                <th><input type="search" data-column="1" aria-label="Filter by event name"></th>
+                <th><input type="search" data-column="2" aria-label="Filter by date"></th>
+                <th><input type="search" data-column="3" aria-label="Filter by location"></th>
+                <th><input type="search" data-column="4" aria-label="Filter by attendee"></th>
+                <th></th>
+                <th></th>
+                <th></th>
+                <th></th>
+            </tr>
+        </thead>
+        <tbody>`;
+
+    for (const [index, event] of reportData.entries()) {
+      const attendeeListHtml =
+        event.attendee_names.length > 0
+          ? event.attendee_names.map((name) => escapeHtml(name)).join(', ')
+          : '<em>None</em>';
+      const date = parseDate(event.event_date);
+
+      yield `
+            <tr>
+                <td>${index + 1}</td>
+                <td data-sort="${escapeHtml(event.event_name)}">${renderDrillDown(event)}</td>
+                <td data-sort="${date ? date.toISOString() : ''}">${escapeHtml(event.event_date)}</td>
+                <td>${escapeHtml(event.event_location)}</td>
+                <td>${attendeeListHtml}</td>
+                <td>${event.attendee_names.length + event.guest_count}</td>
+                <td>${event.maybe_names.length}</td>
+                <td>${event.declined_names.length}</td>
+                <td>${event.no_response_names.length}</td>
+            </tr>`;
+    }
+
+    yield `
+        </tbody>
+    </table>${sections.demographics ? renderDemographics(sections.demographics) : ''}${sections.reliability ? renderReliability(sections.reliability) : ''}${sections.teams ? renderTeams(sections.teams) : ''}
+    <script>${TABLE_SCRIPT}</script>
+</body>
+</html>`;
+  }
+}
+
+// Sorts the attendance table by a clicked header and filters it by the
+// inputs under the headers (event names by their summary, not the
+// drill-down). It only reads the table, so no CSV value is ever part of
+// the script.
+const TABLE_SCRIPT = `
+        (function () {
+            var table = document.getElementById('attendance');
+            var body = table.tBodies[0];
+            var headers = table.tHead.rows[0].cells;
+            var filters = table.querySelectorAll('.filters input');
+            function sortValue(cell, type) {
+                var value = cell.getAttribute('data-sort');
+                value = value === null ? cell.textContent.trim() : value;
+                return type === 'number' ? parseFloat(value) || 0 : value.toLowerCase();
+            }
+            Array.prototype.forEach.call(headers, function (header, column) {
+                header.addEventListener('click', function () {
+                    var ascending = header.getAttribute('aria-sort') !== 'ascending';
+                    var type = header.getAttribute('data-type');
+                    Array.prototype.forEach.call(headers, function (other) {
+                        other.removeAttribute('aria-sort');
+                    });
+                    header.setAttribute('aria-sort', ascending ? 'ascending' : 'descending');
+                    Array.prototype.slice.call(body.rows)
+                        .sort(function (a, b) {
+                            var x = sortValue(a.cells[column], type);
+                            var y = sortValue(b.cells[column], type);
+                            return (x < y ? -1 : x > y ? 1 : 0) * (ascending ? 1 : -1);
+                        })
+                        .forEach(function (row) { body.appendChild(row); });
+                });
+            });
+            Array.prototype.forEach.call(filters, function (input) {
+                input.addEventListener('input', function () {
+                    Array.prototype.forEach.call(body.rows, function (row) {
+                        row.hidden = Array.prototype.some.call(filters, function (filter) {
+                            var query = filter.value.trim().toLowerCase();
+                            var cell = row.cells[Number(filter.getAttribute('data-column'))];
+                            var text = (cell.querySelector('summary') || cell).textContent;
+                            return query !== '' && text.toLowerCase().indexOf(query) === -1;
+                        });
+                    });
+                });
+            });
+        })();
+    `;
+
+// The event name, opening onto the players grouped by response.
+function renderDrillDown(event: EventAttendance): string {
+  const groups: Array<[keyof typeof RESPONSE_COLORS, string[]]> = [
+    ['Yes', event.attendee_names],
+    ['Maybe', event.maybe_names],
+    ['No', event.declined_names],
+    ['No Response', event.no_response_names],
+  ];
+  const lists = groups
+    .map(
+      ([label, names]) => `
+                        <dt class="response-${toClassName(label)}">${label} (${names.length})</dt>
+                        <dd>${names.length > 0 ? names.map((name) => escapeHtml(name)).join(', ') : '<em>None</em>'}</dd>`
+    )
+    .join('');
+  const place = [event.event_date, event.event_location]
+    .filter((value) => value)
+    .map((value) => escapeHtml(value))
+    .join(' at ');
+  return `
+                    <details>
+                        <summary>${escapeHtml(event.event_name)}</summary>${
+                          place
+                            ? `
+                        <div>${place}${event.guest_count > 0 ? `; ${event.guest_count} guest(s)` : ''}</div>`
+                            : ''
+                        }
+                        <dl>${lists}
+                        </dl>
+                    </details>`;
+}
+
+function toClassName(label: string): string {
+  return label.toLowerCase().replace(/\s+/g, '-');
+}
+
+// Gender and age band columns grouped under a two-row header.
+function renderDemographics(report: DemographicsReport): string {
+  const headerCells = [...report.genders, ...report.ageBands]
+    .map((label) => `<th>${escapeHtml(label)}</th>`)
+    .join('');
+  const rows = toDemographicsRows(report)
+    .map(
+      (row) => `
+            <tr>
+                <td>${escapeHtml(row.event_name)}</td>
+                <td>${row.status}</td>
+                ${row.counts.map((count) => `<td>${count}</td>`).join('')}
+            </tr>`
+    )
+    .join('');
+  return `
+    <h2>Demographics</h2>
+    <table>
+        <thead>
+            <tr>
+                <th rowspan="2">Event Name</th>
+                <th rowspan="2">Status</th>
+                <th rowspan="2">Total</th>
+                <th colspan="${report.genders.length}">Gender</th>
+                <th colspan="${report.ageBands.length}">Age</th>
+            </tr>
+            <tr>${headerCells}</tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+    </table>`;
+}
+
+function renderReliability(report: ReliabilityReport): string {
+  const rows = report.players
+    .map(
+      (row) => `
+            <tr>
+                ${toReliabilityCells(row)
+                  .map((cell) => `<td>${escapeHtml(cell)}</td>`)
+                  .join('')}
+            </tr>`
+    )
+    .join('');
+  return `
+    <h2>Player Reliability <br>(${report.event_ids.length} Events With Check-Ins)</h2>
+    <table>
+        <thead>
+            <tr>${RELIABILITY_COLUMNS.map((column) => `<th>${column}</th>`).join('')}</tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+    </table>`;
+}
+
+// One table per event, or the reason it has no teams.
+function renderTeams(report: TeamsReport): string {
+  const events = report.events
+    .map((event) => {
+      const body = event.error
+        ? `
+    <p><em>${escapeHtml(event.error)}</em></p>`
+        : `
+    <table>
+        <thead>
+            <tr>${TEAM_COLUMNS.map((column) => `<th>${column}</th>`).join('')}</tr>
+        </thead>
+        <tbody>${event.teams
+          .map(
+            (team) => `
+            <tr>
+                ${toTeamCells(team)
+                  .map((cell) => `<td>${escapeHtml(cell)}</td>`)
+                  .join('')}
+            </tr>`
+          )
+          .join('')}
+        </tbody>
+    </table>`;
+      return `
+    <h3>${escapeHtml(event.event_name)}</h3>${body}`;
+    })
+    .join('');
+  return `
+    <h2>Teams <br>(Seed ${escapeHtml(report.seed)})</h2>${events}`;
+}
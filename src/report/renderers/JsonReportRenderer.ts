@@ -0,0 +1,64 @@
+import {
+  EventAttendance,
+  IReportRenderer,
+  ReportSections,
+} from '../report.types';
+
+/**
+ * Renders the attendance report as JSON for dashboards and scripts.
+ */
+export class JsonReportRenderer implements IReportRenderer {
+  readonly format = 'json';
+  readonly fileExtension = 'json';
+
+  render(reportData: EventAttendance[], sections: ReportSections = {}): string {
+    return [...this.renderChunks(reportData, sections)].join('');
+  }
+
+  // The totals, one chunk per event, then each section: the same text as
+  // JSON.stringify(report, null, 2), without building the whole report.
+  *renderChunks(
+    reportData: EventAttendance[],
+    sections: ReportSections = {}
+  ): Iterable<string> {
+    const totalAttendees = reportData.reduce(
+      (sum, event) => sum + event.attendee_names.length,
+      0
+    );
+    const totalHeadcount = reportData.reduce(
+      (sum, event) => sum + event.attendee_names.length + event.guest_count,
+      0
+    );
+    yield `{\n  "total_attendees": ${totalAttendees},\n  "total_headcount": ${totalHeadcount},\n  "events": [`;
+    for (const [index, event] of reportData.entries()) {
+      const json = toJson(
+        {
+          event_id: event.event_id,
+          event_name: event.event_name,
+          attendee_count: event.attendee_names.length,
+          attendee_names: event.attendee_names,
+          guest_count: event.guest_count,
+          headcount: event.attendee_names.length + event.guest_count,
+        },
+        4
+      );
+      yield `${index === 0 ? '' : ','}\n    ${json}`;
+    }
+    yield reportData.length > 0 ? '\n  ]' : ']';
+    // Each optional section under its own key
+    for (const [key, section] of Object.entries(sections)) {
+      if (section !== undefined) {
+        yield `,\n  ${JSON.stringify(key)}: ${toJson(section, 2)}`;
+      }
+    }
+    yield '\n}\n';
+  }
+}
+
+// Pretty-prints a value nested `indent` spaces deep.
+function toJson(value: unknown, indent: number): string {
+  return JSON.stringify(value, null, 2).replace(
+    /\n/g,
+    `\n${' '.repeat(indent)}`
+  );
+}
@@ -0,0 +1,112 @@
+import { toDemographicsRows } from '../demographics';
+import { RELIABILITY_COLUMNS, toReliabilityCells } from '../reliability';
+import { TEAM_COLUMNS, toTeamCells } from '../teams';
+import {
+  EventAttendance,
+  IReportRenderer,
+  ReportSections,
+} from '../report.types';
+
+// Pipes and line breaks would break a Markdown table cell.
+function escapeMarkdownCell(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Renders the attendance report as a Markdown table for chat posts.
+ */
+export class MarkdownReportRenderer implements IReportRenderer {
+  readonly format = 'md';
+  readonly fileExtension = 'md';
+
+  render(reportData: EventAttendance[], sections: ReportSections = {}): string {
+    return [...this.renderChunks(reportData, sections)].join('');
+  }
+
+  // The table head, one line per event, then each section.
+  *renderChunks(
+    reportData: EventAttendance[],
+    sections: ReportSections = {}
+  ): Iterable<string> {
+    const totalAttendees = reportData.reduce(
+      (sum, event) => sum + event.attendee_names.length + event.guest_count,
+      0
+    );
+    yield [
+      '# Event Attendance Report',
+      '',
+      `| # | Event Name | Confirmed Attendees | Number of Attendees (${totalAttendees} Total) |`,
+      '| --- | --- | --- | --- |\n',
+    ].join('\n');
+    for (const [index, event] of reportData.entries()) {
+      const attendees =
+        event.attendee_names.length > 0
+          ? event.attendee_names.map(escapeMarkdownCell).join(', ')
+          : '_None_';
+      yield `| ${index + 1} | ${escapeMarkdownCell(event.event_name)} | ${attendees} | ${event.attendee_names.length + event.guest_count} |\n`;
+    }
+    // The sections are small next to the table
+    const lines: string[] = [];
+    if (sections.demographics) {
+      const { genders, ageBands } = sections.demographics;
+      const columns = [
+        'Event Name',
+        'Status',
+        'Total',
+        ...genders,
+        ...ageBands.map((band) => `Age ${band}`),
+      ];
+      lines.push(
+        '',
+        '## Demographics',
+        '',
+        `| ${columns.map(escapeMarkdownCell).join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`
+      );
+      for (const row of toDemographicsRows(sections.demographics)) {
+        lines.push(
+          `| ${escapeMarkdownCell(row.event_name)} | ${row.status} | ${row.counts.join(' | ')} |`
+        );
+      }
+    }
+    if (sections.reliability) {
+      lines.push(
+        '',
+        `## Player Reliability (${sections.reliability.event_ids.length} Events With Check-Ins)`,
+        '',
+        `| ${RELIABILITY_COLUMNS.join(' | ')} |`,
+        `| ${RELIABILITY_COLUMNS.map(() => '---').join(' | ')} |`
+      );
+      for (const row of sections.reliability.players) {
+        lines.push(
+          `| ${toReliabilityCells(row).map(escapeMarkdownCell).join(' | ')} |`
+        );
+      }
+    }
+    if (sections.teams) {
+      lines.push('', `## Teams (Seed ${sections.teams.seed})`);
+      for (const event of sections.teams.events) {
+        lines.push('', `### ${escapeMarkdownCell(event.event_name)}`, '');
+        if (event.error) {
+          lines.push(`_${event.error}_`);
+          continue;
+        }
+        lines.push(
+          `| ${TEAM_COLUMNS.join(' | ')} |`,
+          `| ${TEAM_COLUMNS.map(() => '---').join(' | ')} |`
+        );
+        for (const team of event.teams) {
+          lines.push(
+            `| ${toTeamCells(team).map(escapeMarkdownCell).join(' | ')} |`
+          );
+        }
+      }
+    }
+    if (lines.length > 0) {
+      yield `${lines.join('\n')}\n`;
+    }
+  }
+}
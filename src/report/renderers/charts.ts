@@ -0,0 +1,152 @@
+import { parseDate } from '../../interfaces';
+import { escapeHtml } from '../../utils';
+import { EventAttendance } from '../report.types';
+
+// One color per response, shared by the legend, the bars and the table.
+export const RESPONSE_COLORS = {
+  Yes: '#43a047',
+  Maybe: '#fbc02d',
+  No: '#e53935',
+  'No Response': '#bdbdbd',
+};
+
+const CHART_WIDTH = 640;
+const LABEL_WIDTH = 200; // Room for event names left of the bars
+const BAR_HEIGHT = 18;
+const BAR_GAP = 8;
+const LEGEND_HEIGHT = 28;
+const MAX_LABEL_LENGTH = 28;
+
+/**
+ * Draws one stacked bar per event with its Yes, Maybe, No and no-response
+ * counts, as an inline SVG. Every bar has a tooltip with the exact counts.
+ * @param events - The events, in report order.
+ */
+export function renderResponseMixChart(events: EventAttendance[]): string {
+  const barWidth = CHART_WIDTH - LABEL_WIDTH - 10;
+  const height = LEGEND_HEIGHT + events.length * (BAR_HEIGHT + BAR_GAP);
+  const legend = Object.entries(RESPONSE_COLORS)
+    .map(
+      ([label, color], index) =>
+        `<rect x="${LABEL_WIDTH + index * 110}" y="4" width="12" height="12" fill="${color}"/><text x="${LABEL_WIDTH + index * 110 + 16}" y="15">${label}</text>`
+    )
+    .join('');
+  const bars = events
+    .map((event, index) => {
+      const counts = responseCounts(event);
+      const total = Object.values(counts).reduce(
+        (sum, count) => sum + count,
+        0
+      );
+      const y = LEGEND_HEIGHT + index * (BAR_HEIGHT + BAR_GAP);
+      let x = LABEL_WIDTH;
+      const segments = Object.entries(counts)
+        .filter(([, count]) => count > 0)
+        .map(([label, count]) => {
+          const width = (count / total) * barWidth;
+          const rect = `<rect x="${round(x)}" y="${y}" width="${round(width)}" height="${BAR_HEIGHT}" fill="${RESPONSE_COLORS[label as keyof typeof RESPONSE_COLORS]}"><title>${escapeHtml(event.event_name)}: ${label} ${count}</title></rect>`;
+          x += width;
+          return rect;
+        })
+        .join('');
+      return `<text x="${LABEL_WIDTH - 6}" y="${y + 13}" text-anchor="end">${escapeHtml(truncate(event.event_name))}</text>${segments}`;
+    })
+    .join('');
+  return `<svg class="chart" viewBox="0 0 ${CHART_WIDTH} ${height}" width="${CHART_WIDTH}" height="${height}" role="img" aria-label="Response mix per event">${legend}${bars}</svg>`;
+}
+
+/**
+ * Draws the headcount (confirmed players plus guests) of every dated event
+ * over time, as an inline SVG line chart. Events without a valid date are
+ * left out.
+ * @param events - The events, in any order.
+ */
+export function renderAttendanceTrendChart(events: EventAttendance[]): string {
+  const points = events
+    .flatMap((event) => {
+      const date = parseDate(event.event_date);
+      return date
+        ? [
+            {
+              event,
+              date,
+              headcount: event.attendee_names.length + event.guest_count,
+            },
+          ]
+        : [];
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  if (points.length === 0) {
+    return '<p><em>No dated events to chart.</em></p>';
+  }
+
+  const height = 240;
+  const [left, right, top, bottom] = [40, 20, 20, 40];
+  const first = points[0].date.getTime();
+  const span = points[points.length - 1].date.getTime() - first || 1;
+  const maxHeadcount = Math.max(1, ...points.map((point) => point.headcount));
+  const position = (point: (typeof points)[number]) => ({
+    x: round(
+      points.length === 1
+        ? (left + CHART_WIDTH - right) / 2
+        : left +
+            ((point.date.getTime() - first) / span) *
+              (CHART_WIDTH - left - right)
+    ),
+    y: round(
+      height -
+        bottom -
+        (point.headcount / maxHeadcount) * (height - top - bottom)
+    ),
+  });
+  const line = points
+    .map((point) => {
+      const { x, y } = position(point);
+      return `${x},${y}`;
+    })
+    .join(' ');
+  const markers = points
+    .map((point) => {
+      const { x, y } = position(point);
+      return `<circle cx="${x}" cy="${y}" r="4" fill="${RESPONSE_COLORS.Yes}"><title>${escapeHtml(point.event.event_name)} (${formatDay(point.date)}): ${point.headcount}</title></circle>`;
+    })
+    .join('');
+  const axes = [
+    `<line x1="${left}" y1="${height - bottom}" x2="${CHART_WIDTH - right}" y2="${height - bottom}" stroke="#999"/>`,
+    `<line x1="${left}" y1="${top}" x2="${left}" y2="${height - bottom}" stroke="#999"/>`,
+    `<text x="${left - 6}" y="${top + 4}" text-anchor="end">${maxHeadcount}</text>`,
+    `<text x="${left - 6}" y="${height - bottom + 4}" text-anchor="end">0</text>`,
+    `<text x="${left}" y="${height - bottom + 20}">${formatDay(points[0].date)}</text>`,
+    `<text x="${CHART_WIDTH - right}" y="${height - bottom + 20}" text-anchor="end">${formatDay(points[points.length - 1].date)}</text>`,
+  ].join('');
+  return `<svg class="chart" viewBox="0 0 ${CHART_WIDTH} ${height}" width="${CHART_WIDTH}" height="${height}" role="img" aria-label="Headcount per event over time">${axes}<polyline points="${line}" fill="none" stroke="${RESPONSE_COLORS.Yes}" stroke-width="2"/>${markers}</svg>`;
+}
+
+/**
+ * The number of players per response of one event, in RESPONSE_COLORS order.
+ */
+export function responseCounts(
+  event: EventAttendance
+): Record<keyof typeof RESPONSE_COLORS, number> {
+  return {
+    Yes: event.attendee_names.length,
+    Maybe: event.maybe_names.length,
+    No: event.declined_names.length,
+    'No Response': event.no_response_names.length,
+  };
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_LABEL_LENGTH
+    ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…`
+    : text;
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Keeps the SVG small and its output stable.
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,4 @@
+export * from './HtmlReportRenderer';
+export * from './CsvReportRenderer';
+export * from './JsonReportRenderer';
+export * from './MarkdownReportRenderer';
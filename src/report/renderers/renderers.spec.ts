@@ -0,0 +1,349 @@
+import { DemographicsReport } from '../demographics';
+import { ReliabilityReport } from '../reliability';
+import { EventAttendance, ReportSections } from '../report.types';
+import { TeamsReport } from '../teams';
+import { renderAttendanceTrendChart, renderResponseMixChart } from './charts';
+import { HtmlReportRenderer } from './HtmlReportRenderer';
+import { CsvReportRenderer } from './CsvReportRenderer';
+import { JsonReportRenderer } from './JsonReportRenderer';
+import { MarkdownReportRenderer } from './MarkdownReportRenderer';
+
+// The same aggregated data is fed to every renderer
+const reportData: EventAttendance[] = [
+  {
+    event_id: '1',
+    event_name: 'Annual <Tournament>',
+    event_location: 'Park & Ride',
+    event_date: '2025-03-01',
+    attendee_names: ['Riley Jackson', 'Chris "CJ" Anderson'],
+    guest_count: 3,
+    maybe_names: ['Sam <S>'],
+    declined_names: [],
+    no_response_names: ['Pat'],
+  },
+  {
+    event_id: '2',
+    event_name: 'Skills | Workshop',
+    event_location: 'Gym',
+    event_date: '2025-02-01',
+    attendee_names: [],
+    guest_count: 0,
+    maybe_names: [],
+    declined_names: ['Riley Jackson'],
+    no_response_names: ['Chris "CJ" Anderson', 'Sam <S>', 'Pat'],
+  },
+];
+
+const breakdown = (total: number) => ({
+  total,
+  byGender: { 'Non-binary <NB>': total },
+  byAgeBand: { 'Under 25': total, Unknown: 0 },
+});
+const demographics: DemographicsReport = {
+  genders: ['Non-binary <NB>'],
+  ageBands: ['Under 25', 'Unknown'],
+  events: [
+    {
+      event_id: '1',
+      event_name: 'Annual <Tournament>',
+      byStatus: { Yes: breakdown(2), No: breakdown(0), Maybe: breakdown(1) },
+    },
+  ],
+  totals: { Yes: breakdown(2), No: breakdown(0), Maybe: breakdown(1) },
+};
+const reliability: ReliabilityReport = {
+  event_ids: ['1'],
+  players: [
+    {
+      playerId: '7',
+      player_name: 'Pat <P>',
+      events: 1,
+      responded: 1,
+      attended: 0,
+      yes: 1,
+      noShows: 1,
+      maybe: 0,
+      maybeAttended: 0,
+      responseRate: 1,
+      noShowRate: 1,
+      maybeAttendanceRate: null,
+      score: 33,
+    },
+  ],
+};
+const teams: TeamsReport = {
+  seed: '42',
+  events: [
+    {
+      event_id: '1',
+      event_name: 'Annual <Tournament>',
+      teams: [
+        {
+          name: 'Team 1',
+          playerIds: ['7', '8'],
+          player_names: ['Pat <P>', 'Sam'],
+          genders: { Female: 1, Male: 1 },
+          averageAge: 27.5,
+          minAge: 25,
+          maxAge: 30,
+        },
+      ],
+    },
+    {
+      event_id: '2',
+      event_name: 'Skills | Workshop',
+      teams: [],
+      error: 'Cannot split 0 player(s) into 2 teams.',
+    },
+  ],
+};
+const sections: ReportSections = { demographics };
+
+describe('HtmlReportRenderer', () => {
+  const html = new HtmlReportRenderer().render(reportData);
+
+  it('should render one row per event with the total in the header', () => {
+    expect(html).toContain('<!DOCTYPE html>');
+    expect(html).toContain('Number of Attendees <br>(5 Total)');
+    expect(html).toContain('<td>5</td>'); // 2 players and 3 guests
+    expect(html.match(/<tr>/g)).toHaveLength(3); // The header and two events
+    expect(html).toContain('<em>None</em>');
+    expect(html).toContain(
+      '<td data-sort="2025-03-01T00:00:00.000Z">2025-03-01</td>'
+    );
+    expect(html).toContain('<td>Park &amp; Ride</td>');
+  });
+
+  it('should escape values from the CSVs', () => {
+    expect(html).toContain('Annual &lt;Tournament&gt;');
+    expect(html).toContain('Chris &quot;CJ&quot; Anderson');
+    expect(html).not.toContain('<Tournament>');
+    expect(html).not.toContain('<S>');
+  });
+
+  it('should list every response in a collapsible view per event', () => {
+    expect(html).toContain('<summary>Annual &lt;Tournament&gt;</summary>');
+    expect(html).toContain(
+      '<div>2025-03-01 at Park &amp; Ride; 3 guest(s)</div>'
+    );
+    expect(html).toContain('<dt class="response-maybe">Maybe (1)</dt>');
+    expect(html).toContain('<dd>Sam &lt;S&gt;</dd>');
+    expect(html).toContain(
+      '<dt class="response-no-response">No Response (3)</dt>'
+    );
+  });
+
+  it('should be self-contained, with sortable and filterable columns', () => {
+    expect(html).not.toMatch(/<(link|img)\b|\bsrc=|https?:/);
+    expect(html).toContain('<th data-type="number">Maybe</th>');
+    expect(html).toContain('<input type="search" data-column="1"');
+    expect(html.match(/<svg /g)).toHaveLength(2);
+    // The script reads the table; no CSV value is pasted into it
+    const script = html.slice(html.indexOf('<script>'));
+    expect(script).not.toContain('Riley');
+  });
+
+  it('should add the demographics section only when given', () => {
+    expect(html).not.toContain('Demographics');
+    const withSection = new HtmlReportRenderer().render(reportData, sections);
+    expect(
+      withSection.startsWith(html.replace(/\n {4}<script>[\s\S]*$/, ''))
+    ).toBe(true);
+    expect(withSection).toContain('<h2>Demographics</h2>');
+    expect(withSection).toContain('<th>Non-binary &lt;NB&gt;</th>');
+    expect(withSection).not.toContain('<NB>');
+    expect(withSection.match(/<td>All Events<\/td>/g)).toHaveLength(3);
+  });
+
+  it('should add the reliability section after the others', () => {
+    const withSections = new HtmlReportRenderer().render(reportData, {
+      demographics,
+      reliability,
+    });
+    expect(withSections.indexOf('Player Reliability')).toBeGreaterThan(
+      withSections.indexOf('Demographics')
+    );
+    expect(withSections).toContain('(1 Events With Check-Ins)');
+    expect(withSections).toContain(
+      '<td>Pat &lt;P&gt;</td><td>1</td><td>1 (100%)</td><td>0</td><td>1 of 1 (100%)</td><td>0 of 0 (-)</td><td>33</td>'
+    );
+  });
+
+  it('should add one teams table per event, or why it has none', () => {
+    const withTeams = new HtmlReportRenderer().render(reportData, { teams });
+    expect(withTeams).toContain('<h2>Teams <br>(Seed 42)</h2>');
+    expect(withTeams).toContain(
+      '<td>Team 1</td><td>Pat &lt;P&gt;, Sam</td><td>2</td><td>Female 1, Male 1</td><td>25-30 (avg 27.5)</td>'
+    );
+    expect(withTeams).toContain(
+      '<p><em>Cannot split 0 player(s) into 2 teams.</em></p>'
+    );
+  });
+});
+
+describe('charts', () => {
+  it('should draw one stacked bar per event with escaped labels', () => {
+    const chart = renderResponseMixChart(reportData);
+    expect(chart.match(/<text x="194"/g)).toHaveLength(2);
+    expect(chart).toContain('<title>Annual &lt;Tournament&gt;: Yes 2</title>');
+    expect(chart).toContain('<title>Skills | Workshop: No Response 3</title>');
+    expect(chart).not.toContain('<Tournament>');
+  });
+
+  it('should draw the headcount of dated events in date order', () => {
+    const chart = renderAttendanceTrendChart([
+      ...reportData,
+      { ...reportData[1], event_id: '3', event_date: 'someday' },
+    ]);
+    expect(chart).toContain('<polyline points="40,200 620,20"');
+    expect(chart.match(/<circle /g)).toHaveLength(2);
+    expect(chart).toContain(
+      '<title>Annual &lt;Tournament&gt; (2025-03-01): 5</title>'
+    );
+    expect(renderAttendanceTrendChart([])).toBe(
+      '<p><em>No dated events to chart.</em></p>'
+    );
+  });
+});
+
+describe('CsvReportRenderer', () => {
+  it('should render a header and one quoted row per event', () => {
+    expect(new CsvReportRenderer().render(reportData).split('\n')).toEqual([
+      'serial_number,event_id,event_name,attendee_count,attendee_names',
+      '1,1,Annual <Tournament>,2,"Riley Jackson; Chris ""CJ"" Anderson"',
+      '2,2,Skills | Workshop,0,',
+      '',
+    ]);
+  });
+});
+
+describe('JsonReportRenderer', () => {
+  it('should render the totals and every event', () => {
+    expect(JSON.parse(new JsonReportRenderer().render(reportData))).toEqual({
+      total_attendees: 2,
+      total_headcount: 5,
+      events: [
+        {
+          event_id: '1',
+          event_name: 'Annual <Tournament>',
+          attendee_count: 2,
+          attendee_names: ['Riley Jackson', 'Chris "CJ" Anderson'],
+          guest_count: 3,
+          headcount: 5,
+        },
+        {
+          event_id: '2',
+          event_name: 'Skills | Workshop',
+          attendee_count: 0,
+          attendee_names: [],
+          guest_count: 0,
+          headcount: 0,
+        },
+      ],
+    });
+  });
+
+  it('should add each section under its own key', () => {
+    const json = JSON.parse(
+      new JsonReportRenderer().render(reportData, sections)
+    );
+    expect(json.demographics).toEqual(demographics);
+  });
+});
+
+describe('MarkdownReportRenderer', () => {
+  it('should render a table and escape pipes in cells', () => {
+    expect(new MarkdownReportRenderer().render(reportData).split('\n')).toEqual(
+      [
+        '# Event Attendance Report',
+        '',
+        '| # | Event Name | Confirmed Attendees | Number of Attendees (5 Total) |',
+        '| --- | --- | --- | --- |',
+        '| 1 | Annual <Tournament> | Riley Jackson, Chris "CJ" Anderson | 5 |',
+        '| 2 | Skills \\| Workshop | _None_ | 0 |',
+        '',
+      ]
+    );
+  });
+
+  it('should append the demographics table when given', () => {
+    const markdown = new MarkdownReportRenderer().render(reportData, sections);
+    expect(markdown.split('\n').slice(6)).toEqual([
+      '',
+      '## Demographics',
+      '',
+      '| Event Name | Status | Total | Non-binary <NB> | Age Under 25 | Age Unknown |',
+      '| --- | --- | --- | --- | --- | --- |',
+      '| Annual <Tournament> | Yes | 2 | 2 | 2 | 0 |',
+      '| Annual <Tournament> | No | 0 | 0 | 0 | 0 |',
+      '| Annual <Tournament> | Maybe | 1 | 1 | 1 | 0 |',
+      '| All Events | Yes | 2 | 2 | 2 | 0 |',
+      '| All Events | No | 0 | 0 | 0 | 0 |',
+      '| All Events | Maybe | 1 | 1 | 1 | 0 |',
+      '',
+    ]);
+  });
+
+  it('should append the reliability table when given', () => {
+    const markdown = new MarkdownReportRenderer().render(reportData, {
+      reliability,
+    });
+    expect(markdown.split('\n').slice(6)).toEqual([
+      '',
+      '## Player Reliability (1 Events With Check-Ins)',
+      '',
+      '| Player | Events | Responded | Attended | Yes No-Shows | Maybe Attended | Score |',
+      '| --- | --- | --- | --- | --- | --- | --- |',
+      '| Pat <P> | 1 | 1 (100%) | 0 | 1 of 1 (100%) | 0 of 0 (-) | 33 |',
+      '',
+    ]);
+  });
+
+  it('should append the teams of every event when given', () => {
+    const markdown = new MarkdownReportRenderer().render(reportData, {
+      teams,
+    });
+    expect(markdown.split('\n').slice(6)).toEqual([
+      '',
+      '## Teams (Seed 42)',
+      '',
+      '### Annual <Tournament>',
+      '',
+      '| Team | Players | Size | Gender Mix | Ages |',
+      '| --- | --- | --- | --- | --- |',
+      '| Team 1 | Pat <P>, Sam | 2 | Female 1, Male 1 | 25-30 (avg 27.5) |',
+      '',
+      '### Skills \\| Workshop',
+      '',
+      '_Cannot split 0 player(s) into 2 teams._',
+      '',
+    ]);
+  });
+});
+
+describe('renderChunks', () => {
+  const allSections: ReportSections = { demographics, reliability, teams };
+
+  it.each([
+    new HtmlReportRenderer(),
+    new CsvReportRenderer(),
+    new JsonReportRenderer(),
+    new MarkdownReportRenderer(),
+  ])('should join into the rendered $format report', (renderer) => {
+    for (const data of [reportData, []]) {
+      const chunks = [...renderer.renderChunks(data, allSections)];
+      expect(chunks.length).toBeGreaterThan(data.length);
+      expect(chunks.join('')).toBe(renderer.render(data, allSections));
+    }
+  });
+
+  it('should stream the same JSON as JSON.stringify', () => {
+    const json = new JsonReportRenderer().render(reportData, allSections);
+    expect(json).toBe(`${JSON.stringify(JSON.parse(json), null, 2)}\n`);
+    expect(JSON.parse(new JsonReportRenderer().render([]))).toEqual({
+      total_attendees: 0,
+      total_headcount: 0,
+      events: [],
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { Event, Player, Rsvp } from '../interfaces';
+import { DemographicsReport } from './demographics';
+import { ReliabilityReport } from './reliability';
+import { TeamsReport } from './teams';
+
+// Interfaces for the raw rows of the CSV inputs, exactly as read. They are
+// turned into the domain Player, Event and Rsvp by the parsers in `interfaces`.
+export interface PlayerRow {
+  player_id: string;
+  player_name: string;
+  player_email: string;
+  gender: string;
+  age: string;
+}
+
+export interface EventRow {
+  event_id: string;
+  event_name: string;
+  event_location: string;
+  event_date: string;
+  recurrence?: string; // Optional column, e.g. "FREQ=WEEKLY;COUNT=10"
+}
+
+export interface RsvpRow {
+  rsvp_id: string;
+  event_id: string;
+  player_id: string;
+  status: string; // Checked against RsvpStatus by parseRsvp
+  guests?: string; // Optional column: how many guests the player brings
+}
+
+// A row of the optional check-ins CSV: the player showed up at the event
+export interface CheckInRow {
+  event_id: string;
+  player_id: string;
+}
+
+export interface ReportData {
+  players: PlayerRow[];
+  events: EventRow[];
+  rsvps: RsvpRow[];
+}
+
+/**
+ * The report inputs parsed into the domain model, which every report section
+ * is built from. Produced by the ReportValidator, which reports the rows it
+ * leaves out: players and events without an ID, events with a non-numeric
+ * ID, and RSVPs without IDs or a valid status. Invalid optional fields are
+ * left unset and missing names blank, so their rows still count.
+ */
+export interface LeagueData {
+  players: Player[];
+  events: Event[];
+  rsvps: Rsvp[]; // The latest RSVP of every player/event pair, in file order
+}
+
+/**
+ * The aggregated attendance of one event, shared by every report renderer.
+ * Names are grouped by each player's latest response.
+ */
+export interface EventAttendance {
+  event_id: string;
+  event_name: string;
+  event_location: string; // As in events.csv; may be blank
+  event_date: string; // YYYY-MM-DD, or ISO with a time; blank if unknown
+  attendee_names: string[]; // "Yes"
+  guest_count: number; // Guests brought by the confirmed players
+  maybe_names: string[];
+  declined_names: string[]; // "No"
+  no_response_names: string[]; // Rostered players without a valid response
+}
+
+/**
+ * The output formats the attendance report can be rendered in.
+ */
+export type ReportFormat = 'html' | 'csv' | 'json' | 'md';
+
+/**
+ * Optional sections rendered after the attendance table.
+ */
+export interface ReportSections {
+  demographics?: DemographicsReport;
+  reliability?: ReliabilityReport;
+  teams?: TeamsReport;
+}
+
+/**
+ * Defines the contract for turning aggregated attendance into a report file.
+ * Allows for different implementations (e.g., HTML, CSV, Markdown).
+ */
+export interface IReportRenderer {
+  readonly format: ReportFormat;
+  readonly fileExtension: string;
+  render(report: EventAttendance[], sections?: ReportSections): string;
+  /**
+   * Renders the same report piece by piece, e.g. one table row at a time,
+   * so large reports can be written to a stream; joined, the pieces equal
+   * `render`.
+   */
+  renderChunks(
+    report: EventAttendance[],
+    sections?: ReportSections
+  ): Iterable<string>;
+}
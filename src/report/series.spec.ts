@@ -0,0 +1,66 @@
+import { EventRow, ReportData, RsvpRow } from './report.types';
+import { expandSeries } from './series';
+import { parseReportData } from './validation';
+
+const training: EventRow = {
+  event_id: '7',
+  event_name: 'Training',
+  event_location: 'Gym',
+  event_date: '2025-03-04T18:00:00Z',
+  recurrence: 'FREQ=WEEKLY;COUNT=3',
+};
+
+const rsvp = (
+  rsvp_id: string,
+  event_id: string,
+  player_id: string,
+  status: string
+): RsvpRow => ({ rsvp_id, event_id, player_id, status });
+
+const parse = (rows: ReportData) => parseReportData(rows).data;
+
+describe('expandSeries', () => {
+  it('should replace a series with one event per occurrence', () => {
+    const data = parse({ players: [], events: [training], rsvps: [] });
+    expect(expandSeries(data).events).toEqual([
+      {
+        id: '7@2025-03-04',
+        name: 'Training (2025-03-04)',
+        location: 'Gym',
+        date: new Date('2025-03-04T18:00:00Z'),
+      },
+      expect.objectContaining({ id: '7@2025-03-11' }),
+      expect.objectContaining({ id: '7@2025-03-18' }),
+    ]);
+  });
+
+  it('should resolve series RSVPs into every occurrence without an exception', () => {
+    const data = parse({
+      players: [],
+      events: [training],
+      rsvps: [
+        rsvp('1', '7', '1', 'Maybe'),
+        rsvp('2', '7@2025-03-11', '1', 'No'),
+        rsvp('3', '7', '1', 'Yes'), // Latest series response wins
+      ],
+    });
+    expect(
+      expandSeries(data).rsvps.map(
+        ({ eventId, playerId, status }) => `${eventId} ${playerId} ${status}`
+      )
+    ).toEqual([
+      '7@2025-03-04 1 Yes',
+      '7@2025-03-18 1 Yes',
+      '7@2025-03-11 1 No',
+    ]);
+  });
+
+  it('should return data without series unchanged', () => {
+    const data = parse({
+      players: [],
+      events: [{ ...training, recurrence: '' }],
+      rsvps: [rsvp('1', '7', '1', 'Yes')],
+    });
+    expect(expandSeries(data)).toBe(data);
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  Event,
+  expandEventSeries,
+  listOccurrences,
+  Rsvp,
+  SeriesOccurrence,
+} from '../interfaces';
+import { LeagueData } from './report.types';
+
+/**
+ * Lists the occurrences of every recurring event. The parser keeps a
+ * recurrence only along with a valid date, its first occurrence.
+ * @param events - The parsed events.
+ * @returns The occurrences, grouped by series in input order.
+ */
+export function listSeriesOccurrences(events: Event[]): SeriesOccurrence[] {
+  return events.flatMap(({ id, date, recurrence }) =>
+    recurrence && date
+      ? listOccurrences({ id, start: date, rule: recurrence })
+      : []
+  );
+}
+
+/**
+ * Expands the recurring events of the report inputs into one event per
+ * occurrence, named "<event name> (<YYYY-MM-DD>)". An RSVP to the series
+ * itself (its `eventId` is the series' ID) applies to every occurrence the
+ * player has no RSVP of their own for, so each occurrence resolves to its
+ * effective responses. Everything else is passed through unchanged.
+ * @param data - The parsed players, events and latest RSVPs.
+ * @returns The same data with every series replaced by its occurrences.
+ */
+export function expandSeries(data: LeagueData): LeagueData {
+  const occurrencesBySeries = new Map<string, SeriesOccurrence[]>();
+  for (const occurrence of listSeriesOccurrences(data.events)) {
+    const occurrences = occurrencesBySeries.get(occurrence.seriesId) ?? [];
+    occurrences.push(occurrence);
+    occurrencesBySeries.set(occurrence.seriesId, occurrences);
+  }
+  if (occurrencesBySeries.size === 0) {
+    return data;
+  }
+
+  const events = data.events.flatMap(expandEventSeries);
+
+  // The data holds each player's latest series response; the occurrence
+  // RSVPs fill the gaps.
+  const isSeriesRsvp = (rsvp: Rsvp) => occurrencesBySeries.has(rsvp.eventId);
+  const ownRsvps = data.rsvps.filter((rsvp) => !isSeriesRsvp(rsvp));
+  const answered = new Set(
+    ownRsvps.map((rsvp) => `${rsvp.eventId}:${rsvp.playerId}`)
+  );
+  const resolvedRsvps = data.rsvps
+    .filter(isSeriesRsvp)
+    .flatMap((rsvp) =>
+      (occurrencesBySeries.get(rsvp.eventId) ?? [])
+        .filter(({ eventId }) => !answered.has(`${eventId}:${rsvp.playerId}`))
+        .map(({ eventId }) => ({ ...rsvp, eventId }))
+    );
+
+  return { ...data, events, rsvps: [...resolvedRsvps, ...ownRsvps] };
+}
@@ -0,0 +1,91 @@
+import { PlayerRow, ReportData, RsvpRow } from './report.types';
+import { buildTeamsReport, toTeamsCsv } from './teams';
+import { parseReportData } from './validation';
+
+const player = (player_id: string, gender: string, age: string): PlayerRow => ({
+  player_id,
+  player_name: `Player ${player_id}`,
+  player_email: `p${player_id}@example.com`,
+  gender,
+  age,
+});
+
+const rsvp = (
+  rsvp_id: string,
+  event_id: string,
+  player_id: string,
+  status = 'Yes'
+): RsvpRow => ({ rsvp_id, event_id, player_id, status });
+
+const rows: ReportData = {
+  players: [
+    player('1', 'Female', '20'),
+    player('2', 'Female', '40'),
+    player('3', 'Male', '22'),
+    player('4', 'Male', '38'),
+  ],
+  events: [
+    {
+      event_id: '2',
+      event_name: 'Cup',
+      event_location: 'Park',
+      event_date: '2025-01-01',
+    },
+    {
+      event_id: '1',
+      event_name: 'League',
+      event_location: 'Gym',
+      event_date: '2025-01-01',
+    },
+  ],
+  rsvps: [
+    rsvp('1', '1', '1'),
+    rsvp('2', '1', '2'),
+    rsvp('3', '1', '3'),
+    rsvp('4', '1', '4'),
+    rsvp('5', '1', '4', 'No'), // Latest wins
+    rsvp('6', '2', '1'),
+  ],
+};
+const data = parseReportData(rows).data;
+
+describe('buildTeamsReport', () => {
+  it('should split the confirmed players of every event with one seed', () => {
+    const report = buildTeamsReport(data, { teamCount: 2, seed: 'league' });
+
+    expect(report.seed).toBe('league');
+    expect(report.events.map((event) => event.event_id)).toEqual(['1', '2']);
+    expect(
+      report.events[0].teams.map((team) => team.playerIds.length).sort()
+    ).toEqual([1, 2]);
+    expect(
+      report.events[0].teams.flatMap((team) => team.player_names).sort()
+    ).toEqual(['Player 1', 'Player 2', 'Player 3']);
+    expect(report.events[1]).toEqual({
+      event_id: '2',
+      event_name: 'Cup',
+      teams: [],
+      error: 'Cannot split 1 player(s) into 2 teams.',
+    });
+    expect(buildTeamsReport(data, { teamCount: 2, seed: 'league' })).toEqual(
+      report
+    );
+  });
+});
+
+describe('toTeamsCsv', () => {
+  it('should export one row per player', () => {
+    const report = buildTeamsReport(data, {
+      teamCount: 2,
+      seed: 1,
+      keepTogether: [['1', '3']],
+    });
+    const lines = toTeamsCsv(report.events).trim().split('\n');
+    expect(lines[0]).toBe('event_id,event_name,team,player_id,player_name');
+    expect(lines).toHaveLength(4);
+    const teamOf = (playerId: string) =>
+      lines.find((line) => line.includes(`,${playerId},Player`))?.split(',')[2];
+    expect(teamOf('1')).toBe(teamOf('3'));
+    expect(teamOf('2')).not.toBe(teamOf('1'));
+  });
+});
@@ -0,0 +1,156 @@
+import { createObjectCsvStringifier } from 'csv-writer';
+import { Player, Team, TeamAssignment, TeamOptions } from '../interfaces';
+import { buildTeams, TeamConstraintError } from '../services';
+import { compareIds } from '../utils';
+import { LeagueData } from './report.types';
+
+/**
+ * One team with the names of its players, in `playerIds` order.
+ */
+export interface NamedTeam extends Team {
+  player_names: string[];
+}
+
+/**
+ * The teams of one event, or why none could be built.
+ */
+export interface EventTeams {
+  event_id: string;
+  event_name: string;
+  teams: NamedTeam[];
+  error?: string; // E.g. fewer confirmed players than teams
+}
+
+/**
+ * The teams section of the attendance report.
+ */
+export interface TeamsReport {
+  seed: string; // Reproduces every event's teams
+  events: EventTeams[];
+}
+
+/**
+ * Splits the confirmed ("Yes") players of every event into teams. All events
+ * share one seed, so the whole section can be reproduced.
+ * @param data - The parsed players, events and latest RSVPs.
+ * @param options - The number of teams, the seed and the constraints.
+ * @returns A TeamsReport, with events in report order.
+ */
+export function buildTeamsReport(
+  { players, events, rsvps }: LeagueData,
+  options: TeamOptions
+): TeamsReport {
+  const seed = String(options.seed ?? Math.floor(Math.random() * 2 ** 32));
+  const roster = new Map(
+    players.map((player): [string, Player] => [
+      player.id,
+      { ...player, name: player.name || 'Unnamed Player' },
+    ])
+  );
+  const confirmed = new Map<string, Player[]>();
+  for (const rsvp of rsvps) {
+    const player = roster.get(rsvp.playerId);
+    if (rsvp.status === 'Yes' && player) {
+      confirmed.set(rsvp.eventId, [
+        ...(confirmed.get(rsvp.eventId) ?? []),
+        player,
+      ]);
+    }
+  }
+
+  const reportEvents = [...events].sort((a, b) => compareIds(a.id, b.id));
+  return {
+    seed,
+    events: reportEvents.map((event) => {
+      const eventName = event.name || 'Unnamed Event';
+      try {
+        const assignment = buildTeams(confirmed.get(event.id) ?? [], {
+          ...options,
+          seed,
+        });
+        return toEventTeams(event.id, eventName, assignment, roster);
+      } catch (error) {
+        if (!(error instanceof TeamConstraintError)) {
+          throw error;
+        }
+        return {
+          event_id: event.id,
+          event_name: eventName,
+          teams: [],
+          error: error.message,
+        };
+      }
+    }),
+  };
+}
+
+/**
+ * Adds player names to the teams of one event, e.g. for `toTeamsCsv`.
+ * @param players - Looked up by ID; unknown players are shown by ID.
+ */
+export function toEventTeams(
+  eventId: string,
+  eventName: string,
+  { teams }: TeamAssignment,
+  players: Map<string, Pick<Player, 'name'>>
+): EventTeams {
+  return {
+    event_id: eventId,
+    event_name: eventName,
+    teams: teams.map((team) => ({
+      ...team,
+      player_names: team.playerIds.map(
+        (playerId) => players.get(playerId)?.name ?? playerId
+      ),
+    })),
+  };
+}
+
+/**
+ * Exports teams as CSV, one row per player, for spreadsheets and club tools.
+ */
+export function toTeamsCsv(events: EventTeams[]): string {
+  const stringifier = createObjectCsvStringifier({
+    header: [
+      { id: 'event_id', title: 'event_id' },
+      { id: 'event_name', title: 'event_name' },
+      { id: 'team', title: 'team' },
+      { id: 'player_id', title: 'player_id' },
+      { id: 'player_name', title: 'player_name' },
+    ],
+  });
+  const records = events.flatMap((event) =>
+    event.teams.flatMap((team) =>
+      team.playerIds.map((playerId, index) => ({
+        event_id: event.event_id,
+        event_name: event.event_name,
+        team: team.name,
+        player_id: playerId,
+        player_name: team.player_names[index],
+      }))
+    )
+  );
+  return stringifier.getHeaderString() + stringifier.stringifyRecords(records);
+}
+
+/**
+ * The columns of a teams table, shared by the HTML and Markdown reports.
+ */
+export const TEAM_COLUMNS = ['Team', 'Players', 'Size', 'Gender Mix', 'Ages'];
+
+/**
+ * Turns one team into display cells, in TEAM_COLUMNS order.
+ */
+export function toTeamCells(team: NamedTeam): string[] {
+  return [
+    team.name,
+    team.player_names.join(', '),
+    `${team.playerIds.length}`,
+    Object.entries(team.genders)
+      .map(([gender, count]) => `${gender} ${count}`)
+      .join(', '),
+    team.averageAge === null
+      ? '-'
+      : `${team.minAge}-${team.maxAge} (avg ${team.averageAge})`,
+  ];
+}
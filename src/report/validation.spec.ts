@@ -0,0 +1,264 @@
+import { EventRow, PlayerRow, ReportData, RsvpRow } from './report.types';
+import {
+  LatestRsvps,
+  parseReportData,
+  ReportValidator,
+  resolveLatestRsvps,
+  summarizeFindings,
+  validateReportData,
+} from './validation';
+
+const player = (
+  player_id: string,
+  overrides: Partial<PlayerRow> = {}
+): PlayerRow => ({
+  player_id,
+  player_name: `Player ${player_id}`,
+  player_email: `p${player_id}@example.com`,
+  gender: 'Female',
+  age: '30',
+  ...overrides,
+});
+
+const event = (
+  event_id: string,
+  overrides: Partial<EventRow> = {}
+): EventRow => ({
+  event_id,
+  event_name: `Event ${event_id}`,
+  event_location: 'Park',
+  event_date: '2025-01-01',
+  ...overrides,
+});
+
+const rsvp = (
+  rsvp_id: string,
+  event_id: string,
+  player_id: string,
+  status = 'Yes'
+): RsvpRow => ({ rsvp_id, event_id, player_id, status });
+
+describe('validateReportData', () => {
+  it('should find nothing in consistent data', () => {
+    const data: ReportData = {
+      players: [player('1'), player('2')],
+      events: [event('1')],
+      rsvps: [rsvp('1', '1', '1'), rsvp('2', '1', '2', 'No')],
+    };
+    expect(validateReportData(data)).toEqual([]);
+  });
+
+  it('should report dangling references and invalid statuses with row numbers', () => {
+    const data: ReportData = {
+      players: [player('1')],
+      events: [event('1')],
+      rsvps: [
+        rsvp('1', '1', '1'),
+        rsvp('2', '1', '99'),
+        rsvp('3', '42', '1'),
+        rsvp('4', '1', '1', 'yes'),
+      ],
+    };
+    const findings = validateReportData(data);
+    expect(
+      findings.map(({ severity, file, row, rule }) => ({
+        severity,
+        file,
+        row,
+        rule,
+      }))
+    ).toEqual([
+      {
+        severity: 'warning',
+        file: 'rsvp.csv',
+        row: 2,
+        rule: 'duplicate-player-event',
+      },
+      { severity: 'error', file: 'rsvp.csv', row: 3, rule: 'unknown-player' },
+      { severity: 'error', file: 'rsvp.csv', row: 4, rule: 'unknown-event' },
+      { severity: 'error', file: 'rsvp.csv', row: 5, rule: 'invalid-status' },
+    ]);
+    expect(findings[0].message).toBe(
+      'RSVP 1 for player 1 at event 1 is superseded by RSVP 4 (latest wins).'
+    );
+  });
+
+  it('should report duplicate and missing ids in every file', () => {
+    const data: ReportData = {
+      players: [player('1'), player('1'), player('')],
+      events: [event('1'), event('1'), event('x')],
+      rsvps: [rsvp('1', '1', '1'), rsvp('1', '1', '1'), rsvp('', '1', '1')],
+    };
+    const rules = validateReportData(data, {
+      players: 'p.csv',
+      events: 'e.csv',
+      rsvps: 'r.csv',
+    }).map(({ file, row, rule }) => `${file}:${row} ${rule}`);
+    expect(rules).toEqual(
+      expect.arrayContaining([
+        'p.csv:3 duplicate-id',
+        'p.csv:4 missing-id',
+        'e.csv:3 duplicate-id',
+        'e.csv:4 non-numeric-id',
+        'r.csv:3 duplicate-id',
+        'r.csv:4 missing-id',
+      ])
+    );
+  });
+
+  it('should flag questionable values as warnings', () => {
+    const data: ReportData = {
+      players: [
+        player('1', { player_name: '', player_email: 'not-an-email' }),
+        player('2', { age: '300' }),
+        player('3', { age: '' }), // A blank age is simply unknown
+      ],
+      events: [event('1', { event_date: '2025-13-45' })],
+      rsvps: [
+        { ...rsvp('1', '1', '1'), guests: 'two' },
+        { ...rsvp('2', '1', '2'), guests: '' }, // A blank guest count is 0
+      ],
+    };
+    const report = summarizeFindings(validateReportData(data));
+    expect(report.errorCount).toBe(0);
+    expect(report.warningCount).toBe(5);
+    expect(report.findings.map((finding) => finding.rule)).toEqual([
+      'missing-name',
+      'invalid-email',
+      'invalid-age',
+      'invalid-date',
+      'invalid-guests',
+    ]);
+  });
+
+  it('should check recurrence rules and accept RSVPs to occurrences', () => {
+    const data: ReportData = {
+      players: [player('1')],
+      events: [
+        event('7', {
+          event_date: '2025-03-04T18:00:00Z',
+          recurrence: 'FREQ=WEEKLY;COUNT=2',
+        }),
+        event('8', { recurrence: 'FREQ=WEEKLY' }),
+        event('9', { event_date: '', recurrence: 'FREQ=WEEKLY;COUNT=2' }),
+      ],
+      rsvps: [
+        rsvp('1', '7', '1'),
+        rsvp('2', '7@2025-03-11', '1', 'No'),
+        rsvp('3', '7@2025-03-12', '1'),
+      ],
+    };
+    expect(
+      validateReportData(data).map(
+        (finding) => `${finding.file}:${finding.row} ${finding.rule}`
+      )
+    ).toEqual([
+      'events.csv:3 invalid-recurrence',
+      'events.csv:4 invalid-recurrence',
+      'rsvp.csv:4 unknown-event',
+    ]);
+  });
+});
+
+describe('parseReportData', () => {
+  it('should parse the rows it keeps and report the ones it leaves out', () => {
+    const { report, data } = parseReportData({
+      players: [player('1', { age: 'old' }), player('')],
+      events: [event('1'), event('x')],
+      rsvps: [
+        { ...rsvp('1', '1', '1'), guests: '2' },
+        rsvp('2', 'x', '1'),
+        rsvp('3', '1', '1', 'Perhaps'), // Latest wins, so no response
+      ],
+    });
+
+    expect(data.players).toEqual([
+      {
+        id: '1',
+        name: 'Player 1',
+        email: 'p1@example.com',
+        gender: 'Female',
+        age: undefined,
+      },
+    ]);
+    expect(data.events).toEqual([
+      {
+        id: '1',
+        name: 'Event 1',
+        location: 'Park',
+        date: new Date('2025-01-01T00:00:00Z'),
+      },
+    ]);
+    expect(data.rsvps).toEqual([]);
+    expect(
+      report.findings.map(({ file, row, rule }) => `${file}:${row} ${rule}`)
+    ).toEqual([
+      'players.csv:2 invalid-age',
+      'players.csv:3 missing-id',
+      'events.csv:3 non-numeric-id',
+      'rsvp.csv:2 duplicate-player-event',
+      'rsvp.csv:4 invalid-status',
+    ]);
+  });
+});
+
+describe('ReportValidator', () => {
+  it('should keep the latest RSVPs and count findings past the limit', () => {
+    const validator = new ReportValidator([player('1')], [event('1')], {
+      maxFindings: 2,
+    });
+    const rows = [
+      rsvp('1', '1', '1', 'Yes'),
+      rsvp('2', '1', '99'),
+      rsvp('3', '42', '1'),
+      rsvp('4', '1', '1', 'No'),
+      rsvp('5', '1', '1', 'Maybe'),
+    ];
+    rows.forEach((row) => validator.addRsvp(row));
+
+    const { report, data } = validator.finish();
+    expect(data.rsvps.map(({ id }) => id)).toEqual(
+      resolveLatestRsvps(rows).map(({ rsvp_id }) => rsvp_id)
+    );
+    expect(report.findings).toHaveLength(2);
+    // Two unknown references, and two RSVPs superseded by rsvp_id 5
+    expect({
+      errorCount: report.errorCount,
+      warningCount: report.warningCount,
+    }).toEqual({ errorCount: 2, warningCount: 2 });
+  });
+});
+
+describe('LatestRsvps', () => {
+  it('should keep the latest row of every pair as rows arrive', () => {
+    const latest = new LatestRsvps();
+    [
+      rsvp('10', '1', '1', 'Yes'),
+      rsvp('2', '1', '1', 'No'), // Older by rsvp_id, though later in the file
+      rsvp('3', '1', '2', 'Maybe'),
+      rsvp('4', '', '2'),
+      rsvp('11', '1', '2', 'No'),
+    ].forEach((row) => latest.add(row));
+
+    expect(latest.rows()).toEqual([
+      rsvp('10', '1', '1', 'Yes'),
+      rsvp('11', '1', '2', 'No'),
+    ]);
+  });
+});
+
+describe('resolveLatestRsvps', () => {
+  it('should keep the highest rsvp_id per player/event pair', () => {
+    const older = rsvp('10', '1', '1', 'Yes');
+    const newer = rsvp('2', '1', '1', 'No');
+    const other = rsvp('3', '1', '2', 'Maybe');
+    // rsvp_id 10 is newer than 2 even though it comes first in the file
+    expect(resolveLatestRsvps([older, newer, other])).toEqual([older, other]);
+  });
+
+  it('should fall back to file order when an id is not numeric', () => {
+    const first = rsvp('a', '1', '1', 'Yes');
+    const second = rsvp('b', '1', '1', 'No');
+    expect(resolveLatestRsvps([first, second])).toEqual([second]);
+  });
+});
@@ -0,0 +1,605 @@
+import {
+  Event,
+  listOccurrences,
+  ParseResult,
+  parseEvent,
+  parsePlayer,
+  parseRsvp,
+  Player,
+  Rsvp,
+} from '../interfaces';
+import {
+  EventRow,
+  LeagueData,
+  PlayerRow,
+  ReportData,
+  RsvpRow,
+} from './report.types';
+
+/**
+ * How serious a data-quality finding is. Errors fail a strict report run.
+ */
+export type FindingSeverity = 'error' | 'warning';
+
+/**
+ * The rule a finding was raised by.
+ */
+export type ValidationRule =
+  | 'missing-id'
+  | 'duplicate-id'
+  | 'non-numeric-id'
+  | 'missing-name'
+  | 'invalid-email'
+  | 'invalid-age'
+  | 'invalid-date'
+  | 'invalid-recurrence'
+  | 'invalid-status'
+  | 'invalid-guests'
+  | 'unknown-player'
+  | 'unknown-event'
+  | 'duplicate-player-event';
+
+/**
+ * One data-quality problem found in a CSV input.
+ */
+export interface ValidationFinding {
+  severity: FindingSeverity;
+  file: string;
+  row: number; // 1-based line number in the file; the header is row 1
+  rule: ValidationRule;
+  message: string;
+}
+
+/**
+ * The structured result of a validation pass.
+ */
+export interface ValidationReport {
+  errorCount: number;
+  warningCount: number;
+  findings: ValidationFinding[];
+}
+
+/**
+ * The file names findings are attributed to.
+ */
+export interface InputFileNames {
+  players: string;
+  events: string;
+  rsvps: string;
+}
+
+const defaultFileNames: InputFileNames = {
+  players: 'players.csv',
+  events: 'events.csv',
+  rsvps: 'rsvp.csv',
+};
+
+const NUMERIC_ID_PATTERN = /^\d+$/;
+
+/**
+ * Thrown by a strict report run when the inputs contain errors.
+ */
+export class DataValidationError extends Error {
+  constructor(public readonly report: ValidationReport) {
+    super(
+      `Input validation failed with ${report.errorCount} error(s) and ${report.warningCount} warning(s).`
+    );
+    this.name = 'DataValidationError';
+  }
+}
+
+// Data rows start at line 2, right after the header.
+const rowNumber = (index: number): number => index + 2;
+
+// Looks up the issue the domain parser found with one field, if any.
+const issuesOf = <T>(result: ParseResult<T>) => {
+  const issues = result.issues ?? [];
+  return (field: string) => issues.some((issue) => issue.field === field);
+};
+
+// Rows are parsed leniently, so rows with only warnings still count.
+const lenient = { lenient: true };
+
+// One RSVP row as "latest wins" needs it: its raw IDs and position, whether
+// it may be flagged as a duplicate, and its value unless it was rejected.
+interface TrackedRsvp {
+  rsvpId: string;
+  eventId: string;
+  playerId: string;
+  index: number;
+  checked: boolean;
+  rsvp?: Rsvp;
+}
+
+/**
+ * Checks the three CSV inputs for referential integrity and data quality.
+ * Field-level rules come from the domain parsers (`parsePlayer`, `parseEvent`
+ * and `parseRsvp`); the rest compare rows with each other.
+ * @param data - The raw rows of players, events and RSVPs.
+ * @param fileNames - Optional names to attribute findings to.
+ * @returns Every finding, ordered by file and row.
+ */
+export function validateReportData(
+  data: ReportData,
+  fileNames: InputFileNames = defaultFileNames
+): ValidationFinding[] {
+  return parseReportData(data, fileNames).report.findings;
+}
+
+/**
+ * Parses the report inputs into the domain model, checking them with the
+ * same rules as `validateReportData`.
+ * @param data - The raw rows of players, events and RSVPs.
+ * @param fileNames - Optional names to attribute findings to.
+ * @returns The parsed data, and the findings about the rows behind it.
+ */
+export function parseReportData(
+  data: ReportData,
+  fileNames: InputFileNames = defaultFileNames
+): { report: ValidationReport; data: LeagueData } {
+  const validator = new ReportValidator(data.players, data.events, {
+    fileNames,
+  });
+  for (const rsvp of data.rsvps) {
+    validator.addRsvp(rsvp);
+  }
+  return validator.finish();
+}
+
+/**
+ * Options for a ReportValidator.
+ */
+export interface ReportValidatorOptions {
+  fileNames?: InputFileNames; // Defaults to players.csv, events.csv and rsvp.csv
+  maxFindings?: number; // Findings past this many are only counted; defaults to all
+}
+
+/**
+ * Validates the report inputs with the same rules as `validateReportData`
+ * and parses them into the domain model, taking RSVP rows one at a time,
+ * e.g. while they're streamed from a file. It keeps only the latest RSVP of
+ * every player/event pair, so its memory grows with the number of pairs
+ * rather than the number of rows.
+ */
+export class ReportValidator {
+  private readonly fileNames: InputFileNames;
+  private readonly maxFindings: number;
+  private readonly findings: ValidationFinding[] = [];
+  private readonly rsvpFindings: ValidationFinding[] = [];
+  private errorCount = 0;
+  private warningCount = 0;
+  private readonly playerIds = new Set<string>();
+  private readonly eventIds = new Set<string>();
+  private readonly occurrenceIds = new Set<string>();
+  // Events with a non-numeric ID, and their occurrences, are left out
+  private readonly leftOutEventIds = new Set<string>();
+  private readonly players: Player[] = [];
+  private readonly events: Event[] = [];
+  private readonly rsvpIds = new SeenIds();
+  // Pair key -> the latest RSVP so far.
+  private readonly latest = new Map<string, TrackedRsvp>();
+  // Rows that lost to a later RSVP, reported once the final winner is known.
+  private readonly superseded: TrackedRsvp[] = [];
+  private rsvpCount = 0;
+
+  /**
+   * Creates a ReportValidator and checks the players and events right away.
+   * @param players - The raw player rows.
+   * @param events - The raw event rows.
+   * @param options - The file names to attribute findings to, and a limit on kept findings.
+   */
+  constructor(
+    players: PlayerRow[],
+    events: EventRow[],
+    {
+      fileNames = defaultFileNames,
+      maxFindings = Infinity,
+    }: ReportValidatorOptions = {}
+  ) {
+    this.fileNames = fileNames;
+    this.maxFindings = maxFindings;
+    this.checkPlayers(players);
+    this.checkEvents(events);
+  }
+
+  /**
+   * Checks the next RSVP row, in file order.
+   */
+  addRsvp(rsvp: RsvpRow): void {
+    const index = this.rsvpCount++;
+    const add = (
+      severity: FindingSeverity,
+      rule: ValidationRule,
+      message: string
+    ) =>
+      this.add(
+        this.rsvpFindings,
+        severity,
+        this.fileNames.rsvps,
+        index,
+        rule,
+        message
+      );
+    const parsed = parseRsvp(rsvp, lenient);
+    const hasIssue = issuesOf(parsed);
+    if (!rsvp.rsvp_id) {
+      add('error', 'missing-id', 'RSVP has no rsvp_id.');
+    } else if (!this.rsvpIds.add(rsvp.rsvp_id)) {
+      add('error', 'duplicate-id', `Duplicate rsvp_id ${rsvp.rsvp_id}.`);
+    }
+    const checked = !hasIssue('eventId') && !hasIssue('playerId');
+    this.track({
+      rsvpId: rsvp.rsvp_id,
+      eventId: rsvp.event_id,
+      playerId: rsvp.player_id,
+      index,
+      checked,
+      rsvp: parsed.ok ? parsed.value : undefined,
+    });
+    if (!checked) {
+      add(
+        'error',
+        'missing-id',
+        `RSVP ${rsvp.rsvp_id} is missing its event_id or player_id.`
+      );
+      return;
+    }
+    if (!this.playerIds.has(rsvp.player_id)) {
+      add(
+        'error',
+        'unknown-player',
+        `RSVP ${rsvp.rsvp_id} references unknown player_id ${rsvp.player_id}.`
+      );
+    }
+    // A series' own ID takes series-level RSVPs; an occurrence's ID takes its exceptions.
+    if (
+      !this.eventIds.has(rsvp.event_id) &&
+      !this.occurrenceIds.has(rsvp.event_id)
+    ) {
+      add(
+        'error',
+        'unknown-event',
+        `RSVP ${rsvp.rsvp_id} references unknown event_id ${rsvp.event_id}.`
+      );
+    }
+    if (hasIssue('status')) {
+      add(
+        'error',
+        'invalid-status',
+        `RSVP ${rsvp.rsvp_id} has invalid status "${rsvp.status}".`
+      );
+    }
+    if (hasIssue('guests')) {
+      add(
+        'warning',
+        'invalid-guests',
+        `RSVP ${rsvp.rsvp_id} has an invalid guest count "${rsvp.guests}"; it is counted as 0.`
+      );
+    }
+  }
+
+  /**
+   * Reports every finding and the data that survives them.
+   * @returns The validation report, with findings ordered by file and row,
+   *          and the parsed data, with the latest valid RSVP of every pair
+   *          in file order. A pair whose latest RSVP is invalid has none.
+   */
+  finish(): { report: ValidationReport; data: LeagueData } {
+    // Sorted stably, so each row's duplicate warning follows its other findings
+    const rsvpFindings = [
+      ...this.rsvpFindings,
+      ...this.superseded.map(
+        ({ rsvpId, eventId, playerId, index }): ValidationFinding => {
+          const winner = this.latest.get(pairKey(eventId, playerId));
+          return {
+            severity: 'warning',
+            file: this.fileNames.rsvps,
+            row: rowNumber(index),
+            rule: 'duplicate-player-event',
+            message: `RSVP ${rsvpId} for player ${playerId} at event ${eventId} is superseded by RSVP ${winner?.rsvpId} (latest wins).`,
+          };
+        }
+      ),
+    ].sort((a, b) => a.row - b.row);
+    const rsvps = [...this.latest.values()]
+      .sort((a, b) => a.index - b.index)
+      .flatMap(({ rsvp }) =>
+        rsvp && !this.leftOutEventIds.has(rsvp.eventId) ? [rsvp] : []
+      );
+    return {
+      report: {
+        errorCount: this.errorCount,
+        warningCount: this.warningCount,
+        findings: [...this.findings, ...rsvpFindings],
+      },
+      data: { players: this.players, events: this.events, rsvps },
+    };
+  }
+
+  // Applies "latest wins" as resolveLatestRsvps does.
+  private track(entry: TrackedRsvp): void {
+    if (!entry.eventId || !entry.playerId) {
+      return; // Already reported as missing its IDs
+    }
+    const key = pairKey(entry.eventId, entry.playerId);
+    const current = this.latest.get(key);
+    if (current && isEarlier(entry.rsvpId, current.rsvpId)) {
+      this.supersede(entry);
+      return;
+    }
+    if (current) {
+      this.supersede(current);
+    }
+    this.latest.set(key, entry);
+  }
+
+  private supersede(entry: TrackedRsvp): void {
+    if (!entry.checked) {
+      return;
+    }
+    // Counted now, and turned into a finding once the final winner is known
+    this.warningCount++;
+    if (this.hasRoom()) {
+      this.superseded.push({ ...entry, rsvp: undefined });
+    }
+  }
+
+  private add(
+    findings: ValidationFinding[],
+    severity: FindingSeverity,
+    file: string,
+    index: number,
+    rule: ValidationRule,
+    message: string
+  ): void {
+    if (severity === 'error') {
+      this.errorCount++;
+    } else {
+      this.warningCount++;
+    }
+    if (this.hasRoom()) {
+      findings.push({ severity, file, row: rowNumber(index), rule, message });
+    }
+  }
+
+  private hasRoom(): boolean {
+    return (
+      this.findings.length + this.rsvpFindings.length + this.superseded.length <
+      this.maxFindings
+    );
+  }
+
+  private checkPlayers(players: PlayerRow[]): void {
+    const file = this.fileNames.players;
+    players.forEach((player, index) => {
+      const add = (
+        severity: FindingSeverity,
+        rule: ValidationRule,
+        message: string
+      ) => this.add(this.findings, severity, file, index, rule, message);
+      const parsed = parsePlayer(player, lenient);
+      const hasIssue = issuesOf(parsed);
+      if (hasIssue('id')) {
+        add('error', 'missing-id', 'Player has no player_id.');
+        return;
+      }
+      if (this.playerIds.has(player.player_id)) {
+        add(
+          'error',
+          'duplicate-id',
+          `Duplicate player_id ${player.player_id}.`
+        );
+      }
+      this.playerIds.add(player.player_id);
+      if (hasIssue('name')) {
+        add(
+          'warning',
+          'missing-name',
+          `Player ${player.player_id} has no player_name.`
+        );
+      }
+      if (hasIssue('email')) {
+        add(
+          'warning',
+          'invalid-email',
+          `Player ${player.player_id} has an invalid email "${player.player_email}".`
+        );
+      }
+      if (hasIssue('age')) {
+        add(
+          'warning',
+          'invalid-age',
+          `Player ${player.player_id} has an invalid age "${player.age}"; it is counted as unknown.`
+        );
+      }
+      if (parsed.ok) {
+        this.players.push(parsed.value);
+      }
+    });
+  }
+
+  private checkEvents(events: EventRow[]): void {
+    const file = this.fileNames.events;
+    events.forEach((event, index) => {
+      const add = (
+        severity: FindingSeverity,
+        rule: ValidationRule,
+        message: string
+      ) => this.add(this.findings, severity, file, index, rule, message);
+      const parsed = parseEvent(event, lenient);
+      const hasIssue = issuesOf(parsed);
+      if (hasIssue('id') || !parsed.ok) {
+        add('error', 'missing-id', 'Event has no event_id.');
+        return;
+      }
+      const isNumeric = NUMERIC_ID_PATTERN.test(event.event_id);
+      if (!isNumeric) {
+        add(
+          'error',
+          'non-numeric-id',
+          `Event ${event.event_id} has a non-numeric event_id and is left out of the report.`
+        );
+      }
+      if (this.eventIds.has(event.event_id)) {
+        add('error', 'duplicate-id', `Duplicate event_id ${event.event_id}.`);
+      }
+      this.eventIds.add(event.event_id);
+      if (hasIssue('name')) {
+        add(
+          'warning',
+          'missing-name',
+          `Event ${event.event_id} has no event_name.`
+        );
+      }
+      if (hasIssue('recurrence')) {
+        add(
+          'error',
+          'invalid-recurrence',
+          `Event ${event.event_id} has an invalid recurrence "${event.recurrence}"; it is reported as a one-off event.`
+        );
+      } else if (event.recurrence?.trim() && hasIssue('date')) {
+        add(
+          'error',
+          'invalid-recurrence',
+          `Event ${event.event_id} repeats but has no valid event_date; it is reported as a one-off event.`
+        );
+      } else if (hasIssue('date')) {
+        add(
+          'warning',
+          'invalid-date',
+          `Event ${event.event_id} has an invalid event_date "${event.event_date}".`
+        );
+      }
+      const { id, date, recurrence } = parsed.value;
+      if (isNumeric) {
+        this.events.push(parsed.value);
+      } else {
+        this.leftOutEventIds.add(id);
+      }
+      if (recurrence && date) {
+        for (const occurrence of listOccurrences({
+          id,
+          start: date,
+          rule: recurrence,
+        })) {
+          this.occurrenceIds.add(occurrence.eventId);
+          if (!isNumeric) {
+            this.leftOutEventIds.add(occurrence.eventId);
+          }
+        }
+      }
+    });
+  }
+}
+
+// The rsvp_ids seen so far. Plain numeric IDs, the usual case, take one bit
+// each instead of a string, so millions of rows stay cheap to check.
+class SeenIds {
+  private bits = new Uint8Array(1024);
+  private readonly others = new Set<string>();
+
+  // Returns false if the ID was seen before.
+  add(id: string): boolean {
+    if (!/^(0|[1-9]\d{0,7})$/.test(id)) {
+      const isNew = !this.others.has(id);
+      this.others.add(id);
+      return isNew;
+    }
+    const value = Number(id);
+    const byte = value >> 3;
+    if (byte >= this.bits.length) {
+      let size = this.bits.length;
+      while (size <= byte) {
+        size *= 2;
+      }
+      const bits = new Uint8Array(size);
+      bits.set(this.bits);
+      this.bits = bits;
+    }
+    const mask = 1 << (value & 7);
+    const isNew = (this.bits[byte] & mask) === 0;
+    this.bits[byte] |= mask;
+    return isNew;
+  }
+}
+
+/**
+ * Applies the "latest wins" rule of `resolveLatestRsvps` one row at a time,
+ * e.g. while the rows are streamed from a file. It keeps one row per
+ * player/event pair, so its memory grows with the pairs, not the rows.
+ */
+export class LatestRsvps {
+  private readonly latest = new Map<string, RsvpRow>();
+
+  /**
+   * Takes the next row in file order; rows without both IDs are ignored.
+   * @param rsvp - A raw RSVP row.
+   */
+  add(rsvp: RsvpRow): void {
+    if (!rsvp.event_id || !rsvp.player_id) {
+      return;
+    }
+    const key = pairKey(rsvp.event_id, rsvp.player_id);
+    const current = this.latest.get(key);
+    if (!current || !isEarlier(rsvp.rsvp_id, current.rsvp_id)) {
+      this.latest.set(key, rsvp);
+    }
+  }
+
+  /**
+   * Lists the rows that won so far.
+   * @returns The latest row of every pair, in the order the pairs first appeared.
+   */
+  rows(): RsvpRow[] {
+    return [...this.latest.values()];
+  }
+}
+
+/**
+ * Applies the "latest wins" rule to RSVPs for the same player/event pair.
+ * The RSVP with the highest numeric rsvp_id is the latest; when either id
+ * isn't numeric, the row further down the file wins.
+ * @param rsvps - The raw RSVP rows in file order.
+ * @returns One RSVP per player/event pair, in the order the winners appear in the file.
+ */
+export function resolveLatestRsvps(rsvps: RsvpRow[]): RsvpRow[] {
+  const latest = new LatestRsvps();
+  rsvps.forEach((rsvp) => latest.add(rsvp));
+  const winners = new Set(latest.rows());
+  // Rows without IDs are kept so later steps can still report them.
+  return rsvps.filter(
+    (rsvp) => !rsvp.event_id || !rsvp.player_id || winners.has(rsvp)
+  );
+}
+
+/**
+ * Counts findings by severity.
+ * @param findings - The findings of a validation pass.
+ * @returns A ValidationReport.
+ */
+export function summarizeFindings(
+  findings: ValidationFinding[]
+): ValidationReport {
+  return {
+    errorCount: findings.filter((finding) => finding.severity === 'error')
+      .length,
+    warningCount: findings.filter((finding) => finding.severity === 'warning')
+      .length,
+    findings,
+  };
+}
+
+function pairKey(eventId: string, playerId: string): string {
+  return `${eventId}:${playerId}`;
+}
+
+// True when a later row is nonetheless older than the current one by rsvp_id.
+function isEarlier(candidateId: string, currentId: string): boolean {
+  if (
+    NUMERIC_ID_PATTERN.test(candidateId) &&
+    NUMERIC_ID_PATTERN.test(currentId)
+  ) {
+    return Number(candidateId) < Number(currentId);
+  }
+  return false;
+}
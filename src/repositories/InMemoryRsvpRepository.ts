@@ -0,0 +1,62 @@
+import { RsvpEntry, RsvpRecord, RsvpStatus } from '../interfaces';
+import { IClock, systemClock } from '../utils/clock';
+import { IRsvpRepository } from './repository.interface';
+
+/**
+ * A repository that keeps records in memory only.
+ * Useful for tests, demos and point-in-time replays.
+ */
+export class InMemoryRsvpRepository implements IRsvpRepository {
+  private readonly records: RsvpRecord[];
+
+  /**
+   * @param initialRecords - Optional records the store starts with.
+   */
+  constructor(initialRecords: RsvpRecord[] = []) {
+    this.records = [...initialRecords];
+  }
+
+  load(): RsvpRecord[] {
+    return [...this.records];
+  }
+
+  append(record: RsvpRecord): void {
+    this.records.push(record);
+  }
+
+  appendAll(records: RsvpRecord[]): void {
+    this.records.push(...records);
+  }
+}
+
+/**
+ * Converts plain RSVP entries into seed records for a repository,
+ * keeping each record's previous status consistent with the entries before it.
+ * @param entries - The RSVP entries to convert, in order.
+ * @param source - The source recorded for every seeded change.
+ * @param clock - Timestamps the records; pass the service's clock so seeded
+ *                changes never lie in its future.
+ * @returns An array of RsvpRecords.
+ */
+export function createSeedRecords(
+  entries: RsvpEntry[],
+  source: string = 'initialization',
+  clock: IClock = systemClock
+): RsvpRecord[] {
+  const timestamp = clock.now();
+  const seen = new Map<string, RsvpStatus>();
+  return entries.map((entry) => {
+    const key = `${entry.eventId}:${entry.playerId}`;
+    const previousStatus = seen.get(key);
+    seen.set(key, entry.status);
+    return {
+      kind: 'rsvp',
+      eventId: entry.eventId,
+      playerId: entry.playerId,
+      previousStatus,
+      newStatus: entry.status,
+      timestamp,
+      source,
+    };
+  });
+}
@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonlRsvpRepository } from './JsonlRsvpRepository';
+import { RsvpService } from '../services';
+import { ILogger } from '../utils/logger.interface';
+import { Principal, RsvpRecord } from '../interfaces';
+
+const createMockLogger = (): jest.Mocked<ILogger> => ({
+  log: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+});
+
+const admin: Principal = { role: 'admin', id: 'admin' };
+
+describe('JsonlRsvpRepository', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    // Each test gets its own directory so files never leak between tests
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rsvp-store-'));
+    filePath = path.join(tempDir, 'nested', 'rsvps.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const sampleRecord: RsvpRecord = {
+    kind: 'rsvp',
+    eventId: 'e1',
+    playerId: 'p1',
+    newStatus: 'Yes',
+    timestamp: new Date('2025-01-01T10:00:00Z'),
+    source: 'direct',
+  };
+
+  it('should return no records when the file does not exist yet', () => {
+    expect(new JsonlRsvpRepository(filePath).load()).toEqual([]);
+  });
+
+  it('should append one JSON line per record and load them back with dates', () => {
+    const repository = new JsonlRsvpRepository(filePath);
+    repository.append(sampleRecord);
+    repository.append({
+      kind: 'capacity',
+      eventId: 'e1',
+      capacity: 10,
+      timestamp: new Date('2025-01-02T10:00:00Z'),
+    });
+
+    const scheduleRecord: RsvpRecord = {
+      kind: 'schedule',
+      eventId: 'e1',
+      eventDate: new Date('2025-02-01T18:00:00Z'),
+      cutoff: { kind: 'fixed', at: new Date('2025-01-31T18:00:00Z') },
+      timestamp: new Date('2025-01-03T10:00:00Z'),
+    };
+    repository.append(scheduleRecord);
+
+    expect(fs.readFileSync(filePath, 'utf8').split('\n')).toHaveLength(4);
+    const records = new JsonlRsvpRepository(filePath).load();
+    expect(records).toHaveLength(3);
+    expect(records[0]).toEqual(sampleRecord);
+    expect(records[1].timestamp).toBeInstanceOf(Date);
+    expect(records[2]).toEqual(scheduleRecord);
+  });
+
+  it('should load series definitions with their dates', () => {
+    const seriesRecord: RsvpRecord = {
+      kind: 'series',
+      eventId: 'tue',
+      start: new Date('2025-03-04T18:00:00Z'),
+      rule: { frequency: 'weekly', until: new Date('2025-06-30T23:59:59Z') },
+      timestamp: new Date('2025-01-01T10:00:00Z'),
+    };
+    new JsonlRsvpRepository(filePath).append(seriesRecord);
+    expect(new JsonlRsvpRepository(filePath).load()).toEqual([seriesRecord]);
+  });
+
+  it('should store a batch as one line and load its records in order', () => {
+    const repository = new JsonlRsvpRepository(filePath);
+    const batch: RsvpRecord[] = [
+      sampleRecord,
+      { ...sampleRecord, playerId: 'p2', newStatus: 'No' },
+    ];
+    repository.appendAll(batch);
+    repository.appendAll([]); // Writes nothing
+    repository.append({ ...sampleRecord, playerId: 'p3' });
+
+    expect(fs.readFileSync(filePath, 'utf8').split('\n')).toHaveLength(3);
+    expect(new JsonlRsvpRepository(filePath).load()).toEqual([
+      ...batch,
+      { ...sampleRecord, playerId: 'p3' },
+    ]);
+  });
+
+  it('should drop and truncate a partially written last line', () => {
+    const repository = new JsonlRsvpRepository(filePath);
+    repository.append(sampleRecord);
+    fs.appendFileSync(filePath, '{"kind":"rsvp","eventId":"e1","pla');
+
+    expect(repository.load()).toEqual([sampleRecord]);
+    repository.append({ ...sampleRecord, playerId: 'p2' });
+    expect(repository.load().map((record) => record.eventId)).toEqual([
+      'e1',
+      'e1',
+    ]);
+  });
+
+  it('should finish a line that the file system only partly wrote', () => {
+    const writeSync = fs.writeSync;
+    // Stores at most 8 bytes per call, like an interrupted write
+    const shortWrite = (fd: number, buffer: Buffer, offset: number) =>
+      writeSync(fd, buffer, offset, Math.min(8, buffer.length - offset));
+    // Spying on the module itself, as the namespace import is read-only
+    const spy = jest
+      .spyOn(jest.requireActual<typeof fs>('fs'), 'writeSync')
+      .mockImplementation(shortWrite as typeof fs.writeSync);
+    try {
+      new JsonlRsvpRepository(filePath).append(sampleRecord);
+      expect(spy.mock.calls.length).toBeGreaterThan(1);
+    } finally {
+      spy.mockRestore();
+    }
+    expect(new JsonlRsvpRepository(filePath).load()).toEqual([sampleRecord]);
+  });
+
+  it('should reject a line that is not a JSON object', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '42\n');
+    expect(() => new JsonlRsvpRepository(filePath).load()).toThrow(
+      'Corrupt RSVP store ' + filePath + ' at line 1: Expected a JSON object.'
+    );
+  });
+
+  it('should throw when a complete line is corrupt', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, 'not json\n');
+    expect(() => new JsonlRsvpRepository(filePath).load()).toThrow(
+      /Corrupt RSVP store .* at line 1/
+    );
+  });
+
+  it('should let a restarted RsvpService restore exactly the same RSVPs', () => {
+    const logger = createMockLogger();
+    const service = new RsvpService(logger, new JsonlRsvpRepository(filePath));
+    service.setEventCapacity(admin, 'e1', 1);
+    service.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+    service.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+    service.addOrUpdateRsvp(admin, 'e1', 'p1', 'No');
+    service.addOrUpdateRsvp(admin, 'e2', 'p3', 'Maybe');
+
+    const restarted = new RsvpService(
+      logger,
+      new JsonlRsvpRepository(filePath)
+    );
+    expect(restarted.getCountsByEvent()).toEqual(service.getCountsByEvent());
+    expect(restarted.getConfirmedAttendees('e1')).toEqual(['p2']);
+    expect(restarted.getPlayerStatus('e1', 'p1')).toBe('No');
+    expect(restarted.getHistory()).toEqual(service.getHistory());
+  });
+});
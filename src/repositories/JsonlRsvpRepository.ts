@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RsvpRecord } from '../interfaces';
+import { appendLineSync } from '../utils';
+import { IRsvpRepository } from './repository.interface';
+
+/**
+ * A durable repository that stores one JSON record per line in a local file.
+ *
+ * Each append writes one complete line, however many writes that takes,
+ * followed by an fsync, so a record is either fully stored or not at all. A
+ * line left incomplete by a crash is dropped (and truncated away) the next
+ * time the file is loaded.
+ * `appendAll` writes its records as a single `{"batch":[...]}` line, so a
+ * batch is stored atomically in the same way.
+ */
+export class JsonlRsvpRepository implements IRsvpRepository {
+  private readonly filePath: string;
+
+  /**
+   * @param filePath - Path of the JSONL file; it is created on the first append.
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  load(): RsvpRecord[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+    const buffer = fs.readFileSync(this.filePath);
+
+    // Everything after the last newline is an interrupted write.
+    const completeLength = buffer.lastIndexOf('\n') + 1;
+    if (completeLength < buffer.length) {
+      fs.truncateSync(this.filePath, completeLength);
+    }
+
+    const lines = buffer
+      .subarray(0, completeLength)
+      .toString('utf8')
+      .split('\n');
+    const records: RsvpRecord[] = [];
+    lines.forEach((line, index) => {
+      if (line.trim() === '') {
+        return;
+      }
+      try {
+        const parsed = JSON.parse(line);
+        const stored: unknown[] = Array.isArray(parsed?.batch)
+          ? parsed.batch
+          : [parsed];
+        records.push(...stored.map(reviveDates));
+      } catch (error) {
+        throw new Error(
+          `Corrupt RSVP store ${this.filePath} at line ${index + 1}: ${(error as Error).message}`
+        );
+      }
+    });
+    return records;
+  }
+
+  append(record: RsvpRecord): void {
+    appendLineSync(this.filePath, JSON.stringify(record));
+  }
+
+  appendAll(records: RsvpRecord[]): void {
+    if (records.length > 0) {
+      appendLineSync(this.filePath, JSON.stringify({ batch: records }));
+    }
+  }
+}
+
+type JsonObject = { [field: string]: unknown };
+
+// JSON stores dates as ISO strings; turning them back into Dates. The service
+// checks every replayed record, so anything else is left for it to reject.
+function reviveDates(raw: unknown): RsvpRecord {
+  if (!isObject(raw)) {
+    throw new Error('Expected a JSON object.');
+  }
+  const record: JsonObject = { ...raw, timestamp: toDate(raw.timestamp) };
+  if (raw.eventDate !== undefined) {
+    record.eventDate = toDate(raw.eventDate);
+  }
+  if (isObject(raw.cutoff) && raw.cutoff.kind === 'fixed') {
+    record.cutoff = { ...raw.cutoff, at: toDate(raw.cutoff.at) };
+  }
+  if (raw.start !== undefined) {
+    record.start = toDate(raw.start);
+  }
+  if (isObject(raw.rule) && raw.rule.until !== undefined) {
+    record.rule = { ...raw.rule, until: toDate(raw.rule.until) };
+  }
+  return record as unknown as RsvpRecord;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Anything but an ISO string or epoch milliseconds becomes an invalid Date.
+function toDate(value: unknown): Date {
+  return new Date(
+    typeof value === 'string' || typeof value === 'number' ? value : NaN
+  );
+}
@@ -0,0 +1,3 @@
+export * from './repository.interface';
+export * from './InMemoryRsvpRepository';
+export * from './JsonlRsvpRepository';
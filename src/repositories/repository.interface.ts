@@ -0,0 +1,12 @@
+import { RsvpRecord } from '../interfaces';
+
+/**
+ * Defines the contract for storing RSVP state.
+ * Records are append-only; implementations decide where they live
+ * (e.g., Memory, File, Database).
+ */
+export interface IRsvpRepository {
+  load(): RsvpRecord[]; // Returns every stored record, oldest first
+  append(record: RsvpRecord): void; // Must persist the record before returning
+  appendAll(records: RsvpRecord[]): void; // Persists every record or, if it fails, none
+}
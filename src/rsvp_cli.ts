@@ -0,0 +1,6 @@
+import { RsvpCli } from './cli';
+
+// Entry point for `npm run rsvp -- <command> [options]`
+new RsvpCli().run(process.argv.slice(2)).then((exitCode) => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,578 @@
+import * as http from 'http';
+import { RsvpApiServer } from './RsvpApiServer';
+import { Principal } from '../interfaces';
+import { RsvpService } from '../services';
+import { ILogger } from '../utils/logger.interface';
+
+const createMockLogger = (): jest.Mocked<ILogger> => ({
+  log: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+});
+
+const admin: Principal = { role: 'admin', id: 'admin' };
+// What a gateway sends for an admin; requests carry it unless a test says otherwise
+const adminHeaders = { 'X-Principal-Role': 'admin', 'X-Principal-Id': 'admin' };
+
+interface TestResponse {
+  statusCode: number;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+// Small helper around http.request so the tests exercise the real network stack
+const request = (
+  port: number,
+  method: string,
+  path: string,
+  body?: string,
+  headers: http.OutgoingHttpHeaders = adminHeaders
+): Promise<TestResponse> =>
+  new Promise((resolve, reject) => {
+    const req = http.request(
+      { host: '127.0.0.1', port, method, path, headers },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk) => chunks.push(chunk));
+        res.on('end', () => {
+          const text = Buffer.concat(chunks).toString('utf8');
+          resolve({
+            statusCode: res.statusCode ?? 0,
+            headers: res.headers,
+            body: text ? JSON.parse(text) : undefined,
+          });
+        });
+      }
+    );
+    req.on('error', reject);
+    if (body !== undefined) {
+      req.setHeader('Content-Type', 'application/json');
+      req.write(body);
+    }
+    req.end();
+  });
+
+describe('RsvpApiServer', () => {
+  let mockLogger: jest.Mocked<ILogger>;
+  let rsvpService: RsvpService;
+  let server: RsvpApiServer;
+  let port: number;
+
+  beforeEach(async () => {
+    mockLogger = createMockLogger();
+    rsvpService = new RsvpService(mockLogger);
+    server = new RsvpApiServer(rsvpService, mockLogger);
+    port = await server.listen(0); // Ephemeral port, so tests never collide
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe('PUT /events/:eventId/rsvps/:playerId', () => {
+    it('should create an RSVP with 201 and update it with 200', async () => {
+      const created = await request(
+        port,
+        'PUT',
+        '/events/e1/rsvps/p1',
+        JSON.stringify({ status: 'Maybe' })
+      );
+      expect(created.statusCode).toBe(201);
+      expect(created.body).toEqual({
+        eventId: 'e1',
+        playerId: 'p1',
+        status: 'Maybe',
+        guests: 0,
+        version: 1,
+        waitlisted: false,
+      });
+
+      const updated = await request(
+        port,
+        'PUT',
+        '/events/e1/rsvps/p1',
+        JSON.stringify({ status: 'Yes' })
+      );
+      expect(updated.statusCode).toBe(200);
+      expect(rsvpService.getPlayerStatus('e1', 'p1')).toBe('Yes');
+      expect(rsvpService.getHistory()[1].source).toBe('api');
+    });
+
+    it('should reject an invalid status with 400 and a machine-readable error', async () => {
+      const response = await request(
+        port,
+        'PUT',
+        '/events/e1/rsvps/p1',
+        JSON.stringify({ status: 'Definitely' })
+      );
+      expect(response.statusCode).toBe(400);
+      expect(response.body).toEqual({
+        error: {
+          code: 'INVALID_STATUS',
+          message: '"status" must be one of Yes, No, Maybe.',
+        },
+      });
+      expect(rsvpService.getPlayerStatus('e1', 'p1')).toBeUndefined();
+    });
+
+    it('should reject a malformed JSON body with 400', async () => {
+      const response = await request(port, 'PUT', '/events/e1/rsvps/p1', '{');
+      expect(response.statusCode).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_JSON');
+    });
+
+    it('should store guests and reject more than the event allows with 422', async () => {
+      rsvpService.setEventGuestLimit(admin, 'e1', 2);
+      const put = (body: object) =>
+        request(port, 'PUT', '/events/e1/rsvps/p1', JSON.stringify(body));
+
+      const created = await put({ status: 'Yes', guests: 2 });
+      expect(created.body.guests).toBe(2);
+      expect((await put({ status: 'Yes', guests: 1.5 })).body.error.code).toBe(
+        'INVALID_GUESTS'
+      );
+      const huge = await request(
+        port,
+        'PUT',
+        '/events/e1/rsvps/p1',
+        '{"status":"Yes","guests":99999999999999999999999}'
+      );
+      expect(huge.statusCode).toBe(400);
+      expect(huge.body.error.code).toBe('INVALID_GUESTS');
+      expect(rsvpService.getGuests('e1', 'p1')).toBe(2);
+      const tooMany = await put({ status: 'Yes', guests: 3 });
+      expect(tooMany.statusCode).toBe(422);
+      expect(tooMany.body.error.code).toBe('GUEST_LIMIT_EXCEEDED');
+
+      const attendees = await request(port, 'GET', '/events/e1/attendees');
+      expect(attendees.body).toMatchObject({
+        attendees: ['p1'],
+        guests: { p1: 2 },
+        headcount: 3,
+      });
+    });
+
+    it('should report when the RSVP ends up on the waitlist', async () => {
+      rsvpService.setEventCapacity(admin, 'e1', 0);
+      const response = await request(
+        port,
+        'PUT',
+        '/events/e1/rsvps/p1',
+        JSON.stringify({ status: 'Yes' })
+      );
+      expect(response.body.waitlisted).toBe(true);
+    });
+
+    it('should reject changes to a locked event with 409', async () => {
+      rsvpService.setEventSchedule(admin, 'e1', {
+        eventDate: new Date('2000-01-01T00:00:00Z'),
+      });
+      const response = await request(
+        port,
+        'PUT',
+        '/events/e1/rsvps/p1',
+        JSON.stringify({ status: 'Yes' })
+      );
+      expect(response.statusCode).toBe(409);
+      expect(response.body.error).toEqual({
+        code: 'RSVP_LOCKED',
+        message:
+          'Event e1 started at 2000-01-01T00:00:00.000Z; its RSVPs are frozen.',
+      });
+    });
+  });
+
+  describe('If-Match', () => {
+    it('should apply a change only while the RSVP is at the given version', async () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Maybe');
+      const put = (status: string, version: string) =>
+        request(
+          port,
+          'PUT',
+          '/events/e1/rsvps/p1',
+          JSON.stringify({ status }),
+          { ...adminHeaders, 'If-Match': version }
+        );
+
+      const { body } = await request(port, 'GET', '/events/e1/rsvps/p1');
+      expect(body.version).toBe(1);
+      expect((await put('Yes', '"1"')).body.version).toBe(2);
+
+      const stale = await put('No', '1');
+      expect(stale.statusCode).toBe(412);
+      expect(stale.body.error).toEqual({
+        code: 'VERSION_CONFLICT',
+        message: 'RSVP of player p1 for event e1 is at version 2, not 1.',
+      });
+      const deleted = await request(
+        port,
+        'DELETE',
+        '/events/e1/rsvps/p1',
+        undefined,
+        { ...adminHeaders, 'If-Match': '1' }
+      );
+      expect(deleted.statusCode).toBe(412);
+      expect(rsvpService.getPlayerStatus('e1', 'p1')).toBe('Yes');
+      expect((await put('No', 'latest')).body.error.code).toBe(
+        'INVALID_VERSION'
+      );
+    });
+  });
+
+  describe('authorization', () => {
+    const put = (path: string, headers: http.OutgoingHttpHeaders) =>
+      request(port, 'PUT', path, JSON.stringify({ status: 'Yes' }), headers);
+
+    it('should reject changes without a principal and those it may not make', async () => {
+      const anonymous = await put('/events/e1/rsvps/p1', {});
+      expect(anonymous.statusCode).toBe(401);
+      expect(anonymous.body.error.code).toBe('UNAUTHENTICATED');
+
+      const player = { 'X-Principal-Role': 'player', 'X-Principal-Id': 'p1' };
+      expect((await put('/events/e1/rsvps/p1', player)).statusCode).toBe(201);
+      const forbidden = await put('/events/e1/rsvps/p2', player);
+      expect(forbidden.statusCode).toBe(403);
+      expect(forbidden.body.error).toEqual({
+        code: 'FORBIDDEN',
+        message:
+          'Player p1 may only change their own RSVPs, not those of player p2.',
+      });
+      expect(
+        (await put('/events/e1/checkins/p1', player)).body.error.code
+      ).toBe('FORBIDDEN');
+      expect(rsvpService.getPlayerStatus('e1', 'p2')).toBeUndefined();
+      // Reads stay open to everyone
+      expect(
+        (await request(port, 'GET', '/events/e1/rsvps/p1', undefined, {}))
+          .statusCode
+      ).toBe(200);
+    });
+
+    it('should let organizers change the events they organize', async () => {
+      const organizer = {
+        'X-Principal-Role': 'organizer',
+        'X-Principal-Id': 'o1',
+        'X-Principal-Events': 'e1, e2',
+      };
+      expect((await put('/events/e2/rsvps/p1', organizer)).statusCode).toBe(
+        201
+      );
+      expect((await put('/events/e3/rsvps/p1', organizer)).statusCode).toBe(
+        403
+      );
+    });
+
+    it('should use the authenticator it is given', async () => {
+      await server.close();
+      server = new RsvpApiServer(rsvpService, mockLogger, undefined, () => ({
+        role: 'player',
+        id: 'p9',
+      }));
+      port = await server.listen(0);
+
+      expect((await put('/events/e1/rsvps/p9', {})).statusCode).toBe(201);
+      expect((await put('/events/e1/rsvps/p1', adminHeaders)).statusCode).toBe(
+        403
+      );
+    });
+  });
+
+  describe('DELETE /events/:eventId/rsvps/:playerId', () => {
+    it('should remove an RSVP and return the previous status', async () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Maybe');
+      const response = await request(port, 'DELETE', '/events/e1/rsvps/p1');
+      expect(response.statusCode).toBe(200);
+      expect(response.body).toEqual({
+        eventId: 'e1',
+        playerId: 'p1',
+        previousStatus: 'Maybe',
+      });
+      expect(rsvpService.getPlayerStatus('e1', 'p1')).toBeUndefined();
+      expect(
+        (await request(port, 'DELETE', '/events/e1/rsvps/p1')).statusCode
+      ).toBe(404);
+    });
+
+    it('should check the principal before saying whether an RSVP exists', async () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+      const player = { 'X-Principal-Role': 'player', 'X-Principal-Id': 'p1' };
+      const remove = (playerId: string) =>
+        request(
+          port,
+          'DELETE',
+          `/events/e1/rsvps/${playerId}`,
+          undefined,
+          player
+        );
+
+      expect((await remove('p2')).statusCode).toBe(403);
+      expect((await remove('p3')).statusCode).toBe(403);
+      expect((await remove('p1')).statusCode).toBe(404);
+      expect(rsvpService.getPlayerStatus('e1', 'p2')).toBe('Yes');
+    });
+  });
+
+  describe('/series/:seriesId/rsvps/:playerId', () => {
+    it('should respond to every occurrence of a series', async () => {
+      rsvpService.defineSeries(admin, {
+        id: 'tue',
+        start: new Date('2099-03-03T18:00:00Z'),
+        rule: { frequency: 'weekly', count: 2 },
+      });
+      const put = await request(
+        port,
+        'PUT',
+        '/series/tue/rsvps/p1',
+        JSON.stringify({ status: 'Yes' })
+      );
+      expect(put.statusCode).toBe(201);
+      expect(put.body).toEqual({
+        seriesId: 'tue',
+        playerId: 'p1',
+        status: 'Yes',
+      });
+      expect(
+        (await request(port, 'GET', '/events/tue@2099-03-10/rsvps/p1')).body
+      ).toMatchObject({ status: 'Yes' });
+
+      const occurrence = await request(
+        port,
+        'DELETE',
+        '/events/tue@2099-03-10/rsvps/p1'
+      );
+      expect(occurrence.statusCode).toBe(409);
+      expect(occurrence.body.error.code).toBe('SERIES_RSVP');
+      expect(occurrence.body.error.message).toContain(
+        'DELETE /series/tue/rsvps/p1'
+      );
+      expect(rsvpService.getPlayerStatus('tue@2099-03-10', 'p1')).toBe('Yes');
+
+      const removed = await request(port, 'DELETE', '/series/tue/rsvps/p1');
+      expect(removed.body).toMatchObject({ previousStatus: 'Yes' });
+      expect(
+        (await request(port, 'GET', '/series/tue/rsvps/p1')).statusCode
+      ).toBe(404);
+    });
+
+    it('should return 404 for an unknown series', async () => {
+      const response = await request(
+        port,
+        'PUT',
+        '/series/wed/rsvps/p1',
+        JSON.stringify({ status: 'Yes' })
+      );
+      expect(response.statusCode).toBe(404);
+      expect(response.body.error.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('POST /rsvps/batch', () => {
+    it('should apply a valid batch with 200 and per-entry results', async () => {
+      const response = await request(
+        port,
+        'POST',
+        '/rsvps/batch',
+        JSON.stringify({
+          entries: [
+            { eventId: 'e1', playerId: 'p1', status: 'Yes' },
+            { eventId: 'e1', playerId: 'p2', status: 'No' },
+          ],
+        })
+      );
+      expect(response.statusCode).toBe(200);
+      expect(response.body).toMatchObject({
+        mode: 'atomic',
+        committed: true,
+        appliedCount: 2,
+      });
+      expect(rsvpService.getHistory('e1')[0].source).toBe('api');
+    });
+
+    it('should reject an atomic batch with 422 and apply nothing', async () => {
+      const response = await request(
+        port,
+        'POST',
+        '/rsvps/batch',
+        JSON.stringify({
+          entries: [
+            { eventId: 'e1', playerId: 'p1', status: 'Yes' },
+            { eventId: 'e1', playerId: 'p2', status: 'Later' },
+          ],
+        })
+      );
+      expect(response.statusCode).toBe(422);
+      expect(response.body.committed).toBe(false);
+      expect(response.body.results[1].error.code).toBe('INVALID_STATUS');
+      expect(rsvpService.getEventIds()).toEqual([]);
+
+      const partial = await request(
+        port,
+        'POST',
+        '/rsvps/batch',
+        JSON.stringify({
+          entries: [{ eventId: 'e1', playerId: 'p1', status: 'Yes' }, 42],
+          mode: 'partial',
+        })
+      );
+      expect(partial.statusCode).toBe(200);
+      expect(partial.body.appliedCount).toBe(1);
+    });
+
+    it('should reject a body without an entries array with 400', async () => {
+      const response = await request(
+        port,
+        'POST',
+        '/rsvps/batch',
+        JSON.stringify({ entries: {} })
+      );
+      expect(response.statusCode).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_BATCH');
+    });
+  });
+
+  describe('check-ins and reliability', () => {
+    it('should check players in and report their reliability', async () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+
+      const checkedIn = await request(port, 'PUT', '/events/e1/checkins/p1');
+      expect(checkedIn.statusCode).toBe(201);
+      expect(checkedIn.body).toEqual({
+        eventId: 'e1',
+        playerId: 'p1',
+        checkedIn: true,
+      });
+      expect(
+        (await request(port, 'PUT', '/events/e1/checkins/p1')).statusCode
+      ).toBe(200);
+      expect((await request(port, 'GET', '/events/e1/checkins')).body).toEqual({
+        eventId: 'e1',
+        playerIds: ['p1'],
+      });
+
+      const reliability = await request(port, 'GET', '/players/p2/reliability');
+      expect(reliability.statusCode).toBe(200);
+      expect(reliability.body).toMatchObject({
+        playerId: 'p2',
+        events: 1,
+        noShows: 1,
+        noShowRate: 1,
+        score: 33,
+      });
+      const all = await request(port, 'GET', '/reliability');
+      expect(all.body.map((stats: any) => stats.score)).toEqual([100, 33]);
+    });
+
+    it('should undo a check-in, or return 404 without one', async () => {
+      rsvpService.checkIn(admin, 'e1', 'p1');
+      expect(
+        (await request(port, 'DELETE', '/events/e1/checkins/p1')).body
+      ).toEqual({ eventId: 'e1', playerId: 'p1', checkedIn: false });
+      expect(
+        (await request(port, 'DELETE', '/events/e1/checkins/p1')).statusCode
+      ).toBe(404);
+    });
+  });
+
+  describe('GET routes', () => {
+    beforeEach(() => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'No');
+      rsvpService.addOrUpdateRsvp(admin, 'e2', 'p1', 'Maybe');
+    });
+
+    it('should return one player status', async () => {
+      const response = await request(port, 'GET', '/events/e1/rsvps/p2');
+      expect(response.statusCode).toBe(200);
+      expect(response.body.status).toBe('No');
+    });
+
+    it('should return 404 for a player who has not responded', async () => {
+      const response = await request(port, 'GET', '/events/e1/rsvps/p9');
+      expect(response.statusCode).toBe(404);
+      expect(response.body.error.code).toBe('NOT_FOUND');
+    });
+
+    it('should list confirmed attendees', async () => {
+      const response = await request(port, 'GET', '/events/e1/attendees');
+      expect(response.statusCode).toBe(200);
+      expect(response.body).toEqual({
+        eventId: 'e1',
+        attendees: ['p1'],
+        guests: {},
+        headcount: 1,
+        waitlist: [],
+      });
+    });
+
+    it('should return counts for one event and for every event', async () => {
+      const eventCounts = await request(port, 'GET', '/events/e1/counts');
+      expect(eventCounts.body).toEqual({
+        eventId: 'e1',
+        counts: {
+          total: 2,
+          confirmed: 1,
+          declined: 1,
+          maybe: 0,
+          waitlisted: 0,
+          guests: 0,
+          headcount: 1,
+        },
+      });
+
+      const allCounts = await request(port, 'GET', '/counts');
+      expect(Object.keys(allCounts.body)).toEqual(['e1', 'e2']);
+    });
+  });
+
+  describe('errors', () => {
+    it('should return 404 for unknown routes', async () => {
+      const response = await request(port, 'GET', '/nope');
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should return 400 for a path with a malformed escape', async () => {
+      const response = await request(port, 'GET', '/events/%E0%A4%A/counts');
+      expect(response.statusCode).toBe(400);
+      expect(response.body.error).toEqual({
+        code: 'INVALID_PATH',
+        message: 'Malformed escape in path segment "%E0%A4%A".',
+      });
+      expect(mockLogger.error).not.toHaveBeenCalled();
+    });
+
+    it('should return 405 with an Allow header for unsupported methods', async () => {
+      const response = await request(port, 'DELETE', '/events/e1/counts');
+      expect(response.statusCode).toBe(405);
+      expect(response.headers.allow).toBe('GET');
+      expect(response.body.error.code).toBe('METHOD_NOT_ALLOWED');
+    });
+
+    it('should tag every response and log entry with a request id', async () => {
+      const response = await request(port, 'GET', '/events/e1/counts');
+      const requestId = response.headers['x-request-id'];
+      expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(mockLogger.log).toHaveBeenCalledWith(
+        'Handled request',
+        expect.objectContaining({ statusCode: 200 }),
+        { requestId, method: 'GET', url: '/events/e1/counts' }
+      );
+    });
+
+    it('should return 500 and log when the service fails', async () => {
+      jest.spyOn(rsvpService, 'addOrUpdateRsvp').mockImplementation(() => {
+        throw new Error('disk full');
+      });
+      const response = await request(
+        port,
+        'PUT',
+        '/events/e1/rsvps/p1',
+        JSON.stringify({ status: 'Yes' })
+      );
+      expect(response.statusCode).toBe(500);
+      expect(response.body.error.code).toBe('INTERNAL_ERROR');
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+});
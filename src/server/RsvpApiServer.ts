@@ -0,0 +1,722 @@
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  isRole,
+  isRsvpStatus,
+  MAX_GUESTS,
+  parseGuestCount,
+  Principal,
+  RsvpEntry,
+  RSVP_STATUSES,
+} from '../interfaces';
+import {
+  GuestLimitExceededError,
+  ReliabilityService,
+  RsvpAuthorizationError,
+  RsvpLockedError,
+  RsvpService,
+  RsvpVersionConflictError,
+} from '../services';
+import { childLogger, ILogger } from '../utils';
+
+// Request bodies larger than this are rejected with 413.
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Machine-readable error codes returned in `{ error: { code, message } }` bodies.
+ */
+export type ApiErrorCode =
+  | 'INVALID_PATH'
+  | 'INVALID_JSON'
+  | 'INVALID_STATUS'
+  | 'INVALID_GUESTS'
+  | 'INVALID_BATCH'
+  | 'INVALID_VERSION'
+  | 'RSVP_LOCKED'
+  | 'SERIES_RSVP'
+  | 'VERSION_CONFLICT'
+  | 'GUEST_LIMIT_EXCEEDED'
+  | 'UNAUTHENTICATED'
+  | 'FORBIDDEN'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * An error that maps directly onto an HTTP error response.
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    public readonly code: ApiErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Works out who sent a request; undefined if the caller is unknown.
+ */
+export type Authenticator = (
+  req: http.IncomingMessage
+) => Principal | undefined;
+
+/**
+ * Reads the principal from `X-Principal-Role` (player, organizer or admin),
+ * `X-Principal-Id` and, for organizers, the comma-separated
+ * `X-Principal-Events`. These headers prove nothing by themselves: use it
+ * only behind a gateway that authenticates callers and sets them.
+ */
+export function principalFromHeaders(
+  req: http.IncomingMessage
+): Principal | undefined {
+  const header = (name: string) => {
+    const value = req.headers[name];
+    return typeof value === 'string' ? value.trim() : '';
+  };
+  const role = header('x-principal-role');
+  const id = header('x-principal-id');
+  if (!isRole(role) || !id) {
+    return undefined;
+  }
+  if (role !== 'organizer') {
+    return { role, id };
+  }
+  const eventIds = header('x-principal-events')
+    .split(',')
+    .map((eventId) => eventId.trim())
+    .filter((eventId) => eventId !== '');
+  return { role, id, eventIds };
+}
+
+interface RouteMatch {
+  handlers: Partial<Record<string, RouteHandler>>;
+  params: Record<string, string>;
+}
+
+type RouteHandler = (
+  params: Record<string, string>,
+  req: http.IncomingMessage
+) => Promise<{ statusCode: number; body: unknown }>;
+
+/**
+ * Exposes an RsvpService as JSON routes over plain Node `http`:
+ *
+ * - `PUT  /events/:eventId/rsvps/:playerId` with `{ "status": "Yes", "guests": 1 }` sets or updates an RSVP
+ * - `GET  /events/:eventId/rsvps/:playerId` returns one player's status and its version
+ * - `DELETE /events/:eventId/rsvps/:playerId` removes a player's RSVP
+ * - `PUT  /series/:seriesId/rsvps/:playerId` with `{ "status": "Yes" }` responds to every occurrence of a series
+ * - `GET  /series/:seriesId/rsvps/:playerId` returns a player's series-level status
+ * - `DELETE /series/:seriesId/rsvps/:playerId` removes a player's series-level RSVP
+ * - `POST /rsvps/batch` with `{ "entries": [...], "mode": "atomic" }` applies many RSVPs at once
+ * - `GET  /events/:eventId/attendees` lists confirmed attendees, their guests and the headcount
+ * - `GET  /events/:eventId/counts` returns the event's counts
+ * - `GET  /counts` returns the counts of every event
+ * - `PUT  /events/:eventId/checkins/:playerId` checks a player in
+ * - `DELETE /events/:eventId/checkins/:playerId` undoes a check-in
+ * - `GET  /events/:eventId/checkins` lists the players who checked in
+ * - `GET  /players/:playerId/reliability` returns one player's reliability
+ * - `GET  /reliability` returns the reliability of every player
+ *
+ * Changes to an event whose RSVPs have locked are rejected with 409, as is
+ * a DELETE of an occurrence RSVP that only comes from a series RSVP; a
+ * rejected atomic batch, or more guests than the event allows, returns 422.
+ * A PUT or DELETE of an RSVP with an `If-Match: <version>` header only
+ * applies while the RSVP is still at that version, and returns 412 otherwise.
+ * Every change needs a principal from the Authenticator (401 without one),
+ * and the service's role checks turn into 403.
+ * Every response carries an `X-Request-Id` (the caller's, if it sent one),
+ * which is also bound to the request's log entries as `requestId`.
+ */
+export class RsvpApiServer {
+  private readonly server: http.Server;
+  private readonly service: RsvpService; // Dependency Injection
+  private readonly logger: ILogger; // Dependency Injection
+  private readonly reliability: ReliabilityService; // Dependency Injection
+  private readonly authenticate: Authenticator; // Dependency Injection
+
+  /**
+   * Creates an instance of RsvpApiServer.
+   * @param service - The RsvpService the routes operate on.
+   * @param logger - An implementation of ILogger for logging.
+   * @param reliability - Computes player reliability; defaults to one over `service`.
+   * @param authenticate - Finds the principal behind a change; defaults to `principalFromHeaders`.
+   */
+  constructor(
+    service: RsvpService,
+    logger: ILogger,
+    reliability: ReliabilityService = new ReliabilityService(service),
+    authenticate: Authenticator = principalFromHeaders
+  ) {
+    this.service = service;
+    this.logger = logger;
+    this.reliability = reliability;
+    this.authenticate = authenticate;
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res);
+    });
+  }
+
+  /**
+   * Starts listening for requests.
+   * @param port - The port to listen on; 0 picks a free ephemeral port.
+   * @param host - The interface to bind to.
+   * @returns The port the server is listening on.
+   */
+  listen(port: number, host: string = '127.0.0.1'): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        const { port: boundPort } = this.server.address() as AddressInfo;
+        this.logger.log(`RSVP API listening on http://${host}:${boundPort}`);
+        resolve(boundPort);
+      });
+    });
+  }
+
+  /**
+   * Stops accepting new connections and resolves once the server is closed.
+   */
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const startedAt = Date.now();
+    const requestHeader = req.headers['x-request-id'];
+    const requestId =
+      typeof requestHeader === 'string' && requestHeader !== ''
+        ? requestHeader
+        : randomUUID();
+    const logger = childLogger(this.logger, {
+      requestId,
+      method: req.method,
+      url: req.url,
+    });
+    res.setHeader('X-Request-Id', requestId);
+    try {
+      const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+      const route = this.matchRoute(pathname);
+      if (!route) {
+        throw new ApiError(404, 'NOT_FOUND', `No route for ${pathname}.`);
+      }
+      const handler = route.handlers[req.method ?? 'GET'];
+      if (!handler) {
+        res.setHeader('Allow', Object.keys(route.handlers).join(', '));
+        throw new ApiError(
+          405,
+          'METHOD_NOT_ALLOWED',
+          `Method ${req.method} is not allowed for ${pathname}.`
+        );
+      }
+      const { statusCode, body } = await handler(route.params, req);
+      this.sendJson(res, statusCode, body);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        this.sendJson(res, error.statusCode, {
+          error: { code: error.code, message: error.message },
+        });
+        return;
+      }
+      logger.error('Unhandled error while serving request', error);
+      this.sendJson(res, 500, {
+        error: { code: 'INTERNAL_ERROR', message: 'Internal server error.' },
+      });
+    } finally {
+      logger.log('Handled request', {
+        statusCode: res.statusCode,
+        durationMs: Date.now() - startedAt,
+      });
+    }
+  }
+
+  private matchRoute(pathname: string): RouteMatch | undefined {
+    const segments = pathname
+      .split('/')
+      .filter((segment) => segment !== '')
+      .map((segment) => {
+        try {
+          return decodeURIComponent(segment);
+        } catch {
+          // A malformed escape such as `%E0%A4%A` is the caller's mistake
+          throw new ApiError(
+            400,
+            'INVALID_PATH',
+            `Malformed escape in path segment "${segment}".`
+          );
+        }
+      });
+
+    if (segments.length === 1 && segments[0] === 'counts') {
+      return { handlers: { GET: async () => this.getAllCounts() }, params: {} };
+    }
+    if (
+      segments.length === 2 &&
+      segments[0] === 'rsvps' &&
+      segments[1] === 'batch'
+    ) {
+      return {
+        handlers: { POST: async (_params, req) => this.postBatch(req) },
+        params: {},
+      };
+    }
+    if (segments.length === 1 && segments[0] === 'reliability') {
+      return {
+        handlers: { GET: async () => this.getAllReliability() },
+        params: {},
+      };
+    }
+    if (
+      segments.length === 3 &&
+      segments[0] === 'players' &&
+      segments[1] &&
+      segments[2] === 'reliability'
+    ) {
+      return {
+        handlers: { GET: async (params) => this.getReliability(params) },
+        params: { playerId: segments[1] },
+      };
+    }
+    if (
+      segments.length === 4 &&
+      segments[0] === 'series' &&
+      segments[1] &&
+      segments[2] === 'rsvps' &&
+      segments[3]
+    ) {
+      return {
+        handlers: {
+          GET: async (params) => this.getSeriesRsvp(params),
+          PUT: async (params, req) => this.putSeriesRsvp(params, req),
+          DELETE: async (params, req) => this.deleteSeriesRsvp(params, req),
+        },
+        params: { seriesId: segments[1], playerId: segments[3] },
+      };
+    }
+    if (segments[0] !== 'events' || !segments[1]) {
+      return undefined;
+    }
+    const eventId = segments[1];
+
+    if (segments.length === 4 && segments[2] === 'rsvps' && segments[3]) {
+      return {
+        handlers: {
+          GET: async (params) => this.getRsvp(params),
+          PUT: async (params, req) => this.putRsvp(params, req),
+          DELETE: async (params, req) => this.deleteRsvp(params, req),
+        },
+        params: { eventId, playerId: segments[3] },
+      };
+    }
+    if (segments.length === 4 && segments[2] === 'checkins' && segments[3]) {
+      return {
+        handlers: {
+          PUT: async (params, req) => this.putCheckIn(params, req),
+          DELETE: async (params, req) => this.deleteCheckIn(params, req),
+        },
+        params: { eventId, playerId: segments[3] },
+      };
+    }
+    if (segments.length === 3 && segments[2] === 'checkins') {
+      return {
+        handlers: { GET: async (params) => this.getCheckIns(params) },
+        params: { eventId },
+      };
+    }
+    if (segments.length === 3 && segments[2] === 'attendees') {
+      return {
+        handlers: { GET: async (params) => this.getAttendees(params) },
+        params: { eventId },
+      };
+    }
+    if (segments.length === 3 && segments[2] === 'counts') {
+      return {
+        handlers: { GET: async (params) => this.getCounts(params) },
+        params: { eventId },
+      };
+    }
+    return undefined;
+  }
+
+  private async putRsvp(
+    { eventId, playerId }: Record<string, string>,
+    req: http.IncomingMessage
+  ) {
+    const principal = this.requirePrincipal(req);
+    const body = (await this.readJsonBody(req)) as {
+      status?: unknown;
+      guests?: unknown;
+    } | null;
+    const status = body?.status;
+    if (!isRsvpStatus(status)) {
+      throw new ApiError(
+        400,
+        'INVALID_STATUS',
+        `"status" must be one of ${RSVP_STATUSES.join(', ')}.`
+      );
+    }
+    // Leaving "guests" out keeps the player's current guests.
+    const guests =
+      body?.guests === undefined ? undefined : parseGuestCount(body.guests);
+    if (body?.guests !== undefined && guests === undefined) {
+      throw new ApiError(
+        400,
+        'INVALID_GUESTS',
+        `"guests" must be a whole number from 0 to ${MAX_GUESTS}.`
+      );
+    }
+
+    const expectedVersion = this.readExpectedVersion(req);
+    const isNew = this.service.getPlayerStatus(eventId, playerId) === undefined;
+    this.applyChange(() =>
+      this.service.addOrUpdateRsvp(principal, eventId, playerId, status, {
+        source: 'api',
+        guests,
+        expectedVersion,
+      })
+    );
+    return {
+      statusCode: isNew ? 201 : 200,
+      body: this.describeRsvp(eventId, playerId),
+    };
+  }
+
+  private async deleteRsvp(
+    { eventId, playerId }: Record<string, string>,
+    req: http.IncomingMessage
+  ) {
+    const principal = this.requirePrincipal(req);
+    const expectedVersion = this.readExpectedVersion(req);
+    const previousStatus = this.service.getPlayerStatus(eventId, playerId);
+    // removeRsvp checks the principal first, so a 404 never tells a caller
+    // who may not change this RSVP whether the player has responded.
+    const removed = this.applyChange(() =>
+      this.service.removeRsvp(principal, eventId, playerId, {
+        source: 'api',
+        expectedVersion,
+      })
+    );
+    if (previousStatus === undefined) {
+      throw new ApiError(
+        404,
+        'NOT_FOUND',
+        `Player ${playerId} has not responded to event ${eventId}.`
+      );
+    }
+    if (!removed) {
+      // The status comes from a series-level RSVP, which only the series route removes.
+      const [seriesId] = eventId.split('@');
+      throw new ApiError(
+        409,
+        'SERIES_RSVP',
+        `Player ${playerId} responded to series ${seriesId}, not to event ${eventId}; use DELETE /series/${seriesId}/rsvps/${playerId}.`
+      );
+    }
+    return { statusCode: 200, body: { eventId, playerId, previousStatus } };
+  }
+
+  private async putSeriesRsvp(
+    { seriesId, playerId }: Record<string, string>,
+    req: http.IncomingMessage
+  ) {
+    const principal = this.requirePrincipal(req);
+    this.requireSeries(seriesId);
+    const body = await this.readJsonBody(req);
+    const status = (body as { status?: unknown } | null)?.status;
+    if (!isRsvpStatus(status)) {
+      throw new ApiError(
+        400,
+        'INVALID_STATUS',
+        `"status" must be one of ${RSVP_STATUSES.join(', ')}.`
+      );
+    }
+
+    const isNew = this.service.getSeriesRsvp(seriesId, playerId) === undefined;
+    this.applyChange(() =>
+      this.service.setSeriesRsvp(principal, seriesId, playerId, status, {
+        source: 'api',
+      })
+    );
+    return {
+      statusCode: isNew ? 201 : 200,
+      body: { seriesId, playerId, status },
+    };
+  }
+
+  private async getSeriesRsvp({ seriesId, playerId }: Record<string, string>) {
+    this.requireSeries(seriesId);
+    const status = this.service.getSeriesRsvp(seriesId, playerId);
+    if (status === undefined) {
+      throw new ApiError(
+        404,
+        'NOT_FOUND',
+        `Player ${playerId} has not responded to series ${seriesId}.`
+      );
+    }
+    return { statusCode: 200, body: { seriesId, playerId, status } };
+  }
+
+  private async deleteSeriesRsvp(
+    { seriesId, playerId }: Record<string, string>,
+    req: http.IncomingMessage
+  ) {
+    const principal = this.requirePrincipal(req);
+    this.requireSeries(seriesId);
+    const previousStatus = this.service.getSeriesRsvp(seriesId, playerId);
+    const removed = this.applyChange(() =>
+      this.service.removeSeriesRsvp(principal, seriesId, playerId, {
+        source: 'api',
+      })
+    );
+    if (!removed) {
+      throw new ApiError(
+        404,
+        'NOT_FOUND',
+        `Player ${playerId} has not responded to series ${seriesId}.`
+      );
+    }
+    return { statusCode: 200, body: { seriesId, playerId, previousStatus } };
+  }
+
+  private requireSeries(seriesId: string): void {
+    if (!this.service.getSeries(seriesId)) {
+      throw new ApiError(
+        404,
+        'NOT_FOUND',
+        `Series ${seriesId} is not defined.`
+      );
+    }
+  }
+
+  private async postBatch(req: http.IncomingMessage) {
+    const principal = this.requirePrincipal(req);
+    const body = (await this.readJsonBody(req)) as {
+      entries?: unknown;
+      mode?: unknown;
+    } | null;
+    const entries = body?.entries;
+    const mode = body?.mode ?? 'atomic';
+    if (!Array.isArray(entries)) {
+      throw new ApiError(400, 'INVALID_BATCH', '"entries" must be an array.');
+    }
+    if (mode !== 'atomic' && mode !== 'partial') {
+      throw new ApiError(
+        400,
+        'INVALID_BATCH',
+        '"mode" must be "atomic" or "partial".'
+      );
+    }
+
+    // Each entry is checked by the service and reported in its own result.
+    const result = this.service.applyBatch(principal, entries as RsvpEntry[], {
+      mode,
+      source: 'api',
+    });
+    return { statusCode: result.committed ? 200 : 422, body: result };
+  }
+
+  // Runs a change, turning a denied principal into a 403, a locked event into
+  // a 409, too many guests into a 422 and a stale version into a 412.
+  private applyChange<T>(change: () => T): T {
+    try {
+      return change();
+    } catch (error) {
+      if (error instanceof RsvpAuthorizationError) {
+        throw new ApiError(403, 'FORBIDDEN', error.message);
+      }
+      if (error instanceof RsvpVersionConflictError) {
+        throw new ApiError(412, 'VERSION_CONFLICT', error.message);
+      }
+      if (error instanceof RsvpLockedError) {
+        throw new ApiError(409, 'RSVP_LOCKED', error.message);
+      }
+      if (error instanceof GuestLimitExceededError) {
+        throw new ApiError(422, 'GUEST_LIMIT_EXCEEDED', error.message);
+      }
+      throw error;
+    }
+  }
+
+  private async getRsvp({ eventId, playerId }: Record<string, string>) {
+    if (this.service.getPlayerStatus(eventId, playerId) === undefined) {
+      throw new ApiError(
+        404,
+        'NOT_FOUND',
+        `Player ${playerId} has not responded to event ${eventId}.`
+      );
+    }
+    return { statusCode: 200, body: this.describeRsvp(eventId, playerId) };
+  }
+
+  private async getAttendees({ eventId }: Record<string, string>) {
+    return {
+      statusCode: 200,
+      body: {
+        eventId,
+        attendees: this.service.getConfirmedAttendees(eventId),
+        guests: Object.fromEntries(
+          this.service
+            .getConfirmedAttendeesWithGuests(eventId)
+            .filter(({ guests }) => guests > 0)
+            .map(({ playerId, guests }) => [playerId, guests])
+        ),
+        headcount: this.service.getCounts(eventId).headcount,
+        waitlist: this.service.getWaitlist(eventId),
+      },
+    };
+  }
+
+  private async getCounts({ eventId }: Record<string, string>) {
+    return {
+      statusCode: 200,
+      body: { eventId, counts: this.service.getCounts(eventId) },
+    };
+  }
+
+  private async getAllCounts() {
+    return { statusCode: 200, body: this.service.getCountsByEvent() };
+  }
+
+  private async putCheckIn(
+    { eventId, playerId }: Record<string, string>,
+    req: http.IncomingMessage
+  ) {
+    const principal = this.requirePrincipal(req);
+    const isNew = this.applyChange(() =>
+      this.service.checkIn(principal, eventId, playerId, { source: 'api' })
+    );
+    return {
+      statusCode: isNew ? 201 : 200,
+      body: { eventId, playerId, checkedIn: true },
+    };
+  }
+
+  private async deleteCheckIn(
+    { eventId, playerId }: Record<string, string>,
+    req: http.IncomingMessage
+  ) {
+    const principal = this.requirePrincipal(req);
+    const undone = this.applyChange(() =>
+      this.service.undoCheckIn(principal, eventId, playerId, { source: 'api' })
+    );
+    if (!undone) {
+      throw new ApiError(
+        404,
+        'NOT_FOUND',
+        `Player ${playerId} has not checked in at event ${eventId}.`
+      );
+    }
+    return { statusCode: 200, body: { eventId, playerId, checkedIn: false } };
+  }
+
+  private async getCheckIns({ eventId }: Record<string, string>) {
+    return {
+      statusCode: 200,
+      body: { eventId, playerIds: this.service.getCheckedInPlayers(eventId) },
+    };
+  }
+
+  private async getReliability({ playerId }: Record<string, string>) {
+    return {
+      statusCode: 200,
+      body: this.reliability.getPlayerStats(playerId),
+    };
+  }
+
+  private async getAllReliability() {
+    return { statusCode: 200, body: this.reliability.getAllPlayerStats() };
+  }
+
+  private describeRsvp(eventId: string, playerId: string) {
+    return {
+      ...this.service.getVersionedRsvp(eventId, playerId),
+      waitlisted: this.service.isWaitlisted(eventId, playerId),
+    };
+  }
+
+  private requirePrincipal(req: http.IncomingMessage): Principal {
+    const principal = this.authenticate(req);
+    if (!principal) {
+      throw new ApiError(
+        401,
+        'UNAUTHENTICATED',
+        'Changes need an authenticated principal.'
+      );
+    }
+    return principal;
+  }
+
+  // The version from an `If-Match` header, bare or quoted like an ETag.
+  private readExpectedVersion(req: http.IncomingMessage): number | undefined {
+    const header = req.headers['if-match'];
+    if (header === undefined) {
+      return undefined;
+    }
+    const match = /^"?(\d+)"?$/.exec(header.trim());
+    if (!match) {
+      throw new ApiError(
+        400,
+        'INVALID_VERSION',
+        '"If-Match" must be the version of the RSVP, e.g. "3".'
+      );
+    }
+    return Number(match[1]);
+  }
+
+  private readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        // Draining the rest of an oversized body so the 413 can still be sent.
+        size += chunk.length;
+        if (size <= MAX_BODY_BYTES) {
+          chunks.push(chunk);
+        }
+      });
+      req.on('end', () => {
+        if (size > MAX_BODY_BYTES) {
+          reject(
+            new ApiError(413, 'PAYLOAD_TOO_LARGE', 'Request body is too large.')
+          );
+          return;
+        }
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch {
+          reject(
+            new ApiError(
+              400,
+              'INVALID_JSON',
+              'Request body must be valid JSON.'
+            )
+          );
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private sendJson(
+    res: http.ServerResponse,
+    statusCode: number,
+    body: unknown
+  ): void {
+    const payload = JSON.stringify(body);
+    res.writeHead(statusCode, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Length': Buffer.byteLength(payload),
+    });
+    res.end(payload);
+  }
+}
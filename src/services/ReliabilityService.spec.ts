@@ -0,0 +1,107 @@
+import { computeReliability, ReliabilityService } from './ReliabilityService';
+import { RsvpService } from './RsvpService';
+import { EventOutcome, Principal } from '../interfaces';
+import { ILogger } from '../utils/logger.interface';
+
+const createMockLogger = (): jest.Mocked<ILogger> => ({
+  log: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+});
+
+const admin: Principal = { role: 'admin', id: 'admin' };
+
+describe('computeReliability', () => {
+  const outcomes: EventOutcome[] = [
+    {
+      eventId: 'e1',
+      responses: { p1: 'Yes', p2: 'Yes', p3: 'Maybe' },
+      checkedIn: ['p1', 'p3'],
+    },
+    {
+      eventId: 'e2',
+      responses: { p1: 'Yes', p2: 'No', p3: 'Maybe' },
+      checkedIn: ['p1', 'p2'], // p2 came anyway
+    },
+  ];
+
+  it('should compare responses with check-ins', () => {
+    const [p1, p2, p3] = computeReliability(outcomes);
+    expect(p1).toEqual({
+      playerId: 'p1',
+      events: 2,
+      responded: 2,
+      attended: 2,
+      yes: 2,
+      noShows: 0,
+      maybe: 0,
+      maybeAttended: 0,
+      responseRate: 1,
+      noShowRate: 0,
+      maybeAttendanceRate: null,
+      score: 100,
+    });
+    expect(p2).toMatchObject({
+      yes: 1,
+      attended: 1,
+      noShows: 1,
+      noShowRate: 1,
+    });
+    expect(p2.score).toBe(33); // (1 * 1 + 0 * 2) / 3
+    expect(p3).toMatchObject({
+      maybe: 2,
+      maybeAttended: 1,
+      maybeAttendanceRate: 0.5,
+      noShowRate: null,
+      score: 100, // Only the response rate applies
+    });
+  });
+
+  it('should include roster players who never responded', () => {
+    const stats = computeReliability(outcomes, ['p9']);
+    expect(stats[0]).toMatchObject({
+      playerId: 'p9',
+      responded: 0,
+      responseRate: 0,
+      score: 0,
+    });
+    expect(computeReliability([], ['p9'])[0]).toMatchObject({
+      events: 0,
+      responseRate: null,
+      score: null,
+    });
+  });
+
+  it('should not count a waitlisted "Yes" as a no-show', () => {
+    const [stats] = computeReliability([
+      {
+        eventId: 'e1',
+        responses: { p1: 'Yes' },
+        waitlisted: ['p1'],
+        checkedIn: ['p2'],
+      },
+    ]);
+    expect(stats).toMatchObject({ yes: 0, noShows: 0, noShowRate: null });
+  });
+});
+
+describe('ReliabilityService', () => {
+  it('should only count events where attendance was taken', () => {
+    const rsvpService = new RsvpService(createMockLogger());
+    rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+    rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+    rsvpService.addOrUpdateRsvp(admin, 'e2', 'p2', 'Yes'); // No check-ins yet
+    rsvpService.checkIn(admin, 'e1', 'p1');
+
+    const reliability = new ReliabilityService(rsvpService);
+    expect(reliability.getPlayerStats('p2')).toMatchObject({
+      events: 1,
+      yes: 1,
+      noShows: 1,
+    });
+    expect(
+      reliability.getAllPlayerStats().map((stats) => stats.playerId)
+    ).toEqual(['p1', 'p2']);
+  });
+});
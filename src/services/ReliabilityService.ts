@@ -0,0 +1,154 @@
+import { EventOutcome, PlayerReliability } from '../interfaces';
+import { RsvpService } from './RsvpService';
+
+// How much each rate weighs in the score. A "Maybe" promises nothing, so
+// whether it ends in attendance is reported but doesn't affect the score.
+const RESPONSE_WEIGHT = 1;
+const KEPT_YES_WEIGHT = 2;
+
+/**
+ * Works out every player's reliability from the outcomes of past events.
+ *
+ * The score is a weighted average of the response rate and the share of
+ * "Yes" responses that ended in a check-in (weighted double), scaled to
+ * 0-100. Rates that don't apply (e.g. a player who never said "Yes") are
+ * left out of the average; a player with no events has no score.
+ * @param outcomes - The events whose attendance was taken.
+ * @param playerIds - The roster; players who responded or checked in are always included.
+ * @returns One PlayerReliability per player, in the order first seen.
+ */
+export function computeReliability(
+  outcomes: EventOutcome[],
+  playerIds: string[] = []
+): PlayerReliability[] {
+  const stats = new Map<string, PlayerReliability>();
+  const statsFor = (playerId: string) => {
+    let playerStats = stats.get(playerId);
+    if (!playerStats) {
+      playerStats = {
+        playerId,
+        events: outcomes.length,
+        responded: 0,
+        attended: 0,
+        yes: 0,
+        noShows: 0,
+        maybe: 0,
+        maybeAttended: 0,
+        responseRate: null,
+        noShowRate: null,
+        maybeAttendanceRate: null,
+        score: null,
+      };
+      stats.set(playerId, playerStats);
+    }
+    return playerStats;
+  };
+
+  playerIds.forEach(statsFor);
+  for (const outcome of outcomes) {
+    const checkedIn = new Set(outcome.checkedIn);
+    const waitlisted = new Set(outcome.waitlisted ?? []);
+    for (const [playerId, status] of Object.entries(outcome.responses)) {
+      const playerStats = statsFor(playerId);
+      const attended = checkedIn.has(playerId);
+      playerStats.responded++;
+      // A waitlisted "Yes" never held a spot, so staying home isn't a no-show.
+      if (status === 'Yes' && !waitlisted.has(playerId)) {
+        playerStats.yes++;
+        if (!attended) {
+          playerStats.noShows++;
+        }
+      } else if (status === 'Maybe') {
+        playerStats.maybe++;
+        if (attended) {
+          playerStats.maybeAttended++;
+        }
+      }
+    }
+    for (const playerId of checkedIn) {
+      statsFor(playerId).attended++;
+    }
+  }
+
+  for (const playerStats of stats.values()) {
+    playerStats.responseRate = rate(playerStats.responded, playerStats.events);
+    playerStats.noShowRate = rate(playerStats.noShows, playerStats.yes);
+    playerStats.maybeAttendanceRate = rate(
+      playerStats.maybeAttended,
+      playerStats.maybe
+    );
+    playerStats.score = score(playerStats);
+  }
+  return Array.from(stats.values());
+}
+
+function rate(count: number, outOf: number): number | null {
+  return outOf === 0 ? null : count / outOf;
+}
+
+function score({ responseRate, noShowRate }: PlayerReliability): number | null {
+  const parts: Array<[number, number]> = [];
+  if (responseRate !== null) {
+    parts.push([responseRate, RESPONSE_WEIGHT]);
+  }
+  if (noShowRate !== null) {
+    parts.push([1 - noShowRate, KEPT_YES_WEIGHT]);
+  }
+  if (parts.length === 0) {
+    return null;
+  }
+  const totalWeight = parts.reduce((sum, [, weight]) => sum + weight, 0);
+  const weighted = parts.reduce(
+    (sum, [value, weight]) => sum + value * weight,
+    0
+  );
+  return Math.round((100 * weighted) / totalWeight);
+}
+
+/**
+ * Player reliability computed from the check-ins and final RSVPs stored in an
+ * RsvpService. Only events where attendance was taken (at least one check-in)
+ * count; elsewhere a missing check-in says nothing about a player.
+ */
+export class ReliabilityService {
+  private readonly rsvpService: RsvpService; // Dependency Injection
+
+  /**
+   * Creates an instance of ReliabilityService.
+   * @param rsvpService - Where the RSVPs and check-ins come from.
+   */
+  constructor(rsvpService: RsvpService) {
+    this.rsvpService = rsvpService;
+  }
+
+  /**
+   * Gets the reliability of every player who responded to or attended a counted event.
+   * @param playerIds - Optional roster, so players who never responded are included too.
+   * @returns One PlayerReliability per player.
+   */
+  getAllPlayerStats(playerIds: string[] = []): PlayerReliability[] {
+    return computeReliability(this.getOutcomes(), playerIds);
+  }
+
+  /**
+   * Gets one player's reliability.
+   * @param playerId - The ID of the player to look up.
+   * @returns A PlayerReliability, without a score if the player has no counted events.
+   */
+  getPlayerStats(playerId: string): PlayerReliability {
+    return computeReliability(this.getOutcomes(), [playerId])[0];
+  }
+
+  private getOutcomes(): EventOutcome[] {
+    return this.rsvpService.getCheckedInEventIds().map((eventId) => ({
+      eventId,
+      responses: Object.fromEntries(
+        this.rsvpService
+          .getEventRsvps(eventId)
+          .map(({ playerId, status }) => [playerId, status])
+      ),
+      waitlisted: this.rsvpService.getWaitlist(eventId),
+      checkedIn: this.rsvpService.getCheckedInPlayers(eventId),
+    }));
+  }
+}
@@ -1,7 +1,15 @@
 
-import { RsvpService } from './RsvpService';
+import {
+  GuestLimitExceededError,
+  RsvpAuthorizationError,
+  RsvpLockedError,
+  RsvpService,
+  RsvpVersionConflictError,
+} from './RsvpService';
 import { ILogger } from '../utils/logger.interface'; 
-import { RsvpStatus, RsvpCounts, RsvpEntry } from '../interfaces'; 
+import { IClock } from '../utils';
+import { MAX_GUESTS, Principal, RsvpStatus, RsvpCounts, RsvpEntry } from '../interfaces'; 
+import { InMemoryRsvpRepository, createSeedRecords } from '../repositories';
 
 // Helper function to create a fresh mock logger for each test run
 // Using jest.Mocked to provide better type safety for mock functions
@@ -12,6 +20,8 @@ const createMockLogger = (): jest.Mocked<ILogger> => ({
   debug: jest.fn(), // Including even if it's optional as mocking is easy I believe
 });
 
+const admin: Principal = { role: 'admin', id: 'admin' };
+
 // Main test suite for the RsvpService
 describe('RsvpService', () => {
   // Declaring variables scoped to the describe block
@@ -30,67 +40,79 @@ describe('RsvpService', () => {
   describe('Initialization', () => {
     it('should start with zero counts and log initialization message', () => {
       // Service is already created in beforeEach
-      const counts = rsvpService.getCounts();
-      expect(counts).toEqual({ total: 0, confirmed: 0, declined: 0, maybe: 0 });
+      const counts = rsvpService.getCounts('e1');
+      expect(counts).toEqual({ total: 0, confirmed: 0, declined: 0, maybe: 0, waitlisted: 0, guests: 0, headcount: 0 });
       expect(mockLogger.log).toHaveBeenCalledWith(
-        'Initializing RsvpService with empty state.'
+        'Initializing RsvpService with empty state'
       );
-      // Ensure no other logs occurred unexpectedly
-      expect(mockLogger.log).toHaveBeenCalledTimes(2);
+      // Ensure no other logs occurred unexpectedly; reading counts only logs at debug level
+      expect(mockLogger.log).toHaveBeenCalledTimes(1);
       expect(mockLogger.warn).not.toHaveBeenCalled();
       expect(mockLogger.error).not.toHaveBeenCalled();
     });
 
     it('should initialize correctly when provided with initial RSVP entries', () => {
       const initialEntries: RsvpEntry[] = [
-        { playerId: 'p10', status: 'Yes' },
-        { playerId: 'p20', status: 'No' },
-        { playerId: 'p30', status: 'Yes' },
+        { eventId: 'e1', playerId: 'p10', status: 'Yes' },
+        { eventId: 'e1', playerId: 'p20', status: 'No' },
+        { eventId: 'e1', playerId: 'p30', status: 'Yes' },
       ];
       // Creating a specific instance for this test
-      const serviceWithData = new RsvpService(mockLogger, initialEntries);
+      const serviceWithData = new RsvpService(
+        mockLogger,
+        new InMemoryRsvpRepository(createSeedRecords(initialEntries))
+      );
 
-      expect(serviceWithData.getCounts()).toEqual({
+      expect(serviceWithData.getCounts('e1')).toEqual({
         total: 3,
         confirmed: 2,
         declined: 1,
         maybe: 0,
+        waitlisted: 0,
+        guests: 0,
+        headcount: 2,
       });
-      expect(serviceWithData.getPlayerStatus('p10')).toBe('Yes');
-      expect(serviceWithData.getPlayerStatus('p20')).toBe('No');
-      expect(serviceWithData.getPlayerStatus('p30')).toBe('Yes');
+      expect(serviceWithData.getPlayerStatus('e1', 'p10')).toBe('Yes');
+      expect(serviceWithData.getPlayerStatus('e1', 'p20')).toBe('No');
+      expect(serviceWithData.getPlayerStatus('e1', 'p30')).toBe('Yes');
       expect(mockLogger.log).toHaveBeenCalledWith(
-        'Initializing RsvpService with 3 entries.'
+        'Initializing RsvpService from stored records',
+        { recordCount: 3 }
       );
     });
 
-    it('should skip invalid entries during initialization and log warnings/errors', () => {
+    it('should skip invalid stored records during initialization and log warnings', () => {
       const initialEntries: RsvpEntry[] = [
-        { playerId: 'pValid', status: 'Yes' },
-        { playerId: '', status: 'Maybe' }, // Invalid player ID
-        { playerId: 'pInvalidStatus', status: 'Definitely' as any }, // Invalid status
+        { eventId: 'e1', playerId: 'pValid', status: 'Yes' },
+        { eventId: 'e1', playerId: '', status: 'Maybe' }, // Invalid player ID
+        { eventId: 'e1', playerId: 'pInvalidStatus', status: 'Definitely' as any }, // Invalid status
       ];
+      const seedRecords = createSeedRecords(initialEntries);
       const serviceWithInvalidData = new RsvpService(
         mockLogger,
-        initialEntries
+        new InMemoryRsvpRepository(seedRecords)
       );
 
       // Only the valid entry should be counted
-      expect(serviceWithInvalidData.getCounts()).toEqual({
+      expect(serviceWithInvalidData.getCounts('e1')).toEqual({
         total: 1,
         confirmed: 1,
         declined: 0,
         maybe: 0,
+        waitlisted: 0,
+        guests: 0,
+        headcount: 1,
       });
-      expect(serviceWithInvalidData.getPlayerStatus('pValid')).toBe('Yes');
+      expect(serviceWithInvalidData.getPlayerStatus('e1', 'pValid')).toBe('Yes');
 
-      // Checking that appropriate warnings/errors were logged for the invalid entries
+      // Checking that appropriate warnings were logged for the invalid records
       expect(mockLogger.warn).toHaveBeenCalledWith(
-        'Skipping invalid initial entry:',
-        { playerId: '', status: 'Maybe' }
+        'Skipping invalid stored record',
+        { record: seedRecords[1] }
       );
-      expect(mockLogger.error).toHaveBeenCalledWith(
-        'addOrUpdateRsvp called with invalid status "Definitely" for player pInvalidStatus.'
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Skipping invalid stored record',
+        { record: seedRecords[2] }
       );
     });
   });
@@ -98,102 +120,152 @@ describe('RsvpService', () => {
   // --- Test addOrUpdateRsvp ---
   describe('addOrUpdateRsvp', () => {
     it('should add a new "Yes" RSVP and update counts correctly', () => {
-      rsvpService.addOrUpdateRsvp('player1', 'Yes');
-      expect(rsvpService.getPlayerStatus('player1')).toBe('Yes');
-      expect(rsvpService.getCounts()).toEqual({
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'player1', 'Yes');
+      expect(rsvpService.getPlayerStatus('e1', 'player1')).toBe('Yes');
+      expect(rsvpService.getCounts('e1')).toEqual({
         total: 1,
         confirmed: 1,
         declined: 0,
         maybe: 0,
+        waitlisted: 0,
+        guests: 0,
+        headcount: 1,
+      });
+      expect(mockLogger.log).toHaveBeenCalledWith('Added new RSVP', {
+        eventId: 'e1',
+        playerId: 'player1',
+        status: 'Yes',
       });
-      expect(mockLogger.log).toHaveBeenCalledWith(
-        'Added new RSVP for player player1: Yes.'
-      );
     });
 
     it('should add a new "No" RSVP and update counts correctly', () => {
-      rsvpService.addOrUpdateRsvp('player2', 'No');
-      expect(rsvpService.getPlayerStatus('player2')).toBe('No');
-      expect(rsvpService.getCounts()).toEqual({
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'player2', 'No');
+      expect(rsvpService.getPlayerStatus('e1', 'player2')).toBe('No');
+      expect(rsvpService.getCounts('e1')).toEqual({
         total: 1,
         confirmed: 0,
         declined: 1,
         maybe: 0,
+        waitlisted: 0,
+        guests: 0,
+        headcount: 0,
+      });
+      expect(mockLogger.log).toHaveBeenCalledWith('Added new RSVP', {
+        eventId: 'e1',
+        playerId: 'player2',
+        status: 'No',
       });
-      expect(mockLogger.log).toHaveBeenCalledWith(
-        'Added new RSVP for player player2: No.'
-      );
     });
 
     it('should add a new "Maybe" RSVP and update counts correctly', () => {
-      rsvpService.addOrUpdateRsvp('player3', 'Maybe');
-      expect(rsvpService.getPlayerStatus('player3')).toBe('Maybe');
-      expect(rsvpService.getCounts()).toEqual({
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'player3', 'Maybe');
+      expect(rsvpService.getPlayerStatus('e1', 'player3')).toBe('Maybe');
+      expect(rsvpService.getCounts('e1')).toEqual({
         total: 1,
         confirmed: 0,
         declined: 0,
         maybe: 1,
+        waitlisted: 0,
+        guests: 0,
+        headcount: 0,
+      });
+      expect(mockLogger.log).toHaveBeenCalledWith('Added new RSVP', {
+        eventId: 'e1',
+        playerId: 'player3',
+        status: 'Maybe',
       });
-      expect(mockLogger.log).toHaveBeenCalledWith(
-        'Added new RSVP for player player3: Maybe.'
-      );
     });
 
     it('should update an existing RSVP from "Yes" to "No"', () => {
-      rsvpService.addOrUpdateRsvp('player1', 'Yes'); // Initial add
-      rsvpService.addOrUpdateRsvp('player1', 'No'); // Update
-      expect(rsvpService.getPlayerStatus('player1')).toBe('No');
-      expect(rsvpService.getCounts()).toEqual({
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'player1', 'Yes'); // Initial add
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'player1', 'No'); // Update
+      expect(rsvpService.getPlayerStatus('e1', 'player1')).toBe('No');
+      expect(rsvpService.getCounts('e1')).toEqual({
         total: 1,
         confirmed: 0,
         declined: 1,
         maybe: 0,
+        waitlisted: 0,
+        guests: 0,
+        headcount: 0,
       });
       // Check that the update log message was called
-      expect(mockLogger.log).toHaveBeenCalledWith(
-        'Updated RSVP for player player1 from Yes to No.'
-      );
+      expect(mockLogger.log).toHaveBeenCalledWith('Updated RSVP', {
+        eventId: 'e1',
+        playerId: 'player1',
+        previousStatus: 'Yes',
+        status: 'No',
+      });
     });
 
     it('should update an existing RSVP from "Maybe" to "Yes"', () => {
-      rsvpService.addOrUpdateRsvp('playerM', 'Maybe'); // Initial add
-      rsvpService.addOrUpdateRsvp('playerM', 'Yes'); // Update
-      expect(rsvpService.getPlayerStatus('playerM')).toBe('Yes');
-      expect(rsvpService.getCounts()).toEqual({
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'playerM', 'Maybe'); // Initial add
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'playerM', 'Yes'); // Update
+      expect(rsvpService.getPlayerStatus('e1', 'playerM')).toBe('Yes');
+      expect(rsvpService.getCounts('e1')).toEqual({
         total: 1,
         confirmed: 1,
         declined: 0,
         maybe: 0,
+        waitlisted: 0,
+        guests: 0,
+        headcount: 1,
       });
-      expect(mockLogger.log).toHaveBeenCalledWith(
-        'Updated RSVP for player playerM from Maybe to Yes.'
+      expect(mockLogger.log).toHaveBeenCalledWith('Updated RSVP', {
+        eventId: 'e1',
+        playerId: 'playerM',
+        previousStatus: 'Maybe',
+        status: 'Yes',
+      });
+    });
+
+    it('should log a repeated RSVP as unchanged without storing it', () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'player1', 'Yes');
+      const changes = rsvpService.getHistory().length;
+      mockLogger.log.mockClear();
+
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'player1', 'Yes');
+      expect(rsvpService.getHistory()).toHaveLength(changes);
+      expect(mockLogger.log).toHaveBeenCalledWith('RSVP unchanged', {
+        eventId: 'e1',
+        playerId: 'player1',
+        status: 'Yes',
+      });
+      expect(mockLogger.log).not.toHaveBeenCalledWith(
+        'Updated RSVP',
+        expect.anything()
       );
     });
 
     it('should handle multiple additions and updates correctly', () => {
-      rsvpService.addOrUpdateRsvp('pA', 'Yes');
-      rsvpService.addOrUpdateRsvp('pB', 'No');
-      rsvpService.addOrUpdateRsvp('pA', 'Maybe'); // Update pA
-      rsvpService.addOrUpdateRsvp('pC', 'Yes');
-      expect(rsvpService.getCounts()).toEqual({
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'pA', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'pB', 'No');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'pA', 'Maybe'); // Update pA
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'pC', 'Yes');
+      expect(rsvpService.getCounts('e1')).toEqual({
         total: 3,
         confirmed: 1,
         declined: 1,
         maybe: 1,
+        waitlisted: 0,
+        guests: 0,
+        headcount: 1,
       });
-      expect(rsvpService.getPlayerStatus('pA')).toBe('Maybe');
-      expect(rsvpService.getPlayerStatus('pB')).toBe('No');
-      expect(rsvpService.getPlayerStatus('pC')).toBe('Yes');
+      expect(rsvpService.getPlayerStatus('e1', 'pA')).toBe('Maybe');
+      expect(rsvpService.getPlayerStatus('e1', 'pB')).toBe('No');
+      expect(rsvpService.getPlayerStatus('e1', 'pC')).toBe('Yes');
     });
 
     it('should log an error and not add if status is invalid', () => {
-      rsvpService.addOrUpdateRsvp('playerInvalid', 'Accepted' as any); // Force invalid status
-      expect(rsvpService.getCounts().total).toBe(0); // Should not have been added
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'playerInvalid', 'Accepted' as any); // Force invalid status
+      expect(rsvpService.getCounts('e1').total).toBe(0); // Should not have been added
       expect(mockLogger.error).toHaveBeenCalledWith(
-        'addOrUpdateRsvp called with invalid status "Accepted" for player playerInvalid.'
+        'addOrUpdateRsvp called with invalid status',
+        { eventId: 'e1', playerId: 'playerInvalid', status: 'Accepted' }
       );
       expect(mockLogger.log).not.toHaveBeenCalledWith(
-        expect.stringContaining('Added new RSVP')
+        'Added new RSVP',
+        expect.anything()
       ); // Ensuring add log didn't happen
     });
 
@@ -202,86 +274,1158 @@ describe('RsvpService', () => {
   // --- Test getConfirmedAttendees ---
   describe('getConfirmedAttendees', () => {
     it('should return an empty array when the service is empty', () => {
-      expect(rsvpService.getConfirmedAttendees()).toEqual([]);
-      expect(mockLogger.log).toHaveBeenCalledWith(
-        'Retrieved 0 confirmed attendees.'
+      expect(rsvpService.getConfirmedAttendees('e1')).toEqual([]);
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        'Retrieved confirmed attendees',
+        { eventId: 'e1', attendeeCount: 0 }
       );
     });
 
     it('should return an empty array when no players have RSVPd "Yes"', () => {
-      rsvpService.addOrUpdateRsvp('p1', 'No');
-      rsvpService.addOrUpdateRsvp('p2', 'Maybe');
-      expect(rsvpService.getConfirmedAttendees()).toEqual([]);
-      expect(mockLogger.log).toHaveBeenCalledWith(
-        'Retrieved 0 confirmed attendees.'
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'No');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Maybe');
+      expect(rsvpService.getConfirmedAttendees('e1')).toEqual([]);
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        'Retrieved confirmed attendees',
+        { eventId: 'e1', attendeeCount: 0 }
       );
     });
 
     it('should return only the player IDs of those who RSVPd "Yes"', () => {
-      rsvpService.addOrUpdateRsvp('p1', 'Yes');
-      rsvpService.addOrUpdateRsvp('p2', 'No');
-      rsvpService.addOrUpdateRsvp('p3', 'Yes');
-      rsvpService.addOrUpdateRsvp('p4', 'Maybe');
-      rsvpService.addOrUpdateRsvp('p5', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'No');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p3', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p4', 'Maybe');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p5', 'Yes');
 
-      const attendees = rsvpService.getConfirmedAttendees();
+      const attendees = rsvpService.getConfirmedAttendees('e1');
       // using expect.arrayContaining because the order from a Map isn't guaranteed
       expect(attendees).toHaveLength(3);
       expect(attendees).toEqual(expect.arrayContaining(['p1', 'p3', 'p5']));
-      expect(mockLogger.log).toHaveBeenCalledWith(
-        'Retrieved 3 confirmed attendees.'
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        'Retrieved confirmed attendees',
+        { eventId: 'e1', attendeeCount: 3 }
       );
     });
+
+    it('should list players in the order they got their spot and keep counts in step', () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes', { guests: 2 });
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Maybe');
+      expect(rsvpService.getCounts('e1')).toEqual(expect.objectContaining({ confirmed: 1, maybe: 1, guests: 0 }));
+
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes', { guests: 1 });
+      expect(rsvpService.getConfirmedAttendees('e1')).toEqual(['p2', 'p1']);
+      expect(rsvpService.getCounts('e1')).toEqual(expect.objectContaining({ total: 2, confirmed: 2, maybe: 0, guests: 1, headcount: 3 }));
+    });
   });
 
   // --- Test getCounts ---
   describe('getCounts', () => {
     // Initial empty state tested in 'Initialization' suite
     it('should return correct counts after several additions', () => {
-      rsvpService.addOrUpdateRsvp('p1', 'Yes');
-      rsvpService.addOrUpdateRsvp('p2', 'No');
-      rsvpService.addOrUpdateRsvp('p3', 'Maybe');
-      rsvpService.addOrUpdateRsvp('p4', 'Yes');
-      rsvpService.addOrUpdateRsvp('p5', 'Maybe');
-      rsvpService.addOrUpdateRsvp('p6', 'Yes');
-      rsvpService.addOrUpdateRsvp('p7', 'No');
-
-      const counts = rsvpService.getCounts();
-      expect(counts).toEqual({ total: 7, confirmed: 3, declined: 2, maybe: 2 });
-      expect(mockLogger.log).toHaveBeenCalledWith(
-        'Calculated RSVP counts:',
-        counts
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'No');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p3', 'Maybe');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p4', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p5', 'Maybe');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p6', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p7', 'No');
+
+      const counts = rsvpService.getCounts('e1');
+      expect(counts).toEqual({ total: 7, confirmed: 3, declined: 2, maybe: 2, waitlisted: 0, guests: 0, headcount: 3 });
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        'Calculated RSVP counts',
+        { eventId: 'e1', counts }
       );
     });
 
     it('should return correct counts after additions and updates', () => {
-      rsvpService.addOrUpdateRsvp('p1', 'Yes');
-      rsvpService.addOrUpdateRsvp('p2', 'No');
-      rsvpService.addOrUpdateRsvp('p1', 'Maybe'); // p1 updated
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'No');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Maybe'); // p1 updated
 
-      const counts = rsvpService.getCounts();
-      expect(counts).toEqual({ total: 2, confirmed: 0, declined: 1, maybe: 1 });
+      const counts = rsvpService.getCounts('e1');
+      expect(counts).toEqual({ total: 2, confirmed: 0, declined: 1, maybe: 1, waitlisted: 0, guests: 0, headcount: 0 });
     });
   });
 
   // --- Test getPlayerStatus ---
   describe('getPlayerStatus', () => {
     it('should return the correct status for a player who has RSVPd', () => {
-      rsvpService.addOrUpdateRsvp('playerA', 'Maybe');
-      rsvpService.addOrUpdateRsvp('playerB', 'Yes');
-      expect(rsvpService.getPlayerStatus('playerA')).toBe('Maybe');
-      expect(rsvpService.getPlayerStatus('playerB')).toBe('Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'playerA', 'Maybe');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'playerB', 'Yes');
+      expect(rsvpService.getPlayerStatus('e1', 'playerA')).toBe('Maybe');
+      expect(rsvpService.getPlayerStatus('e1', 'playerB')).toBe('Yes');
     });
 
     it('should return undefined for a player who has not RSVPd', () => {
-      rsvpService.addOrUpdateRsvp('playerA', 'No'); // Add someone else
-      expect(rsvpService.getPlayerStatus('nonExistentPlayer')).toBeUndefined();
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'playerA', 'No'); // Add someone else
+      expect(rsvpService.getPlayerStatus('e1', 'nonExistentPlayer')).toBeUndefined();
     });
 
     it('should return the updated status after a player changes their RSVP', () => {
-      rsvpService.addOrUpdateRsvp('playerC', 'No');
-      rsvpService.addOrUpdateRsvp('playerC', 'Yes'); // Update
-      expect(rsvpService.getPlayerStatus('playerC')).toBe('Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'playerC', 'No');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'playerC', 'Yes'); // Update
+      expect(rsvpService.getPlayerStatus('e1', 'playerC')).toBe('Yes');
+    });
+  });
+
+  // --- Test cross-event behaviour ---
+  describe('multiple events', () => {
+    it('should keep RSVPs for different events independent', () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e2', 'p1', 'No');
+      expect(rsvpService.getPlayerStatus('e1', 'p1')).toBe('Yes');
+      expect(rsvpService.getPlayerStatus('e2', 'p1')).toBe('No');
+      expect(rsvpService.getConfirmedAttendees('e2')).toEqual([]);
+      expect(rsvpService.getCounts('e2')).toEqual({
+        total: 1,
+        confirmed: 0,
+        declined: 1,
+        maybe: 0,
+        waitlisted: 0,
+        guests: 0,
+        headcount: 0,
+      });
+    });
+
+    it('should log an error and not add if eventId is missing', () => {
+      rsvpService.addOrUpdateRsvp(admin, '', 'p1', 'Yes');
+      expect(rsvpService.getEventIds()).toEqual([]);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'addOrUpdateRsvp called with invalid eventId',
+        expect.objectContaining({ eventId: '' })
+      );
+    });
+
+    it('should return all events a player said "Yes" to', () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e2', 'p1', 'Maybe');
+      rsvpService.addOrUpdateRsvp(admin, 'e3', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e3', 'p2', 'Yes');
+      expect(rsvpService.getEventsForPlayer('p1')).toEqual(['e1', 'e3']);
+      expect(rsvpService.getEventsForPlayer('p1', 'Maybe')).toEqual(['e2']);
+      expect(rsvpService.getEventsForPlayer('unknown')).toEqual([]);
+    });
+
+    it('should return counts for every event', () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Maybe');
+      rsvpService.addOrUpdateRsvp(admin, 'e2', 'p1', 'No');
+      expect(rsvpService.getCountsByEvent()).toEqual({
+        e1: { total: 2, confirmed: 1, declined: 0, maybe: 1, waitlisted: 0, guests: 0, headcount: 1 },
+        e2: { total: 1, confirmed: 0, declined: 1, maybe: 0, waitlisted: 0, guests: 0, headcount: 0 },
+      });
+    });
+  });
+
+  // --- Test capacity limits and waitlist ---
+  describe('capacity and waitlist', () => {
+    beforeEach(() => {
+      rsvpService.setEventCapacity(admin, 'e1', 2);
+    });
+
+    it('should waitlist "Yes" responses once the event is full', () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p3', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p4', 'Yes');
+
+      expect(rsvpService.getConfirmedAttendees('e1')).toEqual(['p1', 'p2']);
+      expect(rsvpService.getWaitlist('e1')).toEqual(['p3', 'p4']);
+      expect(rsvpService.isWaitlisted('e1', 'p3')).toBe(true);
+      expect(rsvpService.getCounts('e1')).toEqual({
+        total: 4,
+        confirmed: 2,
+        declined: 0,
+        maybe: 0,
+        waitlisted: 2,
+        guests: 0,
+        headcount: 2,
+      });
+      expect(mockLogger.log).toHaveBeenCalledWith(
+        'Event is full; added player to the waitlist',
+        { eventId: 'e1', playerId: 'p4', position: 2 }
+      );
+    });
+
+    it('should promote the first waitlisted player when a confirmed player drops out', () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p3', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p4', 'Yes');
+
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Maybe');
+      expect(rsvpService.getConfirmedAttendees('e1')).toEqual(['p2', 'p3']);
+      expect(rsvpService.getWaitlist('e1')).toEqual(['p4']);
+      expect(mockLogger.log).toHaveBeenCalledWith(
+        'Promoted player from the waitlist',
+        { eventId: 'e1', playerId: 'p3' }
+      );
+
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'No');
+      expect(rsvpService.getConfirmedAttendees('e1')).toEqual(['p3', 'p4']);
+      expect(rsvpService.getWaitlist('e1')).toEqual([]);
+    });
+
+    it('should not promote anyone when a waitlisted player drops out', () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p3', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p4', 'Yes');
+
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p3', 'No');
+      expect(rsvpService.getConfirmedAttendees('e1')).toEqual(['p1', 'p2']);
+      expect(rsvpService.getWaitlist('e1')).toEqual(['p4']);
+    });
+
+    it('should keep a waitlisted player in place when they repeat "Yes"', () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p3', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p4', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p3', 'Yes');
+      expect(rsvpService.getWaitlist('e1')).toEqual(['p3', 'p4']);
+    });
+
+    it('should promote waitlisted players when the capacity is raised', () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p3', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p4', 'Yes');
+
+      rsvpService.setEventCapacity(admin, 'e1', 3);
+      expect(rsvpService.getConfirmedAttendees('e1')).toHaveLength(3);
+      expect(rsvpService.getWaitlist('e1')).toEqual(['p4']);
+
+      rsvpService.setEventCapacity(admin, 'e1', undefined);
+      expect(rsvpService.getEventCapacity('e1')).toBeUndefined();
+      expect(rsvpService.getWaitlist('e1')).toEqual([]);
+    });
+
+    it('should not promote anyone while a lowered capacity keeps the event full', () => {
+      rsvpService.setEventCapacity(admin, 'e1', 3);
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p3', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p4', 'Yes');
+      rsvpService.setEventCapacity(admin, 'e1', 1);
+
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'No');
+      expect(rsvpService.getConfirmedAttendees('e1')).toEqual(['p2', 'p3']);
+      expect(rsvpService.getWaitlist('e1')).toEqual(['p4']);
+      expect(mockLogger.log).not.toHaveBeenCalledWith(
+        'Promoted player from the waitlist',
+        expect.anything()
+      );
+
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'No');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p3', 'No');
+      expect(rsvpService.getConfirmedAttendees('e1')).toEqual(['p4']);
+      expect(rsvpService.getWaitlist('e1')).toEqual([]);
+    });
+
+    it('should not apply one event\'s capacity to another event', () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e2', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e2', 'p2', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e2', 'p3', 'Yes');
+      expect(rsvpService.getWaitlist('e2')).toEqual([]);
+    });
+
+    it('should log an error and ignore an invalid capacity', () => {
+      rsvpService.setEventCapacity(admin, 'e1', -1);
+      expect(rsvpService.getEventCapacity('e1')).toBe(2);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'setEventCapacity called with invalid capacity',
+        { eventId: 'e1', capacity: -1 }
+      );
+    });
+  });
+
+  // --- Test history and point-in-time queries ---
+  describe('history', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should record every status change with its previous status, time and source', () => {
+      jest.setSystemTime(new Date('2025-01-01T10:00:00Z'));
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Maybe');
+      jest.setSystemTime(new Date('2025-01-02T10:00:00Z'));
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes', { source: 'api' });
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes'); // No change, not recorded
+      rsvpService.addOrUpdateRsvp(admin, 'e2', 'p1', 'No');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'No');
+
+      expect(rsvpService.getPlayerHistory('p1', 'e1')).toEqual([
+        {
+          eventId: 'e1',
+          playerId: 'p1',
+          previousStatus: undefined,
+          newStatus: 'Maybe',
+          timestamp: new Date('2025-01-01T10:00:00Z'),
+          source: 'direct',
+        },
+        {
+          eventId: 'e1',
+          playerId: 'p1',
+          previousStatus: 'Maybe',
+          newStatus: 'Yes',
+          timestamp: new Date('2025-01-02T10:00:00Z'),
+          source: 'api',
+        },
+      ]);
+      expect(rsvpService.getPlayerHistory('p1')).toHaveLength(3);
+      expect(rsvpService.getHistory('e1')).toHaveLength(3);
+    });
+
+    it('should tag initial entries with the initialization source', () => {
+      const serviceWithData = new RsvpService(
+        mockLogger,
+        new InMemoryRsvpRepository(
+          createSeedRecords([{ eventId: 'e1', playerId: 'p1', status: 'Yes' }])
+        )
+      );
+      expect(serviceWithData.getHistory()[0].source).toBe('initialization');
+    });
+
+    it('should timestamp seed records with the given clock', () => {
+      const clock: IClock = { now: () => new Date('2025-03-01T12:00:00Z') };
+      const records = createSeedRecords(
+        [{ eventId: 'e1', playerId: 'p1', status: 'Yes' }],
+        'import',
+        clock
+      );
+      const serviceWithData = new RsvpService(
+        mockLogger,
+        new InMemoryRsvpRepository(records),
+        clock
+      );
+      expect(serviceWithData.getHistory()[0]).toMatchObject({
+        timestamp: new Date('2025-03-01T12:00:00Z'),
+        source: 'import',
+      });
+    });
+
+    it('should rebuild counts and confirmed attendees at a past moment', () => {
+      jest.setSystemTime(new Date('2025-01-01T10:00:00Z'));
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Maybe');
+      jest.setSystemTime(new Date('2025-01-03T10:00:00Z'));
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'No');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p3', 'Yes');
+
+      const nightBefore = new Date('2025-01-02T22:00:00Z');
+      expect(rsvpService.getCountsAt('e1', nightBefore)).toEqual({
+        total: 2,
+        confirmed: 1,
+        declined: 0,
+        maybe: 1,
+        waitlisted: 0,
+        guests: 0,
+        headcount: 1,
+      });
+      expect(rsvpService.getConfirmedAttendeesAt('e1', nightBefore)).toEqual([
+        'p1',
+      ]);
+      expect(
+        rsvpService.getCountsAt('e1', new Date('2024-12-31T00:00:00Z')).total
+      ).toBe(0);
+      expect(rsvpService.getConfirmedAttendees('e1')).toEqual(['p2', 'p3']);
+    });
+
+    it('should take capacity changes into account when rebuilding past state', () => {
+      jest.setSystemTime(new Date('2025-01-01T10:00:00Z'));
+      rsvpService.setEventCapacity(admin, 'e1', 1);
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+      jest.setSystemTime(new Date('2025-01-03T10:00:00Z'));
+      rsvpService.setEventCapacity(admin, 'e1', 2);
+
+      expect(
+        rsvpService.getCountsAt('e1', new Date('2025-01-02T00:00:00Z'))
+      ).toEqual({
+        total: 2,
+        confirmed: 1,
+        declined: 0,
+        maybe: 0,
+        waitlisted: 1,
+        guests: 0,
+        headcount: 1,
+      });
+      expect(rsvpService.getCounts('e1').confirmed).toBe(2);
+    });
+  });
+
+  // --- Test removal and change notifications ---
+  describe('removeRsvp', () => {
+    it('should remove an RSVP and promote the next waitlisted player', () => {
+      rsvpService.setEventCapacity(admin, 'e1', 1);
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+
+      expect(rsvpService.removeRsvp(admin, 'e1', 'p1')).toBe(true);
+      expect(rsvpService.getPlayerStatus('e1', 'p1')).toBeUndefined();
+      expect(rsvpService.getConfirmedAttendees('e1')).toEqual(['p2']);
+      expect(rsvpService.getHistory('e1')[2]).toMatchObject({
+        playerId: 'p1',
+        previousStatus: 'Yes',
+        newStatus: undefined,
+      });
+    });
+
+    it('should return false when there is nothing to remove', () => {
+      expect(rsvpService.removeRsvp(admin, 'e1', 'p1')).toBe(false);
+      expect(mockLogger.warn).toHaveBeenCalledWith('removeRsvp found no RSVP', {
+        eventId: 'e1',
+        playerId: 'p1',
+      });
+    });
+
+    it('should replay removals from the repository', () => {
+      const repository = new InMemoryRsvpRepository();
+      const service = new RsvpService(mockLogger, repository);
+      service.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      service.addOrUpdateRsvp(admin, 'e2', 'p1', 'No');
+      service.removeRsvp(admin, 'e1', 'p1');
+
+      const restored = new RsvpService(mockLogger, repository);
+      expect(restored.getEventIds()).toEqual(['e2']);
+      expect(mockLogger.warn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applyBatch', () => {
+    it('should apply every entry of a valid batch with one repository write', () => {
+      const repository = new InMemoryRsvpRepository();
+      const appendAll = jest.spyOn(repository, 'appendAll');
+      const service = new RsvpService(mockLogger, repository);
+      service.addOrUpdateRsvp(admin, 'e1', 'p2', 'No');
+      const listener = jest.fn();
+      service.subscribe(listener);
+
+      const result = service.applyBatch(admin, [
+        { eventId: 'e1', playerId: 'p1', status: 'Yes' },
+        { eventId: 'e1', playerId: 'p2', status: 'No' },
+        { eventId: 'e2', playerId: 'p1', status: 'Maybe' },
+      ]);
+
+      expect(result).toMatchObject({
+        mode: 'atomic',
+        committed: true,
+        appliedCount: 2,
+        rejectedCount: 0,
+      });
+      expect(result.results.map((item) => item.outcome)).toEqual([
+        'applied',
+        'unchanged',
+        'applied',
+      ]);
+      expect(appendAll).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(service.getHistory('e2')[0].source).toBe('batch');
+
+      const restored = new RsvpService(mockLogger, repository);
+      expect(restored.getPlayerStatus('e2', 'p1')).toBe('Maybe');
+    });
+
+    it('should apply nothing when any entry of an atomic batch is invalid', () => {
+      const result = rsvpService.applyBatch(admin, [
+        { eventId: 'e1', playerId: 'p1', status: 'Yes' },
+        { eventId: 'e1', playerId: '', status: 'Yes' },
+        { eventId: 'e1', playerId: 'p3', status: 'Perhaps' as RsvpStatus },
+        { eventId: 'e1', playerId: 'p1', status: 'No' },
+        null as unknown as RsvpEntry,
+      ]);
+
+      expect(result.committed).toBe(false);
+      expect(result.appliedCount).toBe(0);
+      expect(result.rejectedCount).toBe(4);
+      expect(result.results.map((item) => item.outcome)).toEqual([
+        'skipped',
+        'rejected',
+        'rejected',
+        'rejected',
+        'rejected',
+      ]);
+      expect(result.results.map((item) => item.error?.code)).toEqual([
+        undefined,
+        'INVALID_PLAYER_ID',
+        'INVALID_STATUS',
+        'DUPLICATE_IN_BATCH',
+        'INVALID_ENTRY',
+      ]);
+      expect(result.results[3].error?.message).toContain('at index 0');
+      expect(rsvpService.getEventIds()).toEqual([]);
+      expect(mockLogger.warn).toHaveBeenCalledWith('Rejected RSVP batch', {
+        entryCount: 5,
+        rejectedCount: 4,
+      });
+    });
+
+    it('should apply the valid entries in partial mode', () => {
+      rsvpService.setEventSchedule(admin, 'e2', {
+        cutoff: { kind: 'fixed', at: new Date('2000-01-01T00:00:00Z') },
+      });
+
+      const result = rsvpService.applyBatch(
+        admin,
+        [
+          { eventId: 'e1', playerId: 'p1', status: 'Yes' },
+          { eventId: 'e2', playerId: 'p1', status: 'Yes' },
+        ],
+        { mode: 'partial' }
+      );
+
+      expect(result.committed).toBe(true);
+      expect(result.results[1]).toMatchObject({
+        outcome: 'rejected',
+        error: { code: 'RSVP_LOCKED' },
+      });
+      expect(rsvpService.getPlayerStatus('e1', 'p1')).toBe('Yes');
+      expect(rsvpService.getPlayerStatus('e2', 'p1')).toBeUndefined();
+    });
+
+    it('should leave the state untouched when the repository write fails', () => {
+      const repository = new InMemoryRsvpRepository();
+      jest.spyOn(repository, 'appendAll').mockImplementation(() => {
+        throw new Error('disk full');
+      });
+      const service = new RsvpService(mockLogger, repository);
+
+      expect(() =>
+        service.applyBatch(admin, [{ eventId: 'e1', playerId: 'p1', status: 'Yes' }])
+      ).toThrow('disk full');
+      expect(service.getPlayerStatus('e1', 'p1')).toBeUndefined();
+    });
+  });
+
+  describe('guests', () => {
+    it('should count the guests of confirmed players in the headcount', () => {
+      rsvpService.setEventCapacity(admin, 'e1', 2);
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes', { guests: 2 });
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Maybe', { guests: 1 });
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p3', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p4', 'Yes', { guests: 3 }); // Waitlisted
+
+      expect(rsvpService.getCounts('e1')).toEqual({
+        total: 4,
+        confirmed: 2,
+        declined: 0,
+        maybe: 1,
+        waitlisted: 1,
+        guests: 2,
+        headcount: 4,
+      });
+      expect(rsvpService.getConfirmedAttendeesWithGuests('e1')).toEqual([
+        { playerId: 'p1', guests: 2 },
+        { playerId: 'p3', guests: 0 },
+      ]);
+
+      // Leaving out guests keeps them; removing the RSVP drops them
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+      expect(rsvpService.getGuests('e1', 'p2')).toBe(1);
+      rsvpService.removeRsvp(admin, 'e1', 'p1');
+      expect(rsvpService.getGuests('e1', 'p1')).toBe(0);
+      // p4 takes p1's spot and brings 3 guests; p2 is still waitlisted
+      expect(rsvpService.getCounts('e1').headcount).toBe(5);
+    });
+
+    it('should reject more guests than the event allows', () => {
+      rsvpService.setEventGuestLimit(admin, 'e1', 1);
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes', { guests: 1 });
+
+      expect(() =>
+        rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes', { guests: 2 })
+      ).toThrow(GuestLimitExceededError);
+      expect(rsvpService.getGuests('e1', 'p1')).toBe(1);
+
+      // Lowering the limit keeps the guests already added
+      rsvpService.setEventGuestLimit(admin, 'e1', 0);
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Maybe');
+      expect(rsvpService.getGuests('e1', 'p1')).toBe(1);
+      rsvpService.setEventGuestLimit(admin, 'e1', undefined);
+      expect(rsvpService.getEventGuestLimit('e1')).toBeUndefined();
+
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes', { guests: -1 });
+      expect(rsvpService.getPlayerStatus('e1', 'p2')).toBeUndefined();
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'addOrUpdateRsvp called with invalid guests',
+        { eventId: 'e1', playerId: 'p2', guests: -1 }
+      );
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes', { guests: 1e23 });
+      expect(rsvpService.getPlayerStatus('e1', 'p2')).toBeUndefined();
+      rsvpService.setEventGuestLimit(admin, 'e1', MAX_GUESTS + 1);
+      expect(rsvpService.getEventGuestLimit('e1')).toBeUndefined();
+    });
+
+    it('should restore guests and limits from the repository', () => {
+      const repository = new InMemoryRsvpRepository();
+      const service = new RsvpService(mockLogger, repository);
+      service.setEventGuestLimit(admin, 'e1', 2);
+      service.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes', { guests: 2 });
+      service.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes', { guests: 1 });
+
+      const restored = new RsvpService(mockLogger, repository);
+      expect(restored.getGuests('e1', 'p1')).toBe(1);
+      expect(restored.getEventGuestLimit('e1')).toBe(2);
+      expect(restored.getHistory('e1').map((change) => change.guests)).toEqual([
+        2, 1,
+      ]);
+    });
+
+    it('should check guest counts in batches', () => {
+      rsvpService.setEventGuestLimit(admin, 'e1', 1);
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes', { guests: 1 });
+
+      const result = rsvpService.applyBatch(
+        admin,
+        [
+          { eventId: 'e1', playerId: 'p1', status: 'Yes' }, // Keeps its guest
+          { eventId: 'e1', playerId: 'p2', status: 'Yes', guests: 2 },
+          { eventId: 'e1', playerId: 'p3', status: 'Yes', guests: 1.5 },
+        ],
+        { mode: 'partial' }
+      );
+      expect(result.results.map((item) => item.outcome)).toEqual([
+        'unchanged',
+        'rejected',
+        'rejected',
+      ]);
+      expect(result.results.map((item) => item.error?.code)).toEqual([
+        undefined,
+        'GUEST_LIMIT_EXCEEDED',
+        'INVALID_GUESTS',
+      ]);
+    });
+  });
+
+  describe('check-ins', () => {
+    it('should record check-ins, including walk-ins and locked events', () => {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.setEventSchedule(admin, 'e1', {
+        eventDate: new Date('2000-01-01T00:00:00Z'), // Already started
+      });
+
+      expect(rsvpService.checkIn(admin, 'e1', 'p1')).toBe(true);
+      expect(rsvpService.checkIn(admin, 'e1', 'p2')).toBe(true); // Never responded
+      expect(rsvpService.checkIn(admin, 'e1', 'p1')).toBe(false); // Already in
+      expect(rsvpService.getCheckedInPlayers('e1')).toEqual(['p1', 'p2']);
+      expect(rsvpService.isCheckedIn('e1', 'p2')).toBe(true);
+      expect(rsvpService.getCheckedInEventIds()).toEqual(['e1']);
+      // Checking in doesn't count as a response
+      expect(rsvpService.getPlayerStatus('e1', 'p2')).toBeUndefined();
+    });
+
+    it('should undo a check-in and replay both from the repository', () => {
+      const repository = new InMemoryRsvpRepository();
+      const service = new RsvpService(mockLogger, repository);
+      service.checkIn(admin, 'e1', 'p1');
+      service.checkIn(admin, 'e1', 'p2');
+      expect(service.undoCheckIn(admin, 'e1', 'p1')).toBe(true);
+      expect(service.undoCheckIn(admin, 'e1', 'p1')).toBe(false);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'undoCheckIn found no check-in',
+        { eventId: 'e1', playerId: 'p1' }
+      );
+
+      const restored = new RsvpService(mockLogger, repository);
+      expect(restored.getCheckedInPlayers('e1')).toEqual(['p2']);
+      expect(restored.getHistory()).toEqual([]); // Check-ins aren't RSVP changes
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should notify added, updated and removed changes with both statuses', () => {
+      const listener = jest.fn();
+      rsvpService.subscribe(listener);
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Maybe', { source: 'api' });
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Maybe'); // No change, no notification
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.removeRsvp(admin, 'e1', 'p1');
+
+      expect(listener.mock.calls.map(([notification]) => notification)).toEqual([
+        expect.objectContaining({
+          type: 'added',
+          eventId: 'e1',
+          playerId: 'p1',
+          newStatus: 'Maybe',
+          source: 'api',
+        }),
+        expect.objectContaining({
+          type: 'updated',
+          previousStatus: 'Maybe',
+          newStatus: 'Yes',
+        }),
+        expect.objectContaining({ type: 'removed', previousStatus: 'Yes' }),
+      ]);
+      expect(listener.mock.calls[0][0].timestamp).toBeInstanceOf(Date);
+    });
+
+    it('should filter by type and stop after unsubscribing', () => {
+      const listener = jest.fn();
+      const unsubscribe = rsvpService.subscribe(listener, ['removed']);
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.removeRsvp(admin, 'e1', 'p1');
+      unsubscribe();
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      rsvpService.removeRsvp(admin, 'e1', 'p1');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].type).toBe('removed');
+    });
+
+    it('should log a failing listener without affecting the change or other listeners', () => {
+      const failing = jest.fn(() => {
+        throw new Error('bot offline');
+      });
+      const other = jest.fn();
+      rsvpService.subscribe(failing);
+      rsvpService.subscribe(other);
+
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      expect(rsvpService.getPlayerStatus('e1', 'p1')).toBe('Yes');
+      expect(other).toHaveBeenCalledTimes(1);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'RSVP listener failed',
+        expect.any(Error),
+        { eventId: 'e1', playerId: 'p1', notificationType: 'added' }
+      );
+    });
+
+    it('should not notify while replaying stored records', () => {
+      const repository = new InMemoryRsvpRepository(
+        createSeedRecords([{ eventId: 'e1', playerId: 'p1', status: 'Yes' }])
+      );
+      const listener = jest.fn();
+      new RsvpService(mockLogger, repository).subscribe(listener);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  // --- Test recurring series and series-level RSVPs ---
+  describe('series', () => {
+    let now: Date;
+    const clock: IClock = { now: () => now };
+    let repository: InMemoryRsvpRepository;
+    // Every Tuesday evening in March 2025
+    const tuesdays = {
+      id: 'tue',
+      start: new Date('2025-03-04T18:00:00Z'),
+      rule: { frequency: 'weekly' as const, count: 4 },
+    };
+
+    beforeEach(() => {
+      now = new Date('2025-03-01T12:00:00Z');
+      repository = new InMemoryRsvpRepository();
+      rsvpService = new RsvpService(mockLogger, repository, clock);
+      rsvpService.defineSeries(admin, tuesdays);
+    });
+
+    it('should list the occurrences of a series as events of their own', () => {
+      expect(
+        rsvpService.getSeriesOccurrences('tue').map(({ eventId }) => eventId)
+      ).toEqual(['tue@2025-03-04', 'tue@2025-03-11', 'tue@2025-03-18', 'tue@2025-03-25']);
+      expect(rsvpService.getOccurrence('tue@2025-03-11')).toMatchObject({
+        seriesId: 'tue',
+        index: 1,
+      });
+      expect(rsvpService.getRsvpCutoff('tue@2025-03-11')).toEqual(
+        new Date('2025-03-11T18:00:00Z')
+      );
+    });
+
+    it('should apply a series RSVP to every occurrence unless overridden', () => {
+      rsvpService.setSeriesRsvp(admin, 'tue', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'tue@2025-03-11', 'p1', 'No');
+
+      expect(rsvpService.getPlayerStatus('tue@2025-03-04', 'p1')).toBe('Yes');
+      expect(rsvpService.getPlayerStatus('tue@2025-03-11', 'p1')).toBe('No');
+      expect(rsvpService.getConfirmedAttendees('tue@2025-03-18')).toEqual(['p1']);
+      expect(rsvpService.getEventsForPlayer('p1')).toEqual([
+        'tue@2025-03-04',
+        'tue@2025-03-18',
+        'tue@2025-03-25',
+      ]);
+
+      // Removing the exception falls back to the series response
+      expect(rsvpService.removeRsvp(admin, 'tue@2025-03-11', 'p1')).toBe(true);
+      expect(rsvpService.getPlayerStatus('tue@2025-03-11', 'p1')).toBe('Yes');
+    });
+
+    it('should not rewrite occurrences that already locked', () => {
+      rsvpService.setSeriesRsvp(admin, 'tue', 'p1', 'Yes');
+      now = new Date('2025-03-12T09:00:00Z');
+      rsvpService.setSeriesRsvp(admin, 'tue', 'p1', 'No');
+
+      expect(rsvpService.getPlayerStatus('tue@2025-03-04', 'p1')).toBe('Yes');
+      expect(rsvpService.getPlayerStatus('tue@2025-03-11', 'p1')).toBe('Yes');
+      expect(rsvpService.getPlayerStatus('tue@2025-03-18', 'p1')).toBe('No');
+      expect(rsvpService.getSeriesRsvp('tue', 'p1')).toBe('No');
+    });
+
+    it('should hold the spots of series "Yes" responses in a full occurrence', () => {
+      rsvpService.setEventCapacity(admin, 'tue@2025-03-11', 1);
+      rsvpService.setSeriesRsvp(admin, 'tue', 'p1', 'Yes');
+      rsvpService.addOrUpdateRsvp(admin, 'tue@2025-03-11', 'p2', 'Yes');
+
+      expect(rsvpService.getConfirmedAttendees('tue@2025-03-11')).toEqual(['p1']);
+      expect(rsvpService.getWaitlist('tue@2025-03-11')).toEqual(['p2']);
+
+      // An exception frees the spot for the next player in line
+      rsvpService.addOrUpdateRsvp(admin, 'tue@2025-03-11', 'p1', 'No');
+      expect(rsvpService.getConfirmedAttendees('tue@2025-03-11')).toEqual(['p2']);
+    });
+
+    it('should notify subscribers of every occurrence a series RSVP changes', () => {
+      rsvpService.addOrUpdateRsvp(admin, 'tue@2025-03-18', 'p1', 'No');
+      now = new Date('2025-03-05T09:00:00Z'); // The first occurrence has locked
+      const listener = jest.fn();
+      rsvpService.subscribe(listener);
+
+      rsvpService.setSeriesRsvp(admin, 'tue', 'p1', 'Yes', { source: 'api' });
+
+      expect(listener.mock.calls.map(([notification]) => notification)).toEqual([
+        {
+          type: 'added',
+          eventId: 'tue@2025-03-11',
+          playerId: 'p1',
+          newStatus: 'Yes',
+          timestamp: now,
+          source: 'api',
+        },
+        expect.objectContaining({ type: 'added', eventId: 'tue@2025-03-25' }),
+      ]);
+
+      listener.mockClear();
+      rsvpService.removeSeriesRsvp(admin, 'tue', 'p1');
+      expect(listener.mock.calls.map(([{ type, eventId }]) => `${type} ${eventId}`)).toEqual([
+        'removed tue@2025-03-11',
+        'removed tue@2025-03-25',
+      ]);
+    });
+
+    it('should reject series RSVPs once every occurrence has locked', () => {
+      const listener = jest.fn();
+      rsvpService.subscribe(listener);
+      now = new Date('2025-03-26T09:00:00Z');
+
+      expect(() => rsvpService.setSeriesRsvp(admin, 'tue', 'p1', 'Yes')).toThrow(
+        RsvpLockedError
+      );
+      expect(rsvpService.getSeriesRsvp('tue', 'p1')).toBeUndefined();
+      expect(repository.load()).toHaveLength(1); // Just the series itself
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should reject series RSVPs to unknown series', () => {
+      rsvpService.setSeriesRsvp(admin, 'wed', 'p1', 'Yes');
+      expect(rsvpService.getSeriesRsvp('wed', 'p1')).toBeUndefined();
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'setSeriesRsvp called with an unknown seriesId',
+        { seriesId: 'wed', playerId: 'p1' }
+      );
+    });
+
+    it('should restore series and their RSVPs from the repository', () => {
+      rsvpService.setSeriesRsvp(admin, 'tue', 'p1', 'Maybe');
+      rsvpService.addOrUpdateRsvp(admin, 'tue@2025-03-18', 'p1', 'Yes');
+
+      const restored = new RsvpService(mockLogger, repository, clock);
+      expect(restored.getSeries('tue')).toEqual(tuesdays);
+      expect(restored.getCountsByEvent()).toEqual(rsvpService.getCountsByEvent());
+      expect(restored.getPlayerStatus('tue@2025-03-25', 'p1')).toBe('Maybe');
+    });
+  });
+
+  // --- Test RSVP cutoffs and locking ---
+  describe('deadlines', () => {
+    let now: Date;
+    const clock: IClock = { now: () => now };
+
+    beforeEach(() => {
+      now = new Date('2025-03-01T12:00:00Z');
+      rsvpService = new RsvpService(
+        mockLogger,
+        new InMemoryRsvpRepository(),
+        clock
+      );
+    });
+
+    it('should accept changes before the cutoff and reject them afterwards', () => {
+      rsvpService.setEventSchedule(admin, 'e1', {
+        eventDate: new Date('2025-03-10T18:00:00Z'),
+        cutoff: { kind: 'relative', hoursBefore: 24 },
+      });
+      expect(rsvpService.getRsvpCutoff('e1')).toEqual(
+        new Date('2025-03-09T18:00:00Z')
+      );
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Maybe');
+
+      now = new Date('2025-03-09T18:00:00Z');
+      expect(rsvpService.getRsvpLock('e1')).toEqual({
+        reason: 'cutoff',
+        since: new Date('2025-03-09T18:00:00Z'),
+      });
+      expect(() => rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes')).toThrow(
+        new RsvpLockedError('e1', {
+          reason: 'cutoff',
+          since: new Date('2025-03-09T18:00:00Z'),
+        })
+      );
+      expect(rsvpService.getPlayerStatus('e1', 'p1')).toBe('Maybe');
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Rejected RSVP change: RSVPs for event e1 closed at 2025-03-09T18:00:00.000Z.',
+        { eventId: 'e1', playerId: 'p1', lockReason: 'cutoff' }
+      );
+      // Repeating the current status is rejected too, as in applyBatch
+      expect(() =>
+        rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Maybe')
+      ).toThrow(RsvpLockedError);
+      expect(() =>
+        rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Maybe', { override: true })
+      ).not.toThrow();
+    });
+
+    it('should support a fixed cutoff without an event date', () => {
+      rsvpService.setEventSchedule(admin, 'e1', {
+        cutoff: { kind: 'fixed', at: new Date('2025-03-01T11:00:00Z') },
+      });
+      expect(() => rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes')).toThrow(
+        RsvpLockedError
+      );
+      expect(() =>
+        rsvpService.addOrUpdateRsvp(admin, 'e2', 'p1', 'Yes')
+      ).not.toThrow();
+    });
+
+    it('should freeze past events automatically', () => {
+      rsvpService.setEventSchedule(admin, 'e1', {
+        eventDate: new Date('2025-02-01T00:00:00Z'),
+      });
+      expect(() => rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes')).toThrow(
+        'Event e1 started at 2025-02-01T00:00:00.000Z; its RSVPs are frozen.'
+      );
+      expect(rsvpService.getRsvpLock('e1')?.reason).toBe('event-past');
+    });
+
+    it('should let organizers override the lock', () => {
+      rsvpService.setEventSchedule(admin, 'e1', {
+        eventDate: new Date('2025-02-01T00:00:00Z'),
+      });
+      rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes', {
+        override: true,
+        source: 'organizer',
+      });
+      expect(rsvpService.getPlayerStatus('e1', 'p1')).toBe('Yes');
+      expect(rsvpService.getHistory('e1')[0].timestamp).toEqual(now);
+    });
+
+    it('should clear the schedule and ignore invalid ones', () => {
+      rsvpService.setEventSchedule(admin, 'e1', {
+        eventDate: new Date('2025-02-01T00:00:00Z'),
+      });
+      rsvpService.setEventSchedule(admin, 'e1', {
+        cutoff: { kind: 'relative', hoursBefore: -1 },
+      });
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'setEventSchedule called with an invalid schedule',
+        expect.objectContaining({ eventId: 'e1' })
+      );
+      rsvpService.setEventSchedule(admin, 'e1', {});
+      expect(rsvpService.getEventSchedule('e1')).toBeUndefined();
+      expect(() =>
+        rsvpService.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes')
+      ).not.toThrow();
+    });
+
+    it('should restore schedules from the repository', () => {
+      const repository = new InMemoryRsvpRepository();
+      const service = new RsvpService(mockLogger, repository, clock);
+      service.setEventSchedule(admin, 'e1', {
+        eventDate: new Date('2025-02-01T00:00:00Z'),
+      });
+      const restored = new RsvpService(mockLogger, repository, clock);
+      expect(restored.getRsvpLock('e1')?.reason).toBe('event-past');
+    });
+  });
+
+  // --- Test persistence through the repository ---
+  describe('versions', () => {
+    it('should count the stored changes of each RSVP and restore them on replay', () => {
+      const repository = new InMemoryRsvpRepository();
+      const service = new RsvpService(mockLogger, repository);
+      service.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      service.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes'); // No change, same version
+      service.addOrUpdateRsvp(admin, 'e1', 'p1', 'No');
+      service.applyBatch(admin, [{ eventId: 'e1', playerId: 'p2', status: 'Maybe' }]);
+      service.removeRsvp(admin, 'e1', 'p2');
+
+      expect(service.getVersionedRsvp('e1', 'p1')).toEqual({
+        eventId: 'e1',
+        playerId: 'p1',
+        status: 'No',
+        guests: 0,
+        version: 2,
+      });
+      // A removed RSVP keeps counting, so an old version never matches again
+      expect(service.getVersionedRsvp('e1', 'p2')).toMatchObject({
+        status: undefined,
+        version: 2,
+      });
+      expect(service.getVersionedRsvp('e1', 'p3').version).toBe(0);
+
+      const restored = new RsvpService(mockLogger, repository);
+      expect(restored.getVersionedRsvp('e1', 'p1').version).toBe(2);
+      expect(restored.getVersionedRsvp('e1', 'p2').version).toBe(2);
+    });
+
+    it('should apply a change only while the expected version is current', () => {
+      const repository = new InMemoryRsvpRepository();
+      const service = new RsvpService(mockLogger, repository);
+      const { version } = service.getVersionedRsvp('e1', 'p1');
+      service.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes', { expectedVersion: version });
+
+      // A second client still holding version 0 loses instead of overwriting
+      expect(() =>
+        service.addOrUpdateRsvp(admin, 'e1', 'p1', 'No', { expectedVersion: version })
+      ).toThrow(new RsvpVersionConflictError('e1', 'p1', 0, 1));
+      expect(() =>
+        service.removeRsvp(admin, 'e1', 'p1', { expectedVersion: version })
+      ).toThrow(RsvpVersionConflictError);
+      expect(service.getPlayerStatus('e1', 'p1')).toBe('Yes');
+      expect(repository.load()).toHaveLength(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Rejected RSVP change: RSVP of player p1 for event e1 is at version 1, not 0.',
+        { eventId: 'e1', playerId: 'p1', expectedVersion: 0, actualVersion: 1 }
+      );
+
+      expect(service.removeRsvp(admin, 'e1', 'p1', { expectedVersion: 1 })).toBe(true);
+      expect(service.getVersionedRsvp('e1', 'p1').version).toBe(2);
+    });
+  });
+
+  describe('authorization', () => {
+    const player: Principal = { role: 'player', id: 'p1' };
+    const organizer: Principal = {
+      role: 'organizer',
+      id: 'o1',
+      eventIds: ['e1', 'tue'],
+    };
+
+    it('should let players change only their own RSVPs, without overriding locks', () => {
+      rsvpService.addOrUpdateRsvp(player, 'e1', 'p1', 'Yes');
+      expect(rsvpService.removeRsvp(player, 'e1', 'p1')).toBe(true);
+
+      expect(() =>
+        rsvpService.addOrUpdateRsvp(player, 'e1', 'p2', 'Yes')
+      ).toThrow(new RsvpAuthorizationError(player, 'change-rsvp', 'e1', 'p2'));
+      expect(() =>
+        rsvpService.addOrUpdateRsvp(player, 'e1', 'p1', 'Yes', {
+          override: true,
+        })
+      ).toThrow(RsvpAuthorizationError);
+      expect(() => rsvpService.setEventCapacity(player, 'e1', 10)).toThrow(
+        'Player p1 may not manage event e1.'
+      );
+      expect(rsvpService.getPlayerStatus('e1', 'p2')).toBeUndefined();
+      expect(mockLogger.warn).toHaveBeenCalledWith('Authorization denied', {
+        actorId: 'p1',
+        role: 'player',
+        action: 'change-rsvp',
+        eventId: 'e1',
+        playerId: 'p2',
+        reason:
+          'Player p1 may only change their own RSVPs, not those of player p2.',
+      });
+    });
+
+    it('should limit organizers to their events and the occurrences of their series', () => {
+      rsvpService.defineSeries(organizer, {
+        id: 'tue',
+        start: new Date('2025-03-04T18:00:00Z'),
+        rule: { frequency: 'weekly', count: 2 },
+      });
+      rsvpService.setEventCapacity(organizer, 'e1', 1);
+      rsvpService.addOrUpdateRsvp(organizer, 'e1', 'p2', 'Yes', {
+        override: true,
+      });
+      rsvpService.checkIn(organizer, 'tue@2025-03-11', 'p2');
+
+      expect(() =>
+        rsvpService.addOrUpdateRsvp(organizer, 'e2', 'p2', 'Yes')
+      ).toThrow("Organizer o1 doesn't organize event e2.");
+      expect(rsvpService.getPlayerStatus('e1', 'p2')).toBe('Yes');
+      expect(rsvpService.isCheckedIn('tue@2025-03-11', 'p2')).toBe(true);
+    });
+
+    it('should reject the batch entries the actor may not make as FORBIDDEN', () => {
+      const result = rsvpService.applyBatch(
+        player,
+        [
+          { eventId: 'e1', playerId: 'p1', status: 'Yes' },
+          { eventId: 'e1', playerId: 'p2', status: 'Yes' },
+        ],
+        { mode: 'partial' }
+      );
+
+      expect(result.results.map(({ outcome }) => outcome)).toEqual([
+        'applied',
+        'rejected',
+      ]);
+      expect(result.results[1].error?.code).toBe('FORBIDDEN');
+      expect(rsvpService.getPlayerStatus('e1', 'p2')).toBeUndefined();
+    });
+  });
+
+  describe('repository', () => {
+    it('should append every change to the repository', () => {
+      const repository = new InMemoryRsvpRepository();
+      const service = new RsvpService(mockLogger, repository);
+      service.setEventCapacity(admin, 'e1', 1);
+      service.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      service.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes'); // No change, not stored
+
+      expect(repository.load().map((record) => record.kind)).toEqual([
+        'capacity',
+        'rsvp',
+      ]);
+    });
+
+    it('should restore the same state from the records of a previous instance', () => {
+      const repository = new InMemoryRsvpRepository();
+      const service = new RsvpService(mockLogger, repository);
+      service.setEventCapacity(admin, 'e1', 1);
+      service.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+      service.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+      service.addOrUpdateRsvp(admin, 'e1', 'p3', 'Yes');
+      service.addOrUpdateRsvp(admin, 'e2', 'p1', 'Maybe');
+
+      const restored = new RsvpService(mockLogger, repository);
+      expect(restored.getCountsByEvent()).toEqual(service.getCountsByEvent());
+      expect(restored.getWaitlist('e1')).toEqual(['p2', 'p3']);
+      expect(restored.getEventCapacity('e1')).toBe(1);
+      expect(restored.getHistory()).toEqual(service.getHistory());
+    });
+
+    it('should leave the state untouched when the repository fails to write', () => {
+      const repository = new InMemoryRsvpRepository();
+      jest.spyOn(repository, 'append').mockImplementation(() => {
+        throw new Error('disk full');
+      });
+      const service = new RsvpService(mockLogger, repository);
+
+      expect(() => service.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes')).toThrow(
+        'disk full'
+      );
+      expect(service.getPlayerStatus('e1', 'p1')).toBeUndefined();
+      expect(service.getHistory()).toEqual([]);
     });
   });
 });
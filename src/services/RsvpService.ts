@@ -1,140 +1,2020 @@
-import { RsvpStatus, RsvpCounts, RsvpEntry } from '../interfaces';
-import { ILogger } from '../utils';
+import {
+  BatchErrorCode,
+  BatchItemResult,
+  BatchOptions,
+  BatchResult,
+  ConfirmedAttendee,
+  EventSchedule,
+  EventSeries,
+  isRsvpStatus,
+  isValidGuestCount,
+  isValidRecurrenceRule,
+  listOccurrences,
+  parseRsvp,
+  Principal,
+  RsvpAction,
+  RsvpStatus,
+  RsvpCounts,
+  RsvpEntry,
+  RsvpChange,
+  RsvpChangeRecord,
+  RsvpCutoff,
+  RsvpListener,
+  RsvpLock,
+  RsvpNotification,
+  RsvpNotificationType,
+  RsvpRecord,
+  RsvpUpdateOptions,
+  SeriesOccurrence,
+  VersionedRsvp,
+} from '../interfaces';
+import { IRsvpRepository, InMemoryRsvpRepository } from '../repositories';
+import { IClock, ILogger, systemClock } from '../utils';
 
+// Used by point-in-time replays so rebuilding old state doesn't spam the logs.
+const silentLogger: ILogger = {
+  log: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+// One response of a player to a whole series; undefined status removes it.
+interface SeriesResponse {
+  status?: RsvpStatus;
+  timestamp: Date;
+}
+
+// The running totals of one event, kept up to date on every write so reads
+// don't scan its RSVPs.
+interface EventTally {
+  statuses: Record<RsvpStatus, number>; // Effective responses per status
+  confirmed: Set<string>; // "Yes" players holding a spot
+  guests: number; // Guests of the confirmed players
+}
+
+// What one player adds to an event's tally.
+interface TallyContribution {
+  status?: RsvpStatus;
+  confirmed: boolean;
+  guests: number;
+}
+
+const NO_CONTRIBUTION: TallyContribution = { confirmed: false, guests: 0 };
+
+// The batch error of each RsvpEntry field the domain schema can reject.
+const BATCH_ERROR_CODES: Partial<Record<string, BatchErrorCode>> = {
+  eventId: 'INVALID_EVENT_ID',
+  playerId: 'INVALID_PLAYER_ID',
+  status: 'INVALID_STATUS',
+  guests: 'INVALID_GUESTS',
+};
+
+/**
+ * Thrown when an RSVP change arrives after the event's RSVPs have locked.
+ */
+export class RsvpLockedError extends Error {
+  constructor(
+    public readonly eventId: string,
+    public readonly lock: RsvpLock
+  ) {
+    super(
+      lock.reason === 'event-past'
+        ? `Event ${eventId} started at ${lock.since.toISOString()}; its RSVPs are frozen.`
+        : `RSVPs for event ${eventId} closed at ${lock.since.toISOString()}.`
+    );
+    this.name = 'RsvpLockedError';
+  }
+}
+
+/**
+ * Thrown when a player wants to bring more guests than the event allows.
+ */
+export class GuestLimitExceededError extends Error {
+  constructor(
+    public readonly eventId: string,
+    public readonly guests: number,
+    public readonly maxGuests: number
+  ) {
+    super(
+      `Event ${eventId} allows at most ${maxGuests} guest(s) per player, not ${guests}.`
+    );
+    this.name = 'GuestLimitExceededError';
+  }
+}
+
+/**
+ * Thrown when a principal tries a change its role doesn't allow.
+ */
+export class RsvpAuthorizationError extends Error {
+  constructor(
+    public readonly principal: Principal,
+    public readonly action: RsvpAction,
+    public readonly eventId: string,
+    public readonly playerId?: string
+  ) {
+    super(describeDenial(principal, action, eventId, playerId));
+    this.name = 'RsvpAuthorizationError';
+  }
+}
+
+/**
+ * Thrown when a compare-and-set change expects a version of the RSVP that is
+ * no longer current, because someone else changed it in the meantime.
+ */
+export class RsvpVersionConflictError extends Error {
+  constructor(
+    public readonly eventId: string,
+    public readonly playerId: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number
+  ) {
+    super(
+      `RSVP of player ${playerId} for event ${eventId} is at version ${actualVersion}, not ${expectedVersion}.`
+    );
+    this.name = 'RsvpVersionConflictError';
+  }
+}
 
 export class RsvpService {
-  // Stores Player ID -> RSVP Status.
-  private rsvps: Map<string, RsvpStatus>;
+  // Stores Event ID -> (Player ID -> RSVP Status).
+  private rsvps: Map<string, Map<string, RsvpStatus>>;
+  // Stores Event ID -> (Player ID -> guests), for players who bring any.
+  private guests: Map<string, Map<string, number>>;
+  // Stores Event ID -> (Player ID -> number of stored changes to the RSVP).
+  private versions: Map<string, Map<string, number>>;
+  // Stores Event ID -> maximum number of confirmed players.
+  private capacities: Map<string, number>;
+  // Stores Event ID -> maximum number of guests per player.
+  private guestLimits: Map<string, number>;
+  // Stores Event ID -> ordered Player IDs whose "Yes" arrived once the event was full.
+  private waitlists: Map<string, string[]>;
+  // Stores Event ID -> start date and RSVP cutoff.
+  private schedules: Map<string, EventSchedule>;
+  // Stores Event ID -> Player IDs who checked in, in check-in order.
+  private checkIns: Map<string, Set<string>>;
+  // Stores Series ID -> series definition.
+  private series: Map<string, EventSeries>;
+  // Stores occurrence Event ID -> occurrence, for every defined series.
+  private occurrences: Map<string, SeriesOccurrence>;
+  // Stores Series ID -> (Player ID -> series-level responses, oldest first).
+  private seriesRsvps: Map<string, Map<string, SeriesResponse[]>>;
+  // Stores Event ID -> running counts and confirmed players.
+  private tallies: Map<string, EventTally>;
+  // Append-only log of status and capacity changes, oldest first.
+  private timeline: RsvpRecord[];
+  // Subscribers and the notification types they want (undefined means all).
+  private subscriptions: Array<{
+    listener: RsvpListener<any>;
+    types?: readonly RsvpNotificationType[];
+  }>;
   private readonly logger: ILogger; // Dependency Injection
+  private readonly repository: IRsvpRepository; // Dependency Injection
+  private readonly clock: IClock; // Dependency Injection
 
   /**
-   * Creates an instance of RsvpService.
+   * Creates an instance of RsvpService and restores its state from the repository.
    * @param logger - An implementation of ILogger for logging.
-   * @param initialEntries - Optional array of initial RSVP entries to populate the service.
+   * @param repository - An implementation of IRsvpRepository to load from and write to.
+   * @param clock - The source of the current time, for timestamps and RSVP cutoffs.
    */
-  constructor(logger: ILogger, initialEntries: RsvpEntry[] = []) {
-    // Dependency Injection: Storing the provided logger instance.
+  constructor(
+    logger: ILogger,
+    repository: IRsvpRepository = new InMemoryRsvpRepository(),
+    clock: IClock = systemClock
+  ) {
+    // Dependency Injection: Storing the provided logger, repository and clock instances.
     this.logger = logger;
-    this.rsvps = new Map<string, RsvpStatus>();
+    this.repository = repository;
+    this.clock = clock;
+    this.rsvps = new Map<string, Map<string, RsvpStatus>>();
+    this.guests = new Map<string, Map<string, number>>();
+    this.versions = new Map<string, Map<string, number>>();
+    this.capacities = new Map<string, number>();
+    this.guestLimits = new Map<string, number>();
+    this.waitlists = new Map<string, string[]>();
+    this.schedules = new Map<string, EventSchedule>();
+    this.checkIns = new Map<string, Set<string>>();
+    this.series = new Map<string, EventSeries>();
+    this.occurrences = new Map<string, SeriesOccurrence>();
+    this.seriesRsvps = new Map<string, Map<string, SeriesResponse[]>>();
+    this.tallies = new Map<string, EventTally>();
+    this.timeline = [];
+    this.subscriptions = [];
 
-    if (initialEntries && initialEntries.length > 0) {
-      this.logger.log(
-        `Initializing RsvpService with ${initialEntries.length} entries.`
-      );
-      initialEntries.forEach((entry) => {
-        if (!entry.playerId || !entry.status) {
-          this.logger.warn('Skipping invalid initial entry:', entry);
-          return; // Early return for this invalid entry
+    const storedRecords = this.repository.load();
+    if (storedRecords.length > 0) {
+      this.logger.log('Initializing RsvpService from stored records', {
+        recordCount: storedRecords.length,
+      });
+      storedRecords.forEach((record) => {
+        if (!this.isValidRecord(record)) {
+          this.logger.warn('Skipping invalid stored record', { record });
+          return; // Early return for this invalid record
         }
-        // Directly using the addOrUpdate method to leverage its logic/logging
-        this.addOrUpdateRsvp(entry.playerId, entry.status, true);
+        this.applyRecord(record, true);
       });
     } else {
-      this.logger.log('Initializing RsvpService with empty state.');
+      this.logger.log('Initializing RsvpService with empty state');
     }
   }
 
   /**
-   * Adds or updates the RSVP status for a given player ID.
-   * This method is focused and adheres to SRP.
+   * Adds or updates the RSVP status for a given player at a given event.
+   * This method is focused and adheres to SRP. Repeating the current status
+   * and guests stores nothing and notifies no one.
+   * @param actor - Who makes the change: the player themselves, an organizer of the event, or an admin.
+   * @param eventId - The unique identifier for the event.
    * @param playerId - The unique identifier for the player.
    * @param status - The player's RSVP status ("Yes", "No", or "Maybe").
-   * @param isInitialization
+   * @param options - Optional flags such as the source recorded in the history, the player's guests, and the expected version.
+   * @throws RsvpAuthorizationError if the actor may not change this RSVP, or may not override the lock.
+   * @throws RsvpVersionConflictError if `expectedVersion` is given and the RSVP has changed since.
+   * @throws RsvpLockedError if the event's RSVPs have locked and no override is given, even for a write that changes nothing.
+   * @throws GuestLimitExceededError if the player brings more guests than the event allows.
    */
   addOrUpdateRsvp(
+    actor: Principal,
+    eventId: string,
     playerId: string,
     status: RsvpStatus,
-    isInitialization: boolean = false
+    options: RsvpUpdateOptions = {}
   ): void {
+    const { source = 'direct', override = false } = options;
+
     // Input validation
+    if (!eventId) {
+      this.logger.error('addOrUpdateRsvp called with invalid eventId', {
+        eventId,
+        playerId,
+      });
+      return; // Early return
+    }
     if (!playerId) {
-      this.logger.error('addOrUpdateRsvp called with invalid playerId.');
+      this.logger.error('addOrUpdateRsvp called with invalid playerId', {
+        eventId,
+        playerId,
+      });
       return; // Early return
     }
-    const validStatuses: RsvpStatus[] = ['Yes', 'No', 'Maybe'];
-    if (!validStatuses.includes(status)) {
-      this.logger.error(
-        `addOrUpdateRsvp called with invalid status "${status}" for player ${playerId}.`
-      );
+    if (!isRsvpStatus(status)) {
+      this.logger.error('addOrUpdateRsvp called with invalid status', {
+        eventId,
+        playerId,
+        status,
+      });
+      return; // Early return
+    }
+    if (options.guests !== undefined && !isValidGuestCount(options.guests)) {
+      this.logger.error('addOrUpdateRsvp called with invalid guests', {
+        eventId,
+        playerId,
+        guests: options.guests,
+      });
       return; // Early return
     }
 
-    const previousStatus = this.rsvps.get(playerId);
-    this.rsvps.set(playerId, status);
+    this.authorize(
+      actor,
+      override ? 'override' : 'change-rsvp',
+      eventId,
+      playerId
+    );
+    this.checkVersion(eventId, playerId, options.expectedVersion);
+    // Checked first, so a locked event rejects even a write that changes nothing
+    this.checkLock(eventId, playerId, override);
+    const previousStatus = this.getPlayerStatus(eventId, playerId);
+    const previousGuests = this.getGuests(eventId, playerId);
+    const guests = options.guests ?? previousGuests;
+    if (guests !== previousGuests) {
+      const limitError = this.checkGuestLimit(eventId, guests);
+      if (limitError) {
+        this.logger.warn(`Rejected RSVP change: ${limitError.message}`, {
+          eventId,
+          playerId,
+          guests,
+        });
+        throw limitError;
+      }
+    }
+    const guestFields = guests > 0 ? { guests } : {};
+    if (previousStatus === status && guests === previousGuests) {
+      this.logger.log('RSVP unchanged', {
+        eventId,
+        playerId,
+        status,
+        ...guestFields,
+      });
+      return; // Nothing to store or announce
+    }
+    this.recordChange(eventId, playerId, status, source, override, guests);
+
+    if (previousStatus) {
+      this.logger.log('Updated RSVP', {
+        eventId,
+        playerId,
+        previousStatus,
+        status,
+        ...guestFields,
+      });
+    } else {
+      this.logger.log('Added new RSVP', {
+        eventId,
+        playerId,
+        status,
+        ...guestFields,
+      });
+    }
+  }
+
+  /**
+   * Adds or updates many RSVPs at once. Every entry is checked before anything
+   * is applied: in the default "atomic" mode one invalid entry rejects the
+   * whole batch, while "partial" mode applies the valid entries. The applied
+   * changes are stored with a single repository write, so they persist
+   * together or not at all.
+   * @param actor - Who makes the changes; entries they may not make are rejected as FORBIDDEN.
+   * @param entries - The RSVPs to set, in order; each is checked with `parseRsvp`.
+   * @param options - The mode, plus the source and override flag of every change.
+   * @returns A BatchResult with one result per entry.
+   */
+  applyBatch(
+    actor: Principal,
+    entries: RsvpEntry[],
+    options: BatchOptions = {}
+  ): BatchResult {
+    const { mode = 'atomic', source = 'batch', override = false } = options;
 
-    if (!isInitialization) {
-      if (previousStatus) {
-        this.logger.log(
-          `Updated RSVP for player ${playerId} from ${previousStatus} to ${status}.`
-        );
+    const firstIndexes = new Map<string, number>();
+    const parsedEntries: RsvpEntry[] = [];
+    const results: BatchItemResult[] = entries.map((raw, index) => {
+      const { entry, error } = this.checkBatchEntry(
+        actor,
+        raw,
+        override,
+        firstIndexes,
+        index
+      );
+      const result: BatchItemResult = {
+        index,
+        eventId: entry?.eventId ?? raw?.eventId,
+        playerId: entry?.playerId ?? raw?.playerId,
+        outcome: 'applied',
+      };
+      if (!entry) {
+        result.outcome = 'rejected';
+        result.error = error;
+      } else if (
+        this.getPlayerStatus(entry.eventId, entry.playerId) === entry.status &&
+        this.getGuests(entry.eventId, entry.playerId) === entry.guests
+      ) {
+        result.outcome = 'unchanged';
       } else {
-        this.logger.log(`Added new RSVP for player ${playerId}: ${status}.`);
+        parsedEntries[index] = entry;
       }
+      return result;
+    });
+    const rejectedCount = results.filter(
+      (result) => result.outcome === 'rejected'
+    ).length;
+
+    if (mode === 'atomic' && rejectedCount > 0) {
+      results.forEach((result) => {
+        if (result.outcome === 'applied') {
+          result.outcome = 'skipped';
+        }
+      });
+      this.logger.warn('Rejected RSVP batch', {
+        entryCount: entries.length,
+        rejectedCount,
+      });
+      return {
+        mode,
+        committed: false,
+        appliedCount: 0,
+        rejectedCount,
+        results,
+      };
     }
+
+    const timestamp = this.clock.now();
+    const records: RsvpChangeRecord[] = results
+      .filter((result) => result.outcome === 'applied')
+      .map(({ index }) => {
+        const { eventId, playerId, status, guests = 0 } = parsedEntries[index];
+        return {
+          kind: 'rsvp',
+          eventId,
+          playerId,
+          previousStatus: this.getPlayerStatus(eventId, playerId),
+          newStatus: status,
+          ...(guests > 0 ? { guests } : {}),
+          timestamp,
+          source,
+        };
+      });
+    // Persisting first, so a failed write leaves the in-memory state untouched.
+    this.repository.appendAll(records);
+    records.forEach((record) => this.applyRecord(record, false));
+    records.forEach((record) => this.notify(toNotification(record)));
+
+    this.logger.log('Applied RSVP batch', {
+      mode,
+      entryCount: entries.length,
+      appliedCount: records.length,
+      rejectedCount,
+    });
+    return {
+      mode,
+      committed: true,
+      appliedCount: records.length,
+      rejectedCount,
+      results,
+    };
   }
 
   /**
-   * Gets a list of player IDs who have confirmed ("Yes").
-   * This method derives state from the internal `rsvps` map.
-   * @returns An array of player IDs (strings).
+   * Removes a player's RSVP for an event, as if they had never responded.
+   * A confirmed player's spot goes to the first player on the waitlist.
+   * @param actor - Who makes the change: the player themselves, an organizer of the event, or an admin.
+   * @param eventId - The unique identifier for the event.
+   * @param playerId - The unique identifier for the player.
+   * @param options - Optional flags such as the source recorded in the history, and the expected version.
+   * @returns True if there was an RSVP to remove.
+   * @throws RsvpAuthorizationError if the actor may not change this RSVP, or may not override the lock.
+   * @throws RsvpVersionConflictError if `expectedVersion` is given and the RSVP has changed since.
+   * @throws RsvpLockedError if the event's RSVPs have locked and no override is given.
    */
-  getConfirmedAttendees(): string[] {
-    const confirmedIds: string[] = [];
-    // Iterating over the map entries. Using `for...of` is clear.
-    for (const [playerId, status] of this.rsvps.entries()) {
-      if (status === 'Yes') {
-        confirmedIds.push(playerId);
-      }
+  removeRsvp(
+    actor: Principal,
+    eventId: string,
+    playerId: string,
+    options: RsvpUpdateOptions = {}
+  ): boolean {
+    const { source = 'direct', override = false } = options;
+    this.authorize(
+      actor,
+      override ? 'override' : 'change-rsvp',
+      eventId,
+      playerId
+    );
+    this.checkVersion(eventId, playerId, options.expectedVersion);
+    // A series-level response can't be removed per occurrence; only an exception can.
+    const previousStatus = this.rsvps.get(eventId)?.get(playerId);
+    if (previousStatus === undefined) {
+      this.logger.warn('removeRsvp found no RSVP', { eventId, playerId });
+      return false;
     }
-    this.logger.log(`Retrieved ${confirmedIds.length} confirmed attendees.`);
+
+    this.recordChange(eventId, playerId, undefined, source, override, 0);
+    this.logger.log('Removed RSVP', { eventId, playerId, previousStatus });
+    return true;
+  }
+
+  /**
+   * Subscribes to RSVP changes. Listeners run synchronously after a change is
+   * stored; a listener that throws is logged and doesn't affect the others.
+   * A series-level response is announced once for every occurrence whose
+   * effective status it changes.
+   * @param listener - Called with an RsvpNotification for every matching change.
+   * @param types - The notification types to receive; all of them by default.
+   * @returns A function that removes the subscription.
+   */
+  subscribe<T extends RsvpNotificationType = RsvpNotificationType>(
+    listener: RsvpListener<T>,
+    types?: readonly T[]
+  ): () => void {
+    const subscription = { listener, types };
+    this.subscriptions.push(subscription);
+    return () => {
+      this.subscriptions = this.subscriptions.filter(
+        (current) => current !== subscription
+      );
+    };
+  }
+
+  /**
+   * Gets a list of player IDs who have confirmed ("Yes") for an event.
+   * Every write keeps the event's confirmed set up to date (for an
+   * occurrence of a series, including the players' series-level responses),
+   * so this doesn't scan the event's RSVPs.
+   * @param eventId - The ID of the event to look up.
+   * @returns An array of player IDs (strings), in the order they got their spot.
+   */
+  getConfirmedAttendees(eventId: string): string[] {
+    const confirmedIds = Array.from(this.tallies.get(eventId)?.confirmed ?? []);
+    this.logger.debug?.('Retrieved confirmed attendees', {
+      eventId,
+      attendeeCount: confirmedIds.length,
+    });
     return confirmedIds;
-    // Alternative functional approach (slightly less explicit iteration):
-    // return Array.from(this.rsvps.entries())
-    //   .filter(([_, status]) => status === 'Yes')
-    //   .map(([playerId, _]) => playerId);
   }
 
   /**
-   * Calculating and returning the counts of different RSVP statuses.
-   * This method derives state and adheres to SRP (counting is its job).
+   * Gets the confirmed players of an event together with the guests they bring.
+   * @param eventId - The ID of the event to look up.
+   * @returns One ConfirmedAttendee per confirmed player, in the order of `getConfirmedAttendees`.
+   */
+  getConfirmedAttendeesWithGuests(eventId: string): ConfirmedAttendee[] {
+    return this.getConfirmedAttendees(eventId).map((playerId) => ({
+      playerId,
+      guests: this.getGuests(eventId, playerId),
+    }));
+  }
+
+  /**
+   * Gets how many guests a player brings to an event.
+   * @param eventId - The ID of the event to look up.
+   * @param playerId - The ID of the player to look up.
+   * @returns The guest count; 0 if the player brings none or hasn't responded.
+   */
+  getGuests(eventId: string, playerId: string): number {
+    return this.guests.get(eventId)?.get(playerId) ?? 0;
+  }
+
+  /**
+   * Returns the counts of different RSVP statuses for an event.
+   * The counts are kept up to date on every write, so this takes constant time.
+   * @param eventId - The ID of the event to count.
    * @returns An RsvpCounts object.
    */
-  getCounts(): RsvpCounts {
-    // Initializing counts - ensures all keys exist in the result object.
-    const counts: RsvpCounts = {
-      total: 0,
-      confirmed: 0,
-      declined: 0,
-      maybe: 0,
+  getCounts(eventId: string): RsvpCounts {
+    const counts = this.countStatuses(eventId);
+    this.logger.debug?.('Calculated RSVP counts', { eventId, counts });
+    return counts;
+  }
+
+  /**
+   * Retrieves the RSVP status for a specific player at a specific event.
+   * For an occurrence of a series, a response to the occurrence itself wins
+   * over the player's response to the series.
+   * @param eventId - The ID of the event to look up.
+   * @param playerId - The ID of the player to look up.
+   * @returns The RsvpStatus or undefined if the player hasn't RSVP'd.
+   */
+  getPlayerStatus(eventId: string, playerId: string): RsvpStatus | undefined {
+    return (
+      this.rsvps.get(eventId)?.get(playerId) ??
+      this.getSeriesDefault(eventId, playerId)
+    );
+  }
+
+  /**
+   * Retrieves a player's RSVP together with its version. The version starts
+   * at 0 and goes up with every stored change to the player's own RSVP,
+   * including its removal; a series-level response doesn't change it.
+   * Passing it back as `expectedVersion` makes a change compare-and-set.
+   * @param eventId - The ID of the event to look up.
+   * @param playerId - The ID of the player to look up.
+   * @returns The status (as `getPlayerStatus` returns it), guests and version.
+   */
+  getVersionedRsvp(eventId: string, playerId: string): VersionedRsvp {
+    return {
+      eventId,
+      playerId,
+      status: this.getPlayerStatus(eventId, playerId),
+      guests: this.getGuests(eventId, playerId),
+      version: this.getVersion(eventId, playerId),
     };
+  }
 
-    // Iterating through the statuses stored in the map's values.
-    for (const status of this.rsvps.values()) {
-      counts.total++; // Incrementing total for every entry
-      switch (status) {
-        case 'Yes':
-          counts.confirmed++;
-          break;
-        case 'No':
-          counts.declined++;
-          break;
-        case 'Maybe':
-          counts.maybe++;
-          break;
-        // No default needed as RsvpStatus type covers all valid cases
-      }
+  /**
+   * Gets every RSVP recorded for an event, in the order players first responded.
+   * @param eventId - The ID of the event to look up.
+   * @returns An array of RsvpEntry objects.
+   */
+  getEventRsvps(eventId: string): RsvpEntry[] {
+    const entries: RsvpEntry[] = [];
+    for (const [playerId, status] of this.effectiveRsvps(eventId) ?? []) {
+      const guests = this.getGuests(eventId, playerId);
+      entries.push({
+        eventId,
+        playerId,
+        status,
+        ...(guests > 0 && { guests }),
+      });
     }
+    return entries;
+  }
 
-    this.logger.log('Calculated RSVP counts:', counts);
-    return counts;
+  /**
+   * Gets the IDs of all events a player has responded to with the given status.
+   * @param playerId - The ID of the player to look up.
+   * @param status - The status to match (defaults to "Yes").
+   * @returns An array of event IDs (strings).
+   */
+  getEventsForPlayer(playerId: string, status: RsvpStatus = 'Yes'): string[] {
+    return this.getEventIds().filter(
+      (eventId) => this.getPlayerStatus(eventId, playerId) === status
+    );
+  }
+
+  /**
+   * Calculating the RSVP counts for every event that has at least one RSVP.
+   * @returns A record of Event ID -> RsvpCounts.
+   */
+  getCountsByEvent(): Record<string, RsvpCounts> {
+    const countsByEvent: Record<string, RsvpCounts> = {};
+    const eventIds = this.getEventIds();
+    for (const eventId of eventIds) {
+      countsByEvent[eventId] = this.countStatuses(eventId);
+    }
+    this.logger.debug?.('Calculated RSVP counts for every event', {
+      eventCount: eventIds.length,
+    });
+    return countsByEvent;
   }
 
   /**
-   * Retrieves the RSVP status for a specific player.
+   * Sets (or clears) the maximum number of confirmed players for an event.
+   * Raising the capacity promotes waitlisted players into the freed spots;
+   * lowering it never removes players who are already confirmed.
+   * @param actor - Who makes the change: an organizer of the event or an admin.
+   * @param eventId - The ID of the event to configure.
+   * @param capacity - A non-negative integer, or undefined for no limit.
+   * @throws RsvpAuthorizationError if the actor doesn't manage the event.
+   */
+  setEventCapacity(
+    actor: Principal,
+    eventId: string,
+    capacity: number | undefined
+  ): void {
+    if (!eventId) {
+      this.logger.error('setEventCapacity called with invalid eventId', {
+        eventId,
+      });
+      return; // Early return
+    }
+    if (!isValidCapacity(capacity)) {
+      this.logger.error('setEventCapacity called with invalid capacity', {
+        eventId,
+        capacity,
+      });
+      return; // Early return
+    }
+    this.authorize(actor, 'manage-event', eventId);
+
+    const record: RsvpRecord = {
+      kind: 'capacity',
+      eventId,
+      capacity,
+      timestamp: this.clock.now(),
+    };
+    this.repository.append(record);
+    if (capacity === undefined) {
+      this.logger.log('Removed capacity limit', { eventId });
+    } else {
+      this.logger.log('Set capacity', { eventId, capacity });
+    }
+    this.applyRecord(record, false);
+  }
+
+  /**
+   * Retrieves the capacity configured for an event.
+   * @param eventId - The ID of the event to look up.
+   * @returns The capacity or undefined if the event has no limit.
+   */
+  getEventCapacity(eventId: string): number | undefined {
+    return this.capacities.get(eventId);
+  }
+
+  /**
+   * Sets (or clears) how many guests each player may bring to an event.
+   * Lowering the limit never removes guests who were already added.
+   * @param actor - Who makes the change: an organizer of the event or an admin.
+   * @param eventId - The ID of the event to configure.
+   * @param maxGuests - A non-negative integer, or undefined for no limit.
+   * @throws RsvpAuthorizationError if the actor doesn't manage the event.
+   */
+  setEventGuestLimit(
+    actor: Principal,
+    eventId: string,
+    maxGuests: number | undefined
+  ): void {
+    if (!eventId) {
+      this.logger.error('setEventGuestLimit called with invalid eventId', {
+        eventId,
+      });
+      return; // Early return
+    }
+    if (maxGuests !== undefined && !isValidGuestCount(maxGuests)) {
+      this.logger.error('setEventGuestLimit called with invalid maxGuests', {
+        eventId,
+        maxGuests,
+      });
+      return; // Early return
+    }
+    this.authorize(actor, 'manage-event', eventId);
+
+    const record: RsvpRecord = {
+      kind: 'guest-limit',
+      eventId,
+      maxGuests,
+      timestamp: this.clock.now(),
+    };
+    this.repository.append(record);
+    if (maxGuests === undefined) {
+      this.logger.log('Removed guest limit', { eventId });
+    } else {
+      this.logger.log('Set guest limit', { eventId, maxGuests });
+    }
+    this.applyRecord(record, false);
+  }
+
+  /**
+   * Retrieves the guest limit configured for an event.
+   * @param eventId - The ID of the event to look up.
+   * @returns The maximum number of guests per player, or undefined if there is no limit.
+   */
+  getEventGuestLimit(eventId: string): number | undefined {
+    return this.guestLimits.get(eventId);
+  }
+
+  /**
+   * Sets (or clears) when an event starts and when its RSVPs close.
+   * Once the cutoff or the start has passed, `addOrUpdateRsvp` rejects changes
+   * unless the organizer overrides the lock.
+   * @param actor - Who makes the change: an organizer of the event or an admin.
+   * @param eventId - The ID of the event to configure.
+   * @param schedule - The event's start and optional cutoff; an empty object clears both.
+   * @throws RsvpAuthorizationError if the actor doesn't manage the event.
+   */
+  setEventSchedule(
+    actor: Principal,
+    eventId: string,
+    schedule: EventSchedule
+  ): void {
+    if (!eventId) {
+      this.logger.error('setEventSchedule called with invalid eventId', {
+        eventId,
+      });
+      return; // Early return
+    }
+    if (!isValidSchedule(schedule)) {
+      this.logger.error('setEventSchedule called with an invalid schedule', {
+        eventId,
+        schedule,
+      });
+      return; // Early return
+    }
+    this.authorize(actor, 'manage-event', eventId);
+
+    const record: RsvpRecord = {
+      kind: 'schedule',
+      eventId,
+      eventDate: schedule.eventDate,
+      cutoff: schedule.cutoff,
+      timestamp: this.clock.now(),
+    };
+    this.repository.append(record);
+    this.applyRecord(record, false);
+    const cutoffTime = this.getRsvpCutoff(eventId);
+    this.logger.log('Set schedule', {
+      eventId,
+      eventDate: schedule.eventDate?.toISOString(),
+      locksAt: cutoffTime?.toISOString() ?? null, // Null: RSVPs never lock
+    });
+  }
+
+  /**
+   * Retrieves the schedule configured for an event.
+   * @param eventId - The ID of the event to look up.
+   * @returns The EventSchedule or undefined if none is set.
+   */
+  getEventSchedule(eventId: string): EventSchedule | undefined {
+    const schedule = this.getSchedule(eventId);
+    return schedule ? { ...schedule } : undefined;
+  }
+
+  /**
+   * Works out the moment an event's RSVPs lock: the cutoff or the event start, whichever is earlier.
+   * @param eventId - The ID of the event to look up.
+   * @returns The lock time, or undefined if the event never locks.
+   */
+  getRsvpCutoff(eventId: string): Date | undefined {
+    return this.getLockTime(eventId)?.since;
+  }
+
+  /**
+   * Checks whether an event's RSVPs are locked right now.
+   * @param eventId - The ID of the event to look up.
+   * @returns An RsvpLock with the reason, or undefined while changes are allowed.
+   */
+  getRsvpLock(eventId: string): RsvpLock | undefined {
+    const lock = this.getLockTime(eventId);
+    if (!lock || this.clock.now().getTime() < lock.since.getTime()) {
+      return undefined;
+    }
+    return lock;
+  }
+
+  /**
+   * Defines (or redefines) a recurring event series. Each occurrence becomes
+   * an event with the ID `<seriesId>@<YYYY-MM-DD>` that locks when it starts,
+   * unless `setEventSchedule` gives it a schedule of its own.
+   * @param actor - Who makes the change: an organizer of the series or an admin.
+   * @param series - The series ID (without "@"), its first start and its recurrence rule.
+   * @throws RsvpAuthorizationError if the actor doesn't manage the series.
+   */
+  defineSeries(actor: Principal, series: EventSeries): void {
+    if (!isValidSeries(series)) {
+      this.logger.error('defineSeries called with an invalid series', {
+        series,
+      });
+      return; // Early return
+    }
+    this.authorize(actor, 'manage-event', series.id);
+
+    const record: RsvpRecord = {
+      kind: 'series',
+      eventId: series.id,
+      start: series.start,
+      rule: series.rule,
+      timestamp: this.clock.now(),
+    };
+    this.repository.append(record);
+    this.applyRecord(record, false);
+    this.logger.log('Defined series', {
+      seriesId: series.id,
+      occurrenceCount: this.getSeriesOccurrences(series.id).length,
+    });
+  }
+
+  /**
+   * Retrieves the definition of a series.
+   * @param seriesId - The ID of the series to look up.
+   * @returns The EventSeries or undefined if it isn't defined.
+   */
+  getSeries(seriesId: string): EventSeries | undefined {
+    return this.series.get(seriesId);
+  }
+
+  /**
+   * Lists the occurrences of a series, in order.
+   * @param seriesId - The ID of the series to look up.
+   * @returns The occurrences; empty if the series isn't defined.
+   */
+  getSeriesOccurrences(seriesId: string): SeriesOccurrence[] {
+    const series = this.series.get(seriesId);
+    return series ? listOccurrences(series) : [];
+  }
+
+  /**
+   * Looks up the series occurrence behind an event ID.
+   * @param eventId - The ID of the event to look up.
+   * @returns The SeriesOccurrence, or undefined for a one-off event.
+   */
+  getOccurrence(eventId: string): SeriesOccurrence | undefined {
+    return this.occurrences.get(eventId);
+  }
+
+  /**
+   * Sets a player's response to every occurrence of a series ("Yes to every
+   * Tuesday"). A response to a single occurrence, given before or after,
+   * overrides it for that occurrence. The change only reaches occurrences
+   * whose RSVPs haven't locked yet. Series-level "Yes" responses hold their
+   * spots and are never waitlisted; later "Yes" responses to a full
+   * occurrence wait behind them.
+   * @param actor - Who makes the change: the player themselves, an organizer of the series, or an admin.
+   * @param seriesId - The ID of a defined series.
+   * @param playerId - The unique identifier for the player.
+   * @param status - The player's RSVP status ("Yes", "No", or "Maybe").
+   * @param options - Optional source recorded with the change.
+   * @throws RsvpAuthorizationError if the actor may not change this player's response.
+   * @throws RsvpLockedError if every occurrence of the series has locked.
+   */
+  setSeriesRsvp(
+    actor: Principal,
+    seriesId: string,
+    playerId: string,
+    status: RsvpStatus,
+    options: Pick<RsvpUpdateOptions, 'source'> = {}
+  ): void {
+    if (!this.series.has(seriesId)) {
+      this.logger.error('setSeriesRsvp called with an unknown seriesId', {
+        seriesId,
+        playerId,
+      });
+      return; // Early return
+    }
+    if (!playerId) {
+      this.logger.error('setSeriesRsvp called with invalid playerId', {
+        seriesId,
+        playerId,
+      });
+      return; // Early return
+    }
+    if (!isRsvpStatus(status)) {
+      this.logger.error('setSeriesRsvp called with invalid status', {
+        seriesId,
+        playerId,
+        status,
+      });
+      return; // Early return
+    }
+    this.authorize(actor, 'change-rsvp', seriesId, playerId);
+
+    const previousStatus = this.getSeriesRsvp(seriesId, playerId);
+    if (previousStatus !== status) {
+      this.recordSeriesRsvp(seriesId, playerId, status, options.source);
+    }
+    this.logger.log('Set series RSVP', {
+      seriesId,
+      playerId,
+      ...(previousStatus && { previousStatus }),
+      status,
+    });
+  }
+
+  /**
+   * Removes a player's response to a series. Occurrences that haven't locked
+   * are left with the player's per-occurrence responses only.
+   * @param actor - Who makes the change: the player themselves, an organizer of the series, or an admin.
+   * @param seriesId - The ID of the series.
+   * @param playerId - The unique identifier for the player.
+   * @param options - Optional source recorded with the change.
+   * @returns True if the player had responded to the series.
+   * @throws RsvpAuthorizationError if the actor may not change this player's response.
+   * @throws RsvpLockedError if every occurrence of the series has locked.
+   */
+  removeSeriesRsvp(
+    actor: Principal,
+    seriesId: string,
+    playerId: string,
+    options: Pick<RsvpUpdateOptions, 'source'> = {}
+  ): boolean {
+    this.authorize(actor, 'change-rsvp', seriesId, playerId);
+    const previousStatus = this.getSeriesRsvp(seriesId, playerId);
+    if (previousStatus === undefined) {
+      this.logger.warn('removeSeriesRsvp found no RSVP', {
+        seriesId,
+        playerId,
+      });
+      return false;
+    }
+    this.recordSeriesRsvp(seriesId, playerId, undefined, options.source);
+    this.logger.log('Removed series RSVP', {
+      seriesId,
+      playerId,
+      previousStatus,
+    });
+    return true;
+  }
+
+  /**
+   * Retrieves a player's current response to a series.
+   * @param seriesId - The ID of the series to look up.
    * @param playerId - The ID of the player to look up.
-   * @returns The RsvpStatus or undefined if the player hasn't RSVP'd.
+   * @returns The RsvpStatus or undefined if the player hasn't responded to the series.
+   */
+  getSeriesRsvp(seriesId: string, playerId: string): RsvpStatus | undefined {
+    return this.seriesRsvps.get(seriesId)?.get(playerId)?.at(-1)?.status;
+  }
+
+  /**
+   * Records that a player showed up at an event. Check-ins are taken at the
+   * event itself, so they are accepted after the RSVPs have locked, and from
+   * players who never responded.
+   * @param actor - Who records the check-in: an organizer of the event or an admin.
+   * @param eventId - The unique identifier for the event.
+   * @param playerId - The unique identifier for the player.
+   * @param options - Optional source recorded with the check-in.
+   * @returns True if the player wasn't checked in yet.
+   * @throws RsvpAuthorizationError if the actor doesn't manage the event.
+   */
+  checkIn(
+    actor: Principal,
+    eventId: string,
+    playerId: string,
+    options: Pick<RsvpUpdateOptions, 'source'> = {}
+  ): boolean {
+    if (!eventId || !playerId) {
+      this.logger.error('checkIn called with invalid eventId or playerId', {
+        eventId,
+        playerId,
+      });
+      return false; // Early return
+    }
+    this.authorize(actor, 'manage-event', eventId, playerId);
+    if (this.isCheckedIn(eventId, playerId)) {
+      return false;
+    }
+    this.recordCheckIn(eventId, playerId, true, options.source);
+    this.logger.log('Checked in player', { eventId, playerId });
+    return true;
+  }
+
+  /**
+   * Undoes a check-in recorded by mistake.
+   * @param actor - Who makes the change: an organizer of the event or an admin.
+   * @param eventId - The unique identifier for the event.
+   * @param playerId - The unique identifier for the player.
+   * @param options - Optional source recorded with the change.
+   * @returns True if the player was checked in.
+   * @throws RsvpAuthorizationError if the actor doesn't manage the event.
+   */
+  undoCheckIn(
+    actor: Principal,
+    eventId: string,
+    playerId: string,
+    options: Pick<RsvpUpdateOptions, 'source'> = {}
+  ): boolean {
+    this.authorize(actor, 'manage-event', eventId, playerId);
+    if (!this.isCheckedIn(eventId, playerId)) {
+      this.logger.warn('undoCheckIn found no check-in', { eventId, playerId });
+      return false;
+    }
+    this.recordCheckIn(eventId, playerId, false, options.source);
+    this.logger.log('Undid check-in', { eventId, playerId });
+    return true;
+  }
+
+  /**
+   * Checks whether a player has checked in at an event.
+   * @param eventId - The ID of the event to look up.
+   * @param playerId - The ID of the player to look up.
+   * @returns True if the player is checked in.
+   */
+  isCheckedIn(eventId: string, playerId: string): boolean {
+    return this.checkIns.get(eventId)?.has(playerId) ?? false;
+  }
+
+  /**
+   * Gets the players who checked in at an event, in check-in order.
+   * @param eventId - The ID of the event to look up.
+   * @returns An array of player IDs (strings).
+   */
+  getCheckedInPlayers(eventId: string): string[] {
+    return Array.from(this.checkIns.get(eventId) ?? []);
+  }
+
+  /**
+   * Gets the IDs of all events where attendance was taken.
+   * @returns An array of event IDs (strings).
+   */
+  getCheckedInEventIds(): string[] {
+    return Array.from(this.checkIns.keys());
+  }
+
+  /**
+   * Gets the waitlisted player IDs for an event, first in line first.
+   * @param eventId - The ID of the event to look up.
+   * @returns An array of player IDs (strings).
+   */
+  getWaitlist(eventId: string): string[] {
+    return [...(this.waitlists.get(eventId) ?? [])];
+  }
+
+  /**
+   * Checks whether a player's "Yes" is currently waiting for a spot.
+   * @param eventId - The ID of the event to look up.
+   * @param playerId - The ID of the player to look up.
+   * @returns True if the player is on the event's waitlist.
+   */
+  isWaitlisted(eventId: string, playerId: string): boolean {
+    return this.waitlists.get(eventId)?.includes(playerId) ?? false;
+  }
+
+  /**
+   * Gets every recorded status change, oldest first.
+   * @param eventId - Optional event ID to restrict the history to.
+   * @returns An array of RsvpChange records.
+   */
+  getHistory(eventId?: string): RsvpChange[] {
+    return this.getChanges().filter(
+      (change) => eventId === undefined || change.eventId === eventId
+    );
+  }
+
+  /**
+   * Gets one player's change timeline, oldest first.
+   * @param playerId - The ID of the player to look up.
+   * @param eventId - Optional event ID to restrict the timeline to.
+   * @returns An array of RsvpChange records.
+   */
+  getPlayerHistory(playerId: string, eventId?: string): RsvpChange[] {
+    return this.getHistory(eventId).filter(
+      (change) => change.playerId === playerId
+    );
+  }
+
+  /**
+   * Rebuilds the counts of an event as they stood at a past moment.
+   * @param eventId - The ID of the event to count.
+   * @param at - The moment to rebuild the counts for.
+   * @returns An RsvpCounts object.
+   */
+  getCountsAt(eventId: string, at: Date): RsvpCounts {
+    const counts = this.replayUntil(eventId, at).getCounts(eventId);
+    this.logger.debug?.('Calculated past RSVP counts', {
+      eventId,
+      at: at.toISOString(),
+      counts,
+    });
+    return counts;
+  }
+
+  /**
+   * Rebuilds the confirmed attendees of an event as they stood at a past moment.
+   * @param eventId - The ID of the event to look up.
+   * @param at - The moment to rebuild the attendees for.
+   * @returns An array of player IDs (strings).
    */
-  getPlayerStatus(playerId: string): RsvpStatus | undefined {
-    return this.rsvps.get(playerId);
+  getConfirmedAttendeesAt(eventId: string, at: Date): string[] {
+    const confirmedIds = this.replayUntil(eventId, at).getConfirmedAttendees(
+      eventId
+    );
+    this.logger.debug?.('Retrieved past confirmed attendees', {
+      eventId,
+      at: at.toISOString(),
+      attendeeCount: confirmedIds.length,
+    });
+    return confirmedIds;
+  }
+
+  /**
+   * Gets the IDs of all events that have at least one RSVP.
+   * @returns An array of event IDs (strings).
+   */
+  getEventIds(): string[] {
+    const eventIds = new Set(this.rsvps.keys());
+    for (const eventId of this.occurrences.keys()) {
+      if ((this.effectiveRsvps(eventId)?.size ?? 0) > 0) {
+        eventIds.add(eventId);
+      }
+    }
+    return Array.from(eventIds);
+  }
+
+  private getChanges(): RsvpChange[] {
+    const changes: RsvpChange[] = [];
+    for (const record of this.timeline) {
+      if (record.kind === 'rsvp') {
+        const { kind, ...change } = record;
+        changes.push(change);
+      }
+    }
+    return changes;
+  }
+
+  // Checks the locks, then persists, applies and announces a series
+  // response, once for every occurrence whose effective status it changes.
+  private recordSeriesRsvp(
+    seriesId: string,
+    playerId: string,
+    newStatus: RsvpStatus | undefined,
+    source: string = 'direct'
+  ): void {
+    const eventIds = this.getSeriesOccurrences(seriesId).map(
+      ({ eventId }) => eventId
+    );
+    const openIds = eventIds.filter((eventId) => !this.getRsvpLock(eventId));
+    if (openIds.length === 0 && eventIds.length > 0) {
+      const lastId = eventIds[eventIds.length - 1];
+      const error = new RsvpLockedError(lastId, this.getRsvpLock(lastId)!);
+      this.logger.warn(`Rejected series RSVP change: ${error.message}`, {
+        seriesId,
+        playerId,
+      });
+      throw error;
+    }
+
+    const previousStatuses = openIds.map((eventId) =>
+      this.getPlayerStatus(eventId, playerId)
+    );
+    const record: RsvpRecord = {
+      kind: 'series-rsvp',
+      eventId: seriesId,
+      playerId,
+      newStatus,
+      timestamp: this.clock.now(),
+      source,
+    };
+    this.repository.append(record);
+    this.applyRecord(record, false);
+    openIds.forEach((eventId, index) => {
+      const previousStatus = previousStatuses[index];
+      const currentStatus = this.getPlayerStatus(eventId, playerId);
+      if (currentStatus === previousStatus) {
+        return; // The player's own response to the occurrence still wins
+      }
+      const guests = this.guests.get(eventId)?.get(playerId);
+      this.notify(
+        toNotification({
+          kind: 'rsvp',
+          eventId,
+          playerId,
+          previousStatus,
+          newStatus: currentStatus,
+          ...(guests !== undefined && { guests }),
+          timestamp: record.timestamp,
+          source,
+        })
+      );
+    });
+  }
+
+  private recordCheckIn(
+    eventId: string,
+    playerId: string,
+    checkedIn: boolean,
+    source: string = 'direct'
+  ): void {
+    const record: RsvpRecord = {
+      kind: 'checkin',
+      eventId,
+      playerId,
+      checkedIn,
+      timestamp: this.clock.now(),
+      source,
+    };
+    this.repository.append(record);
+    this.applyRecord(record, false);
+  }
+
+  // Parses a batch entry with the domain schema and checks it can be applied.
+  private checkBatchEntry(
+    actor: Principal,
+    raw: unknown,
+    override: boolean,
+    firstIndexes: Map<string, number>,
+    index: number
+  ): { entry?: RsvpEntry; error?: { code: BatchErrorCode; message: string } } {
+    const parsed = parseRsvp(raw);
+    if (!parsed.ok) {
+      const [issue] = parsed.issues;
+      return {
+        error: {
+          code: BATCH_ERROR_CODES[issue.field] ?? 'INVALID_ENTRY',
+          message: issue.message,
+        },
+      };
+    }
+    const { eventId, playerId, status } = parsed.value;
+    const guests = parsed.value.guests ?? this.getGuests(eventId, playerId);
+    const key = JSON.stringify([eventId, playerId]);
+    const firstIndex = firstIndexes.get(key);
+    if (firstIndex !== undefined) {
+      return {
+        error: {
+          code: 'DUPLICATE_IN_BATCH',
+          message: `Player ${playerId} already has an RSVP for event ${eventId} at index ${firstIndex}.`,
+        },
+      };
+    }
+    firstIndexes.set(key, index);
+    const action = override ? 'override' : 'change-rsvp';
+    if (!this.isAllowed(actor, action, eventId, playerId)) {
+      return {
+        error: {
+          code: 'FORBIDDEN',
+          message: this.deny(actor, action, eventId, playerId).message,
+        },
+      };
+    }
+    const lock = this.getRsvpLock(eventId);
+    if (lock && !override) {
+      return {
+        error: {
+          code: 'RSVP_LOCKED',
+          message: new RsvpLockedError(eventId, lock).message,
+        },
+      };
+    }
+    const limitError =
+      guests !== this.getGuests(eventId, playerId)
+        ? this.checkGuestLimit(eventId, guests)
+        : undefined;
+    if (limitError) {
+      return {
+        error: { code: 'GUEST_LIMIT_EXCEEDED', message: limitError.message },
+      };
+    }
+    return { entry: { eventId, playerId, status, guests } };
+  }
+
+  // Throws if the actor's role doesn't allow the action on the event.
+  private authorize(
+    actor: Principal,
+    action: RsvpAction,
+    eventId: string,
+    playerId?: string
+  ): void {
+    if (!this.isAllowed(actor, action, eventId, playerId)) {
+      throw this.deny(actor, action, eventId, playerId);
+    }
+  }
+
+  private isAllowed(
+    actor: Principal,
+    action: RsvpAction,
+    eventId: string,
+    playerId?: string
+  ): boolean {
+    switch (actor?.role) {
+      case 'admin':
+        return true;
+      case 'organizer':
+        return this.organizes(actor.eventIds, eventId);
+      case 'player':
+        return action === 'change-rsvp' && actor.id === playerId;
+      default:
+        return false; // Callers outside TypeScript may pass anything
+    }
+  }
+
+  // An organizer of a series organizes each of its occurrences too.
+  private organizes(eventIds: readonly string[], eventId: string): boolean {
+    const seriesId = this.occurrences.get(eventId)?.seriesId;
+    return (
+      eventIds.includes(eventId) ||
+      (seriesId !== undefined && eventIds.includes(seriesId))
+    );
+  }
+
+  // Logs a denied attempt for the audit trail and returns the error to report.
+  private deny(
+    actor: Principal,
+    action: RsvpAction,
+    eventId: string,
+    playerId?: string
+  ): RsvpAuthorizationError {
+    const error = new RsvpAuthorizationError(actor, action, eventId, playerId);
+    this.logger.warn('Authorization denied', {
+      actorId: actor?.id,
+      role: actor?.role,
+      action,
+      eventId,
+      playerId,
+      reason: error.message,
+    });
+    return error;
+  }
+
+  // Rejects a compare-and-set change whose expected version is stale.
+  private checkVersion(
+    eventId: string,
+    playerId: string,
+    expectedVersion: number | undefined
+  ): void {
+    const actualVersion = this.getVersion(eventId, playerId);
+    if (expectedVersion === undefined || expectedVersion === actualVersion) {
+      return;
+    }
+    const error = new RsvpVersionConflictError(
+      eventId,
+      playerId,
+      expectedVersion,
+      actualVersion
+    );
+    this.logger.warn(`Rejected RSVP change: ${error.message}`, {
+      eventId,
+      playerId,
+      expectedVersion,
+      actualVersion,
+    });
+    throw error;
+  }
+
+  private getVersion(eventId: string, playerId: string): number {
+    return this.versions.get(eventId)?.get(playerId) ?? 0;
+  }
+
+  // The error to throw when a player would bring more guests than allowed.
+  private checkGuestLimit(
+    eventId: string,
+    guests: number
+  ): GuestLimitExceededError | undefined {
+    const maxGuests = this.guestLimits.get(eventId);
+    return maxGuests !== undefined && guests > maxGuests
+      ? new GuestLimitExceededError(eventId, guests, maxGuests)
+      : undefined;
+  }
+
+  // Rejects a write to an event whose RSVPs have locked, unless overridden.
+  private checkLock(
+    eventId: string,
+    playerId: string,
+    override: boolean
+  ): void {
+    const lock = this.getRsvpLock(eventId);
+    if (lock && !override) {
+      const error = new RsvpLockedError(eventId, lock);
+      this.logger.warn(`Rejected RSVP change: ${error.message}`, {
+        eventId,
+        playerId,
+        lockReason: lock.reason,
+      });
+      throw error;
+    }
+  }
+
+  // Checks the lock, then persists, applies and announces one status change.
+  private recordChange(
+    eventId: string,
+    playerId: string,
+    newStatus: RsvpStatus | undefined,
+    source: string,
+    override: boolean,
+    guests: number
+  ): void {
+    this.checkLock(eventId, playerId, override);
+    const lock = this.getRsvpLock(eventId);
+    if (lock) {
+      this.logger.warn('Organizer override: changing RSVP at a locked event', {
+        eventId,
+        playerId,
+        lockReason: lock.reason,
+      });
+    }
+
+    // Persisting first, so a failed write leaves the in-memory state untouched.
+    const record: RsvpRecord = {
+      kind: 'rsvp',
+      eventId,
+      playerId,
+      previousStatus: this.getPlayerStatus(eventId, playerId),
+      newStatus,
+      ...(guests > 0 ? { guests } : {}),
+      timestamp: this.clock.now(),
+      source,
+    };
+    this.repository.append(record);
+    this.applyRecord(record, false);
+    this.notify(toNotification(record));
+  }
+
+  private notify(notification: RsvpNotification): void {
+    // Copying first, so listeners can unsubscribe while being notified.
+    for (const { listener, types } of [...this.subscriptions]) {
+      if (types && !types.includes(notification.type)) {
+        continue;
+      }
+      try {
+        listener(notification);
+      } catch (error) {
+        this.logger.error('RSVP listener failed', error, {
+          eventId: notification.eventId,
+          playerId: notification.playerId,
+          notificationType: notification.type,
+        });
+      }
+    }
+  }
+
+  // The earliest moment an event locks, and why; undefined if it never does.
+  private getLockTime(eventId: string): RsvpLock | undefined {
+    const schedule = this.getSchedule(eventId);
+    if (!schedule) {
+      return undefined;
+    }
+    const cutoffTime = resolveCutoff(schedule.cutoff, schedule.eventDate);
+    const { eventDate } = schedule;
+    if (cutoffTime && (!eventDate || cutoffTime < eventDate)) {
+      return { reason: 'cutoff', since: cutoffTime };
+    }
+    return eventDate ? { reason: 'event-past', since: eventDate } : undefined;
+  }
+
+  // Replays an event's timeline into a scratch service, stopping at the given moment.
+  private replayUntil(eventId: string, at: Date): RsvpService {
+    const seriesId = this.occurrences.get(eventId)?.seriesId;
+    const records = this.timeline.filter(
+      (record) =>
+        (record.eventId === eventId || record.eventId === seriesId) &&
+        record.timestamp.getTime() <= at.getTime()
+    );
+    return new RsvpService(
+      silentLogger,
+      new InMemoryRsvpRepository(records),
+      this.clock
+    );
+  }
+
+  private isValidRecord(record: RsvpRecord): boolean {
+    if (!record || !record.eventId || !(record.timestamp instanceof Date)) {
+      return false;
+    }
+    if (record.kind === 'capacity') {
+      return isValidCapacity(record.capacity);
+    }
+    if (record.kind === 'guest-limit') {
+      return (
+        record.maxGuests === undefined || isValidGuestCount(record.maxGuests)
+      );
+    }
+    if (record.kind === 'schedule') {
+      return isValidSchedule(record);
+    }
+    if (record.kind === 'series') {
+      return isValidSeries({
+        id: record.eventId,
+        start: record.start,
+        rule: record.rule,
+      });
+    }
+    if (record.kind === 'series-rsvp') {
+      return (
+        !!record.playerId &&
+        (record.newStatus === undefined || isRsvpStatus(record.newStatus))
+      );
+    }
+    if (record.kind === 'checkin') {
+      return !!record.playerId && typeof record.checkedIn === 'boolean';
+    }
+    if (record.kind !== 'rsvp' || !record.playerId) {
+      return false;
+    }
+    if (record.guests !== undefined && !isValidGuestCount(record.guests)) {
+      return false;
+    }
+    // A removal has no new status but must have removed something.
+    return record.newStatus === undefined
+      ? isRsvpStatus(record.previousStatus)
+      : isRsvpStatus(record.newStatus);
+  }
+
+  // Applies a stored record to the in-memory state; replays stay quiet.
+  private applyRecord(record: RsvpRecord, isReplay: boolean): void {
+    this.timeline.push({ ...record });
+    if (record.kind === 'capacity') {
+      if (record.capacity === undefined) {
+        this.capacities.delete(record.eventId);
+      } else {
+        this.capacities.set(record.eventId, record.capacity);
+      }
+      this.fillFromWaitlist(record.eventId, isReplay);
+      return;
+    }
+    if (record.kind === 'guest-limit') {
+      if (record.maxGuests === undefined) {
+        this.guestLimits.delete(record.eventId);
+      } else {
+        this.guestLimits.set(record.eventId, record.maxGuests);
+      }
+      return;
+    }
+    if (record.kind === 'schedule') {
+      if (!record.eventDate && !record.cutoff) {
+        this.schedules.delete(record.eventId);
+      } else {
+        this.schedules.set(record.eventId, {
+          eventDate: record.eventDate,
+          cutoff: record.cutoff,
+        });
+      }
+      // A new lock time decides which series-level responses still apply.
+      this.rebuildTally(record.eventId);
+      return;
+    }
+    if (record.kind === 'series') {
+      const previousIds = this.getSeriesOccurrences(record.eventId).map(
+        ({ eventId }) => eventId
+      );
+      this.applySeries({
+        id: record.eventId,
+        start: record.start,
+        rule: record.rule,
+      });
+      const currentIds = this.getSeriesOccurrences(record.eventId).map(
+        ({ eventId }) => eventId
+      );
+      for (const eventId of new Set([...previousIds, ...currentIds])) {
+        this.rebuildTally(eventId);
+      }
+      return;
+    }
+    if (record.kind === 'series-rsvp') {
+      const occurrences = this.getSeriesOccurrences(record.eventId);
+      this.updateTallies(
+        occurrences.map(({ eventId }) => [eventId, [record.playerId]]),
+        () =>
+          this.applySeriesRsvp(record.eventId, record.playerId, {
+            status: record.newStatus,
+            timestamp: record.timestamp,
+          })
+      );
+      for (const { eventId } of occurrences) {
+        // A series-level "No" may free spots in occurrences without an exception.
+        this.fillFromWaitlist(eventId, isReplay);
+      }
+      return;
+    }
+    if (record.kind === 'checkin') {
+      const checkedIn = this.checkIns.get(record.eventId) ?? new Set<string>();
+      if (record.checkedIn) {
+        checkedIn.add(record.playerId);
+        this.checkIns.set(record.eventId, checkedIn);
+      } else {
+        checkedIn.delete(record.playerId);
+        if (checkedIn.size === 0) {
+          this.checkIns.delete(record.eventId);
+        }
+      }
+      return;
+    }
+
+    this.updateTallies([[record.eventId, [record.playerId]]], () =>
+      this.applyRsvp(record, isReplay)
+    );
+    // A freed spot goes to the next in line, unless a lowered capacity still leaves the event full.
+    this.fillFromWaitlist(record.eventId, isReplay);
+  }
+
+  private applyRsvp(record: RsvpChangeRecord, isReplay: boolean): void {
+    const { eventId, playerId, newStatus, guests = 0 } = record;
+    // Counted from the stored records, so a replay restores every version.
+    const eventVersions =
+      this.versions.get(eventId) ?? new Map<string, number>();
+    eventVersions.set(playerId, this.getVersion(eventId, playerId) + 1);
+    this.versions.set(eventId, eventVersions);
+    this.setGuests(eventId, playerId, newStatus === undefined ? 0 : guests);
+    let eventRsvps = this.rsvps.get(eventId);
+    if (!eventRsvps) {
+      eventRsvps = new Map<string, RsvpStatus>();
+      this.rsvps.set(eventId, eventRsvps);
+    }
+
+    const previousStatus = this.getPlayerStatus(eventId, playerId);
+    // Checked before storing, so the new "Yes" isn't counted against the capacity.
+    const isFull = this.isFull(eventId);
+    if (newStatus === undefined) {
+      eventRsvps.delete(playerId);
+      if (eventRsvps.size === 0) {
+        this.rsvps.delete(eventId);
+      }
+    } else {
+      eventRsvps.set(playerId, newStatus);
+    }
+    // Removing an exception falls back to the player's series-level response.
+    const currentStatus = this.getPlayerStatus(eventId, playerId);
+
+    if (currentStatus === 'Yes' && previousStatus !== 'Yes') {
+      // A new "Yes" only gets a spot while the event has room left.
+      if (isFull) {
+        const waitlist = this.getOrCreateWaitlist(eventId);
+        waitlist.push(playerId);
+        if (!isReplay) {
+          this.logger.log('Event is full; added player to the waitlist', {
+            eventId,
+            playerId,
+            position: waitlist.length,
+          });
+        }
+      }
+    } else if (currentStatus !== 'Yes' && previousStatus === 'Yes') {
+      // Leaving the waitlist frees nothing; a freed confirmed spot is filled by applyRecord.
+      this.removeFromWaitlist(eventId, playerId);
+    }
+  }
+
+  // Stores a player's guests, dropping players who bring none.
+  private setGuests(eventId: string, playerId: string, guests: number): void {
+    const eventGuests = this.guests.get(eventId) ?? new Map<string, number>();
+    if (guests > 0) {
+      eventGuests.set(playerId, guests);
+      this.guests.set(eventId, eventGuests);
+    } else {
+      eventGuests.delete(playerId);
+      if (eventGuests.size === 0) {
+        this.guests.delete(eventId);
+      }
+    }
+  }
+
+  // The explicit RSVPs of an event; for an occurrence, merged over the series-level responses.
+  private effectiveRsvps(eventId: string): Map<string, RsvpStatus> | undefined {
+    const eventRsvps = this.rsvps.get(eventId);
+    const occurrence = this.occurrences.get(eventId);
+    const seriesRsvps = occurrence && this.seriesRsvps.get(occurrence.seriesId);
+    if (!seriesRsvps) {
+      return eventRsvps;
+    }
+    const effective = new Map<string, RsvpStatus>();
+    for (const playerId of seriesRsvps.keys()) {
+      const status = this.getSeriesDefault(eventId, playerId);
+      if (status && !eventRsvps?.has(playerId)) {
+        effective.set(playerId, status);
+      }
+    }
+    for (const [playerId, status] of eventRsvps ?? []) {
+      effective.set(playerId, status);
+    }
+    return effective;
+  }
+
+  // A player's series-level response as it stood when the occurrence locked:
+  // changing a series response never rewrites occurrences that already took place.
+  private getSeriesDefault(
+    eventId: string,
+    playerId: string
+  ): RsvpStatus | undefined {
+    const occurrence = this.occurrences.get(eventId);
+    const responses =
+      occurrence && this.seriesRsvps.get(occurrence.seriesId)?.get(playerId);
+    if (!responses) {
+      return undefined;
+    }
+    const locksAt = this.getLockTime(eventId)?.since.getTime() ?? Infinity;
+    let status: RsvpStatus | undefined;
+    for (const response of responses) {
+      if (response.timestamp.getTime() < locksAt) {
+        status = response.status;
+      }
+    }
+    return status;
+  }
+
+  // An occurrence without a schedule of its own starts at its date.
+  private getSchedule(eventId: string): EventSchedule | undefined {
+    const occurrence = this.occurrences.get(eventId);
+    return (
+      this.schedules.get(eventId) ??
+      (occurrence ? { eventDate: occurrence.date } : undefined)
+    );
+  }
+
+  private applySeries(series: EventSeries): void {
+    for (const { eventId } of this.getSeriesOccurrences(series.id)) {
+      this.occurrences.delete(eventId);
+    }
+    this.series.set(series.id, series);
+    for (const occurrence of listOccurrences(series)) {
+      this.occurrences.set(occurrence.eventId, occurrence);
+    }
+  }
+
+  private applySeriesRsvp(
+    seriesId: string,
+    playerId: string,
+    response: SeriesResponse
+  ): void {
+    const seriesRsvps =
+      this.seriesRsvps.get(seriesId) ?? new Map<string, SeriesResponse[]>();
+    const responses = seriesRsvps.get(playerId) ?? [];
+    responses.push(response);
+    seriesRsvps.set(playerId, responses);
+    this.seriesRsvps.set(seriesId, seriesRsvps);
+  }
+
+  // Reads a single event's counts from its tally.
+  private countStatuses(eventId: string): RsvpCounts {
+    const tally = this.tallies.get(eventId);
+    const confirmed = tally?.confirmed.size ?? 0;
+    const guests = tally?.guests ?? 0;
+    return {
+      total: tally
+        ? tally.statuses.Yes + tally.statuses.No + tally.statuses.Maybe
+        : 0,
+      confirmed,
+      declined: tally?.statuses.No ?? 0,
+      maybe: tally?.statuses.Maybe ?? 0,
+      // Waitlisted players said "Yes" but don't hold a confirmed spot.
+      waitlisted: this.waitlists.get(eventId)?.length ?? 0,
+      guests,
+      headcount: confirmed + guests,
+    };
+  }
+
+  // Runs a change, then moves each listed player's part in their event's
+  // tally from where they stood before the change to where they stand now.
+  // The list must name every player the change can affect.
+  private updateTallies(
+    affected: Array<[string, string[]]>,
+    change: () => void
+  ): void {
+    const before = affected.flatMap(([eventId, playerIds]) =>
+      [...new Set(playerIds)].map((playerId) => ({
+        eventId,
+        playerId,
+        contribution: this.contributionOf(eventId, playerId),
+      }))
+    );
+    change();
+    for (const { eventId, playerId, contribution } of before) {
+      this.tallyPlayer(
+        eventId,
+        playerId,
+        contribution,
+        this.contributionOf(eventId, playerId)
+      );
+    }
+  }
+
+  // Recounts one event from scratch, for changes that can affect every player.
+  private rebuildTally(eventId: string): void {
+    this.tallies.delete(eventId);
+    for (const playerId of this.effectiveRsvps(eventId)?.keys() ?? []) {
+      this.tallyPlayer(
+        eventId,
+        playerId,
+        NO_CONTRIBUTION,
+        this.contributionOf(eventId, playerId)
+      );
+    }
+  }
+
+  private contributionOf(eventId: string, playerId: string): TallyContribution {
+    const status = this.getPlayerStatus(eventId, playerId);
+    // Only the guests of confirmed players are coming.
+    const confirmed = status === 'Yes' && !this.isWaitlisted(eventId, playerId);
+    return {
+      status,
+      confirmed,
+      guests: confirmed ? this.getGuests(eventId, playerId) : 0,
+    };
+  }
+
+  private tallyPlayer(
+    eventId: string,
+    playerId: string,
+    before: TallyContribution,
+    after: TallyContribution
+  ): void {
+    const tally = this.tallies.get(eventId) ?? {
+      statuses: { Yes: 0, No: 0, Maybe: 0 },
+      confirmed: new Set<string>(),
+      guests: 0,
+    };
+    if (before.status) {
+      tally.statuses[before.status]--;
+    }
+    if (after.status) {
+      tally.statuses[after.status]++;
+    }
+    if (before.confirmed && !after.confirmed) {
+      tally.confirmed.delete(playerId);
+    } else if (!before.confirmed && after.confirmed) {
+      tally.confirmed.add(playerId);
+    }
+    tally.guests += after.guests - before.guests;
+    const { Yes, No, Maybe } = tally.statuses;
+    if (Yes + No + Maybe === 0) {
+      this.tallies.delete(eventId);
+    } else {
+      this.tallies.set(eventId, tally);
+    }
+  }
+
+  // Checks whether every spot of a capacity-limited event is taken.
+  private isFull(eventId: string): boolean {
+    const capacity = this.capacities.get(eventId);
+    if (capacity === undefined) {
+      return false;
+    }
+    return this.countStatuses(eventId).confirmed >= capacity;
+  }
+
+  private getOrCreateWaitlist(eventId: string): string[] {
+    let waitlist = this.waitlists.get(eventId);
+    if (!waitlist) {
+      waitlist = [];
+      this.waitlists.set(eventId, waitlist);
+    }
+    return waitlist;
+  }
+
+  // Returns true if the player was on the waitlist.
+  private removeFromWaitlist(eventId: string, playerId: string): boolean {
+    const waitlist = this.waitlists.get(eventId);
+    const index = waitlist ? waitlist.indexOf(playerId) : -1;
+    if (!waitlist || index === -1) {
+      return false;
+    }
+    waitlist.splice(index, 1);
+    return true;
+  }
+
+  // Promotes waitlisted players until the event is full or its waitlist is empty.
+  private fillFromWaitlist(eventId: string, isReplay: boolean): void {
+    let nextInLine = this.waitlists.get(eventId)?.[0];
+    while (nextInLine !== undefined && !this.isFull(eventId)) {
+      this.updateTallies([[eventId, [nextInLine]]], () =>
+        this.promoteFromWaitlist(eventId, isReplay)
+      );
+      nextInLine = this.waitlists.get(eventId)?.[0];
+    }
+  }
+
+  // Moves the first waitlisted player into a confirmed spot; returns true if someone was promoted.
+  private promoteFromWaitlist(eventId: string, isReplay: boolean): boolean {
+    const promotedId = this.waitlists.get(eventId)?.shift();
+    if (promotedId === undefined) {
+      return false;
+    }
+    if (!isReplay) {
+      this.logger.log('Promoted player from the waitlist', {
+        eventId,
+        playerId: promotedId,
+      });
+    }
+    return true;
+  }
+}
+
+// A capacity is a non-negative integer, or undefined for no limit.
+function isValidCapacity(capacity: number | undefined): boolean {
+  return (
+    capacity === undefined || (Number.isInteger(capacity) && capacity >= 0)
+  );
+}
+
+// A series needs an ID that can't be mistaken for an occurrence, a start and a rule that ends.
+function isValidSeries(series: EventSeries): boolean {
+  return (
+    !!series &&
+    !!series.id &&
+    !series.id.includes('@') &&
+    isValidDate(series.start) &&
+    isValidRecurrenceRule(series.rule)
+  );
+}
+
+// A guest count is a non-negative integer.
+// Why a principal may not take an action, for RsvpAuthorizationError.
+function describeDenial(
+  principal: Principal,
+  action: RsvpAction,
+  eventId: string,
+  playerId?: string
+): string {
+  if (principal?.role === 'organizer') {
+    return `Organizer ${principal.id} doesn't organize event ${eventId}.`;
+  }
+  if (principal?.role !== 'player') {
+    return `The caller has no valid role to change event ${eventId}.`;
+  }
+  if (action === 'override') {
+    return `Player ${principal.id} may not override the RSVP lock of event ${eventId}; only organizers and admins can.`;
+  }
+  if (action === 'manage-event') {
+    return `Player ${principal.id} may not manage event ${eventId}.`;
+  }
+  return `Player ${principal.id} may only change their own RSVPs, not those of player ${playerId}.`;
+}
+
+// Turns a stored status change into the notification subscribers receive.
+function toNotification(record: RsvpChangeRecord): RsvpNotification {
+  const {
+    eventId,
+    playerId,
+    previousStatus,
+    newStatus,
+    guests,
+    timestamp,
+    source,
+  } = record;
+  const base = {
+    eventId,
+    playerId,
+    ...(guests !== undefined && { guests }),
+    timestamp,
+    source,
+  };
+  if (newStatus === undefined) {
+    return { type: 'removed', ...base, previousStatus: previousStatus! };
+  }
+  if (previousStatus === undefined) {
+    return { type: 'added', ...base, newStatus };
+  }
+  return { type: 'updated', ...base, previousStatus, newStatus };
+}
+
+// A schedule needs valid dates and a non-negative relative cutoff.
+function isValidSchedule(schedule: EventSchedule): boolean {
+  if (!schedule) {
+    return false;
+  }
+  const { eventDate, cutoff } = schedule;
+  if (eventDate !== undefined && !isValidDate(eventDate)) {
+    return false;
+  }
+  if (cutoff === undefined) {
+    return true;
+  }
+  if (cutoff.kind === 'fixed') {
+    return isValidDate(cutoff.at);
+  }
+  return (
+    cutoff.kind === 'relative' &&
+    Number.isFinite(cutoff.hoursBefore) &&
+    cutoff.hoursBefore >= 0
+  );
+}
+
+function isValidDate(date: Date): boolean {
+  return date instanceof Date && !isNaN(date.getTime());
+}
+
+// A relative cutoff means nothing until the event has a date.
+function resolveCutoff(
+  cutoff: RsvpCutoff | undefined,
+  eventDate: Date | undefined
+): Date | undefined {
+  if (cutoff?.kind === 'fixed') {
+    return cutoff.at;
+  }
+  if (cutoff?.kind === 'relative' && eventDate) {
+    return new Date(eventDate.getTime() - cutoff.hoursBefore * 60 * 60 * 1000);
   }
+  return undefined;
 }
@@ -0,0 +1,154 @@
+import { buildTeams, TeamConstraintError, TeamService } from './TeamService';
+import { RsvpService } from './RsvpService';
+import { Player, Principal, Team } from '../interfaces';
+import { ILogger } from '../utils/logger.interface';
+
+const createMockLogger = (): jest.Mocked<ILogger> => ({
+  log: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+});
+
+const admin: Principal = { role: 'admin', id: 'admin' };
+
+// Twelve players: six of each gender, aged 18 to 51
+const players: Player[] = Array.from({ length: 12 }, (_, index) => ({
+  id: `${index + 1}`,
+  name: `Player ${index + 1}`,
+  gender: index % 2 === 0 ? 'Female' : 'Male',
+  age: 18 + index * 3,
+}));
+
+const teamOf = (teams: Team[], playerId: string) =>
+  teams.findIndex((team) => team.playerIds.includes(playerId));
+
+describe('buildTeams', () => {
+  it('should balance team sizes, genders and ages', () => {
+    const { teams } = buildTeams(players, { teamCount: 3, seed: 'cup' });
+
+    expect(teams.map((team) => team.name)).toEqual([
+      'Team 1',
+      'Team 2',
+      'Team 3',
+    ]);
+    for (const team of teams) {
+      expect(team.playerIds).toHaveLength(4);
+      expect(team.genders).toEqual({ Female: 2, Male: 2 });
+      expect(Math.abs(team.averageAge! - 34.5)).toBeLessThanOrEqual(3);
+      expect(team.maxAge! - team.minAge!).toBeGreaterThanOrEqual(15);
+    }
+    expect(teams.flatMap((team) => team.playerIds).sort()).toEqual(
+      players.map((player) => player.id).sort()
+    );
+  });
+
+  it('should give the same teams for the same seed', () => {
+    const first = buildTeams(players, { teamCount: 3, seed: 42 });
+    expect(buildTeams(players, { teamCount: 3, seed: 42 })).toEqual(first);
+    expect(first.seed).toBe('42');
+
+    // Without a seed, the one that was drawn reproduces the teams
+    const unseeded = buildTeams(players, { teamCount: 2 });
+    expect(buildTeams(players, { teamCount: 2, seed: unseeded.seed })).toEqual(
+      unseeded
+    );
+  });
+
+  it('should keep players together and apart as asked', () => {
+    const { teams } = buildTeams(players, {
+      teamCount: 2,
+      seed: 7,
+      keepTogether: [
+        ['1', '3', '5'],
+        ['2', '99'], // Players who aren't attending are ignored
+      ],
+      keepApart: [
+        ['1', '2'],
+        ['4', '6'],
+      ],
+    });
+
+    expect(teamOf(teams, '3')).toBe(teamOf(teams, '1'));
+    expect(teamOf(teams, '5')).toBe(teamOf(teams, '1'));
+    expect(teamOf(teams, '2')).not.toBe(teamOf(teams, '1'));
+    expect(teamOf(teams, '4')).not.toBe(teamOf(teams, '6'));
+    expect(teams.map((team) => team.playerIds.length)).toEqual([6, 6]);
+  });
+
+  it('should balance a league-sized roster within a time budget', () => {
+    // 300 players of three genders (one unspecified), some without an age
+    const roster: Player[] = Array.from({ length: 300 }, (_, index) => ({
+      id: `${index + 1}`,
+      name: `Player ${index + 1}`,
+      gender: ['Female', 'Male', ''][index % 3],
+      age: index % 7 === 0 ? undefined : 16 + ((index * 37) % 40),
+    }));
+
+    const started = Date.now();
+    const { teams } = buildTeams(roster, { teamCount: 4, seed: 'league' });
+    expect(Date.now() - started).toBeLessThan(3000);
+
+    for (const team of teams) {
+      expect(team.playerIds).toHaveLength(75);
+      expect(team.genders).toEqual({ Female: 25, Male: 25, Unspecified: 25 });
+    }
+  });
+
+  it('should reject splits that cannot be made', () => {
+    expect(() => buildTeams(players.slice(0, 2), { teamCount: 3 })).toThrow(
+      new TeamConstraintError('Cannot split 2 player(s) into 3 teams.')
+    );
+    expect(() => buildTeams(players, { teamCount: 1 })).toThrow(
+      TeamConstraintError
+    );
+    expect(() =>
+      buildTeams(players, {
+        teamCount: 2,
+        keepTogether: [['1', '2']],
+        keepApart: [['2', '1']],
+      })
+    ).toThrow('Players 2 and 1 must be kept both together and apart.');
+    expect(() =>
+      buildTeams(players, { teamCount: 2, keepApart: [['1', '2', '3']] })
+    ).toThrow(
+      'Players 1, 2, 3 must all be on different teams, but there are only 2 teams.'
+    );
+    expect(() =>
+      buildTeams(players, {
+        teamCount: 2,
+        keepApart: [
+          ['1', '2'],
+          ['2', '3'],
+          ['1', '3'],
+        ],
+      })
+    ).toThrow(/as asked; try more teams or fewer constraints\.$/);
+  });
+});
+
+describe('TeamService', () => {
+  it('should split the confirmed attendees of an event', () => {
+    const rsvpService = new RsvpService(createMockLogger());
+    rsvpService.setEventCapacity(admin, 'e1', 5);
+    for (const player of players.slice(0, 4)) {
+      rsvpService.addOrUpdateRsvp(admin, 'e1', player.id, 'Yes');
+    }
+    rsvpService.addOrUpdateRsvp(admin, 'e1', 'walk-in', 'Yes'); // Not on the roster
+    rsvpService.addOrUpdateRsvp(admin, 'e1', '6', 'No');
+    rsvpService.addOrUpdateRsvp(admin, 'e1', '7', 'Yes'); // Waitlisted
+
+    const { teams } = new TeamService(rsvpService).buildTeamsForEvent(
+      'e1',
+      players,
+      { teamCount: 2, seed: 1 }
+    );
+    expect(teams.flatMap((team) => team.playerIds).sort()).toEqual([
+      '1',
+      '2',
+      '3',
+      '4',
+      'walk-in',
+    ]);
+  });
+});
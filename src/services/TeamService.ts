@@ -0,0 +1,389 @@
+import { Player, Team, TeamAssignment, TeamOptions } from '../interfaces';
+import { createSeededRandom, shuffle } from '../utils';
+import { RsvpService } from './RsvpService';
+
+// How much each kind of imbalance weighs. A team one player too big costs as
+// much as ten players of one gender too many; AGE_SCALE years of difference
+// in average age (or in spread) cost as much as one such player.
+const SIZE_WEIGHT = 10;
+const GENDER_WEIGHT = 1;
+const AGE_WEIGHT = 1;
+const AGE_SCALE = 5;
+const MAX_PASSES = 50; // Improvement passes; each one that changes nothing ends the search
+const NO_GENDER = 'Unspecified';
+
+/**
+ * Thrown when players can't be split into teams as asked, e.g. too few
+ * players or constraints that contradict each other.
+ */
+export class TeamConstraintError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TeamConstraintError';
+  }
+}
+
+// Players who must share a team; placed as one.
+interface Unit {
+  players: Player[];
+  apartFrom: Set<number>; // Indexes of the units it may not share a team with
+}
+
+// Running totals of a group of players, enough to score a team's balance
+// without going over its players again.
+interface Mix {
+  size: number;
+  genders: number[]; // Players per gender, by the gender's index
+  ageCount: number; // Players with a known age
+  ageSum: number;
+  ageSquareSum: number;
+}
+
+/**
+ * Splits players into teams of even size with a similar gender mix, average
+ * age and age spread. "Keep together" groups always share a team and
+ * "keep apart" groups always end up on different teams; constraints naming
+ * players who aren't in the list are ignored.
+ *
+ * Players are placed greedily, most constrained first, then single moves and
+ * swaps are kept while they improve the balance. A change only touches two
+ * teams, so it's scored from their running totals, and each improvement
+ * pass costs O(players² × genders). The seed decides the order of players
+ * who are equally constrained, so the same seed and players always give the
+ * same teams.
+ * @param players - The players to split.
+ * @param options - The number of teams, the seed and the constraints.
+ * @returns The teams, in order, with the seed used (a random one when none was given).
+ * @throws TeamConstraintError when the players can't be split as asked.
+ */
+export function buildTeams(
+  players: Player[],
+  options: TeamOptions
+): TeamAssignment {
+  const { teamCount } = options;
+  if (!Number.isInteger(teamCount) || teamCount < 2) {
+    throw new TeamConstraintError(
+      `The number of teams must be a whole number of 2 or more, got ${teamCount}.`
+    );
+  }
+  if (players.length < teamCount) {
+    throw new TeamConstraintError(
+      `Cannot split ${players.length} player(s) into ${teamCount} teams.`
+    );
+  }
+  const seed = String(options.seed ?? Math.floor(Math.random() * 2 ** 32));
+  const random = createSeededRandom(seed);
+  const units = groupUnits(
+    players,
+    options.keepTogether ?? [],
+    options.keepApart ?? [],
+    teamCount
+  );
+
+  // Most constrained first, so "keep apart" groups still find room
+  const order = shuffle(
+    units.map((_, index) => index),
+    random
+  ).sort(
+    (a, b) =>
+      units[b].apartFrom.size - units[a].apartFrom.size ||
+      units[b].players.length - units[a].players.length
+  );
+  const genderIndexes = new Map<string, number>();
+  for (const player of players) {
+    const gender = genderOf(player);
+    genderIndexes.set(gender, genderIndexes.get(gender) ?? genderIndexes.size);
+  }
+  const unitMixes = units.map((unit) => mixOf(unit.players, genderIndexes));
+  const teamMixes = Array.from({ length: teamCount }, () =>
+    mixOf([], genderIndexes)
+  );
+  // The players placed so far; every team is measured against their average
+  let placed = mixOf([], genderIndexes);
+  const score = (team: Mix) => imbalance(team, placed, teamCount);
+
+  const teamOf: number[] = units.map(() => -1);
+  const allows = (unit: number, team: number, ignored = -1) =>
+    [...units[unit].apartFrom].every(
+      (other) => other === ignored || teamOf[other] !== team
+    );
+
+  for (const unit of order) {
+    placed = combine(placed, unitMixes[unit], 1);
+    // Only the chosen team changes, so the teams compare by how much its score rises
+    let best: { team: number; cost: number } | undefined;
+    for (let team = 0; team < teamCount; team++) {
+      if (allows(unit, team)) {
+        const cost =
+          score(combine(teamMixes[team], unitMixes[unit], 1)) -
+          score(teamMixes[team]);
+        if (!best || cost < best.cost) {
+          best = { team, cost };
+        }
+      }
+    }
+    if (!best) {
+      throw new TeamConstraintError(
+        `Could not keep ${names(units[unit])} apart from everyone as asked; try more teams or fewer constraints.`
+      );
+    }
+    teamOf[unit] = best.team;
+    teamMixes[best.team] = combine(teamMixes[best.team], unitMixes[unit], 1);
+  }
+
+  // Makes the moves, given as [unit, team], when they lower the imbalance.
+  const tryMoves = (moves: Array<[number, number]>) => {
+    const changed = new Map<number, Mix>();
+    for (const [unit, to] of moves) {
+      const from = teamOf[unit];
+      const mix = unitMixes[unit];
+      changed.set(from, combine(changed.get(from) ?? teamMixes[from], mix, -1));
+      changed.set(to, combine(changed.get(to) ?? teamMixes[to], mix, 1));
+    }
+    let delta = 0;
+    for (const [team, mix] of changed) {
+      delta += score(mix) - score(teamMixes[team]);
+    }
+    if (delta >= -1e-9) {
+      return false;
+    }
+    for (const [team, mix] of changed) {
+      teamMixes[team] = mix;
+    }
+    for (const [unit, to] of moves) {
+      teamOf[unit] = to;
+    }
+    return true;
+  };
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let improved = false;
+    for (const [position, unit] of order.entries()) {
+      for (let team = 0; team < teamCount; team++) {
+        if (team !== teamOf[unit] && allows(unit, team)) {
+          improved = tryMoves([[unit, team]]) || improved;
+        }
+      }
+      // Each pair once; a swap is the same whichever unit it starts from
+      for (const other of order.slice(position + 1)) {
+        const [a, b] = [teamOf[unit], teamOf[other]];
+        if (a !== b && allows(unit, b, other) && allows(other, a, unit)) {
+          improved =
+            tryMoves([
+              [unit, b],
+              [other, a],
+            ]) || improved;
+        }
+      }
+    }
+    if (!improved) {
+      break;
+    }
+  }
+
+  const teamByPlayer = new Map(
+    units.flatMap((unit, index) =>
+      unit.players.map((player) => [player.id, teamOf[index]] as const)
+    )
+  );
+  const teams = Array.from({ length: teamCount }, (_, team) =>
+    describeTeam(
+      `Team ${team + 1}`,
+      players.filter((player) => teamByPlayer.get(player.id) === team)
+    )
+  );
+  return { seed, teams };
+}
+
+/**
+ * Teams built from the confirmed attendees of the events in an RsvpService.
+ * Waitlisted players and guests aren't placed.
+ */
+export class TeamService {
+  private readonly rsvpService: RsvpService; // Dependency Injection
+
+  /**
+   * Creates an instance of TeamService.
+   * @param rsvpService - Where the confirmed attendees come from.
+   */
+  constructor(rsvpService: RsvpService) {
+    this.rsvpService = rsvpService;
+  }
+
+  /**
+   * Splits the confirmed attendees of an event into teams.
+   * @param eventId - The ID of the event.
+   * @param roster - The players' details; confirmed players missing from it are placed by ID only.
+   * @param options - The number of teams, the seed and the constraints.
+   * @returns The teams and the seed that reproduces them.
+   * @throws TeamConstraintError when the players can't be split as asked.
+   */
+  buildTeamsForEvent(
+    eventId: string,
+    roster: Player[],
+    options: TeamOptions
+  ): TeamAssignment {
+    const playersById = new Map(roster.map((player) => [player.id, player]));
+    const players = this.rsvpService
+      .getConfirmedAttendees(eventId)
+      .map(
+        (playerId) =>
+          playersById.get(playerId) ?? { id: playerId, name: playerId }
+      );
+    return buildTeams(players, options);
+  }
+}
+
+// Merges "keep together" groups into units and links the units of every
+// "keep apart" group, rejecting constraints that can't be met.
+function groupUnits(
+  players: Player[],
+  keepTogether: string[][],
+  keepApart: string[][],
+  teamCount: number
+): Unit[] {
+  const indexOf = new Map(players.map((player, index) => [player.id, index]));
+  const parent = players.map((_, index) => index);
+  const root = (index: number): number =>
+    parent[index] === index ? index : (parent[index] = root(parent[index]));
+  for (const group of keepTogether) {
+    const known = group.filter((id) => indexOf.has(id));
+    for (const id of known.slice(1)) {
+      parent[root(indexOf.get(id)!)] = root(indexOf.get(known[0])!);
+    }
+  }
+
+  const unitOfRoot = new Map<number, number>();
+  const units: Unit[] = [];
+  players.forEach((player, index) => {
+    let unit = unitOfRoot.get(root(index));
+    if (unit === undefined) {
+      unit = units.push({ players: [], apartFrom: new Set() }) - 1;
+      unitOfRoot.set(root(index), unit);
+    }
+    units[unit].players.push(player);
+  });
+
+  const unitOf = (id: string) => unitOfRoot.get(root(indexOf.get(id)!))!;
+  for (const group of keepApart) {
+    const known = [...new Set(group.filter((id) => indexOf.has(id)))];
+    if (known.length > teamCount) {
+      throw new TeamConstraintError(
+        `Players ${known.join(', ')} must all be on different teams, but there are only ${teamCount} teams.`
+      );
+    }
+    for (const [position, id] of known.entries()) {
+      for (const otherId of known.slice(position + 1)) {
+        const [unit, other] = [unitOf(id), unitOf(otherId)];
+        if (unit === other) {
+          throw new TeamConstraintError(
+            `Players ${id} and ${otherId} must be kept both together and apart.`
+          );
+        }
+        units[unit].apartFrom.add(other);
+        units[other].apartFrom.add(unit);
+      }
+    }
+  }
+  return units;
+}
+
+// How far one team is from an even share of the placed players; the teams'
+// sum is 0 when they're perfectly balanced.
+function imbalance(team: Mix, placed: Mix, teamCount: number): number {
+  let total = SIZE_WEIGHT * (team.size - placed.size / teamCount) ** 2;
+  team.genders.forEach((count, gender) => {
+    total += GENDER_WEIGHT * (count - placed.genders[gender] / teamCount) ** 2;
+  });
+  if (team.ageCount > 0) {
+    total +=
+      AGE_WEIGHT *
+      (((mixMean(team) - mixMean(placed)) / AGE_SCALE) ** 2 +
+        ((mixSpread(team) - mixSpread(placed)) / AGE_SCALE) ** 2);
+  }
+  return total;
+}
+
+function mixOf(players: Player[], genderIndexes: Map<string, number>): Mix {
+  const mix: Mix = {
+    size: players.length,
+    genders: new Array<number>(genderIndexes.size).fill(0),
+    ageCount: 0,
+    ageSum: 0,
+    ageSquareSum: 0,
+  };
+  for (const player of players) {
+    mix.genders[genderIndexes.get(genderOf(player))!]++;
+    if (player.age !== undefined) {
+      mix.ageCount++;
+      mix.ageSum += player.age;
+      mix.ageSquareSum += player.age ** 2;
+    }
+  }
+  return mix;
+}
+
+// Adds (sign 1) or takes away (sign -1) the players of one mix from another.
+function combine(mix: Mix, other: Mix, sign: 1 | -1): Mix {
+  return {
+    size: mix.size + sign * other.size,
+    genders: mix.genders.map(
+      (count, gender) => count + sign * other.genders[gender]
+    ),
+    ageCount: mix.ageCount + sign * other.ageCount,
+    ageSum: mix.ageSum + sign * other.ageSum,
+    ageSquareSum: mix.ageSquareSum + sign * other.ageSquareSum,
+  };
+}
+
+function mixMean(mix: Mix): number {
+  return mix.ageSum / mix.ageCount;
+}
+
+// The standard deviation of the mix's ages.
+function mixSpread(mix: Mix): number {
+  const average = mixMean(mix);
+  return Math.sqrt(Math.max(0, mix.ageSquareSum / mix.ageCount - average ** 2));
+}
+
+function describeTeam(name: string, players: Player[]): Team {
+  const teamAges = ages(players);
+  return {
+    name,
+    playerIds: players.map((player) => player.id),
+    genders: countGenders(players),
+    averageAge:
+      teamAges.length > 0 ? Math.round(mean(teamAges) * 10) / 10 : null,
+    minAge: teamAges.length > 0 ? Math.min(...teamAges) : null,
+    maxAge: teamAges.length > 0 ? Math.max(...teamAges) : null,
+  };
+}
+
+// Sorted by gender, for stable output.
+function countGenders(players: Player[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const player of players) {
+    const gender = genderOf(player);
+    counts[gender] = (counts[gender] ?? 0) + 1;
+  }
+  return Object.fromEntries(
+    Object.entries(counts).sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+function genderOf(player: Player): string {
+  return player.gender?.trim() || NO_GENDER;
+}
+
+function ages(players: Player[]): number[] {
+  return players.flatMap((player) =>
+    player.age === undefined ? [] : [player.age]
+  );
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function names(unit: Unit): string {
+  return unit.players.map((player) => player.name).join(', ');
+}
@@ -1 +1,3 @@
 export * from './RsvpService';
+export * from './ReliabilityService';
+export * from './TeamService';
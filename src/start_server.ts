@@ -0,0 +1,64 @@
+import * as path from 'path';
+import {
+  ILogger,
+  isLogLevel,
+  JsonLogger,
+  RotatingFileSink,
+  stdoutSink,
+} from './utils';
+import { RsvpService } from './services';
+import { JsonlRsvpRepository } from './repositories';
+import { RsvpApiServer } from './server';
+import { WebhookDispatcher } from './webhooks';
+
+// Configuration comes from the environment so the same script works locally and in deployment
+const port = Number(process.env.PORT ?? 3000);
+const storePath =
+  process.env.RSVP_STORE ?? path.join(__dirname, '../data/rsvps.jsonl');
+// Comma-separated URLs that receive signed RSVP notifications (optional)
+const webhookUrls = (process.env.WEBHOOK_URLS ?? '')
+  .split(',')
+  .map((url) => url.trim())
+  .filter((url) => url !== '');
+const webhookSecret = process.env.WEBHOOK_SECRET ?? '';
+// JSON log lines go to stdout, or to a rotating file when LOG_FILE is set
+const logLevel = process.env.LOG_LEVEL ?? 'info';
+const logFile = process.env.LOG_FILE;
+
+const logger: ILogger = new JsonLogger(
+  logFile ? new RotatingFileSink(logFile) : stdoutSink,
+  { level: isLogLevel(logLevel) ? logLevel : 'info' }
+);
+if (!isLogLevel(logLevel)) {
+  logger.warn('Ignoring invalid LOG_LEVEL; logging at "info"', { logLevel });
+}
+const rsvpService = new RsvpService(logger, new JsonlRsvpRepository(storePath));
+const server = new RsvpApiServer(rsvpService, logger);
+
+let webhooks: WebhookDispatcher | undefined;
+if (webhookUrls.length > 0) {
+  if (!webhookSecret) {
+    logger.warn(
+      'WEBHOOK_URLS is set without WEBHOOK_SECRET; payloads are signed with an empty secret.'
+    );
+  }
+  webhooks = new WebhookDispatcher(
+    webhookUrls.map((url) => ({ url, secret: webhookSecret })),
+    logger
+  );
+  webhooks.attach(rsvpService);
+}
+
+server.listen(port).catch((error) => {
+  logger.error('Failed to start RSVP API:', error);
+  process.exitCode = 1;
+});
+
+// Closing the server cleanly on Ctrl+C
+process.on('SIGINT', () => {
+  // Letting in-flight webhook deliveries finish before exiting
+  server
+    .close()
+    .then(() => webhooks?.idle())
+    .finally(() => process.exit());
+});
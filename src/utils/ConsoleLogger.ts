@@ -1,25 +1,54 @@
-import { ILogger } from './logger.interface';
+import { ILogger, LOG_LEVELS, LogFields, LogLevel } from './logger.interface';
 
 /**
  * A simple logger implementation that outputs to the console.
+ * Entries below the minimum level are dropped; bound fields are printed
+ * after the params of every entry.
  */
 export class ConsoleLogger implements ILogger {
+  private readonly level: LogLevel;
+  private readonly fields?: LogFields;
+
+  /**
+   * @param level - The minimum level to print (default: "info").
+   * @param fields - Context fields printed with every entry.
+   */
+  constructor(level: LogLevel = 'info', fields?: LogFields) {
+    this.level = level;
+    this.fields = fields;
+  }
+
   log(message: string, ...optionalParams: any[]): void {
-    console.log(`[LOG] ${message}`, ...optionalParams);
+    if (this.isLevelEnabled('info')) {
+      console.log(`[LOG] ${message}`, ...this.withFields(optionalParams));
+    }
   }
 
   warn(message: string, ...optionalParams: any[]): void {
-    console.warn(`[WARN] ${message}`, ...optionalParams);
+    if (this.isLevelEnabled('warn')) {
+      console.warn(`[WARN] ${message}`, ...this.withFields(optionalParams));
+    }
   }
 
   error(message: string, ...optionalParams: any[]): void {
-    console.error(`[ERROR] ${message}`, ...optionalParams);
+    console.error(`[ERROR] ${message}`, ...this.withFields(optionalParams));
   }
 
-  // Example of implementing the optional debug method
   debug(message: string, ...optionalParams: any[]): void {
-        if (process.env.NODE_ENV === 'development') {
-      console.debug(`[DEBUG] ${message}`, ...optionalParams);
+    if (this.isLevelEnabled('debug')) {
+      console.debug(`[DEBUG] ${message}`, ...this.withFields(optionalParams));
     }
   }
+
+  child(fields: LogFields): ConsoleLogger {
+    return new ConsoleLogger(this.level, { ...this.fields, ...fields });
+  }
+
+  private isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.level);
+  }
+
+  private withFields(params: any[]): any[] {
+    return this.fields ? [...params, this.fields] : params;
+  }
 }
@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonLogger } from './JsonLogger';
+import { childLogger, ILogger } from './logger.interface';
+import { RotatingFileSink } from './RotatingFileSink';
+
+const clock = { now: () => new Date('2025-03-01T12:00:00Z') };
+
+describe('JsonLogger', () => {
+  let lines: string[];
+  const sink = { write: (line: string) => lines.push(line) };
+  const entries = () => lines.map((line) => JSON.parse(line));
+
+  beforeEach(() => {
+    lines = [];
+  });
+
+  it('should write one JSON line per entry with its fields', () => {
+    const logger = new JsonLogger(sink, { clock });
+    logger.log('Added new RSVP', { eventId: 'e1', playerId: 'p1' }, 42);
+    expect(lines).toEqual([
+      '{"level":"info","timestamp":"2025-03-01T12:00:00.000Z","message":"Added new RSVP","eventId":"e1","playerId":"p1","args":[42]}',
+    ]);
+  });
+
+  it('should drop entries below the minimum level', () => {
+    const logger = new JsonLogger(sink, { level: 'warn', clock });
+    logger.debug('debug');
+    logger.log('info');
+    logger.warn('warn');
+    logger.error('error');
+    expect(entries().map((entry) => entry.level)).toEqual(['warn', 'error']);
+    expect(new JsonLogger(sink).isLevelEnabled('debug')).toBe(false);
+  });
+
+  it('should bind context in child loggers without letting fields replace the basics', () => {
+    const logger = new JsonLogger(sink, { clock })
+      .child({ requestId: 'r1' })
+      .child({ eventId: 'e1' });
+    logger.error('Failed', new Error('boom'), { message: 'ignored' });
+
+    const [entry] = entries();
+    expect(entry).toMatchObject({
+      level: 'error',
+      message: 'Failed',
+      requestId: 'r1',
+      eventId: 'e1',
+      error: { name: 'Error', message: 'boom' },
+    });
+    expect(entry.error.stack).toContain('boom');
+  });
+
+  it('should still log entries whose fields cannot be serialized', () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+    new JsonLogger(sink, { clock }).warn('Odd', { circular });
+    expect(entries()[0]).toMatchObject({
+      level: 'warn',
+      message: 'Odd',
+      logError: 'Could not serialize the fields of this entry.',
+    });
+  });
+});
+
+describe('childLogger', () => {
+  it('should pass the bound fields to loggers without child support', () => {
+    const logger: jest.Mocked<ILogger> = {
+      log: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    childLogger(logger, { requestId: 'r1' }).log('Hello', 1);
+    expect(logger.log).toHaveBeenCalledWith('Hello', 1, { requestId: 'r1' });
+  });
+});
+
+describe('RotatingFileSink', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rsvp-logs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should rotate before a file grows past maxBytes and keep maxFiles', () => {
+    const filePath = path.join(tempDir, 'logs', 'app.log');
+    const sink = new RotatingFileSink(filePath, { maxBytes: 10, maxFiles: 2 });
+    ['line-1', 'line-2', 'line-3', 'line-4'].forEach((line) =>
+      sink.write(line)
+    );
+
+    expect(fs.readdirSync(path.dirname(filePath)).sort()).toEqual([
+      'app.log',
+      'app.log.1',
+      'app.log.2',
+    ]);
+    expect(fs.readFileSync(filePath, 'utf8')).toBe('line-4\n');
+    expect(fs.readFileSync(`${filePath}.1`, 'utf8')).toBe('line-3\n');
+    expect(fs.readFileSync(`${filePath}.2`, 'utf8')).toBe('line-2\n');
+  });
+
+  it('should count an existing file towards the limit after a restart', () => {
+    const filePath = path.join(tempDir, 'app.log');
+    fs.writeFileSync(filePath, 'earlier\n');
+    new RotatingFileSink(filePath, { maxBytes: 10 }).write('later');
+    expect(fs.readFileSync(`${filePath}.1`, 'utf8')).toBe('earlier\n');
+    expect(fs.readFileSync(filePath, 'utf8')).toBe('later\n');
+  });
+
+  it('should drop lines it cannot write and report that once on stderr', () => {
+    const filePath = path.join(tempDir, 'app.log');
+    const sink = new RotatingFileSink(filePath);
+    // A directory in the file's place makes every append fail
+    fs.mkdirSync(filePath);
+    const stderr = jest
+      .spyOn(process.stderr, 'write')
+      .mockImplementation(() => true);
+    try {
+      const logger = new JsonLogger(sink, { clock });
+      expect(() => logger.log('first')).not.toThrow();
+      expect(() => logger.error('second')).not.toThrow();
+      expect(stderr).toHaveBeenCalledTimes(1);
+      expect(String(stderr.mock.calls[0][0])).toContain(
+        `Could not write to log file ${filePath}`
+      );
+    } finally {
+      stderr.mockRestore();
+    }
+  });
+});
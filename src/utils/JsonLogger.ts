@@ -0,0 +1,149 @@
+import { IClock, systemClock } from './clock';
+import { ILogger, LOG_LEVELS, LogFields, LogLevel } from './logger.interface';
+
+/**
+ * Where a JsonLogger writes its lines (without the trailing newline).
+ */
+export interface ILogSink {
+  write(line: string): void;
+}
+
+/**
+ * Writes every line to stdout.
+ */
+export const stdoutSink: ILogSink = {
+  write: (line) => {
+    process.stdout.write(`${line}\n`);
+  },
+};
+
+/**
+ * Optional settings for JsonLogger.
+ */
+export interface JsonLoggerOptions {
+  level?: LogLevel; // Entries below this level are dropped (default: "info")
+  fields?: LogFields; // Bound to every entry
+  clock?: IClock;
+}
+
+/**
+ * A structured logger that writes one JSON object per line:
+ *
+ * `{"level":"info","timestamp":"...","message":"Added new RSVP","eventId":"1","playerId":"42"}`
+ *
+ * Plain objects passed after the message are merged in as fields, errors are
+ * logged under `error` with their stack, and any other params end up in `args`.
+ * `log` writes at the "info" level.
+ */
+export class JsonLogger implements ILogger {
+  private readonly sink: ILogSink; // Dependency Injection
+  private readonly level: LogLevel;
+  private readonly fields: LogFields;
+  private readonly clock: IClock; // Dependency Injection
+
+  /**
+   * Creates an instance of JsonLogger.
+   * @param sink - Where the lines are written.
+   * @param options - Optional minimum level, bound fields and clock.
+   */
+  constructor(sink: ILogSink = stdoutSink, options: JsonLoggerOptions = {}) {
+    this.sink = sink;
+    this.level = options.level ?? 'info';
+    this.fields = options.fields ?? {};
+    this.clock = options.clock ?? systemClock;
+  }
+
+  log(message: string, ...optionalParams: any[]): void {
+    this.write('info', message, optionalParams);
+  }
+
+  warn(message: string, ...optionalParams: any[]): void {
+    this.write('warn', message, optionalParams);
+  }
+
+  error(message: string, ...optionalParams: any[]): void {
+    this.write('error', message, optionalParams);
+  }
+
+  debug(message: string, ...optionalParams: any[]): void {
+    this.write('debug', message, optionalParams);
+  }
+
+  /**
+   * Creates a logger with the same sink and level that adds the given fields
+   * to every entry, on top of the ones already bound.
+   * @param fields - The context fields to bind, e.g. `{ requestId }`.
+   * @returns A JsonLogger.
+   */
+  child(fields: LogFields): JsonLogger {
+    return new JsonLogger(this.sink, {
+      level: this.level,
+      fields: { ...this.fields, ...fields },
+      clock: this.clock,
+    });
+  }
+
+  /**
+   * Checks whether entries of a level would be written.
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.level);
+  }
+
+  private write(level: LogLevel, message: string, params: any[]): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+    const base = { level, timestamp: this.clock.now().toISOString(), message };
+    const fields: LogFields = { ...this.fields };
+    const args: unknown[] = [];
+    for (const param of params) {
+      if (param instanceof Error) {
+        fields.error = serializeError(param);
+      } else if (isPlainObject(param)) {
+        Object.assign(fields, param);
+      } else {
+        args.push(param);
+      }
+    }
+    if (args.length > 0) {
+      fields.args = args;
+    }
+    // Assigning the base twice keeps it first and stops fields from overwriting it.
+    const entry = Object.assign({ ...base }, fields, base);
+    this.sink.write(stringify(entry));
+  }
+}
+
+function isPlainObject(value: unknown): value is LogFields {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function serializeError(error: Error): LogFields {
+  return { name: error.name, message: error.message, stack: error.stack };
+}
+
+// A log call must never throw, whatever it was given.
+function stringify(entry: LogFields): string {
+  try {
+    return JSON.stringify(entry, (_key, value) =>
+      value instanceof Error
+        ? serializeError(value)
+        : typeof value === 'bigint'
+          ? value.toString()
+          : value
+    );
+  } catch {
+    const { level, timestamp, message } = entry;
+    return JSON.stringify({
+      level,
+      timestamp,
+      message,
+      logError: 'Could not serialize the fields of this entry.',
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogSink } from './JsonLogger';
+
+/**
+ * Optional settings for RotatingFileSink.
+ */
+export interface RotatingFileSinkOptions {
+  maxBytes?: number; // Rotate before the file would grow past this (default: 10 MiB)
+  maxFiles?: number; // Rotated files to keep (default: 5)
+}
+
+/**
+ * Appends log lines to a file and rotates it once it reaches `maxBytes`:
+ * `app.log` becomes `app.log.1`, `app.log.1` becomes `app.log.2`, and so on,
+ * dropping the oldest beyond `maxFiles`. Lines are never split across files.
+ * A line that can't be written is dropped, and the first such failure is
+ * reported on stderr, since a log call must never throw.
+ */
+export class RotatingFileSink implements ILogSink {
+  private readonly filePath: string;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private size: number;
+  private failureReported = false;
+
+  /**
+   * @param filePath - Path of the active log file; its directory is created if needed.
+   * @param options - Optional size limit and number of rotated files.
+   */
+  constructor(filePath: string, options: RotatingFileSinkOptions = {}) {
+    this.filePath = filePath;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  }
+
+  write(line: string): void {
+    const data = `${line}\n`;
+    const bytes = Buffer.byteLength(data);
+    try {
+      // A single oversized line still gets a file of its own.
+      if (this.size > 0 && this.size + bytes > this.maxBytes) {
+        this.rotate();
+      }
+      fs.appendFileSync(this.filePath, data);
+      this.size += bytes;
+    } catch (error) {
+      this.reportFailure(error as Error);
+    }
+  }
+
+  private reportFailure(error: Error): void {
+    if (this.failureReported) {
+      return;
+    }
+    this.failureReported = true;
+    process.stderr.write(
+      `Could not write to log file ${this.filePath}; dropping log lines: ${error.message}\n`
+    );
+  }
+
+  private rotate(): void {
+    const rotated = (index: number) => `${this.filePath}.${index}`;
+    fs.rmSync(rotated(this.maxFiles), { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(rotated(index))) {
+        fs.renameSync(rotated(index), rotated(index + 1));
+      }
+    }
+    if (this.maxFiles > 0) {
+      fs.renameSync(this.filePath, rotated(1));
+    } else {
+      fs.rmSync(this.filePath, { force: true });
+    }
+    this.size = 0;
+  }
+}
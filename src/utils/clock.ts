@@ -0,0 +1,13 @@
+/**
+ * A source of the current time; injected so tests can control it.
+ */
+export interface IClock {
+  now(): Date;
+}
+
+/**
+ * The real wall clock.
+ */
+export const systemClock: IClock = {
+  now: () => new Date(),
+};
@@ -0,0 +1,7 @@
+/**
+ * Orders IDs naturally: numeric IDs in numeric order ("2" before "10"), and
+ * numbers inside IDs too, so "7@2025-03-04" comes before "7@2025-03-11".
+ */
+export function compareIds(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
@@ -0,0 +1,22 @@
+import * as fs from 'fs';
+
+/**
+ * Appends one line to a file and fsyncs it. A write may store fewer bytes than
+ * asked (e.g. when interrupted), so it keeps writing until the whole line is
+ * stored.
+ * @param filePath - The file to append to; it is created if missing.
+ * @param line - The line to write, without its trailing newline.
+ */
+export function appendLineSync(filePath: string, line: string): void {
+  const buffer = Buffer.from(`${line}\n`, 'utf8');
+  const fd = fs.openSync(filePath, 'a');
+  try {
+    let written = 0;
+    while (written < buffer.length) {
+      written += fs.writeSync(fd, buffer, written);
+    }
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Escapes the basic HTML characters so CSV values can't inject markup.
+ * @param unsafe - The raw value; null/undefined become an empty string.
+ */
+export function escapeHtml(unsafe: string): string {
+  if (!unsafe) return ''; // Handling null/undefined input
+  return unsafe
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
@@ -1,2 +1,9 @@
 export * from './logger.interface';
 export * from './ConsoleLogger';
+export * from './JsonLogger';
+export * from './RotatingFileSink';
+export * from './html';
+export * from './clock';
+export * from './random';
+export * from './compare';
+export * from './file';
@@ -1,10 +1,59 @@
+/**
+ * The severity of a log entry, from least to most severe.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Every log level, least severe first.
+ */
+export const LOG_LEVELS: readonly LogLevel[] = [
+  'debug',
+  'info',
+  'warn',
+  'error',
+];
+
+/**
+ * Checks at runtime whether a value is a valid LogLevel.
+ */
+export function isLogLevel(value: unknown): value is LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel);
+}
+
+/**
+ * Context attached to a log entry, e.g. `{ eventId, playerId }`.
+ */
+export type LogFields = Record<string, unknown>;
+
 /**
  * Defines the contract for a logging service.
  * Allows for different implementations (e.g., Console, File, API).
+ * Structured loggers treat a plain object among the params as context fields.
  */
 export interface ILogger {
   log(message: string, ...optionalParams: any[]): void;
   warn(message: string, ...optionalParams: any[]): void;
   error(message: string, ...optionalParams: any[]): void;
   debug?(message: string, ...optionalParams: any[]): void; // Optional debug method
+  child?(fields: LogFields): ILogger; // A logger that adds these fields to every entry
+}
+
+/**
+ * Creates a logger that adds the given fields to every entry, using the
+ * logger's own `child` when it has one.
+ * @param logger - The logger to extend.
+ * @param fields - The context fields to bind.
+ * @returns An ILogger.
+ */
+export function childLogger(logger: ILogger, fields: LogFields): ILogger {
+  if (logger.child) {
+    return logger.child(fields);
+  }
+  // Passing the bound fields as one more param, which is how fields are logged anyway.
+  return {
+    log: (message, ...params) => logger.log(message, ...params, fields),
+    warn: (message, ...params) => logger.warn(message, ...params, fields),
+    error: (message, ...params) => logger.error(message, ...params, fields),
+    debug: (message, ...params) => logger.debug?.(message, ...params, fields),
+  };
 }
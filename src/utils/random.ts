@@ -0,0 +1,42 @@
+/**
+ * A source of random numbers in [0, 1), like `Math.random`.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Creates a seeded random number generator (mulberry32), so a run can be
+ * repeated exactly. Strings are hashed into the 32-bit seed.
+ * @param seed - Any string or number.
+ */
+export function createSeededRandom(seed: string | number): RandomSource {
+  let state = hashSeed(String(seed));
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffles a copy of the items (Fisher-Yates).
+ * @param items - The items to shuffle; left unchanged.
+ * @param random - The source of randomness.
+ */
+export function shuffle<T>(items: readonly T[], random: RandomSource): T[] {
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index--) {
+    const other = Math.floor(random() * (index + 1));
+    [shuffled[index], shuffled[other]] = [shuffled[other], shuffled[index]];
+  }
+  return shuffled;
+}
+
+// FNV-1a: a small, stable string hash.
+function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash = Math.imul(hash ^ text.charCodeAt(index), 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,186 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  DELIVERY_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+  WebhookDispatcher,
+} from './WebhookDispatcher';
+import { Principal, RsvpNotification } from '../interfaces';
+import { RsvpService } from '../services';
+import { ILogger } from '../utils/logger.interface';
+
+const createMockLogger = (): jest.Mocked<ILogger> => ({
+  log: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+});
+
+const admin: Principal = { role: 'admin', id: 'admin' };
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// A local stand-in for a webhook receiver that answers with scripted status codes
+const startReceiver = async (statusCodes: number[]) => {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      received.push({
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString('utf8'),
+      });
+      res.writeHead(statusCodes[received.length - 1] ?? 200);
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    received,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
+
+const notification: RsvpNotification = {
+  type: 'updated',
+  eventId: 'e1',
+  playerId: 'p1',
+  previousStatus: 'Maybe',
+  newStatus: 'Yes',
+  timestamp: new Date('2025-01-01T10:00:00Z'),
+  source: 'api',
+};
+
+describe('WebhookDispatcher', () => {
+  let mockLogger: jest.Mocked<ILogger>;
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+
+  beforeEach(() => {
+    mockLogger = createMockLogger();
+  });
+
+  afterEach(async () => {
+    await receiver.close();
+  });
+
+  it('should POST a signed JSON payload', async () => {
+    receiver = await startReceiver([204]);
+    const dispatcher = new WebhookDispatcher(
+      [{ url: receiver.url, secret: 's3cret' }],
+      mockLogger
+    );
+
+    const [delivery] = await dispatcher.dispatch(notification);
+    expect(delivery).toMatchObject({
+      url: receiver.url,
+      delivered: true,
+      attempts: 1,
+      statusCode: 204,
+    });
+
+    const [request] = receiver.received;
+    expect(JSON.parse(request.body)).toEqual({
+      type: 'updated',
+      eventId: 'e1',
+      playerId: 'p1',
+      previousStatus: 'Maybe',
+      newStatus: 'Yes',
+      timestamp: '2025-01-01T10:00:00.000Z',
+      source: 'api',
+      deliveryId: delivery.deliveryId,
+    });
+    const header = (name: string) =>
+      request.headers[name.toLowerCase()] as string;
+    expect(header(DELIVERY_HEADER)).toBe(delivery.deliveryId);
+    expect(
+      verifyWebhookSignature(
+        's3cret',
+        header(TIMESTAMP_HEADER),
+        request.body,
+        header(SIGNATURE_HEADER)
+      )
+    ).toBe(true);
+    expect(
+      verifyWebhookSignature(
+        'wrong',
+        header(TIMESTAMP_HEADER),
+        request.body,
+        header(SIGNATURE_HEADER)
+      )
+    ).toBe(false);
+  });
+
+  it('should retry server errors with backoff until delivered', async () => {
+    receiver = await startReceiver([500, 503, 200]);
+    const dispatcher = new WebhookDispatcher(
+      [{ url: receiver.url, secret: 's3cret' }],
+      mockLogger,
+      { baseDelayMs: 1 }
+    );
+
+    const [delivery] = await dispatcher.dispatch(notification);
+    expect(delivery).toMatchObject({ delivered: true, attempts: 3 });
+    expect(delivery.error).toBeUndefined();
+    expect(mockLogger.warn).toHaveBeenCalledTimes(2);
+    // Every attempt carries the same delivery id, so receivers can deduplicate
+    expect(
+      new Set(
+        receiver.received.map((request) => request.headers['x-rsvp-delivery'])
+      ).size
+    ).toBe(1);
+  });
+
+  it('should give up after maxAttempts and not retry client errors', async () => {
+    receiver = await startReceiver([500, 500, 400]);
+    const dispatcher = new WebhookDispatcher(
+      [
+        { url: receiver.url, secret: 'a' },
+        { url: receiver.url.replace(/:\d+/, ':1'), secret: 'b' }, // Nothing listens here
+      ],
+      mockLogger,
+      { maxAttempts: 2, baseDelayMs: 1 }
+    );
+
+    const [first, unreachable] = await dispatcher.dispatch(notification);
+    expect(first).toMatchObject({
+      delivered: false,
+      attempts: 2,
+      statusCode: 500,
+      error: 'Endpoint responded with 500.',
+    });
+    expect(unreachable).toMatchObject({ delivered: false, attempts: 2 });
+    expect(mockLogger.error).toHaveBeenCalledTimes(2);
+
+    const [rejected] = await dispatcher.dispatch(notification);
+    expect(rejected).toMatchObject({ delivered: false, attempts: 1 });
+  });
+
+  it('should deliver the changes of an attached service in the background', async () => {
+    receiver = await startReceiver([]);
+    const dispatcher = new WebhookDispatcher(
+      [{ url: receiver.url, secret: 's3cret', types: ['added', 'removed'] }],
+      mockLogger
+    );
+    const service = new RsvpService(mockLogger);
+    const detach = dispatcher.attach(service);
+
+    service.addOrUpdateRsvp(admin, 'e1', 'p1', 'Yes');
+    service.addOrUpdateRsvp(admin, 'e1', 'p1', 'No'); // "updated" isn't wanted by this endpoint
+    service.removeRsvp(admin, 'e1', 'p1');
+    detach();
+    service.addOrUpdateRsvp(admin, 'e1', 'p2', 'Yes');
+    await dispatcher.idle();
+
+    expect(
+      receiver.received.map((request) => JSON.parse(request.body).type)
+    ).toEqual(['added', 'removed']);
+  });
+});
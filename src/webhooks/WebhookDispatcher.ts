@@ -0,0 +1,262 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import { RsvpNotification, RsvpNotificationType } from '../interfaces';
+import { RsvpService } from '../services';
+import { ILogger } from '../utils';
+
+export const SIGNATURE_HEADER = 'X-Rsvp-Signature';
+export const TIMESTAMP_HEADER = 'X-Rsvp-Timestamp';
+export const DELIVERY_HEADER = 'X-Rsvp-Delivery';
+
+/**
+ * A URL that receives RSVP notifications.
+ */
+export interface WebhookEndpoint {
+  url: string;
+  secret: string; // Shared secret the payloads are signed with
+  types?: RsvpNotificationType[]; // Defaults to every notification type
+}
+
+/**
+ * Delivery tuning; every field has a default.
+ */
+export interface WebhookDispatcherOptions {
+  maxAttempts?: number; // Including the first attempt (default 5)
+  baseDelayMs?: number; // Delay before the first retry, doubled after each one (default 500)
+  maxDelayMs?: number; // Upper bound for a single delay (default 30000)
+  timeoutMs?: number; // Per-request timeout (default 5000)
+}
+
+/**
+ * The outcome of delivering one notification to one endpoint.
+ */
+export interface WebhookDelivery {
+  deliveryId: string;
+  url: string;
+  delivered: boolean;
+  attempts: number;
+  statusCode?: number; // Of the last attempt, if the endpoint answered
+  error?: string; // Why the last attempt failed
+}
+
+/**
+ * The JSON body POSTed to every endpoint.
+ */
+export type WebhookPayload = Omit<RsvpNotification, 'timestamp'> & {
+  deliveryId: string;
+  timestamp: string;
+};
+
+/**
+ * Signs a payload: HMAC-SHA256 over `${timestamp}.${body}`, hex-encoded.
+ * Including the timestamp lets receivers reject replayed requests.
+ * @param secret - The endpoint's shared secret.
+ * @param timestamp - The value of the X-Rsvp-Timestamp header.
+ * @param body - The raw request body.
+ * @returns The X-Rsvp-Signature header value, e.g. `sha256=ab12...`.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Checks a received signature in constant time; for use by webhook receivers.
+ * @returns True if the signature matches the body and timestamp.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length &&
+    crypto.timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * POSTs signed JSON payloads for RSVP notifications to configured URLs.
+ *
+ * Network errors, timeouts, 429 and 5xx responses are retried with exponential
+ * backoff; other 4xx responses are treated as permanent. Deliveries run in the
+ * background, so a slow endpoint never delays `addOrUpdateRsvp`.
+ */
+export class WebhookDispatcher {
+  private readonly endpoints: WebhookEndpoint[];
+  private readonly logger: ILogger; // Dependency Injection
+  private readonly options: Required<WebhookDispatcherOptions>;
+  // Deliveries started by attached services and not finished yet.
+  private readonly pending = new Set<Promise<WebhookDelivery[]>>();
+
+  /**
+   * Creates an instance of WebhookDispatcher.
+   * @param endpoints - The URLs to deliver to.
+   * @param logger - An implementation of ILogger for logging.
+   * @param options - Optional retry and timeout settings.
+   */
+  constructor(
+    endpoints: WebhookEndpoint[],
+    logger: ILogger,
+    options: WebhookDispatcherOptions = {}
+  ) {
+    this.endpoints = endpoints;
+    this.logger = logger;
+    this.options = {
+      maxAttempts: options.maxAttempts ?? 5,
+      baseDelayMs: options.baseDelayMs ?? 500,
+      maxDelayMs: options.maxDelayMs ?? 30000,
+      timeoutMs: options.timeoutMs ?? 5000,
+    };
+  }
+
+  /**
+   * Subscribes to a service so every RSVP change is delivered.
+   * @param service - The RsvpService to listen to.
+   * @returns A function that stops the deliveries.
+   */
+  attach(service: RsvpService): () => void {
+    return service.subscribe((notification) => {
+      const delivery = this.dispatch(notification);
+      this.pending.add(delivery);
+      delivery.finally(() => this.pending.delete(delivery));
+    });
+  }
+
+  /**
+   * Waits until every background delivery has finished, e.g. before shutting down.
+   */
+  async idle(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+  }
+
+  /**
+   * Delivers one notification to every endpoint that wants it, retrying as needed.
+   * Never rejects; failures are logged and reported in the results.
+   * @param notification - The notification to deliver.
+   * @returns One WebhookDelivery per matching endpoint.
+   */
+  dispatch(notification: RsvpNotification): Promise<WebhookDelivery[]> {
+    const payload: WebhookPayload = {
+      ...notification,
+      deliveryId: crypto.randomUUID(),
+      timestamp: notification.timestamp.toISOString(),
+    };
+    const body = JSON.stringify(payload);
+    return Promise.all(
+      this.endpoints
+        .filter(
+          (endpoint) =>
+            !endpoint.types || endpoint.types.includes(notification.type)
+        )
+        .map((endpoint) => this.deliver(endpoint, payload.deliveryId, body))
+    );
+  }
+
+  private async deliver(
+    endpoint: WebhookEndpoint,
+    deliveryId: string,
+    body: string
+  ): Promise<WebhookDelivery> {
+    const result: WebhookDelivery = {
+      deliveryId,
+      url: endpoint.url,
+      delivered: false,
+      attempts: 0,
+    };
+    while (result.attempts < this.options.maxAttempts) {
+      if (result.attempts > 0) {
+        await sleep(this.backoffDelay(result.attempts));
+      }
+      result.attempts++;
+      let retryable = true;
+      try {
+        // Signed per attempt, so the timestamp reflects when it was sent.
+        const timestamp = new Date().toISOString();
+        const statusCode = await this.post(endpoint.url, body, {
+          'Content-Type': 'application/json',
+          [DELIVERY_HEADER]: deliveryId,
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: signWebhookPayload(
+            endpoint.secret,
+            timestamp,
+            body
+          ),
+        });
+        result.statusCode = statusCode;
+        if (statusCode >= 200 && statusCode < 300) {
+          result.delivered = true;
+          delete result.error;
+          return result;
+        }
+        result.error = `Endpoint responded with ${statusCode}.`;
+        retryable = statusCode === 429 || statusCode >= 500;
+      } catch (error) {
+        result.error = (error as Error).message;
+      }
+      if (!retryable) {
+        break;
+      }
+      this.logger.warn(
+        `Webhook delivery ${deliveryId} to ${endpoint.url} failed on attempt ${result.attempts}: ${result.error}`
+      );
+    }
+    this.logger.error(
+      `Giving up on webhook delivery ${deliveryId} to ${endpoint.url} after ${result.attempts} attempt(s): ${result.error}`
+    );
+    return result;
+  }
+
+  // Exponential backoff: base, 2 x base, 4 x base, ... capped at maxDelayMs.
+  private backoffDelay(attempt: number): number {
+    return Math.min(
+      this.options.baseDelayMs * 2 ** (attempt - 1),
+      this.options.maxDelayMs
+    );
+  }
+
+  // Resolves with the status code; rejects on network errors and timeouts.
+  private post(
+    url: string,
+    body: string,
+    headers: Record<string, string>
+  ): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const client = new URL(url).protocol === 'https:' ? https : http;
+      const req = client.request(
+        url,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+          timeout: this.options.timeoutMs,
+        },
+        (res) => {
+          res.resume(); // The response body isn't used
+          res.on('end', () => resolve(res.statusCode ?? 0));
+        }
+      );
+      req.on('timeout', () => {
+        req.destroy(new Error(`Timed out after ${this.options.timeoutMs} ms.`));
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}